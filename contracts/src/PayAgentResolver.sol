@@ -17,8 +17,13 @@ interface IExtendedResolver {
 /// handle resolution for all subnames (`alice.payagent.eth`, `bob.payagent.eth`, etc.)
 /// without requiring individual on-chain records.
 ///
-/// For `com.payagent.*` text keys, the resolver reverts with OffchainLookup,
-/// directing ENS clients to fetch the data from a trusted offchain gateway.
+/// Receipt subnames (`tx-{shortHash}.payments.alice.eth`) answer `com.ensio.*`
+/// keys, which this resolver rejects: to serve their receipts, receivers set
+/// PayAgentResolverV2 (which forwards every text key) on their own name.
+///
+/// For `com.payagent.*` and `com.pay.*` (PayConfig) text keys, the resolver
+/// reverts with OffchainLookup, directing ENS clients to fetch the data from a
+/// trusted offchain gateway.
 /// The gateway response is verified on-chain via resolveWithProof.
 contract PayAgentResolver is IExtendedResolver {
     using ECDSA for bytes32;
@@ -49,7 +54,9 @@ contract PayAgentResolver is IExtendedResolver {
 
     /// @param _signer Address of the gateway signer (must match GATEWAY_SIGNER_KEY)
     /// @param _gatewayUrl ERC-3668 gateway URL template, e.g.
-    ///        "https://app.example.com/api/ens/gateway/{sender}/{data}.json"
+    ///        "https://app.example.com/api/ens/gateway/{sender}/{data}.json", or
+    ///        "https://app.example.com/api/ens/gateway/{sender}" for POST requests
+    ///        (no URL length limit on long calldata)
     constructor(address _signer, string memory _gatewayUrl) {
         signer = _signer;
         gatewayUrl = _gatewayUrl;
@@ -58,7 +65,7 @@ contract PayAgentResolver is IExtendedResolver {
     // --- EIP-165 ---
 
     /// @notice Advertises support for IExtendedResolver (ENSIP-10) and EIP-165
-    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+    function supportsInterface(bytes4 interfaceId) external pure virtual returns (bool) {
         return interfaceId == type(IExtendedResolver).interfaceId // 0x9061b923
             || interfaceId == 0x01ffc9a7; // EIP-165
     }
@@ -71,6 +78,7 @@ contract PayAgentResolver is IExtendedResolver {
     function resolve(bytes calldata name, bytes calldata data)
         external
         view
+        virtual
         override
         returns (bytes memory)
     {
@@ -85,7 +93,7 @@ contract PayAgentResolver is IExtendedResolver {
         // Decode the key from the text() call: text(bytes32 node, string key)
         (, string memory key) = abi.decode(data[4:], (bytes32, string));
 
-        // Only handle com.payagent.* keys
+        // Only handle com.payagent.* and com.pay.* keys
         if (!_isPayAgentKey(key)) {
             revert("PayAgentResolver: not a payagent key");
         }
@@ -142,7 +150,7 @@ contract PayAgentResolver is IExtendedResolver {
         );
 
         address recovered = ethSignedHash.recover(sig);
-        if (recovered != signer) {
+        if (!_isTrustedSigner(recovered)) {
             revert InvalidSignature();
         }
 
@@ -151,10 +159,21 @@ contract PayAgentResolver is IExtendedResolver {
 
     // --- Internal helpers ---
 
-    /// @dev Returns true if the key starts with "com.payagent."
+    /// @dev Whether gateway responses signed by `account` are accepted
+    function _isTrustedSigner(address account) internal view virtual returns (bool) {
+        return account == signer;
+    }
+
+    /// @dev Returns true if the key starts with "com.payagent." or, for the
+    ///      PayConfig records (com.pay.config and its per-field keys), "com.pay."
     function _isPayAgentKey(string memory key) internal pure returns (bool) {
+        return _hasPrefix(key, "com.payagent.") || _hasPrefix(key, "com.pay.");
+    }
+
+    /// @dev Returns true if `key` starts with `prefixString`
+    function _hasPrefix(string memory key, string memory prefixString) internal pure returns (bool) {
         bytes memory keyBytes = bytes(key);
-        bytes memory prefix = bytes("com.payagent.");
+        bytes memory prefix = bytes(prefixString);
         if (keyBytes.length < prefix.length) return false;
         for (uint256 i = 0; i < prefix.length; i++) {
             if (keyBytes[i] != prefix[i]) return false;
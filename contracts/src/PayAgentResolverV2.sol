@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { PayAgentResolver, IExtendedResolver } from "./PayAgentResolver.sol";
+
+/// @title PayAgentResolverV2
+/// @notice PayAgentResolver that also forwards addr(), ENSIP-9 multicoin
+///         addr(node, coinType) and contenthash() to the gateway, so wildcard
+///         names (`alice.payagent.eth`) resolve to the receiver's address on
+///         each chain and can be used as payment identifiers in wallets.
+///
+/// Every text() key is forwarded, not only `com.payagent.*` and `com.pay.*`.
+/// Responses are verified by the inherited resolveWithProof.
+contract PayAgentResolverV2 is PayAgentResolver {
+    bytes4 private constant TEXT_SELECTOR = 0x59d1d43c;        // text(bytes32,string)
+    bytes4 private constant ADDR_SELECTOR = 0x3b3b57de;        // addr(bytes32)
+    bytes4 private constant ADDR_COIN_SELECTOR = 0xf1cb7e06;   // addr(bytes32,uint256)
+    bytes4 private constant CONTENTHASH_SELECTOR = 0xbc1c58d1; // contenthash(bytes32)
+
+    /// @param _signer Address of the gateway signer (must match GATEWAY_SIGNER_KEY)
+    /// @param _gatewayUrl ERC-3668 gateway URL template
+    constructor(address _signer, string memory _gatewayUrl) PayAgentResolver(_signer, _gatewayUrl) {}
+
+    // --- EIP-165 ---
+
+    /// @notice Advertises ENSIP-10 plus the forwarded resolver profiles. Each
+    ///         profile has a single function, so its interface ID is that
+    ///         function's selector.
+    function supportsInterface(bytes4 interfaceId) external pure override returns (bool) {
+        return interfaceId == type(IExtendedResolver).interfaceId // 0x9061b923
+            || interfaceId == TEXT_SELECTOR        // ITextResolver
+            || interfaceId == ADDR_SELECTOR        // IAddrResolver
+            || interfaceId == ADDR_COIN_SELECTOR   // IAddressResolver
+            || interfaceId == CONTENTHASH_SELECTOR // IContentHashResolver
+            || interfaceId == 0x01ffc9a7; // EIP-165
+    }
+
+    // --- ENSIP-10 resolve (wildcard) ---
+
+    /// @notice Called by ENS Universal Resolver. Accepts DNS wire-format name for wildcard support.
+    /// @param name DNS wire-format encoded name (e.g. \x05alice\x08payagent\x03eth\x00)
+    /// @param data The ABI-encoded resolver call: text(), addr() or contenthash()
+    function resolve(bytes calldata name, bytes calldata data)
+        external
+        view
+        override
+        returns (bytes memory)
+    {
+        bytes4 selector = bytes4(data[:4]);
+        if (
+            selector != TEXT_SELECTOR
+                && selector != ADDR_SELECTOR
+                && selector != ADDR_COIN_SELECTOR
+                && selector != CONTENTHASH_SELECTOR
+        ) {
+            revert("PayAgentResolverV2: unsupported function");
+        }
+
+        // Same extraData as v1: abi.encode(name, data). The gateway decodes the
+        // resolver call itself and ABI-encodes the matching return type.
+        bytes memory extraData = abi.encode(name, data);
+
+        string[] memory urls = new string[](1);
+        urls[0] = gatewayUrl;
+
+        revert OffchainLookup(
+            address(this),
+            urls,
+            extraData,        // callData sent to gateway
+            this.resolveWithProof.selector,
+            extraData         // passed back to resolveWithProof
+        );
+    }
+}
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { PayAgentResolverV2 } from "./PayAgentResolverV2.sol";
+
+/// @title PayAgentResolverV3
+/// @notice PayAgentResolverV2 that accepts gateway responses from any signer
+///         in an owner-managed set, so the gateway key can be rotated without
+///         redeploying.
+///
+/// Rotation: add the new signer, switch the gateway's GATEWAY_ACTIVE_SIGNER
+/// to it, and remove the old signer once its validity window has ended (the
+/// gateway never signs responses that expire after that). Both signers are
+/// trusted in between, so responses already in flight still verify.
+///
+/// The inherited `signer` is the signer the resolver was deployed with; it
+/// is trusted only while it is in the set.
+contract PayAgentResolverV3 is PayAgentResolverV2 {
+    address public owner;
+
+    /// @notice Gateway signers whose responses are accepted
+    mapping(address => bool) public isSigner;
+
+    error Unauthorized();
+    error InvalidSigner();
+    error InvalidOwner();
+
+    event SignerAdded(address indexed signer);
+    event SignerRemoved(address indexed signer);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert Unauthorized();
+        _;
+    }
+
+    /// @param _signer Initial gateway signer (must match the active gateway key)
+    /// @param _gatewayUrl ERC-3668 gateway URL template
+    constructor(address _signer, string memory _gatewayUrl) PayAgentResolverV2(_signer, _gatewayUrl) {
+        if (_signer == address(0)) revert InvalidSigner();
+        owner = msg.sender;
+        isSigner[_signer] = true;
+        emit SignerAdded(_signer);
+    }
+
+    /// @notice Trust responses signed by `account`
+    function addSigner(address account) external onlyOwner {
+        if (account == address(0)) revert InvalidSigner();
+        if (isSigner[account]) return;
+        isSigner[account] = true;
+        emit SignerAdded(account);
+    }
+
+    /// @notice Stop trusting responses signed by `account`
+    function removeSigner(address account) external onlyOwner {
+        if (!isSigner[account]) return;
+        isSigner[account] = false;
+        emit SignerRemoved(account);
+    }
+
+    /// @notice Transfer ownership. The zero address is refused, since it
+    ///         would lock the signer set for good.
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidOwner();
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    function _isTrustedSigner(address account) internal view override returns (bool) {
+        return isSigner[account];
+    }
+}
@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/// @title ReceiptAnchor
+/// @notice Merkle roots of PayAgent payment receipt batches, so a receipt
+///         served over CCIP-Read can be checked against a commitment made
+///         on-chain instead of trusting the gateway key alone.
+///
+/// Batches are numbered from 0 and committed in order by an owner-managed
+/// set of committers (the receipt anchoring job). A batch can't be
+/// overwritten, so a retried commit of a batch that already landed reverts
+/// instead of replacing it.
+///
+/// Leaves are double-hashed and pairs hashed in sorted order, as in
+/// OpenZeppelin's StandardMerkleTree:
+///   leaf = keccak256(bytes.concat(keccak256(abi.encode(
+///     bytes32 txHash, string amount, string token, string sender,
+///     string receiver, uint256 timestamp))))
+contract ReceiptAnchor {
+    struct Batch {
+        bytes32 root;
+        uint64 committedAt;
+        uint32 count;
+    }
+
+    address public owner;
+
+    /// @notice Accounts allowed to commit batches
+    mapping(address => bool) public isCommitter;
+
+    /// @notice Number of committed batches (the next batch ID)
+    uint256 public batchCount;
+
+    mapping(uint256 => Batch) public batches;
+
+    error Unauthorized();
+    error InvalidCommitter();
+    error InvalidBatch(uint256 expected);
+    error EmptyBatch();
+
+    event BatchCommitted(uint256 indexed batchId, bytes32 root, uint256 count);
+    event CommitterAdded(address indexed account);
+    event CommitterRemoved(address indexed account);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert Unauthorized();
+        _;
+    }
+
+    /// @param _committer Initial committer (the anchoring job's account)
+    constructor(address _committer) {
+        if (_committer == address(0)) revert InvalidCommitter();
+        owner = msg.sender;
+        isCommitter[_committer] = true;
+        emit CommitterAdded(_committer);
+    }
+
+    /// @notice Commit the root of batch `batchId`, which must be the next one
+    /// @param count Number of receipts in the batch
+    function commit(uint256 batchId, bytes32 root, uint32 count) external {
+        if (!isCommitter[msg.sender]) revert Unauthorized();
+        if (batchId != batchCount) revert InvalidBatch(batchCount);
+        if (root == bytes32(0) || count == 0) revert EmptyBatch();
+
+        batches[batchId] = Batch({ root: root, committedAt: uint64(block.timestamp), count: count });
+        batchCount = batchId + 1;
+        emit BatchCommitted(batchId, root, count);
+    }
+
+    /// @notice Root of batch `batchId`, or zero if it hasn't been committed
+    function rootOf(uint256 batchId) external view returns (bytes32) {
+        return batches[batchId].root;
+    }
+
+    /// @notice Whether `leaf` is in batch `batchId`
+    function verify(uint256 batchId, bytes32[] calldata proof, bytes32 leaf) external view returns (bool) {
+        bytes32 root = batches[batchId].root;
+        return root != bytes32(0) && MerkleProof.verifyCalldata(proof, root, leaf);
+    }
+
+    /// @notice Allow `account` to commit batches
+    function addCommitter(address account) external onlyOwner {
+        if (account == address(0)) revert InvalidCommitter();
+        if (isCommitter[account]) return;
+        isCommitter[account] = true;
+        emit CommitterAdded(account);
+    }
+
+    /// @notice Stop `account` from committing batches
+    function removeCommitter(address account) external onlyOwner {
+        if (!isCommitter[account]) return;
+        isCommitter[account] = false;
+        emit CommitterRemoved(account);
+    }
+
+    /// @notice Transfer ownership
+    function transferOwnership(address newOwner) external onlyOwner {
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+}
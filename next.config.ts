@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Loads its WebAssembly binary from node_modules at runtime
+  serverExternalPackages: ["sql.js"],
   images: {
     remotePatterns: [
       {
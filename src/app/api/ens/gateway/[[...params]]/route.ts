@@ -0,0 +1,574 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeAbiParameters,
+  isAddress,
+  isHex,
+  parseAbi,
+  sliceHex,
+  zeroAddress,
+  type Hex,
+} from 'viem'
+import {
+  getPreferenceRecord,
+  getPreferenceRecordByNode,
+  type PreferenceRecord,
+} from '@/lib/ens/store'
+import { payConfigTextRecords } from '@/lib/ens/pay-config'
+import { ETH_COIN_TYPE, resolveAddressRecord } from '@/lib/ens/records'
+import { getReceiptTextRecordsBySubname } from '@/lib/ens/receipt-store'
+import { getReceiptProof } from '@/lib/ens/receipt-anchor'
+import { signGatewayResponse } from '@/lib/ens/gateway-signer'
+import { cacheGatewayResponse, getCachedGatewayResponse } from '@/lib/ens/gateway-cache'
+import { resolveENS } from '@/lib/ens/resolve'
+import { CHAIN_MAP } from '@/lib/routing/tokens'
+import { formatApy, getVaultApy } from '@/lib/yield/apy'
+import { isPastExpiry } from '@/lib/invoices/lifecycle'
+import { getInvoice } from '@/lib/invoices/store'
+import { getPaymentRequest, isPaymentRequestExpired, type PaymentRequest } from '@/lib/payments/requests'
+
+/**
+ * Decode a DNS wire-format name into its labels.
+ * e.g. \x05alice\x08payagent\x03eth\x00 → ["alice", "payagent", "eth"]
+ */
+function decodeDnsName(dnsBytes: Uint8Array): string[] {
+  const labels: string[] = []
+  let offset = 0
+  while (offset < dnsBytes.length) {
+    const len = dnsBytes[offset]
+    if (len === 0) break
+    offset++
+    const label = new TextDecoder().decode(dnsBytes.slice(offset, offset + len))
+    labels.push(label)
+    offset += len
+  }
+  return labels
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+}
+
+/**
+ * ERC-3668 error response. A 4xx tells the client to give up, a 5xx to try
+ * the resolver's next gateway URL.
+ */
+function gatewayError(message: string, status: number): NextResponse {
+  return NextResponse.json({ message }, { status, headers: { ...CORS_HEADERS, 'Cache-Control': 'no-store' } })
+}
+
+function gatewayResponse(data: Hex, maxAge: number): NextResponse {
+  return NextResponse.json(
+    { data },
+    { headers: { ...CORS_HEADERS, 'Cache-Control': `public, max-age=${maxAge}` } },
+  )
+}
+
+/**
+ * Signature lifetime in seconds per record type, which also bounds how long
+ * the response is cached. Receipts never change once stored and payment
+ * request text is derived from the name alone; APY moves constantly. Signed
+ * requests don't change either, but turn unverified when they expire.
+ * Missing receipts are short-lived so new ones show up quickly elsewhere.
+ */
+const RECORD_TTLS = {
+  receipt: 24 * 60 * 60,
+  'payment-request': 24 * 60 * 60,
+  'signed-request': 60,
+  preference: 5 * 60,
+  'invoice-status': 60,
+  apy: 60,
+  missing: 60,
+} as const
+
+/**
+ * TTL and cache tags (stored records the response depends on) for a call.
+ */
+function cachePolicy(parsed: ParsedSubname, call: ResolverCall, found: boolean): { ttl: number; tags: string[] } {
+  const preferenceTags = (name: string | undefined) => [
+    ...(name ? [`preferences/${name.toLowerCase()}`] : []),
+    `preference-nodes/${call.node.toLowerCase()}`,
+  ]
+
+  switch (parsed?.type) {
+    case 'apy':
+      // The vault comes from the receiver's preference
+      return { ttl: RECORD_TTLS.apy, tags: [`preferences/${parsed.parentName.toLowerCase()}`] }
+    case 'invoice-status':
+      return { ttl: RECORD_TTLS['invoice-status'], tags: [`invoices/${parsed.invoiceId}`] }
+    case 'receipt':
+      // Receipts are keyed by full hash, so any new receipt may be the one.
+      // The proof appears once the receipt's batch is anchored
+      return {
+        ttl: found ? RECORD_TTLS.receipt : RECORD_TTLS.missing,
+        tags: call.type === 'text' && call.key === 'com.ensio.proof'
+          ? ['receipts', 'receipt-batch-index']
+          : ['receipts'],
+      }
+    case 'payment-request':
+      return call.type === 'text'
+        ? { ttl: RECORD_TTLS['payment-request'], tags: [] }
+        : { ttl: RECORD_TTLS.preference, tags: preferenceTags(parsed.recipient) }
+    case 'signed-request':
+      // addr() follows the receiver's preference, under either name the
+      // request can resolve from (see findSignedRequest)
+      return {
+        ttl: RECORD_TTLS['signed-request'],
+        tags: [
+          `payment-requests/${parsed.id}`,
+          `preferences/${parsed.labels.slice(1).join('.').toLowerCase()}`,
+          `preferences/${parsed.labels[1].toLowerCase()}.eth`,
+        ],
+      }
+    default:
+      return { ttl: RECORD_TTLS.preference, tags: preferenceTags(parsed?.name) }
+  }
+}
+
+const RESOLVER_ABI = parseAbi([
+  'function text(bytes32 node, string key) view returns (string)',
+  'function addr(bytes32 node) view returns (address)',
+  'function addr(bytes32 node, uint256 coinType) view returns (bytes)',
+  'function contenthash(bytes32 node) view returns (bytes)',
+])
+
+type ResolverCall =
+  | { type: 'text'; node: Hex; key: string }
+  | { type: 'addr'; node: Hex; coinType?: bigint }
+  | { type: 'contenthash'; node: Hex }
+
+/**
+ * Decode the resolver calldata forwarded by the resolver contract:
+ * text(bytes32,string), addr(bytes32), addr(bytes32,uint256) (ENSIP-9) or
+ * contenthash(bytes32).
+ */
+function decodeResolverCall(calldata: Hex): ResolverCall | { error: string } {
+  let decoded
+  try {
+    decoded = decodeFunctionData({ abi: RESOLVER_ABI, data: calldata })
+  } catch {
+    return { error: `Unsupported resolver function ${calldata.length >= 10 ? sliceHex(calldata, 0, 4) : calldata}` }
+  }
+
+  const [node] = decoded.args
+  if (decoded.functionName === 'text') return { type: 'text', node, key: decoded.args[1] }
+  if (decoded.functionName === 'contenthash') return { type: 'contenthash', node }
+  return { type: 'addr', node, coinType: decoded.args[1] }
+}
+
+type ParsedSubname =
+  | { type: 'preference'; name: string }
+  | { type: 'receipt'; shortHash: string; receiverName: string }
+  | { type: 'payment-request'; amount: string; token: string; recipient: string }
+  | { type: 'signed-request'; id: string; labels: string[] }
+  | { type: 'apy'; parentName: string }
+  | { type: 'invoice-status'; invoiceId: string; parentName: string }
+  | null
+
+const PAYMENT_REQUEST_RE = /^pay-(\d+(?:\.\d+)?)-([a-zA-Z]+)$/i
+const SIGNED_REQUEST_RE = /^req-([0-9a-f]{12})$/i
+
+/**
+ * The receiver's configured vault: receive.vault of their PayConfig (on
+ * its receive chain), else the yieldroute.vault record, which is on Base.
+ */
+async function findReceiverVault(name: string): Promise<{ address: string; chainId: number } | null> {
+  const resolution = await resolveENS(name).catch(() => null)
+  const configVault = resolution?.payConfig?.receive.vault
+  if (configVault) return { address: configVault, chainId: resolution.payConfig!.receive.chain }
+  return resolution?.yieldVault ? { address: resolution.yieldVault, chainId: CHAIN_MAP.base } : null
+}
+
+/**
+ * Signed request for req-{id}.{name}, if `name` is its receiver: either
+ * the receiver's name itself or, under a wildcard parent, its first label
+ * plus ".eth" (as for preference names).
+ */
+async function findSignedRequest(parsed: { id: string; labels: string[] }): Promise<PaymentRequest | null> {
+  const request = await getPaymentRequest(parsed.id)
+  if (!request) return null
+
+  const parentName = parsed.labels.slice(1).join('.').toLowerCase()
+  const wildcardName = `${parsed.labels[1]}.eth`.toLowerCase()
+  return request.receiverEns === parentName || request.receiverEns === wildcardName ? request : null
+}
+
+/**
+ * Invoice status for status.inv-{id}.{name}, read from the invoice store.
+ *
+ * Only invoices issued by `parentName` resolve, so one name can't be used to
+ * probe another's invoices: the receiver is either `parentName` itself or,
+ * under a wildcard parent, its first label plus ".eth" (as for preference
+ * names). Expiry is applied on read (the store is updated lazily by
+ * /api/invoice).
+ */
+async function getInvoiceStatus(
+  invoiceId: string,
+  parentName: string,
+): Promise<{ status: string; amount: string; paidAt?: string; txHash?: string } | null> {
+  const invoice = await getInvoice(invoiceId)
+  const receiverEns = invoice?.receiverEns?.toLowerCase()
+  const wildcardName = `${parentName.split('.')[0]}.eth`.toLowerCase()
+  if (!invoice || (receiverEns !== parentName.toLowerCase() && receiverEns !== wildcardName)) {
+    return null
+  }
+
+  return {
+    status: isPastExpiry(invoice) ? 'expired' : invoice.status,
+    amount: `${invoice.amount} ${invoice.currency ?? invoice.token}`,
+    paidAt: invoice.paidAt,
+    txHash: invoice.paidTxHash ?? invoice.payments.at(-1)?.txHash,
+  }
+}
+
+/**
+ * Parse a wildcard DNS name into its subname type.
+ *
+ * Supports:
+ *   - "alice.payagent.eth" → preference lookup for "alice.eth"
+ *   - "tx-0xabc12345.payments.alice.eth" → alice.eth's receipt with short hash "0xabc12345"
+ *   - "pay-10-usdc.alice.payagent.eth" → payment request (amount=10, token=USDC, recipient=alice.eth)
+ *   - "req-0123456789ab.alice.eth" → payment request signed by alice.eth (see /api/payment-requests)
+ *   - "apy.alice.eth" → current APY for alice's vault
+ *   - "status.inv-123.alice.eth" → invoice status
+ */
+function parseSubname(labels: string[]): ParsedSubname {
+  if (labels.length < 3) return null
+
+  const firstLabel = labels[0]
+
+  // APY lookup: apy.{name}.eth (3+ labels, first is "apy")
+  if (firstLabel === 'apy' && labels.length >= 3) {
+    const parentName = labels.slice(1).join('.')
+    return { type: 'apy', parentName }
+  }
+
+  // Invoice status: status.inv-{id}.{name}.eth
+  if (firstLabel === 'status' && labels.length >= 4 && labels[1].startsWith('inv-')) {
+    const invoiceId = labels[1].slice(4) // remove "inv-" prefix
+    const parentName = labels.slice(2).join('.')
+    return { type: 'invoice-status', invoiceId, parentName }
+  }
+
+  // Receipt subname: tx-{shortHash}.payments.{name}.eth, under any
+  // receiver whose resolver is PayAgentResolverV2
+  if (firstLabel.startsWith('tx-') && labels.length >= 4 && labels[1] === 'payments') {
+    const shortHash = firstLabel.slice(3) // remove "tx-" prefix
+    return { type: 'receipt', shortHash, receiverName: labels.slice(2).join('.') }
+  }
+
+  // Signed payment request: req-{id}.{name}.eth
+  const signedRequest = firstLabel.match(SIGNED_REQUEST_RE)
+  if (signedRequest) {
+    return { type: 'signed-request', id: signedRequest[1].toLowerCase(), labels }
+  }
+
+  // Payment request: pay-{amount}-{token}.{recipient}.payagent.eth (4+ labels)
+  if (labels.length >= 4) {
+    const match = firstLabel.match(PAYMENT_REQUEST_RE)
+    if (match) {
+      const recipient = `${labels[1]}.eth`
+      return { type: 'payment-request', amount: match[1], token: match[2].toUpperCase(), recipient }
+    }
+  }
+
+  // Default: preference lookup — first label is the user identifier
+  return { type: 'preference', name: `${firstLabel}.eth` }
+}
+
+/**
+ * Preference for a wildcard name, falling back to the node for direct
+ * resolution.
+ */
+async function findPreference(name: string | undefined, node: Hex): Promise<PreferenceRecord | null> {
+  return (name ? await getPreferenceRecord(name) : null) ?? getPreferenceRecordByNode(node)
+}
+
+/**
+ * Value of text record `key` for the parsed subname, or '' if it has none.
+ */
+async function textRecord(parsed: ParsedSubname, { node, key }: { node: Hex; key: string }): Promise<string> {
+  let value = ''
+
+  if (parsed?.type === 'apy') {
+    // APY of the receiver's vault from on-chain share prices, falling back
+    // to the yield-data provider; names without a vault resolve to ''
+    const vault = await findReceiverVault(parsed.parentName)
+    const info = vault ? await getVaultApy(vault.address, vault.chainId) : null
+
+    if (info) {
+      if (key === 'ensio.apy') {
+        value = info.apy !== null ? formatApy(info.apy) : ''
+      } else if (key === 'ensio.apy.7d') {
+        value = info.apy7d !== null ? formatApy(info.apy7d) : ''
+      } else if (key === 'ensio.apy.30d') {
+        value = info.apy30d !== null ? formatApy(info.apy30d) : ''
+      } else if (key === 'ensio.tvl') {
+        value = info.tvl ?? ''
+      } else if (key === 'ensio.protocol') {
+        value = info.protocol ?? ''
+      } else if (key === 'description' && info.apy !== null) {
+        value = `Current APY: ${formatApy(info.apy)}${info.protocol ? ` via ${info.protocol}` : ''}`
+      }
+    }
+  } else if (parsed?.type === 'invoice-status') {
+    // Invoice status: return the invoice's current lifecycle state
+    // Unknown invoices resolve every key to an empty string
+    const invoiceStatus = await getInvoiceStatus(parsed.invoiceId, parsed.parentName)
+
+    if (invoiceStatus) {
+      if (key === 'ensio.invoice.status') {
+        value = invoiceStatus.status
+      } else if (key === 'ensio.invoice.amount') {
+        value = invoiceStatus.amount
+      } else if (key === 'ensio.invoice.paidAt') {
+        value = invoiceStatus.paidAt || ''
+      } else if (key === 'ensio.invoice.txHash') {
+        value = invoiceStatus.txHash || ''
+      } else if (key === 'description') {
+        value = `Invoice ${parsed.invoiceId}: ${invoiceStatus.status}`
+      }
+    }
+  } else if (parsed?.type === 'receipt') {
+    // Receipt lookup: return text record values from stored receipt
+    // Support both com.payagent.* and com.ensio.* keys
+    const records = await getReceiptTextRecordsBySubname(parsed.receiverName, parsed.shortHash)
+    if (records && key === 'com.ensio.proof') {
+      // Merkle inclusion proof as JSON, empty until the batch is anchored
+      const proof = await getReceiptProof(records['com.ensio.txHash'])
+      value = proof ? JSON.stringify(proof) : ''
+    } else if (records && key in records) {
+      value = records[key as keyof typeof records]
+    }
+  } else if (parsed?.type === 'payment-request') {
+    // Payment request: dynamically generate values from the name structure
+    if (key === 'com.payagent.amount') {
+      value = parsed.amount
+    } else if (key === 'com.payagent.token') {
+      value = parsed.token
+    } else if (key === 'com.payagent.recipient') {
+      value = parsed.recipient
+    } else if (key === 'com.payagent.verified') {
+      // Anyone can make up a pay- name; only req- names are signed
+      value = 'false'
+    }
+  } else if (parsed?.type === 'signed-request') {
+    // Signed payment request: the fields the receiver signed. Unknown
+    // requests, or ones under another name, only answer verified=false
+    const request = await findSignedRequest(parsed)
+    const expired = request ? isPaymentRequestExpired(request) : false
+
+    if (key === 'com.payagent.verified') {
+      value = request && !expired ? 'true' : 'false'
+    } else if (request) {
+      if (key === 'com.payagent.amount') {
+        value = request.amount
+      } else if (key === 'com.payagent.token') {
+        value = request.token
+      } else if (key === 'com.payagent.chain') {
+        value = request.chain
+      } else if (key === 'com.payagent.recipient') {
+        value = request.receiverEns
+      } else if (key === 'com.payagent.memo') {
+        value = request.memo
+      } else if (key === 'com.payagent.expires') {
+        value = String(request.expiry)
+      } else if (key === 'com.payagent.status') {
+        value = expired ? 'expired' : 'active'
+      } else if (key === 'description') {
+        value = `Pay ${request.amount} ${request.token} to ${request.receiverEns}${request.memo ? `: ${request.memo}` : ''}`
+      }
+    }
+  } else {
+    // Preference lookup — try by user name first (wildcard), fall back to node
+    const preference = await findPreference(parsed?.type === 'preference' ? parsed.name : undefined, node)
+
+    if (preference?.config) {
+      value = payConfigTextRecords(preference.config)[key] ?? ''
+    } else if (preference) {
+      if (key === 'com.payagent.token') {
+        value = preference.token
+      } else if (key === 'com.payagent.chain') {
+        value = preference.chain
+      }
+    }
+  }
+
+  return value
+}
+
+/**
+ * GET /api/ens/gateway/{sender}/{data}.json
+ * POST /api/ens/gateway (or /api/ens/gateway/{sender}) with body { sender, data }
+ *
+ * ERC-3668 CCIP-Read gateway with ENSIP-10 wildcard support. Clients use
+ * POST when the resolver's URL template has no {data}, which avoids URL
+ * length limits on long calldata.
+ *
+ * Called by ENS clients after receiving an OffchainLookup revert from
+ * PayAgentResolver. The extraData format is:
+ *   abi.encode(bytes dnsName, bytes resolverCalldata)
+ *
+ * The gateway decodes the DNS name to identify the subname (wildcard),
+ * decodes the resolver call, looks up the preference in the offchain store,
+ * and returns a signed response.
+ *
+ * Supported calls are text(), addr() and contenthash(), plus ENSIP-9
+ * addr(node, coinType). Preference names (and payment requests, via their
+ * recipient) resolve to the address records signed with SetRecords, with
+ * the preference signer as their ETH address; other calls return 404.
+ *
+ * Names with a signed PayConfig answer com.pay.config and its per-field
+ * keys (com.pay.token, com.pay.vault, com.pay.fallback.*, com.pay.limits.*)
+ * as well as the legacy com.payagent.token / com.payagent.chain.
+ *
+ * Errors follow ERC-3668: `{ message }` with 400 for a malformed request
+ * and 404 for an unsupported resolver function, which clients don't retry,
+ * and 500 for server errors, which send clients to the next gateway URL.
+ * Responses carry CORS headers so browser clients can call the gateway.
+ *
+ * Signed responses are cached per (sender, data) until stored records they
+ * depend on change, with an expiry per record type (RECORD_TTLS) that the
+ * Cache-Control max-age follows.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ params?: string[] }> },
+) {
+  const segments = (await params).params
+  if (!segments || segments.length !== 2) {
+    return gatewayError('Invalid gateway URL format: expected /{sender}/{data}.json', 400)
+  }
+  return handleGatewayRequest(segments[0], segments[1].replace(/\.json$/, ''))
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ params?: string[] }> },
+) {
+  const segments = (await params).params ?? []
+  if (segments.length > 1) {
+    return gatewayError('Invalid gateway URL format: expected / or /{sender}', 400)
+  }
+
+  let body: { sender?: unknown; data?: unknown }
+  try {
+    body = await req.json()
+  } catch {
+    return gatewayError('Request body must be JSON: { sender, data }', 400)
+  }
+  if (typeof body?.sender !== 'string' || typeof body.data !== 'string') {
+    return gatewayError('Missing sender or data', 400)
+  }
+
+  const urlSender = segments[0]?.replace(/\.json$/, '')
+  if (urlSender && urlSender.toLowerCase() !== body.sender.toLowerCase()) {
+    return gatewayError('sender in the URL and body differ', 400)
+  }
+  return handleGatewayRequest(body.sender, body.data)
+}
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS })
+}
+
+/**
+ * Resolve and sign one CCIP-Read request: `data` is the OffchainLookup
+ * callData, `sender` the resolver that reverted.
+ */
+async function handleGatewayRequest(sender: string, data: string): Promise<NextResponse> {
+  if (!isAddress(sender, { strict: false })) {
+    return gatewayError('Invalid sender address', 400)
+  }
+  if (!isHex(data)) {
+    return gatewayError('Invalid data: expected hex', 400)
+  }
+  const extraData = data
+
+  const cached = getCachedGatewayResponse(sender, extraData)
+  if (cached) return gatewayResponse(cached.data, cached.maxAge)
+
+  try {
+    // Decode extraData: abi.encode(bytes dnsName, bytes resolverCalldata)
+    let dnsNameHex: Hex
+    let resolverCalldata: Hex
+    try {
+      const decoded = decodeAbiParameters(
+        [
+          { name: 'name', type: 'bytes' },
+          { name: 'data', type: 'bytes' },
+        ],
+        extraData,
+      )
+      dnsNameHex = decoded[0] as Hex
+      resolverCalldata = decoded[1] as Hex
+    } catch {
+      return gatewayError('Failed to decode extraData', 400)
+    }
+
+    // Parse the DNS wire-format name
+    const dnsBytes = Buffer.from(dnsNameHex.slice(2), 'hex')
+    const labels = decodeDnsName(dnsBytes)
+
+    const call = decodeResolverCall(resolverCalldata)
+    if ('error' in call) {
+      return gatewayError(call.error, 404)
+    }
+
+    // Parse the subname to determine the type of lookup
+    const parsed = parseSubname(labels)
+    let result: Hex
+    let found = true
+
+    if (call.type === 'text') {
+      const value = await textRecord(parsed, call)
+      found = value !== ''
+      result = encodeAbiParameters([{ name: 'value', type: 'string' }], [value])
+    } else {
+      // Addresses and contenthash come from the name's preference; payment
+      // requests resolve to their recipient, so wallets can pay them as is
+      let preference: PreferenceRecord | null = null
+      if (parsed?.type === 'signed-request') {
+        const request = await findSignedRequest(parsed)
+        preference = request ? await getPreferenceRecord(request.receiverEns) : null
+      } else if (parsed?.type === 'preference' || parsed?.type === 'payment-request' || !parsed) {
+        preference = await findPreference(parsed?.type === 'payment-request' ? parsed.recipient : parsed?.name, call.node)
+      }
+
+      if (call.type === 'contenthash') {
+        result = encodeAbiParameters([{ type: 'bytes' }], [preference?.records?.contenthash ?? '0x'])
+      } else {
+        const value = preference
+          ? resolveAddressRecord(preference.records, call.coinType ?? ETH_COIN_TYPE, preference.signer)
+          : '0x'
+        // addr(bytes32) returns an address, addr(bytes32,uint256) raw bytes
+        result = call.coinType === undefined
+          ? encodeAbiParameters([{ type: 'address' }], [value === '0x' ? zeroAddress : value])
+          : encodeAbiParameters([{ type: 'bytes' }], [value])
+      }
+    }
+
+    // Sign the response with the active key, expiring per the record type
+    const { ttl, tags } = cachePolicy(parsed, call, found)
+    const { expires, signature } = await signGatewayResponse(sender as Hex, extraData, result, ttl)
+
+    // Return the signed response: abi.encode(bytes result, uint64 expires, bytes signature)
+    const responseData = encodeAbiParameters(
+      [
+        { name: 'result', type: 'bytes' },
+        { name: 'expires', type: 'uint64' },
+        { name: 'signature', type: 'bytes' },
+      ],
+      [result, expires, signature],
+    )
+
+    const maxAge = cacheGatewayResponse(sender, extraData, { data: responseData, expires: Number(expires) }, tags)
+    return gatewayResponse(responseData, maxAge)
+  } catch (error: unknown) {
+    console.error('CCIP-Read gateway error:', error)
+    return gatewayError(error instanceof Error ? error.message : 'Gateway error', 500)
+  }
+}
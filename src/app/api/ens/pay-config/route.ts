@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayConfigStatus } from '@/lib/ens/resolve'
+import { buildUpgradePayConfigTransaction } from '@/lib/ens/write'
+import { migratePayConfig, validatePayConfig } from '@/lib/ens/pay-config'
+
+/**
+ * GET /api/ens/pay-config?name=alice.eth
+ *
+ * Returns the name's payment config migrated to com.pay.config 2.0, where
+ * it came from (an existing com.pay.config or the legacy records), and
+ * whether an upgrade is available.
+ */
+export async function GET(req: NextRequest) {
+  const name = req.nextUrl.searchParams.get('name')
+  if (!name) {
+    return NextResponse.json({ error: 'Missing name parameter' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await getPayConfigStatus(name))
+  } catch (error) {
+    console.error('Pay config status error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read pay config' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/ens/pay-config
+ *
+ * Build the multicall that upgrades a name to com.pay.config 2.0 and
+ * clears the legacy records it replaces.
+ *
+ * Body:
+ * - ensName: string (required) - ENS name to upgrade
+ * - config: PayConfig (optional) - config to write; defaults to the one
+ *   migrated from the name's current records
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { ensName, config } = await request.json()
+
+    if (!ensName || typeof ensName !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing or invalid ensName' },
+        { status: 400 }
+      )
+    }
+
+    const status = await getPayConfigStatus(ensName)
+
+    let target = status.config
+    if (config !== undefined) {
+      const validated = validatePayConfig(config)
+      if ('error' in validated) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+      target = migratePayConfig(validated.config)
+    }
+
+    if (!target) {
+      return NextResponse.json(
+        { error: status.error ?? `No payment records to migrate on ${ensName}` },
+        { status: status.error ? 422 : 404 }
+      )
+    }
+
+    const tx = await buildUpgradePayConfigTransaction(ensName, target, Object.keys(status.legacyRecords))
+
+    return NextResponse.json({ ...tx, config: target })
+  } catch (error) {
+    console.error('Pay config upgrade error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build transaction' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyTypedData, createPublicClient, http } from 'viem'
+import { verifyTypedData, createPublicClient, http, isAddress, isHex } from 'viem'
 import { normalize } from 'viem/ens'
 import { mainnet } from 'viem/chains'
-import { PREFERENCE_DOMAIN, PREFERENCE_TYPES, buildPreferenceMessage } from '@/lib/ens/eip712'
-import { setPreference, getNonce } from '@/lib/ens/store'
+import {
+  MAX_PREFERENCE_DEADLINE_SECONDS,
+  PAY_CONFIG_TYPES,
+  PREFERENCE_DOMAIN,
+  PREFERENCE_TYPES,
+  RECORDS_TYPES,
+  buildPayConfigMessage,
+  buildPreferenceMessage,
+  buildRecordsMessage,
+} from '@/lib/ens/eip712'
+import { validatePayConfig, type PayConfig } from '@/lib/ens/pay-config'
+import { validateNameRecords, type NameRecords } from '@/lib/ens/records'
+import {
+  setPreference,
+  setPreferenceRecords,
+  getNonce,
+  getPreferenceRecord,
+  getPreferenceRecordByNode,
+  getPreferencesBySigner,
+  getPreferenceAuditLog,
+} from '@/lib/ens/store'
 
 const client = createPublicClient({
   chain: mainnet,
@@ -15,28 +34,106 @@ const client = createPublicClient({
  *
  * Accepts an EIP-712 signature proving the ENS name owner wants to set
  * their preferred token + chain. Verifies ownership and stores offchain.
+ *
+ * Send `config` (a PayConfig signed as SetPayConfig) instead of `token` and
+ * `chain` to store the full config: vault, fallbacks and limits are then
+ * served over CCIP-Read alongside the token and chain.
+ *
+ * Send `records` (signed as SetRecords) instead to set the name's address
+ * records (`addresses`, keyed by ENSIP-9 coin type) and `contenthash`,
+ * served over CCIP-Read for addr() and contenthash(). The name must already
+ * have a preference; its token, chain and config are kept.
+ *
+ * The signed message carries the name's current nonce and a deadline (unix
+ * seconds, at most MAX_PREFERENCE_DEADLINE_SECONDS ahead). Expired
+ * signatures are rejected with 401; a nonce that isn't the current one
+ * (already used, or out of order) with 409.
  */
 export async function POST(req: NextRequest) {
   try {
-    const { ensName, token, chain, nonce, signature, signerAddress } = await req.json()
+    const { ensName, token, chain, config, records, nonce, deadline, signature, signerAddress } = await req.json()
 
-    if (!ensName || !token || !chain || !signature || !signerAddress) {
+    if (
+      !ensName || (config === undefined && records === undefined && (!token || !chain)) ||
+      !signature || !signerAddress || nonce === undefined || deadline === undefined
+    ) {
       return NextResponse.json(
-        { error: 'Missing required fields: ensName, token, chain, signature, signerAddress' },
+        { error: 'Missing required fields: ensName, token and chain (or config, or records), nonce, deadline, signature, signerAddress' },
         { status: 400 },
       )
     }
 
+    let payConfig: PayConfig | undefined
+    if (config !== undefined) {
+      const validated = validatePayConfig(config)
+      if ('error' in validated) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+      payConfig = validated.config
+    }
+
+    let nameRecords: NameRecords | undefined
+    if (records !== undefined) {
+      const validated = validateNameRecords(records)
+      if ('error' in validated) {
+        return NextResponse.json({ error: validated.error }, { status: 400 })
+      }
+      nameRecords = validated.records
+    }
+
+    const parsedNonce = parseUint(nonce)
+    const parsedDeadline = parseUint(deadline)
+    if (parsedNonce === null || parsedDeadline === null) {
+      return NextResponse.json({ error: 'nonce and deadline must be non-negative integers' }, { status: 400 })
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000))
+    if (parsedDeadline < now) {
+      return NextResponse.json({ error: 'Signature expired' }, { status: 401 })
+    }
+    if (parsedDeadline > now + BigInt(MAX_PREFERENCE_DEADLINE_SECONDS)) {
+      return NextResponse.json(
+        { error: `Deadline too far in the future (max ${MAX_PREFERENCE_DEADLINE_SECONDS}s)` },
+        { status: 400 },
+      )
+    }
+
+    // Cheap check before the RPC calls; setPreference re-checks atomically
+    const currentNonce = await getNonce(ensName)
+    if (parsedNonce !== currentNonce) {
+      return NextResponse.json(
+        { error: `Invalid nonce: expected ${currentNonce}`, nonce: currentNonce.toString() },
+        { status: 409 },
+      )
+    }
+
     // Verify the EIP-712 signature
-    const message = buildPreferenceMessage(ensName, token, chain, BigInt(nonce))
-    const isValid = await verifyTypedData({
-      address: signerAddress as `0x${string}`,
-      domain: PREFERENCE_DOMAIN,
-      types: PREFERENCE_TYPES,
-      primaryType: 'SetPreference',
-      message,
-      signature: signature as `0x${string}`,
-    })
+    const isValid = nameRecords
+      ? await verifyTypedData({
+          address: signerAddress as `0x${string}`,
+          domain: PREFERENCE_DOMAIN,
+          types: RECORDS_TYPES,
+          primaryType: 'SetRecords',
+          message: buildRecordsMessage(ensName, nameRecords, parsedNonce, parsedDeadline),
+          signature: signature as `0x${string}`,
+        })
+      : payConfig
+      ? await verifyTypedData({
+          address: signerAddress as `0x${string}`,
+          domain: PREFERENCE_DOMAIN,
+          types: PAY_CONFIG_TYPES,
+          primaryType: 'SetPayConfig',
+          message: buildPayConfigMessage(ensName, payConfig, parsedNonce, parsedDeadline),
+          signature: signature as `0x${string}`,
+        })
+      : await verifyTypedData({
+          address: signerAddress as `0x${string}`,
+          domain: PREFERENCE_DOMAIN,
+          types: PREFERENCE_TYPES,
+          primaryType: 'SetPreference',
+          message: buildPreferenceMessage(ensName, token, chain, parsedNonce, parsedDeadline),
+          signature: signature as `0x${string}`,
+        })
 
     if (!isValid) {
       return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
@@ -56,10 +153,22 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Store the preference
-    await setPreference(ensName, token, chain, signerAddress, signature)
+    // Store the preference, consuming the nonce
+    const signed = {
+      ensName,
+      signer: signerAddress,
+      signature,
+      nonce: parsedNonce,
+      deadline: parsedDeadline,
+    }
+    const result = nameRecords
+      ? await setPreferenceRecords({ ...signed, records: nameRecords })
+      : await setPreference(payConfig ? { ...signed, config: payConfig } : { ...signed, token, chain })
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, nonce: result.nonce.toString() })
   } catch (error: unknown) {
     console.error('ENS preferences API error:', error)
     const message = error instanceof Error ? error.message : 'Failed to set preference'
@@ -67,16 +176,64 @@ export async function POST(req: NextRequest) {
   }
 }
 
+function parseUint(value: unknown): bigint | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  try {
+    const parsed = BigInt(value)
+    return parsed >= BigInt(0) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * GET /api/ens/preferences?name=foo.eth
+ *   Returns the current nonce for signing a new preference, plus the stored
+ *   preference if there is one.
+ * GET /api/ens/preferences?node=0x...
+ *   Looks up a stored preference by namehash.
+ * GET /api/ens/preferences?address=0x...
+ *   Lists every name whose preference was signed by the address.
  *
- * Returns the current nonce for signing a new preference.
+ * Add `audit=1` to `name` or `address` for the log of accepted changes.
  */
 export async function GET(req: NextRequest) {
   const name = req.nextUrl.searchParams.get('name')
+  const node = req.nextUrl.searchParams.get('node')
+  const address = req.nextUrl.searchParams.get('address')
+
+  const audit = req.nextUrl.searchParams.get('audit') === '1'
+
+  if (address) {
+    if (!isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+    if (audit) {
+      const changes = await getPreferenceAuditLog({ signer: address })
+      return NextResponse.json({ address: address.toLowerCase(), changes })
+    }
+    const preferences = await getPreferencesBySigner(address)
+    return NextResponse.json({ address: address.toLowerCase(), preferences })
+  }
+
+  if (node) {
+    if (!isHex(node) || node.length !== 66) {
+      return NextResponse.json({ error: 'Invalid node' }, { status: 400 })
+    }
+    const preference = await getPreferenceRecordByNode(node)
+    if (!preference) {
+      return NextResponse.json({ error: 'Preference not found' }, { status: 404 })
+    }
+    return NextResponse.json(preference)
+  }
+
   if (!name) {
-    return NextResponse.json({ error: 'Missing name parameter' }, { status: 400 })
+    return NextResponse.json({ error: 'Missing name, node or address parameter' }, { status: 400 })
+  }
+  if (audit) {
+    const changes = await getPreferenceAuditLog({ ensName: name })
+    return NextResponse.json({ name: name.toLowerCase(), changes })
   }
-  const nonce = await getNonce(name)
-  return NextResponse.json({ nonce: nonce.toString() })
+  const [nonce, preference] = await Promise.all([getNonce(name), getPreferenceRecord(name)])
+  return NextResponse.json({ nonce: nonce.toString(), preference })
 }
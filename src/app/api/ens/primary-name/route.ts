@@ -1,23 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getMultichainName } from '@/lib/ens/multichain'
+import {
+  MAX_PRIMARY_NAME_BATCH,
+  getMultichainName,
+  getMultichainNames,
+  supportsPrimaryNames,
+} from '@/lib/ens/multichain'
+import { CHAIN_MAP } from '@/lib/routing/tokens'
 
+const ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/
+
+/**
+ * GET /api/ens/primary-name?address=0x...&chainId=8453 - { name }
+ * GET /api/ens/primary-name?addresses=0x...,0x...&chain=base - { names }
+ *
+ * Forward-verified ENSIP-19 primary names on a chain, given by `chainId`
+ * or by `chain` name (default mainnet). `names` is keyed by lowercased
+ * address, with null where an address has no primary name.
+ */
 export async function GET(req: NextRequest) {
   const address = req.nextUrl.searchParams.get('address')
+  const addresses = req.nextUrl.searchParams.get('addresses')?.split(',').filter(Boolean)
   const chainId = req.nextUrl.searchParams.get('chainId')
+  const chainName = req.nextUrl.searchParams.get('chain')
 
-  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+  if (addresses) {
+    if (addresses.length === 0 || !addresses.every((a) => ADDRESS_RE.test(a))) {
+      return NextResponse.json({ error: 'Valid addresses are required' }, { status: 400 })
+    }
+    if (addresses.length > MAX_PRIMARY_NAME_BATCH) {
+      return NextResponse.json({ error: `At most ${MAX_PRIMARY_NAME_BATCH} addresses` }, { status: 400 })
+    }
+  } else if (!address || !ADDRESS_RE.test(address)) {
     return NextResponse.json({ error: 'Valid address is required' }, { status: 400 })
   }
 
-  const chain = chainId ? parseInt(chainId, 10) : 1
-  if (Number.isNaN(chain)) {
-    return NextResponse.json({ error: 'Invalid chainId' }, { status: 400 })
+  const chain = chainName ? CHAIN_MAP[chainName.toLowerCase()] : chainId ? parseInt(chainId, 10) : 1
+  if (chain === undefined || Number.isNaN(chain)) {
+    return NextResponse.json({ error: 'Invalid chain' }, { status: 400 })
+  }
+  if (!supportsPrimaryNames(chain)) {
+    return NextResponse.json({ error: `Primary names are not supported on chain ${chain}` }, { status: 400 })
   }
 
   try {
-    const name = await getMultichainName(address, chain)
+    if (addresses) {
+      return NextResponse.json({ names: await getMultichainNames(addresses, chain) })
+    }
+    const name = await getMultichainName(address!, chain)
     return NextResponse.json({ name })
   } catch {
-    return NextResponse.json({ name: null })
+    return addresses ? NextResponse.json({ names: {} }) : NextResponse.json({ name: null })
   }
 }
@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, formatUnits, http, isAddress } from 'viem'
+import { normalize } from 'viem/ens'
+import { mainnet } from 'viem/chains'
 import { storeReceipt, getReceiptsByRecipient } from '@/lib/ens/receipt-store'
-import { generateReceiptSubname } from '@/lib/ens/receipts'
+import { getPreferencesBySigner } from '@/lib/ens/store'
+import { getIngestConfirmations } from '@/lib/ens/receipt-ingester'
+import { findPaymentsToReceiver, getVerifyClient, resolveVerifyChain } from '@/lib/invoices/verify-payment'
+import { getTokenDecimals } from '@/lib/routing/tokens'
+
+const client = createPublicClient({
+  chain: mainnet,
+  transport: http(process.env.ETH_RPC_URL || 'https://eth.llamarpc.com'),
+})
 
 export async function GET(req: NextRequest) {
   const recipient = req.nextUrl.searchParams.get('recipient')
@@ -18,29 +29,92 @@ export async function GET(req: NextRequest) {
   }
 }
 
+/**
+ * POST /api/ens/receipts - Record a receipt as soon as a payment lands
+ *   { txHash, chain, token, recipient, receiverENS? }
+ *
+ * The transaction is checked on-chain: it must pay `recipient` in `token`,
+ * with the same evidence the receipt ingester accepts, and the stored
+ * amount and payer come from the chain, not the request. `receiverENS`
+ * must be a name `recipient` configured, or resolve to it.
+ *
+ * Until the transaction has as many confirmations as the ingester waits
+ * for, the response is 202 { pending: true } and nothing is stored: the
+ * ingester only notices reorgs in blocks it has scanned, so a receipt from
+ * a shallower block could outlive its transaction. The ingester
+ * (/api/receipts/cron) records the same payments on its own; this only
+ * makes the receipt available sooner.
+ */
 export async function POST(req: NextRequest) {
   try {
-    const { txHash, amount, token, chain, recipient, from, receiverENS } = await req.json()
+    const { txHash, token, chain, recipient, receiverENS } = await req.json()
 
-    if (!txHash || !amount || !token || !chain || !recipient || !from) {
+    if (!txHash || !token || !chain || !recipient) {
       return NextResponse.json(
-        { error: 'Missing required fields: txHash, amount, token, chain, recipient, from' },
+        { error: 'Missing required fields: txHash, chain, token, recipient' },
         { status: 400 },
       )
     }
+    if (!/^0x[a-fA-F0-9]{64}$/.test(txHash) || !isAddress(recipient)) {
+      return NextResponse.json({ error: 'Invalid txHash or recipient' }, { status: 400 })
+    }
 
-    await storeReceipt(txHash, amount, token, chain, recipient, from, receiverENS)
-
-    const subname = generateReceiptSubname(txHash)
+    const chainName = resolveVerifyChain(chain)
+    if (!chainName) {
+      return NextResponse.json({ error: `Unsupported chain "${chain}"` }, { status: 400 })
+    }
 
-    return NextResponse.json({
-      subname,
-      // If ENS name provided, also return the ENSIO CCIP-Read pattern
-      flowFiSubname: receiverENS ? `tx-${txHash.toLowerCase().slice(0, 10)}.payments.${receiverENS}` : undefined,
+    const chainClient = getVerifyClient(chainName)
+    const found = await findPaymentsToReceiver({
+      txHash,
+      chain: chainName,
+      receiver: recipient,
+      tokens: [String(token)],
+      client: chainClient,
     })
+    if ('error' in found || found.payments.length === 0) {
+      const reason = 'error' in found ? found.error : `No payment to ${recipient} found in transaction`
+      return NextResponse.json({ error: `Payment verification failed: ${reason}` }, { status: 422 })
+    }
+
+    const confirmations = getIngestConfirmations(chainName) ?? 0
+    if ((await chainClient.getBlockNumber()) - found.blockNumber < BigInt(confirmations)) {
+      return NextResponse.json(
+        { pending: true, message: `Waiting for ${confirmations} confirmations` },
+        { status: 202 },
+      )
+    }
+
+    if (receiverENS && !(await isReceiverName(receiverENS, recipient))) {
+      return NextResponse.json({ error: 'receiverENS does not belong to recipient' }, { status: 403 })
+    }
+
+    const [payment] = found.payments
+    const receipt = await storeReceipt(
+      txHash,
+      formatUnits(payment.amountRaw, getTokenDecimals(payment.token)),
+      payment.token,
+      chainName,
+      recipient.toLowerCase(),
+      found.from,
+      receiverENS,
+      { number: Number(found.blockNumber), hash: found.blockHash },
+    )
+
+    // tx-{shortHash}.payments.{receiverENS}, resolvable over CCIP-Read when
+    // the receiver's resolver is PayAgentResolverV2
+    return NextResponse.json({ subname: receipt.subname ?? null })
   } catch (error: unknown) {
     console.error('Receipt store error:', error)
     const message = error instanceof Error ? error.message : 'Failed to store receipt'
     return NextResponse.json({ error: message }, { status: 500 })
   }
 }
+
+async function isReceiverName(ensName: string, address: string): Promise<boolean> {
+  const configured = await getPreferencesBySigner(address)
+  if (configured.some((p) => p.name === ensName.toLowerCase())) return true
+
+  const resolved = await client.getEnsAddress({ name: normalize(ensName) }).catch(() => null)
+  return resolved?.toLowerCase() === address.toLowerCase()
+}
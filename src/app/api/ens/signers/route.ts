@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, http, isAddress, parseAbi } from 'viem'
+import { mainnet } from 'viem/chains'
+import { getGatewaySigners } from '@/lib/ens/gateway-signer'
+
+const client = createPublicClient({
+  chain: mainnet,
+  transport: http(process.env.ETH_RPC_URL || 'https://eth.llamarpc.com'),
+})
+
+const RESOLVER_ABI = parseAbi(['function isSigner(address) view returns (bool)'])
+
+/**
+ * GET /api/ens/signers - Report the gateway's signer key ring
+ *
+ * Lists every key (id, address, validity window and status) and which one
+ * signs new responses. When GATEWAY_RESOLVER_ADDRESS points at a
+ * PayAgentResolverV3, each key also reports `trustedOnChain`: a key that is
+ * active or verifying but not trusted means resolution will fail, and an
+ * expired key that is still trusted should be removed.
+ *
+ * When ADMIN_SECRET is set, the request must carry
+ * `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.ADMIN_SECRET
+  if (secret && req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const signers = getGatewaySigners()
+    const active = signers.find((s) => s.status === 'active')?.id ?? null
+
+    const resolver = process.env.GATEWAY_RESOLVER_ADDRESS
+    if (!resolver || !isAddress(resolver)) {
+      return NextResponse.json({ active, signers })
+    }
+
+    const trusted = await Promise.all(
+      signers.map((s) =>
+        client.readContract({ address: resolver, abi: RESOLVER_ABI, functionName: 'isSigner', args: [s.address] }),
+      ),
+    )
+    return NextResponse.json({
+      active,
+      resolver,
+      signers: signers.map((s, i) => ({ ...s, trustedOnChain: trusted[i] })),
+    })
+  } catch (error) {
+    console.error('Gateway signers error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read gateway signers' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,6 +7,10 @@ import { getYieldRouteQuote } from '@/lib/routing/yield-router'
 import { getRestakingRouteQuote } from '@/lib/routing/restaking-router'
 import { getMultiVaultRouteQuote } from '@/lib/routing/multi-vault-router'
 import { type StrategyAllocation } from '@/lib/strategies'
+import { resolveENS } from '@/lib/ens/resolve'
+import { parseRecipient } from '@/lib/ens/interop-address'
+import { checkPaymentLimits } from '@/lib/payments/limits'
+import { consumePaymentHold, getPaymentHold, isHoldFor, type HeldPayment } from '@/lib/payments/holds'
 import type { ParsedIntent } from '@/lib/types'
 
 const ERC20_TRANSFER_ABI = [
@@ -22,15 +26,75 @@ const ERC20_TRANSFER_ABI = [
   },
 ] as const
 
+type LimitOutcome =
+  | { response: NextResponse }
+  | { hold: { id: string; payment: HeldPayment } | null }
+
+/**
+ * Apply the PayConfig limits of the receiver named by `ensName` to a
+ * payment, as /api/quote does. Above limits.max the payment needs the
+ * approved hold from the quote (`holdId`), returned so the caller can
+ * consume it once the transaction is prepared. Payments to a bare address
+ * have no PayConfig and so no limits.
+ */
+async function checkLimits(
+  ensName: string,
+  fromAddress: string,
+  intent: ParsedIntent,
+  holdId?: string,
+): Promise<LimitOutcome> {
+  const parsed = parseRecipient(ensName)
+  if ('error' in parsed) {
+    return { response: NextResponse.json({ error: parsed.error }, { status: 400 }) }
+  }
+  if (!parsed.isName || !intent.amount || !intent.fromToken) return { hold: null }
+
+  const { payConfig } = await resolveENS(parsed.recipient)
+  const limitCheck = await checkPaymentLimits(payConfig?.limits, intent.amount, intent.fromToken)
+  if ('error' in limitCheck) {
+    return { response: NextResponse.json({ error: limitCheck.error }, { status: 400 }) }
+  }
+  if (limitCheck.within) return { hold: null }
+
+  if (limitCheck.code === 'below_minimum') {
+    return {
+      response: NextResponse.json({
+        error: `${parsed.recipient} does not accept payments below $${limitCheck.minUsd}`,
+        code: 'below_minimum',
+      }, { status: 400 }),
+    }
+  }
+
+  const payment: HeldPayment = {
+    receiverEns: parsed.recipient,
+    payerAddress: fromAddress,
+    amount: intent.amount,
+    fromToken: intent.fromToken,
+    fromChain: intent.fromChain || 'ethereum',
+  }
+  const hold = holdId && fromAddress ? await getPaymentHold(holdId) : null
+  if (!hold || !isHoldFor(hold, payment) || hold.status !== 'approved') {
+    return {
+      response: NextResponse.json({
+        error: `Payments above $${limitCheck.maxUsd} to ${parsed.recipient} need an approved hold (see /api/quote)`,
+        code: 'requires_approval',
+      }, { status: 403 }),
+    }
+  }
+  return { hold: { id: hold.id, payment } }
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { routeId, fromAddress, intent, slippage, ensName, yieldVault, recipient, useRestakingRoute, strategyAllocations } = body as {
+    const { routeId, fromAddress, intent, slippage, ensName, holdId, yieldVault, recipient, useRestakingRoute, strategyAllocations } = body as {
       routeId: string
       fromAddress: string
       intent: ParsedIntent
       slippage?: number
       ensName?: string
+      /** Approved hold from /api/quote, for payments above the receiver's limits.max */
+      holdId?: string
       yieldVault?: string
       recipient?: string
       useRestakingRoute?: boolean
@@ -53,214 +117,264 @@ export async function POST(req: NextRequest) {
       return NextResponse.json(txData)
     }
 
-    // Direct transfer — same token, same chain, to different recipient
-    if (routeId === 'direct-transfer') {
-      if (!intent?.toAddress || !intent?.amount || !intent?.fromToken) {
-        return NextResponse.json(
-          { error: 'Missing toAddress, amount, or fromToken for direct transfer' },
-          { status: 400 },
-        )
-      }
+    let approvedHold: { id: string; payment: HeldPayment } | null = null
+    if (ensName && intent) {
+      const limits = await checkLimits(ensName, fromAddress, intent, holdId)
+      if ('response' in limits) return limits.response
+      approvedHold = limits.hold
+    }
 
-      const chainId = CHAIN_MAP[intent.fromChain || 'base'] || CHAIN_MAP.base
-      const tokenAddress = getTokenAddress(intent.fromToken, chainId)
-      const decimals = getTokenDecimals(intent.fromToken)
+    const response = await prepareTransaction({
+      routeId,
+      fromAddress,
+      intent,
+      slippage,
+      yieldVault,
+      recipient,
+      useRestakingRoute,
+      strategyAllocations,
+    })
 
-      if (!tokenAddress) {
-        return NextResponse.json(
-          { error: `Token ${intent.fromToken} not supported on ${intent.fromChain}` },
-          { status: 400 },
-        )
+    // The approval covers this payment only
+    if (approvedHold && response.ok) {
+      const consumed = await consumePaymentHold(approvedHold.id, approvedHold.payment)
+      if ('error' in consumed) {
+        return NextResponse.json({ error: consumed.error, code: 'requires_approval' }, { status: 409 })
       }
+    }
+    return response
+  } catch (error: unknown) {
+    console.error('Execute API error:', error)
+    const message =
+      error instanceof Error ? error.message : 'Failed to prepare transaction'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
 
-      const amountWei = BigInt(Math.floor(parseFloat(intent.amount) * 10 ** decimals))
-
-      const calldata = encodeFunctionData({
-        abi: ERC20_TRANSFER_ABI,
-        functionName: 'transfer',
-        args: [intent.toAddress as `0x${string}`, amountWei],
-      })
-
-      return NextResponse.json({
-        to: tokenAddress,
-        data: calldata,
-        value: '0',
-        chainId,
-        provider: 'Direct Transfer',
-        routeType: 'standard',
-      })
+/**
+ * Transaction data for a payment or swap route.
+ */
+async function prepareTransaction({
+  routeId,
+  fromAddress,
+  intent,
+  slippage,
+  yieldVault,
+  recipient,
+  useRestakingRoute,
+  strategyAllocations,
+}: {
+  routeId: string
+  fromAddress: string
+  intent: ParsedIntent
+  slippage?: number
+  yieldVault?: string
+  recipient?: string
+  useRestakingRoute?: boolean
+  strategyAllocations?: StrategyAllocation[]
+}): Promise<NextResponse> {
+  // Direct transfer — same token, same chain, to different recipient
+  if (routeId === 'direct-transfer') {
+    if (!intent?.toAddress || !intent?.amount || !intent?.fromToken) {
+      return NextResponse.json(
+        { error: 'Missing toAddress, amount, or fromToken for direct transfer' },
+        { status: 400 },
+      )
     }
 
-    // Yield route — LI.FI Contract Calls with atomic vault deposit
-    // Trigger on routeId OR if yieldVault is explicitly provided with yield action
-    if (routeId?.startsWith('yield-route') || (yieldVault && intent?.action === 'yield')) {
-      if (!yieldVault || !recipient || !intent?.fromToken || !intent?.amount) {
-        return NextResponse.json(
-          { error: 'Missing yieldVault, recipient, fromToken, or amount for yield route' },
-          { status: 400 },
-        )
-      }
+    const chainId = CHAIN_MAP[intent.fromChain || 'base'] || CHAIN_MAP.base
+    const tokenAddress = getTokenAddress(intent.fromToken, chainId)
+    const decimals = getTokenDecimals(intent.fromToken)
 
-      const yieldResult = await getYieldRouteQuote({
-        fromAddress,
-        fromChain: intent.fromChain || 'ethereum',
-        fromToken: intent.fromToken,
-        amount: intent.amount,
-        recipient,
-        vault: yieldVault,
-        slippage,
-      })
-
-      if ('error' in yieldResult) {
-        return NextResponse.json(
-          { error: yieldResult.error },
-          { status: 400 },
-        )
-      }
+    if (!tokenAddress) {
+      return NextResponse.json(
+        { error: `Token ${intent.fromToken} not supported on ${intent.fromChain}` },
+        { status: 400 },
+      )
+    }
 
-      const txRequest = yieldResult.quote.transactionRequest
-      if (!txRequest) {
-        return NextResponse.json(
-          { error: 'No transaction request in yield quote' },
-          { status: 500 },
-        )
-      }
+    const amountWei = BigInt(Math.floor(parseFloat(intent.amount) * 10 ** decimals))
 
-      return NextResponse.json({
-        to: txRequest.to,
-        data: txRequest.data,
-        value: txRequest.value?.toString() || '0',
-        chainId: txRequest.chainId,
-        provider: 'LI.FI + YieldRouter',
-        routeType: 'contract-call',
-      })
-    }
+    const calldata = encodeFunctionData({
+      abi: ERC20_TRANSFER_ABI,
+      functionName: 'transfer',
+      args: [intent.toAddress as `0x${string}`, amountWei],
+    })
 
-    // Restaking route — LI.FI Contract Calls with Renzo deposit for ezETH
-    if (routeId?.startsWith('restaking-route') || useRestakingRoute) {
-      if (!recipient || !intent?.fromToken || !intent?.amount) {
-        return NextResponse.json(
-          { error: 'Missing recipient, fromToken, or amount for restaking route' },
-          { status: 400 },
-        )
-      }
+    return NextResponse.json({
+      to: tokenAddress,
+      data: calldata,
+      value: '0',
+      chainId,
+      provider: 'Direct Transfer',
+      routeType: 'standard',
+    })
+  }
 
-      const restakingResult = await getRestakingRouteQuote({
-        fromAddress,
-        fromChain: intent.fromChain || 'ethereum',
-        fromToken: intent.fromToken,
-        amount: intent.amount,
-        recipient,
-        slippage,
-      })
+  // Yield route — LI.FI Contract Calls with atomic vault deposit
+  // Trigger on routeId OR if yieldVault is explicitly provided with yield action
+  if (routeId?.startsWith('yield-route') || (yieldVault && intent?.action === 'yield')) {
+    if (!yieldVault || !recipient || !intent?.fromToken || !intent?.amount) {
+      return NextResponse.json(
+        { error: 'Missing yieldVault, recipient, fromToken, or amount for yield route' },
+        { status: 400 },
+      )
+    }
 
-      if ('error' in restakingResult) {
-        return NextResponse.json(
-          { error: restakingResult.error },
-          { status: 400 },
-        )
-      }
+    const yieldResult = await getYieldRouteQuote({
+      fromAddress,
+      fromChain: intent.fromChain || 'ethereum',
+      fromToken: intent.fromToken,
+      amount: intent.amount,
+      recipient,
+      vault: yieldVault,
+      slippage,
+    })
 
-      const txRequest = restakingResult.quote.transactionRequest
-      if (!txRequest) {
-        return NextResponse.json(
-          { error: 'No transaction request in restaking quote' },
-          { status: 500 },
-        )
-      }
+    if ('error' in yieldResult) {
+      return NextResponse.json(
+        { error: yieldResult.error },
+        { status: 400 },
+      )
+    }
 
-      return NextResponse.json({
-        to: txRequest.to,
-        data: txRequest.data,
-        value: txRequest.value?.toString() || '0',
-        chainId: txRequest.chainId,
-        provider: 'LI.FI + Renzo',
-        routeType: 'contract-call',
-      })
+    const txRequest = yieldResult.quote.transactionRequest
+    if (!txRequest) {
+      return NextResponse.json(
+        { error: 'No transaction request in yield quote' },
+        { status: 500 },
+      )
     }
 
-    // Multi-vault route — LI.FI Contract Calls with split to multiple strategies
-    if (routeId === 'multi-vault-route' && strategyAllocations && strategyAllocations.length > 1) {
-      if (!recipient || !intent?.fromToken || !intent?.amount) {
-        return NextResponse.json(
-          { error: 'Missing recipient, fromToken, or amount for multi-vault route' },
-          { status: 400 },
-        )
-      }
+    return NextResponse.json({
+      to: txRequest.to,
+      data: txRequest.data,
+      value: txRequest.value?.toString() || '0',
+      chainId: txRequest.chainId,
+      provider: 'LI.FI + YieldRouter',
+      routeType: 'contract-call',
+    })
+  }
 
-      const multiVaultResult = await getMultiVaultRouteQuote({
-        fromAddress,
-        fromChain: intent.fromChain || 'ethereum',
-        fromToken: intent.fromToken,
-        amount: intent.amount,
-        recipient,
-        allocations: strategyAllocations,
-        slippage,
-      })
-
-      if ('error' in multiVaultResult) {
-        return NextResponse.json(
-          { error: multiVaultResult.error },
-          { status: 400 },
-        )
-      }
+  // Restaking route — LI.FI Contract Calls with Renzo deposit for ezETH
+  if (routeId?.startsWith('restaking-route') || useRestakingRoute) {
+    if (!recipient || !intent?.fromToken || !intent?.amount) {
+      return NextResponse.json(
+        { error: 'Missing recipient, fromToken, or amount for restaking route' },
+        { status: 400 },
+      )
+    }
 
-      const quote = multiVaultResult.quotes[0]
-      const txRequest = quote?.transactionRequest
-      if (!txRequest) {
-        return NextResponse.json(
-          { error: 'No transaction request in multi-vault quote' },
-          { status: 500 },
-        )
-      }
+    const restakingResult = await getRestakingRouteQuote({
+      fromAddress,
+      fromChain: intent.fromChain || 'ethereum',
+      fromToken: intent.fromToken,
+      amount: intent.amount,
+      recipient,
+      slippage,
+    })
 
-      return NextResponse.json({
-        to: txRequest.to,
-        data: txRequest.data,
-        value: txRequest.value?.toString() || '0',
-        chainId: txRequest.chainId,
-        provider: 'LI.FI + MultiVault',
-        routeType: 'contract-call',
-        allocations: multiVaultResult.allocations,
-      })
+    if ('error' in restakingResult) {
+      return NextResponse.json(
+        { error: restakingResult.error },
+        { status: 400 },
+      )
     }
 
-    // Detect v4 route and pass provider hint
-    const provider = routeId?.startsWith('v4-') ? 'Uniswap v4' : undefined
+    const txRequest = restakingResult.quote.transactionRequest
+    if (!txRequest) {
+      return NextResponse.json(
+        { error: 'No transaction request in restaking quote' },
+        { status: 500 },
+      )
+    }
+
+    return NextResponse.json({
+      to: txRequest.to,
+      data: txRequest.data,
+      value: txRequest.value?.toString() || '0',
+      chainId: txRequest.chainId,
+      provider: 'LI.FI + Renzo',
+      routeType: 'contract-call',
+    })
+  }
 
-    if (!fromAddress || !intent) {
+  // Multi-vault route — LI.FI Contract Calls with split to multiple strategies
+  if (routeId === 'multi-vault-route' && strategyAllocations && strategyAllocations.length > 1) {
+    if (!recipient || !intent?.fromToken || !intent?.amount) {
       return NextResponse.json(
-        { error: 'Missing fromAddress or intent' },
-        { status: 400 }
+        { error: 'Missing recipient, fromToken, or amount for multi-vault route' },
+        { status: 400 },
       )
     }
 
-    // Deposit/yield/restaking intents resolve the vault token internally, so toToken
-    // is not required for those actions.
-    const isComposerAction =
-      intent.action === 'deposit' || intent.action === 'yield' || intent.action === 'restaking'
+    const multiVaultResult = await getMultiVaultRouteQuote({
+      fromAddress,
+      fromChain: intent.fromChain || 'ethereum',
+      fromToken: intent.fromToken,
+      amount: intent.amount,
+      recipient,
+      allocations: strategyAllocations,
+      slippage,
+    })
 
-    if (!intent.fromToken || !intent.amount) {
+    if ('error' in multiVaultResult) {
       return NextResponse.json(
-        { error: 'Incomplete intent: fromToken and amount required' },
-        { status: 400 }
+        { error: multiVaultResult.error },
+        { status: 400 },
       )
     }
 
-    if (!isComposerAction && !intent.toToken) {
+    const quote = multiVaultResult.quotes[0]
+    const txRequest = quote?.transactionRequest
+    if (!txRequest) {
       return NextResponse.json(
-        { error: 'Incomplete intent: toToken required for transfer/swap' },
-        { status: 400 }
+        { error: 'No transaction request in multi-vault quote' },
+        { status: 500 },
       )
     }
 
-    const txData = await getTransactionData(intent, fromAddress, slippage, provider)
+    return NextResponse.json({
+      to: txRequest.to,
+      data: txRequest.data,
+      value: txRequest.value?.toString() || '0',
+      chainId: txRequest.chainId,
+      provider: 'LI.FI + MultiVault',
+      routeType: 'contract-call',
+      allocations: multiVaultResult.allocations,
+    })
+  }
 
-    return NextResponse.json(txData)
-  } catch (error: unknown) {
-    console.error('Execute API error:', error)
-    const message =
-      error instanceof Error ? error.message : 'Failed to prepare transaction'
-    return NextResponse.json({ error: message }, { status: 500 })
+  // Detect v4 route and pass provider hint
+  const provider = routeId?.startsWith('v4-') ? 'Uniswap v4' : undefined
+
+  if (!fromAddress || !intent) {
+    return NextResponse.json(
+      { error: 'Missing fromAddress or intent' },
+      { status: 400 }
+    )
+  }
+
+  // Deposit/yield/restaking intents resolve the vault token internally, so toToken
+  // is not required for those actions.
+  const isComposerAction =
+    intent.action === 'deposit' || intent.action === 'yield' || intent.action === 'restaking'
+
+  if (!intent.fromToken || !intent.amount) {
+    return NextResponse.json(
+      { error: 'Incomplete intent: fromToken and amount required' },
+      { status: 400 }
+    )
+  }
+
+  if (!isComposerAction && !intent.toToken) {
+    return NextResponse.json(
+      { error: 'Incomplete intent: toToken required for transfer/swap' },
+      { status: 400 }
+    )
   }
+
+  const txData = await getTransactionData(intent, fromAddress, slippage, provider)
+
+  return NextResponse.json(txData)
 }
@@ -5,14 +5,17 @@ import {
   getInvoiceFromENS,
   getInvoiceFromSubdomain,
   subdomainExists,
+  verifyInvoice,
   type InvoiceData,
 } from '@/lib/ens/write'
+import { getInvoice } from '@/lib/invoices/store'
 
 /**
  * POST /api/invoice/ens - Build transaction to store invoice in ENS
  *   - mode=text (default): Store as text record on parent name
  *   - mode=subdomain: Create inv-{id}.name.eth subdomain (deeper ENS integration)
  * GET /api/invoice/ens?ensName=xxx&id=yyy - Read invoice from ENS
+ *   `verified` is true when the anchored hash matches the stored invoice
  */
 
 export async function POST(req: NextRequest) {
@@ -80,6 +83,10 @@ export async function GET(req: NextRequest) {
       )
     }
 
+    // Invoices we don't hold can't be checked beyond the record existing
+    const stored = await getInvoice(id)
+    const matches = (hash: string) => (stored ? verifyInvoice(stored, hash) : true)
+
     // Try subdomain first (inv-{id}.name.eth)
     const subdomainRecord = await getInvoiceFromSubdomain(ensName, id)
     if (subdomainRecord) {
@@ -89,7 +96,7 @@ export async function GET(req: NextRequest) {
         invoiceId: id,
         mode: 'subdomain',
         paymentUrl: `ensio.xyz/pay/${subdomainRecord.subdomain}`,
-        verified: true,
+        verified: matches(subdomainRecord.hash),
       })
     }
 
@@ -102,7 +109,7 @@ export async function GET(req: NextRequest) {
         invoiceId: id,
         mode: 'text',
         recordKey: `ensio.invoice.${id}`,
-        verified: true,
+        verified: matches(record.hash),
       })
     }
 
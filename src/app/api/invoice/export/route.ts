@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EXPORT_FORMATS, invoiceToExportDocument, isExportFormat } from '@/lib/export/document'
+import { renderExport } from '@/lib/export/render'
+import { getInvoice } from '@/lib/invoices/store'
+
+/**
+ * GET /api/invoice/export?id=xxx&format=pdf|ubl
+ *
+ * Download an invoice as a PDF or as UBL 2.1 (EN 16931) XML. Both carry the
+ * invoice hash anchored in ENS and explorer links for every recorded payment.
+ */
+export async function GET(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get('id')
+  const format = req.nextUrl.searchParams.get('format') || 'pdf'
+
+  if (!id) {
+    return NextResponse.json({ error: 'Missing invoice ID' }, { status: 400 })
+  }
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Invalid format (expected one of: ${EXPORT_FORMATS.join(', ')})` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const invoice = await getInvoice(id)
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const file = await renderExport(await invoiceToExportDocument(invoice), format)
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Invoice export error:', error)
+    return NextResponse.json({ error: 'Failed to export invoice' }, { status: 500 })
+  }
+}
@@ -1,27 +1,60 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { randomUUID } from 'crypto'
-
-// In-memory store for MVP (replace with DB in production)
-const invoices = new Map<string, Invoice>()
-
-export interface Invoice {
-  id: string
-  receiverAddress: string
-  receiverEns?: string
-  amount: string
-  token: string
-  memo?: string
-  status: 'pending' | 'paid' | 'expired'
-  createdAt: string
-  paidAt?: string
-  paidTxHash?: string
-  expiresAt?: string
-}
+import {
+  INVOICE_STATUSES,
+  SYSTEM_ACTOR,
+  applyPayment,
+  createInvoice,
+  isInvoiceStatus,
+  isPastExpiry,
+  transitionInvoice,
+  type Invoice,
+} from '@/lib/invoices/lifecycle'
+import { findInvoiceByTxHash, getInvoice, saveInvoice, updateInvoice } from '@/lib/invoices/store'
+import { verifyInvoiceAuthorization } from '@/lib/invoices/authorization'
+import { resolveVerifyChain, verifyInvoicePayment } from '@/lib/invoices/verify-payment'
+import { getBridgeStatus } from '@/lib/routing/bridge-status'
+import { CHAIN_MAP } from '@/lib/routing/tokens'
+import { quoteSettlement } from '@/lib/invoices/conversion'
+import { emitInvoiceEvent } from '@/lib/webhooks/delivery'
+import {
+  FIAT_CURRENCIES,
+  computeInvoiceTotals,
+  getInvoiceDecimals,
+  isFiatCurrency,
+  type InvoiceDiscount,
+  type InvoiceLineItem,
+} from '@/lib/invoices/pricing'
 
 /**
  * GET /api/invoice?id=xxx - Get invoice by ID
- * POST /api/invoice - Create new invoice
- * PATCH /api/invoice - Update invoice status (mark as paid)
+ * POST /api/invoice - Create new invoice (pass draft: true to create as draft)
+ *   Either a flat `amount` or `lineItems` ({ description, quantity, unitPrice }),
+ *   plus optional `discount`, `taxRate` (percent), `dueDate` and a fiat
+ *   `currency` (the invoice is then denominated in that currency and settled
+ *   in `token` at the rate at payment time)
+ * PATCH /api/invoice - Transition invoice status (see INVOICE_TRANSITIONS)
+ *
+ * Recording a payment (status "paid" or "partially_paid") requires
+ * { txHash, chain }: the transaction is fetched on that chain, the amount it
+ * pays the receiver is converted to the invoice token, and the resulting
+ * status follows from the remaining balance. Overpayments produce a credit
+ * note. A tx hash can only be used once across all invoices.
+ *
+ * For a cross-chain payment, pass the source transaction as { txHash,
+ * fromChain } and the destination as `chain`: the transaction the bridge
+ * delivered in is looked up through LI.FI and verified on `chain`. Until
+ * it has delivered, the response is 202 { pending: true }; retry later.
+ *
+ * Other transitions:
+ *   - "expired" is only accepted once `expiresAt` has passed and is
+ *     recorded as a system transition
+ *   - "pending", "cancelled" and "refunded" require { issuedAt, signature }:
+ *     an EIP-712 UpdateInvoice signature from the invoice's receiver (see
+ *     lib/invoices/authorization.ts), who is recorded as the actor
+ *
+ * Creation, payments and expiry notify the receiver's webhooks (see
+ * /api/webhooks).
  */
 
 export async function GET(req: NextRequest) {
@@ -31,58 +64,128 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: 'Missing invoice ID' }, { status: 400 })
   }
 
-  const invoice = invoices.get(id)
+  const invoice = await getInvoice(id)
   if (!invoice) {
     return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
   }
 
   // Check if expired
-  if (invoice.expiresAt && new Date(invoice.expiresAt) < new Date() && invoice.status === 'pending') {
-    invoice.status = 'expired'
-    invoices.set(id, invoice)
+  let current = invoice
+  if (isPastExpiry(invoice)) {
+    let expired = false
+    const result = await updateInvoice(id, (latest) => {
+      if (!isPastExpiry(latest)) return { invoice: latest }
+      expired = true
+      return transitionInvoice(latest, 'expired', SYSTEM_ACTOR, { reason: 'Expiry time reached' })
+    })
+    if ('invoice' in result) {
+      current = result.invoice
+      if (expired) await emitInvoiceEvent('invoice.expired', current)
+    }
+  }
+
+  // Fiat invoices carry a live quote of the settlement token amount
+  if (current.currency && (current.status === 'pending' || current.status === 'partially_paid')) {
+    const settlement = await quoteSettlement(current)
+    if (settlement) {
+      return NextResponse.json({ ...current, settlement })
+    }
   }
 
-  return NextResponse.json(invoice)
+  return NextResponse.json(current)
 }
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { receiverAddress, receiverEns, amount, token, memo, expiresInHours } = body as {
+    const {
+      receiverAddress,
+      receiverEns,
+      amount,
+      token,
+      currency,
+      memo,
+      lineItems,
+      discount,
+      taxRate,
+      dueDate,
+      expiresInHours,
+      draft,
+    } = body as {
       receiverAddress: string
       receiverEns?: string
-      amount: string
+      amount?: string
       token?: string
+      currency?: string
       memo?: string
+      lineItems?: InvoiceLineItem[]
+      discount?: InvoiceDiscount
+      taxRate?: string
+      dueDate?: string
       expiresInHours?: number
+      draft?: boolean
     }
 
-    if (!receiverAddress || !amount) {
+    if (!receiverAddress || (!amount && !lineItems?.length)) {
       return NextResponse.json(
-        { error: 'Missing required fields: receiverAddress, amount' },
+        { error: 'Missing required fields: receiverAddress, amount or lineItems' },
         { status: 400 }
       )
     }
 
-    const id = randomUUID().slice(0, 8) // Short ID for readability
+    if (currency !== undefined && !isFiatCurrency(currency)) {
+      return NextResponse.json(
+        { error: `Unsupported currency (expected one of: ${FIAT_CURRENCIES.join(', ')})` },
+        { status: 400 }
+      )
+    }
+
+    if (dueDate !== undefined && isNaN(new Date(dueDate).getTime())) {
+      return NextResponse.json({ error: 'Invalid dueDate' }, { status: 400 })
+    }
+
+    const settlementToken = token || 'USDC'
+    const pricing = computeInvoiceTotals(
+      { amount, lineItems, discount, taxRate },
+      getInvoiceDecimals({ token: settlementToken, currency }),
+    )
+    if ('error' in pricing) {
+      return NextResponse.json({ error: pricing.error }, { status: 400 })
+    }
+    const { totals } = pricing
+    const hasBreakdown = !!lineItems?.length || !!discount || taxRate !== undefined
+
     const now = new Date()
     const expiresAt = expiresInHours
       ? new Date(now.getTime() + expiresInHours * 60 * 60 * 1000).toISOString()
       : undefined
 
-    const invoice: Invoice = {
-      id,
+    const invoice = createInvoice(
+      {
+        id: randomUUID().slice(0, 8), // Short ID for readability
+        receiverAddress,
+        receiverEns,
+        amount: totals.total,
+        token: settlementToken,
+        currency,
+        memo,
+        ...(lineItems?.length && { lineItems }),
+        discount,
+        taxRate,
+        ...(hasBreakdown && {
+          subtotal: totals.subtotal,
+          discountAmount: totals.discountAmount,
+          taxAmount: totals.taxAmount,
+        }),
+        dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
+        expiresAt,
+      },
       receiverAddress,
-      receiverEns,
-      amount,
-      token: token || 'USDC',
-      memo,
-      status: 'pending',
-      createdAt: now.toISOString(),
-      expiresAt,
-    }
+      { draft, at: now },
+    )
 
-    invoices.set(id, invoice)
+    await saveInvoice(invoice)
+    if (invoice.status !== 'draft') await emitInvoiceEvent('invoice.created', invoice)
 
     return NextResponse.json(invoice)
   } catch (error) {
@@ -94,37 +197,153 @@ export async function POST(req: NextRequest) {
 export async function PATCH(req: NextRequest) {
   try {
     const body = await req.json()
-    const { id, status, txHash } = body as {
+    const { id, status, txHash, chain, fromChain, issuedAt, signature, reason } = body as {
       id: string
-      status: 'paid'
+      status: string
       txHash?: string
+      chain?: string | number
+      fromChain?: string | number
+      issuedAt?: number
+      signature?: string
+      reason?: string
     }
 
-    if (!id || status !== 'paid') {
+    if (!id || !isInvoiceStatus(status)) {
       return NextResponse.json(
-        { error: 'Missing id or invalid status (only "paid" supported)' },
+        { error: `Missing id or invalid status (expected one of: ${INVOICE_STATUSES.join(', ')})` },
         { status: 400 }
       )
     }
 
-    const invoice = invoices.get(id)
+    if (status === 'expired') {
+      const result = await updateInvoice(id, (current) => {
+        // Illegal transitions (e.g. from paid) are rejected by transitionInvoice
+        const open = current.status === 'pending' || current.status === 'partially_paid'
+        if (open && !isPastExpiry(current)) {
+          return { error: current.expiresAt ? `Invoice expires at ${current.expiresAt}` : 'Invoice has no expiry' }
+        }
+        return transitionInvoice(current, 'expired', SYSTEM_ACTOR, { reason: 'Expiry time reached' })
+      })
+      if ('invoice' in result) await emitInvoiceEvent('invoice.expired', result.invoice)
+      return transitionResponse(result)
+    }
+
+    if (status !== 'paid' && status !== 'partially_paid') {
+      if (!signature || issuedAt === undefined) {
+        return NextResponse.json(
+          { error: `issuedAt and signature are required to mark an invoice ${status}` },
+          { status: 400 }
+        )
+      }
+
+      const invoice = await getInvoice(id)
+      if (!invoice) {
+        return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+      }
+
+      const auth = await verifyInvoiceAuthorization(invoice, { status, issuedAt, signature })
+      if (!auth.valid) {
+        return NextResponse.json({ error: auth.error }, { status: 401 })
+      }
+
+      const result = await updateInvoice(id, (current) =>
+        transitionInvoice(current, status, auth.actor, { reason }),
+      )
+      if ('invoice' in result && status === 'pending') {
+        await emitInvoiceEvent('invoice.created', result.invoice)
+      }
+      return transitionResponse(result)
+    }
+
+    if (!txHash || chain === undefined) {
+      return NextResponse.json(
+        { error: 'txHash and chain are required to record a payment' },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await getInvoice(id)
     if (!invoice) {
       return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
     }
 
-    if (invoice.status === 'paid') {
-      return NextResponse.json({ error: 'Invoice already paid' }, { status: 400 })
+    // A cross-chain payment reaches the receiver in another transaction,
+    // which is the one verified
+    let claim = { txHash, chain }
+    let bridgeSender: string | undefined
+    if (fromChain !== undefined) {
+      const sourceChain = resolveVerifyChain(fromChain)
+      const destinationChain = resolveVerifyChain(chain)
+      if (!sourceChain || !destinationChain) {
+        return NextResponse.json({ error: 'Unsupported chain or fromChain' }, { status: 400 })
+      }
+      if (sourceChain !== destinationChain) {
+        const bridge = await getBridgeStatus(txHash, CHAIN_MAP[sourceChain], CHAIN_MAP[destinationChain])
+        if (bridge.status === 'pending') {
+          return NextResponse.json({ pending: true, message: 'Waiting for the bridge to deliver the payment' }, { status: 202 })
+        }
+        if (bridge.status === 'failed') {
+          return NextResponse.json({ error: `Payment verification failed: ${bridge.error}` }, { status: 422 })
+        }
+        claim = { txHash: bridge.txHash, chain: destinationChain }
+        bridgeSender = bridge.fromAddress
+      }
     }
 
-    invoice.status = 'paid'
-    invoice.paidAt = new Date().toISOString()
-    invoice.paidTxHash = txHash
+    // Verify outside the write queue so slow RPC calls don't block other invoices
+    const verification = await verifyInvoicePayment(invoice, claim)
+    if (!verification.verified) {
+      return NextResponse.json(
+        { error: `Payment verification failed: ${verification.error}` },
+        { status: 422 }
+      )
+    }
 
-    invoices.set(id, invoice)
+    // The destination transaction of a bridged payment is sent by the bridge,
+    // not the payer
+    const payer = bridgeSender ?? verification.from
+    const result = await updateInvoice(id, async (current) => {
+      const existing = await findInvoiceByTxHash(verification.txHash)
+      if (existing) {
+        return { error: `Transaction already used to pay invoice ${existing.id}` }
+      }
+      return applyPayment(
+        current,
+        {
+          txHash: verification.txHash,
+          chain: verification.chain,
+          payer,
+          amount: verification.amount,
+          paidToken: verification.token,
+          paidAmount: verification.paidAmount,
+          at: new Date().toISOString(),
+        },
+        payer,
+      )
+    })
 
-    return NextResponse.json(invoice)
+    if ('invoice' in result) {
+      const type = result.invoice.status === 'paid' ? 'invoice.paid' : 'invoice.partially_paid'
+      await emitInvoiceEvent(type, result.invoice)
+    }
+
+    return transitionResponse(result, {
+      chain: verification.chain,
+      amount: verification.amount,
+      evidence: verification.kinds,
+    })
   } catch (error) {
     console.error('Invoice update error:', error)
     return NextResponse.json({ error: 'Failed to update invoice' }, { status: 500 })
   }
 }
+
+function transitionResponse(
+  result: { invoice: Invoice } | { error: string; notFound?: boolean },
+  verification?: { chain: string; amount: string; evidence: string[] },
+) {
+  if ('error' in result) {
+    return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 })
+  }
+  return NextResponse.json(verification ? { ...result.invoice, verification } : result.invoice)
+}
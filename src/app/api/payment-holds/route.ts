@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAddress } from 'viem'
+import {
+  decidePaymentHold,
+  getPaymentHold,
+  listPaymentHolds,
+  verifyHoldDecision,
+  type PaymentHoldStatus,
+} from '@/lib/payments/holds'
+
+const STATUSES: readonly PaymentHoldStatus[] = ['pending_approval', 'approved', 'rejected', 'expired', 'used']
+
+/**
+ * GET /api/payment-holds?id=hold_... - A single hold (for the payer to poll)
+ * GET /api/payment-holds?receiver=0x...&status=pending_approval - A receiver's holds
+ * GET /api/payment-holds?payer=0x... - A payer's holds
+ *
+ * Holds are created by /api/quote for payments above the receiver's
+ * PayConfig limits.max.
+ */
+export async function GET(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get('id')
+  const receiver = req.nextUrl.searchParams.get('receiver')
+  const payer = req.nextUrl.searchParams.get('payer')
+  const status = req.nextUrl.searchParams.get('status')
+
+  if (id) {
+    const hold = await getPaymentHold(id)
+    if (!hold) {
+      return NextResponse.json({ error: 'Hold not found' }, { status: 404 })
+    }
+    return NextResponse.json(hold)
+  }
+
+  if ((!receiver && !payer) || (receiver && !isAddress(receiver)) || (payer && !isAddress(payer))) {
+    return NextResponse.json({ error: 'Missing or invalid id, receiver or payer' }, { status: 400 })
+  }
+  if (status && !(STATUSES as readonly string[]).includes(status)) {
+    return NextResponse.json({ error: `Invalid status (expected one of: ${STATUSES.join(', ')})` }, { status: 400 })
+  }
+
+  const holds = await listPaymentHolds({
+    receiverAddress: receiver ?? undefined,
+    payerAddress: payer ?? undefined,
+    status: (status as PaymentHoldStatus | null) ?? undefined,
+  })
+  return NextResponse.json({ holds })
+}
+
+/**
+ * POST /api/payment-holds - Approve or reject a held payment
+ *   { receiver, id, decision: 'approve' | 'reject', issuedAt, signature }
+ *
+ * Authorized by an EIP-712 DecidePaymentHold signature from the receiver.
+ * Once approved, quoting the same payment again returns routes.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { receiver, id, decision, issuedAt, signature } = await req.json()
+
+    if (!receiver || !id || !decision || !signature || issuedAt === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: receiver, id, decision, issuedAt, signature' },
+        { status: 400 }
+      )
+    }
+    if (decision !== 'approve' && decision !== 'reject') {
+      return NextResponse.json({ error: 'decision must be "approve" or "reject"' }, { status: 400 })
+    }
+
+    const hold = await getPaymentHold(id)
+    if (!hold || hold.receiverAddress !== String(receiver).toLowerCase()) {
+      return NextResponse.json({ error: 'Hold not found' }, { status: 404 })
+    }
+
+    const auth = await verifyHoldDecision({ receiver, holdId: id, decision, issuedAt, signature })
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const result = await decidePaymentHold(id, decision)
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 })
+    }
+    return NextResponse.json(result.hold)
+  } catch (error) {
+    console.error('Payment hold decision error:', error)
+    return NextResponse.json({ error: 'Failed to decide payment hold' }, { status: 500 })
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createPublicClient, http } from 'viem'
+import { normalize } from 'viem/ens'
+import { mainnet } from 'viem/chains'
+import {
+  getPaymentRequest,
+  isPaymentRequestExpired,
+  listPaymentRequests,
+  savePaymentRequest,
+  validatePaymentRequest,
+  verifyPaymentRequestSignature,
+  type PaymentRequest,
+} from '@/lib/payments/requests'
+
+const client = createPublicClient({
+  chain: mainnet,
+  transport: http(process.env.ETH_RPC_URL || 'https://eth.llamarpc.com'),
+})
+
+/**
+ * `req-{id}` under the receiver's name: a subname of a .eth name, or of
+ * `{label}.eth` for deeper names, which the gateway also resolves.
+ */
+function requestName(request: PaymentRequest): string {
+  const labels = request.receiverEns.split('.')
+  const parent = labels.length === 2 ? request.receiverEns : `${labels[0]}.eth`
+  return `req-${request.id}.${parent}`
+}
+
+function withStatus(request: PaymentRequest) {
+  return {
+    ...request,
+    name: requestName(request),
+    status: isPaymentRequestExpired(request) ? 'expired' : 'active',
+  }
+}
+
+/**
+ * POST /api/payment-requests - Create a signed payment request
+ *   { ensName, amount, token, chain, expiry, memo?, nonce, signature, signerAddress }
+ *
+ * The fields are signed by the receiver as an EIP-712 PaymentRequest; the
+ * signer must own `ensName`. Returns the request with its short `id` and
+ * its `name` (req-{id}.{name}), which resolves over CCIP-Read to the
+ * signed fields. Resubmitting the same signed request returns the same ID.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const { signature, signerAddress } = body
+
+    if (!signature || !signerAddress) {
+      return NextResponse.json(
+        { error: 'Missing required fields: ensName, amount, token, chain, expiry, nonce, signature, signerAddress' },
+        { status: 400 }
+      )
+    }
+
+    const validated = validatePaymentRequest(body)
+    if ('error' in validated) {
+      return NextResponse.json({ error: validated.error }, { status: 400 })
+    }
+    const { fields } = validated
+
+    if (!(await verifyPaymentRequestSignature(fields, signerAddress, signature))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    // Verify the signer owns the ENS name
+    const resolvedAddress = await client.getEnsAddress({ name: normalize(fields.ensName) })
+    if (!resolvedAddress || resolvedAddress.toLowerCase() !== String(signerAddress).toLowerCase()) {
+      return NextResponse.json({ error: 'Signer does not own this ENS name' }, { status: 403 })
+    }
+
+    const result = await savePaymentRequest(fields, signerAddress, signature)
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    return NextResponse.json(withStatus(result))
+  } catch (error: unknown) {
+    console.error('Payment request API error:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create payment request'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+/**
+ * GET /api/payment-requests?id=... - A single request (for the pay page)
+ * GET /api/payment-requests?receiver=foo.eth - A receiver's requests, newest first
+ *
+ * Each request carries `status`: "active" until its expiry, then "expired".
+ */
+export async function GET(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get('id')
+  const receiver = req.nextUrl.searchParams.get('receiver')
+
+  if (id) {
+    const request = await getPaymentRequest(id)
+    if (!request) {
+      return NextResponse.json({ error: 'Payment request not found' }, { status: 404 })
+    }
+    return NextResponse.json(withStatus(request))
+  }
+
+  if (!receiver) {
+    return NextResponse.json({ error: 'Missing id or receiver' }, { status: 400 })
+  }
+
+  const requests = await listPaymentRequests(receiver)
+  return NextResponse.json({ requests: requests.map(withStatus) })
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { resolveENS, resolveChainAddress } from '@/lib/ens/resolve'
+import { interopChecksum, parseRecipient } from '@/lib/ens/interop-address'
 import { findRoutes } from '@/lib/routing/lifi-router'
 import { findV4Routes, V4_CHAINS } from '@/lib/routing/v4-router'
 // Yield route disabled - see strategies.ts for details
@@ -12,6 +13,20 @@ import { calculateFee, getNextTierInfo } from '@/lib/incentives/fee-tiers'
 import { getVolumeRecord } from '@/lib/incentives/volume-tracker'
 import { isInternalPayment } from '@/lib/incentives/network-effects'
 import { calculateReferralReward, getReferrer } from '@/lib/incentives/referrals'
+import {
+  REQUEST_PAYMENT_HOLD_TYPES,
+  findOpenHold,
+  holdPayment,
+  holdRequestMessage,
+  verifyHoldRequest,
+  type PaymentHold,
+} from '@/lib/payments/holds'
+import { checkPaymentLimits } from '@/lib/payments/limits'
+import { PREFERENCE_DOMAIN } from '@/lib/ens/eip712'
+import { emitWebhookEvent } from '@/lib/webhooks/delivery'
+import type { PayConfigV2 } from '@/lib/ens/pay-config'
+import type { RouteOption } from '@/lib/types'
+import type { Address } from 'viem'
 
 // Stablecoins that should prefer Uniswap v4 for same-chain swaps
 const STABLECOINS = new Set(['USDC', 'USDT', 'DAI', 'FRAX', 'LUSD', 'TUSD', 'BUSD'])
@@ -25,6 +40,57 @@ function isV4Supported(chain: string): boolean {
   return cfg && cfg.hook !== '0x0000000000000000000000000000000000000000'
 }
 
+// Each fallback costs a LI.FI round trip, so only the first few are tried
+const MAX_FALLBACK_ATTEMPTS = 4
+
+/**
+ * What decided the destination chain and token, reported as
+ * `destination.rule` in the quote:
+ * - explicit-chain: the recipient named a chain (name@chain, ERC-7930)
+ * - strategy: the receiver's restaking, yield or multi-vault strategy
+ * - pay-config: the receive token and chain from com.pay.config
+ * - default: USDC on Base
+ * - token-availability: the token isn't deployed on the chosen chain
+ * - fallback: no route to the primary destination; one of the receiver's
+ *   fallbacks was used
+ */
+type DestinationRule =
+  | 'explicit-chain'
+  | 'strategy'
+  | 'pay-config'
+  | 'default'
+  | 'token-availability'
+  | 'fallback'
+
+function hasUsableRoute(routes: RouteOption[]): boolean {
+  return routes.some((r) => r.id !== 'error')
+}
+
+/**
+ * Destinations to try, in the receiver's order, when the primary one has no
+ * route: the fallback tokens on the primary chain, then each fallback chain
+ * with the receive token and fallback tokens. Pairs where the token isn't
+ * deployed are skipped.
+ */
+function fallbackDestinations(
+  config: PayConfigV2,
+  primary: { token: string; chain: string },
+): Array<{ token: string; chain: string }> {
+  const tokens = [...new Set([config.receive.token, ...(config.fallback?.tokens ?? [])].map((t) => t.toUpperCase()))]
+  const chains = [...new Set([
+    primary.chain,
+    ...(config.fallback?.chains ?? []).flatMap((id) => (CHAIN_ID_TO_NAME[id] ? [CHAIN_ID_TO_NAME[id]] : [])),
+  ])]
+
+  return chains
+    .flatMap((chain) => tokens.map((token) => ({ token, chain })))
+    .filter(({ token, chain }) =>
+      !(token === primary.token.toUpperCase() && chain === primary.chain) &&
+      !!getTokenAddress(token, CHAIN_MAP[chain]),
+    )
+    .slice(0, MAX_FALLBACK_ATTEMPTS)
+}
+
 /**
  * POST /api/quote - Get payment routes without NLP parsing
  *
@@ -34,10 +100,27 @@ function isV4Supported(chain: string): boolean {
  *   toToken?: string,
  *   fromChain: string,
  *   toChain?: string,
- *   toAddress: string, // ENS name or 0x address
+ *   toAddress: string, // ENS name or 0x address, optionally chain-qualified
  *   userAddress: string,
  *   slippage?: number
  * }
+ *
+ * `toAddress` may name the destination chain, as an ERC-7828 name
+ * (alice.eth@base, 0x...@eip155:10, with an optional #checksum) or an
+ * ERC-7930 interoperable address. That chain overrides the receiver's
+ * preferences; strategies that only run on Base are skipped elsewhere.
+ * `destination` reports the chain and token and the rule that chose them.
+ *
+ * When the receiver has a com.pay.config, its limits and fallbacks apply:
+ * - below limits.min: rejected with 400 (code "below_minimum")
+ * - above limits.max: held for the receiver's approval (202 with `hold`,
+ *   see /api/payment-holds); once approved, the same quote returns routes
+ *   and `holdId`, which /api/execute consumes. Opening a hold needs the
+ *   payer's RequestPaymentHold signature as `holdIssuedAt` and
+ *   `holdSignature`; without one the 202 carries the typed data to sign
+ *   (code "hold_signature_required")
+ * - no LI.FI route to the receive token/chain: fallback.tokens/chains are
+ *   tried in order, and the one used is reported in `fallback`
  */
 export async function POST(req: NextRequest) {
   const clientIp = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown'
@@ -58,6 +141,8 @@ export async function POST(req: NextRequest) {
       toAddress,
       userAddress,
       slippage,
+      holdIssuedAt,
+      holdSignature,
     } = await req.json()
 
     if (!amount || !fromToken || !fromChain || !toAddress || !userAddress) {
@@ -67,20 +152,29 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    const parsedRecipient = parseRecipient(String(toAddress))
+    if ('error' in parsedRecipient) {
+      return NextResponse.json({ error: parsedRecipient.error }, { status: 400 })
+    }
+    // Name or address without the chain, which keys volume, holds and referrals
+    const { recipient, isName } = parsedRecipient
+    const explicitChain = parsedRecipient.chainId !== null ? CHAIN_ID_TO_NAME[parsedRecipient.chainId] : undefined
+
     // --- ENS Resolution ---
-    let resolvedAddress = toAddress
+    let resolvedAddress = recipient
     let ensSlippage: number | undefined
     let ensMaxFee: string | undefined
     let ensStrategy: string | undefined
     let ensStrategies: string | undefined
     let strategyAllocations: StrategyAllocation[] = []
+    let payConfig: PayConfigV2 | undefined
     let toChain = requestedToChain || fromChain
 
-    if (toAddress.endsWith('.eth')) {
-      const ensResult = await resolveENS(toAddress)
+    if (isName) {
+      const ensResult = await resolveENS(recipient)
       if (!ensResult.address) {
         return NextResponse.json({
-          error: `Could not resolve ENS name "${toAddress}"`,
+          error: `Could not resolve ENS name "${recipient}"`,
         }, { status: 404 })
       }
       resolvedAddress = ensResult.address
@@ -98,15 +192,85 @@ export async function POST(req: NextRequest) {
       ensMaxFee = ensResult.maxFee
       ensStrategy = ensResult.strategy
       ensStrategies = ensResult.strategies
+      payConfig = ensResult.payConfig
 
       // Parse strategy allocation (multi-strategy takes precedence)
       strategyAllocations = parseStrategyAllocation(ensStrategy, ensStrategies)
     }
 
+    // --- PayConfig limits ---
+    let hold: PaymentHold | undefined
+    const limitCheck = await checkPaymentLimits(payConfig?.limits, String(amount), fromToken)
+    if ('error' in limitCheck) {
+      return NextResponse.json({ error: limitCheck.error }, { status: 400 })
+    }
+    if (!limitCheck.within && limitCheck.code === 'below_minimum') {
+      return NextResponse.json({
+        error: `${recipient} does not accept payments below $${limitCheck.minUsd}`,
+        code: 'below_minimum',
+        amountUsd: limitCheck.amountUsd,
+        minUsd: limitCheck.minUsd,
+      }, { status: 400 })
+    }
+    if (!limitCheck.within) {
+      const payment = { receiverEns: recipient, payerAddress: userAddress, amount: String(amount), fromToken, fromChain }
+      const existing = await findOpenHold(payment)
+
+      if (!existing) {
+        // Opening a hold notifies the receiver, so the payer must ask for it
+        if (!holdSignature || holdIssuedAt === undefined) {
+          return NextResponse.json({
+            routes: [],
+            resolvedAddress,
+            requiresApproval: true,
+            code: 'hold_signature_required',
+            amountUsd: limitCheck.amountUsd,
+            maxUsd: limitCheck.maxUsd,
+            holdRequest: {
+              domain: PREFERENCE_DOMAIN,
+              types: REQUEST_PAYMENT_HOLD_TYPES,
+              primaryType: 'RequestPaymentHold',
+              // Plus issuedAt (unix seconds), set when signing
+              message: holdRequestMessage(payment),
+            },
+          }, { status: 202 })
+        }
+        const auth = await verifyHoldRequest(payment, { issuedAt: holdIssuedAt, signature: holdSignature })
+        if (!auth.valid) {
+          return NextResponse.json({ error: auth.error }, { status: 401 })
+        }
+      }
+
+      const held = existing
+        ? { hold: existing, created: false }
+        : await holdPayment({
+          ...payment,
+          receiverAddress: resolvedAddress,
+          amountUsd: limitCheck.amountUsd,
+          maxUsd: limitCheck.maxUsd,
+        })
+      hold = held.hold
+
+      if (held.created) {
+        emitWebhookEvent('payment.held', resolvedAddress, { ...held.hold }).catch((error) => {
+          console.error('Failed to emit payment.held webhook:', error)
+        })
+      }
+
+      if (hold.status !== 'approved') {
+        return NextResponse.json({
+          routes: [],
+          resolvedAddress,
+          requiresApproval: true,
+          hold,
+        }, { status: 202 })
+      }
+    }
+
     // Get vault address from ENS resolution (for yield strategy)
     let yieldVault: string | undefined
-    if (toAddress.endsWith('.eth')) {
-      const ensResult = await resolveENS(toAddress)
+    if (isName) {
+      const ensResult = await resolveENS(recipient)
       yieldVault = ensResult.yieldVault
     }
 
@@ -114,53 +278,111 @@ export async function POST(req: NextRequest) {
     let finalToToken = toToken || fromToken
     let useYieldRoute = false
     let strategyWarning: string | undefined
+    let destinationRule: DestinationRule = 'strategy'
+    let destinationReason: string
+
+    // An explicit chain other than Base rules out the Base-only strategies
+    const baseOnlyStrategy = ensStrategy === 'restaking' || ensStrategy === 'yield' || isMultiVaultRoute(strategyAllocations)
+    if (explicitChain && explicitChain !== 'base' && baseOnlyStrategy) {
+      strategyWarning = `${ensStrategy || 'Multi'} strategy only runs on Base, paying out on ${explicitChain} as requested`
+      ensStrategy = undefined
+      strategyAllocations = []
+    }
 
     if (ensStrategy === 'restaking') {
       // Restaking strategy receives WETH (converted to ezETH)
       finalToToken = 'WETH'
       toChain = 'base'
+      destinationReason = 'Restaking strategy: WETH on Base, restaked as ezETH'
     } else if (ensStrategy === 'yield' && yieldVault) {
       // Validate vault address format
       if (!yieldVault.startsWith('0x') || yieldVault.length !== 42) {
         strategyWarning = 'Invalid vault address format, falling back to USDC'
         finalToToken = 'USDC'
         toChain = 'base'
+        destinationReason = strategyWarning
       } else {
         // Yield strategy: use LI.FI Zaps with vault as toToken
         // This deposits directly to the ERC-4626 vault
         finalToToken = yieldVault // Vault address as toToken
         toChain = 'base'
         useYieldRoute = true
+        destinationReason = 'Yield strategy: deposited into the receiver\'s vault on Base'
       }
     } else if (ensStrategy === 'yield' && !yieldVault) {
       // Yield strategy requested but no vault configured
       strategyWarning = 'Yield strategy set but no vault configured, falling back to USDC'
       finalToToken = 'USDC'
       toChain = 'base'
+      destinationReason = strategyWarning
+    } else if (payConfig) {
+      // Liquid strategy: the receive token and chain from com.pay.config
+      finalToToken = payConfig.receive.token
+      toChain = CHAIN_ID_TO_NAME[payConfig.receive.chain] ?? 'base'
+      destinationRule = 'pay-config'
+      destinationReason = `com.pay.config receives ${finalToToken} on ${toChain}`
+      if (!CHAIN_ID_TO_NAME[payConfig.receive.chain]) {
+        strategyWarning = `Chain ${payConfig.receive.chain} is not supported, falling back to Base`
+        destinationReason = strategyWarning
+      }
     } else {
       // Default to USDC for liquid strategy
       finalToToken = 'USDC'
       toChain = 'base'
+      destinationRule = 'default'
+      destinationReason = 'No preference set: USDC on Base'
     }
 
-    // Auto-resolve destination chain if toToken isn't available there
+    if (explicitChain) {
+      toChain = explicitChain
+      destinationRule = 'explicit-chain'
+      destinationReason = `${toAddress} names ${explicitChain}, which overrides the receiver's preferences`
+    }
+
+    // Auto-resolve destination chain if toToken isn't available there. An
+    // explicit chain stays put and takes USDC instead. The yield route's
+    // toToken is the vault itself
     const toChainId = CHAIN_MAP[toChain] || CHAIN_MAP.ethereum
-    if (!getTokenAddress(finalToToken, toChainId)) {
-      const bestChainId = getPreferredChainForToken(finalToToken)
-      if (bestChainId && CHAIN_ID_TO_NAME[bestChainId]) {
-        toChain = CHAIN_ID_TO_NAME[bestChainId]
+    if (!useYieldRoute && !getTokenAddress(finalToToken, toChainId)) {
+      if (explicitChain) {
+        if (!getTokenAddress('USDC', toChainId)) {
+          return NextResponse.json(
+            { error: `${recipient} can't be paid in ${finalToToken} or USDC on ${explicitChain}` },
+            { status: 400 }
+          )
+        }
+        destinationReason += `; ${finalToToken} isn't available there, so it receives USDC`
+        finalToToken = 'USDC'
+      } else {
+        const bestChainId = getPreferredChainForToken(finalToToken)
+        if (bestChainId && CHAIN_ID_TO_NAME[bestChainId]) {
+          destinationRule = 'token-availability'
+          destinationReason = `${finalToToken} isn't available on ${toChain}, so it's received on ${CHAIN_ID_TO_NAME[bestChainId]}`
+          toChain = CHAIN_ID_TO_NAME[bestChainId]
+        }
       }
     }
 
     // ENSIP-9: resolve chain-specific address for L2
+    const ensAddress = resolvedAddress
     const finalToChainId = CHAIN_MAP[toChain] || CHAIN_MAP.ethereum
-    if (toAddress.endsWith('.eth') && finalToChainId !== 1) {
-      const chainAddr = await resolveChainAddress(toAddress, finalToChainId)
+    if (isName && finalToChainId !== 1) {
+      const chainAddr = await resolveChainAddress(recipient, finalToChainId)
       if (chainAddr) {
         resolvedAddress = chainAddr
       }
     }
 
+    // ERC-7930 checksum, over the address the payment will actually go to
+    if (parsedRecipient.checksum && parsedRecipient.chainId !== null) {
+      const expected = interopChecksum(resolvedAddress as Address, parsedRecipient.chainId)
+      if (expected !== parsedRecipient.checksum) {
+        return NextResponse.json({
+          error: `Checksum ${parsedRecipient.checksum} does not match ${recipient} on ${explicitChain} (${expected})`,
+        }, { status: 400 })
+      }
+    }
+
     // Effective slippage
     const effectiveSlippage = slippage ?? ensSlippage
 
@@ -191,6 +413,7 @@ export async function POST(req: NextRequest) {
           resolvedAddress,
           toChain: 'base',
           toToken: 'USDC',
+          destination: { chain: 'base', token: 'USDC', rule: destinationRule, reason: 'Multi-strategy: split across the receiver\'s vaults on Base' },
           strategy: 'multi',
           strategyName: 'Multi-Strategy',
           useMultiVaultRoute: true,
@@ -224,6 +447,7 @@ export async function POST(req: NextRequest) {
           resolvedAddress,
           toChain: 'base', // Renzo is on Base
           toToken: 'ezETH',
+          destination: { chain: 'base', token: 'ezETH', rule: destinationRule, reason: destinationReason },
           strategy: strategy.id,
           strategyName: strategy.name,
           protocol: strategy.protocol,
@@ -246,6 +470,7 @@ export async function POST(req: NextRequest) {
 
     // Track if we're using a v4 route (for response)
     let useV4Route = false
+    let fallback: { token: string; chain: string; primaryToken: string; primaryChain: string } | undefined
 
     if (isSameTokenSameChain) {
       // Direct transfer - no routing needed
@@ -258,24 +483,60 @@ export async function POST(req: NextRequest) {
         routeType: 'standard',
       }]
     } else {
-      // Check for v4 hook routes (same-chain stablecoin swaps)
-      const v4Routes = findV4Routes({
+      // Find routes via LI.FI
+      let lifiRoutes = await findRoutes({
+        fromAddress: userAddress,
         fromChain,
         toChain,
         fromToken,
         toToken: finalToToken,
         amount,
+        slippage: effectiveSlippage,
       })
 
-      // Find routes via LI.FI
-      const lifiRoutes = await findRoutes({
-        fromAddress: userAddress,
+      // Primary destination unreachable: try the receiver's fallbacks in order
+      if (payConfig?.fallback && !hasUsableRoute(lifiRoutes)) {
+        const destinations = fallbackDestinations(payConfig, { token: finalToToken, chain: toChain })
+          // An explicit chain only allows the fallback tokens there
+          .filter((destination) => !explicitChain || destination.chain === explicitChain)
+        for (const destination of destinations) {
+          const routes = await findRoutes({
+            fromAddress: userAddress,
+            fromChain,
+            toChain: destination.chain,
+            fromToken,
+            toToken: destination.token,
+            amount,
+            slippage: effectiveSlippage,
+          })
+          if (!hasUsableRoute(routes)) continue
+
+          fallback = { ...destination, primaryToken: finalToToken, primaryChain: toChain }
+          destinationRule = 'fallback'
+          destinationReason = `No route to ${finalToToken} on ${toChain}, using the receiver's fallback ${destination.token} on ${destination.chain}`
+          lifiRoutes = routes
+          finalToToken = destination.token
+          toChain = destination.chain
+          useYieldRoute = false
+
+          // The ENSIP-9 address was resolved for the primary chain
+          const fallbackChainId = CHAIN_MAP[toChain]
+          if (isName) {
+            resolvedAddress = fallbackChainId !== 1
+              ? (await resolveChainAddress(recipient, fallbackChainId)) ?? ensAddress
+              : ensAddress
+          }
+          break
+        }
+      }
+
+      // Check for v4 hook routes (same-chain stablecoin swaps)
+      const v4Routes = findV4Routes({
         fromChain,
         toChain,
         fromToken,
         toToken: finalToToken,
         amount,
-        slippage: effectiveSlippage,
       })
 
       // Prioritize v4 routes for same-chain stablecoin swaps
@@ -309,10 +570,10 @@ export async function POST(req: NextRequest) {
 
     // Calculate fee tier for receiver
     const amountNum = parseFloat(amount) || 0
-    const volumeRecord = getVolumeRecord(toAddress)
+    const volumeRecord = await getVolumeRecord(recipient)
 
     // Check for internal payment (receiver-to-receiver = 0% fee)
-    const internalCheck = isInternalPayment(userAddress, toAddress)
+    const internalCheck = isInternalPayment(userAddress, recipient)
 
     const feeInfo = calculateFee({
       amountUsd: amountNum,
@@ -323,15 +584,18 @@ export async function POST(req: NextRequest) {
     const tierInfo = getNextTierInfo(volumeRecord.monthlyVolumeUsd)
 
     // Calculate referral reward (if receiver was referred)
-    const referralInfo = calculateReferralReward(toAddress, feeInfo.feeAmount)
+    const referralInfo = await calculateReferralReward(recipient, feeInfo.feeAmount)
 
     return NextResponse.json({
       routes: allRoutes,
       resolvedAddress,
       toChain,
       toToken: finalToToken,
+      destination: { chain: toChain, token: finalToToken, rule: destinationRule, reason: destinationReason },
       strategy: ensStrategy || 'liquid',
       strategyWarning, // Warning if strategy config is incomplete
+      fallback, // Set when routing to one of the receiver's fallback destinations
+      holdId: hold?.id, // Approved hold this payment was above limits.max under
       useV4Route,
       useYieldRoute,
       yieldVault: useYieldRoute ? yieldVault : undefined,
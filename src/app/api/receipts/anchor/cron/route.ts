@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runReceiptAnchor } from '@/lib/ens/receipt-anchor'
+
+/**
+ * GET /api/receipts/anchor/cron - Anchor new receipts on Base
+ *
+ * Commits the Merkle root of the receipts stored since the last batch to
+ * the ReceiptAnchor contract (see receipt-anchor.ts). Triggered by Vercel
+ * Cron (see vercel.json). The request must carry `Authorization: Bearer
+ * <CRON_SECRET>`; without CRON_SECRET the route refuses every request.
+ */
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 })
+  }
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await runReceiptAnchor()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Receipt anchor error:', error)
+    return NextResponse.json({ error: 'Anchor run failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runReceiptIngester } from '@/lib/ens/receipt-ingester'
+
+/**
+ * GET /api/receipts/cron - Create receipts from new payment events on-chain
+ *
+ * Scans each chain from its checkpoint (see receipt-ingester.ts). Triggered
+ * by Vercel Cron (see vercel.json). The request must carry
+ * `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET the route
+ * refuses every request.
+ */
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 })
+  }
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await runReceiptIngester()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Receipt ingester error:', error)
+    return NextResponse.json({ error: 'Ingester run failed' }, { status: 500 })
+  }
+}
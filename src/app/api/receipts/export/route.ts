@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EXPORT_FORMATS, isExportFormat, receiptToExportDocument } from '@/lib/export/document'
+import { renderExport } from '@/lib/export/render'
+import { getReceiptByTxHash } from '@/lib/ens/receipt-store'
+
+/**
+ * GET /api/receipts/export?tx=0xabc123&format=pdf|ubl
+ *
+ * Download a payment receipt as a PDF or as UBL 2.1 (EN 16931) XML, with the
+ * transaction hash, chain, token, sender, explorer proof link, ENS receipt
+ * subname and invoice hash.
+ */
+export async function GET(req: NextRequest) {
+  const tx = req.nextUrl.searchParams.get('tx')
+  const format = req.nextUrl.searchParams.get('format') || 'pdf'
+
+  if (!tx) {
+    return NextResponse.json({ error: 'Missing tx' }, { status: 400 })
+  }
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Invalid format (expected one of: ${EXPORT_FORMATS.join(', ')})` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const receipt = await getReceiptByTxHash(tx)
+    if (!receipt) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 })
+    }
+
+    const file = await renderExport(await receiptToExportDocument(receipt), format)
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Receipt export error:', error)
+    return NextResponse.json({ error: 'Failed to export receipt' }, { status: 500 })
+  }
+}
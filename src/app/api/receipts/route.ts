@@ -4,7 +4,7 @@ import {
   getReceiptByTxHash,
   getAllReceipts,
 } from '@/lib/ens/receipt-store'
-import { generateReceiptSubnameForENS } from '@/lib/ens/receipts'
+import { getReceiptProof } from '@/lib/ens/receipt-anchor'
 
 /**
  * GET /api/receipts
@@ -16,6 +16,11 @@ import { generateReceiptSubnameForENS } from '@/lib/ens/receipts'
  *
  * Returns receipts with their corresponding CCIP-Read subname pattern:
  * tx-{shortHash}.payments.{name}.eth
+ *
+ * A single receipt also carries its Merkle inclusion proof once its batch
+ * is anchored on Base (see receipt-proof.ts), and null before.
+ *
+ * PDF and UBL exports are served by /api/receipts/export.
  */
 export async function GET(req: NextRequest) {
   const ens = req.nextUrl.searchParams.get('ens')
@@ -32,14 +37,11 @@ export async function GET(req: NextRequest) {
         )
       }
 
-      // Generate the CCIP-Read subname for this receipt
-      const subname = receipt.receiver.endsWith('.eth')
-        ? generateReceiptSubnameForENS(receipt.txHash, receipt.receiver)
-        : null
-
       return NextResponse.json({
         receipt,
-        subname,
+        // The CCIP-Read subname for this receipt
+        subname: receipt.subname ?? null,
+        proof: await getReceiptProof(receipt.txHash),
         ccipReadKeys: [
           'com.ensio.amount',
           'com.ensio.token',
@@ -47,6 +49,7 @@ export async function GET(req: NextRequest) {
           'com.ensio.chain',
           'com.ensio.timestamp',
           'com.ensio.txHash',
+          'com.ensio.proof',
         ],
       })
     }
@@ -55,15 +58,10 @@ export async function GET(req: NextRequest) {
     if (ens) {
       const receipts = await getReceiptsByENS(ens)
 
-      // Add subnames to each receipt
-      const receiptsWithSubnames = receipts.map((receipt) => ({
-        ...receipt,
-        subname: generateReceiptSubnameForENS(receipt.txHash, ens),
-      }))
-
+      // Each receipt carries its subname
       return NextResponse.json({
         ens,
-        receipts: receiptsWithSubnames,
+        receipts,
         count: receipts.length,
       })
     }
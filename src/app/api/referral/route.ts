@@ -31,7 +31,7 @@ export async function GET(req: NextRequest) {
 
   // Get referrer stats
   if (address) {
-    const stats = getReferrerStats(address)
+    const stats = await getReferrerStats(address)
     const referralCode = generateReferralCode(address)
     const referralLink = `https://ensio-pay.vercel.app/setup?ref=${referralCode}`
 
@@ -114,7 +114,7 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const result = registerReferral(resolvedReferrer, referred)
+    const result = await registerReferral(resolvedReferrer, referred)
 
     if (!result.success) {
       return NextResponse.json({ error: result.error }, { status: 400 })
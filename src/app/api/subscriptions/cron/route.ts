@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runSubscriptionScheduler } from '@/lib/subscriptions/scheduler'
+
+/**
+ * GET /api/subscriptions/cron - Generate invoices for every due subscription
+ *
+ * Triggered by Vercel Cron (see vercel.json). The request must carry
+ * `Authorization: Bearer <CRON_SECRET>`, which Vercel adds automatically;
+ * without CRON_SECRET the route refuses every request.
+ */
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 })
+  }
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await runSubscriptionScheduler()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Subscription scheduler error:', error)
+    return NextResponse.json({ error: 'Scheduler run failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { isAddress } from 'viem'
+import { listInvoices } from '@/lib/invoices/store'
+import {
+  SUBSCRIPTION_FREQUENCIES,
+  changeSubscriptionStatus,
+  isSubscriptionFrequency,
+  type Subscription,
+  type SubscriptionAction,
+} from '@/lib/subscriptions/schedule'
+import { billSubscription } from '@/lib/subscriptions/scheduler'
+import {
+  getSubscription,
+  listSubscriptions,
+  saveSubscription,
+  updateSubscription,
+} from '@/lib/subscriptions/store'
+
+/**
+ * GET /api/subscriptions?id=xxx - Subscription with its generated invoices
+ * GET /api/subscriptions?receiver=0x... or ?payer=0x... - List subscriptions
+ * POST /api/subscriptions - Create a recurring invoice schedule
+ * PATCH /api/subscriptions - { id, action: "pause" | "resume" | "cancel" }
+ *
+ * Invoices are generated by the scheduler (see /api/subscriptions/cron); a
+ * subscription whose start time has already passed is billed immediately.
+ */
+
+const RECENT_INVOICES = 5
+
+export async function GET(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get('id')
+  const receiver = req.nextUrl.searchParams.get('receiver')
+  const payer = req.nextUrl.searchParams.get('payer')
+
+  if (id) {
+    const subscription = await getSubscription(id)
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+    const invoices = await listInvoices({ subscriptionId: id })
+    return NextResponse.json({ ...subscription, invoices })
+  }
+
+  if (!receiver && !payer) {
+    return NextResponse.json({ error: 'Missing id, receiver or payer' }, { status: 400 })
+  }
+
+  const subscriptions = await listSubscriptions({
+    ...(receiver && { receiverAddress: receiver }),
+    ...(payer && { payerAddress: payer }),
+  })
+
+  const withInvoices = await Promise.all(
+    subscriptions.map(async (sub) => ({
+      ...sub,
+      invoices: (await listInvoices({ subscriptionId: sub.id })).slice(0, RECENT_INVOICES),
+    })),
+  )
+
+  return NextResponse.json({ subscriptions: withInvoices })
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const {
+      receiverAddress,
+      receiverEns,
+      payerAddress,
+      payerEns,
+      amount,
+      token,
+      memo,
+      frequency,
+      startAt,
+      endAt,
+      dueInHours,
+    } = body as {
+      receiverAddress: string
+      receiverEns?: string
+      payerAddress: string
+      payerEns?: string
+      amount: string
+      token?: string
+      memo?: string
+      frequency: string
+      startAt?: string
+      endAt?: string
+      dueInHours?: number
+    }
+
+    if (!receiverAddress || !payerAddress || !amount) {
+      return NextResponse.json(
+        { error: 'Missing required fields: receiverAddress, payerAddress, amount' },
+        { status: 400 }
+      )
+    }
+
+    if (!isAddress(receiverAddress) || !isAddress(payerAddress)) {
+      return NextResponse.json({ error: 'Invalid receiver or payer address' }, { status: 400 })
+    }
+
+    if (!isSubscriptionFrequency(frequency)) {
+      return NextResponse.json(
+        { error: `Invalid frequency (expected one of: ${SUBSCRIPTION_FREQUENCIES.join(', ')})` },
+        { status: 400 }
+      )
+    }
+
+    if (!(parseFloat(amount) > 0)) {
+      return NextResponse.json({ error: 'Amount must be positive' }, { status: 400 })
+    }
+
+    const now = new Date()
+    const start = startAt ? new Date(startAt) : now
+    const end = endAt ? new Date(endAt) : undefined
+    if (isNaN(start.getTime()) || (end && (isNaN(end.getTime()) || end <= start))) {
+      return NextResponse.json({ error: 'Invalid startAt/endAt' }, { status: 400 })
+    }
+
+    const subscription: Subscription = {
+      id: randomUUID().slice(0, 8),
+      receiverAddress,
+      receiverEns,
+      payerAddress,
+      payerEns,
+      amount,
+      token: token || 'USDC',
+      memo,
+      frequency,
+      status: 'active',
+      startAt: start.toISOString(),
+      endAt: end?.toISOString(),
+      dueInHours,
+      nextPeriod: 0,
+      nextRunAt: start.toISOString(),
+      invoiceIds: [],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    }
+
+    await saveSubscription(subscription)
+
+    if (start <= now) {
+      const billed = await billSubscription(subscription.id)
+      if ('subscription' in billed) {
+        return NextResponse.json(billed.subscription)
+      }
+    }
+
+    return NextResponse.json(subscription)
+  } catch (error) {
+    console.error('Subscription creation error:', error)
+    return NextResponse.json({ error: 'Failed to create subscription' }, { status: 500 })
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const { id, action } = body as { id: string; action: string }
+
+    if (!id || !['pause', 'resume', 'cancel'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Missing id or invalid action (expected one of: pause, resume, cancel)' },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateSubscription(id, (current) =>
+      changeSubscriptionStatus(current, action as SubscriptionAction),
+    )
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 })
+    }
+    return NextResponse.json(result.subscription)
+  } catch (error) {
+    console.error('Subscription update error:', error)
+    return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 })
+  }
+}
@@ -28,7 +28,7 @@ export async function GET(req: NextRequest) {
   }
 
   // Get tier info for specific address
-  const volumeRecord = getVolumeRecord(address)
+  const volumeRecord = await getVolumeRecord(address)
   const tierInfo = getNextTierInfo(volumeRecord.monthlyVolumeUsd)
 
   return NextResponse.json({
@@ -69,7 +69,7 @@ export async function POST(req: NextRequest) {
   const { action } = await req.json()
 
   if (action === 'leaderboard') {
-    const leaderboard = getLeaderboard()
+    const leaderboard = await getLeaderboard()
     return NextResponse.json({
       leaderboard: leaderboard.map((r, i) => ({
         rank: i + 1,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createPublicClient, http, parseAbi } from 'viem'
 import { base } from 'viem/chains'
+import { getYieldDataProvider } from '@/lib/yield/providers'
 
 const client = createPublicClient({
   chain: base,
@@ -14,38 +15,6 @@ const erc4626Abi = parseAbi([
   'function decimals() view returns (uint8)',
 ])
 
-// DeFiLlama pool IDs for APY lookup
-const VAULT_POOLS: Record<string, string> = {
-  '0x4e65fe4dba92790696d040ac24aa414708f5c0ab': 'aave-v3-base-usdc', // Aave USDC on Base
-  '0x7bfa7c4f149e7415b73bdedfe609237e29cbf34a': 'morpho-base-usdc',  // Morpho USDC on Base
-}
-
-async function fetchApyFromDefiLlama(vaultAddress: string): Promise<number | null> {
-  try {
-    // Try to get APY from DeFiLlama yields API
-    const res = await fetch('https://yields.llama.fi/pools', {
-      next: { revalidate: 300 }, // Cache for 5 minutes
-    })
-
-    if (!res.ok) return null
-
-    const data = await res.json()
-    const poolId = VAULT_POOLS[vaultAddress.toLowerCase()]
-
-    if (!poolId) return null
-
-    // Search for matching pool
-    const pool = data.data?.find((p: { pool: string; apy: number }) =>
-      p.pool.toLowerCase().includes(poolId.toLowerCase()) ||
-      p.pool.toLowerCase().includes(vaultAddress.toLowerCase())
-    )
-
-    return pool?.apy ?? null
-  } catch {
-    return null
-  }
-}
-
 // Fallback: estimate APY from known protocols
 const FALLBACK_APY: Record<string, number> = {
   '0x4e65fe4dba92790696d040ac24aa414708f5c0ab': 4.2,  // Aave USDC
@@ -94,11 +63,9 @@ export async function GET(req: NextRequest) {
     const assetsFormatted = Number(assets) / Number(divisor)
     const sharesFormatted = Number(shares) / Number(divisor)
 
-    // Fetch APY (try DeFiLlama, fallback to hardcoded)
-    let apy = await fetchApyFromDefiLlama(vaultAddress)
-    if (apy === null) {
-      apy = FALLBACK_APY[vaultAddress.toLowerCase()] ?? 0
-    }
+    // Fetch APY (try the yield-data provider, fallback to hardcoded)
+    const vaultYield = await getYieldDataProvider().getVaultYield({ address: vaultAddress, chainId: base.id })
+    const apy = vaultYield?.apy ?? FALLBACK_APY[vaultAddress.toLowerCase()] ?? 0
 
     // Estimate yield earned (simplified: assume linear accrual)
     // In reality would need to track deposits over time
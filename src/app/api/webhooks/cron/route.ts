@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processDueDeliveries } from '@/lib/webhooks/delivery'
+
+/**
+ * GET /api/webhooks/cron - Retry every webhook delivery whose backoff has elapsed
+ *
+ * Triggered by Vercel Cron (see vercel.json). The request must carry
+ * `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET the route
+ * refuses every request.
+ */
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 })
+  }
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await processDueDeliveries()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Webhook retry error:', error)
+    return NextResponse.json({ error: 'Retry run failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAddress } from 'viem'
+import { verifyWebhookAuthorization } from '@/lib/webhooks/events'
+import { getEndpoint, listDeliveries, listEndpoints, type DeliveryStatus } from '@/lib/webhooks/store'
+
+/**
+ * GET /api/webhooks/deliveries?receiver=0x...&endpoint=whe_xxx - Delivery log for one endpoint
+ * GET /api/webhooks/deliveries?receiver=0x... - Delivery log across a receiver's endpoints
+ *
+ * Optional `status` (pending | succeeded | failed) and `limit` (default 50).
+ * Each entry lists every attempt with its HTTP status or error.
+ *
+ * Deliveries carry full event payloads, so reading them is authorized by an
+ * EIP-712 ManageWebhook signature from the receiver, passed as `issuedAt`
+ * and `signature` (action "list-deliveries", target = endpoint ID, or the
+ * lowercased receiver address for the log across endpoints).
+ */
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 500
+
+export async function GET(req: NextRequest) {
+  const endpointId = req.nextUrl.searchParams.get('endpoint')
+  const receiver = req.nextUrl.searchParams.get('receiver')
+  const issuedAt = Number(req.nextUrl.searchParams.get('issuedAt'))
+  const signature = req.nextUrl.searchParams.get('signature')
+  const status = req.nextUrl.searchParams.get('status')
+  const limit = Math.min(Number(req.nextUrl.searchParams.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT)
+
+  if (!receiver || !isAddress(receiver) || !signature) {
+    return NextResponse.json({ error: 'Missing required parameters: receiver, issuedAt, signature' }, { status: 400 })
+  }
+  if (status && !['pending', 'succeeded', 'failed'].includes(status)) {
+    return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+  }
+  const statusFilter = status ? { status: status as DeliveryStatus } : {}
+
+  if (endpointId) {
+    const endpoint = await getEndpoint(endpointId)
+    if (!endpoint || endpoint.receiverAddress !== receiver.toLowerCase()) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+  }
+
+  const auth = await verifyWebhookAuthorization({
+    receiver,
+    action: 'list-deliveries',
+    target: endpointId ?? receiver.toLowerCase(),
+    issuedAt,
+    signature,
+  })
+  if (!auth.valid) {
+    return NextResponse.json({ error: auth.error }, { status: 401 })
+  }
+
+  if (endpointId) {
+    const deliveries = await listDeliveries({ endpointId, ...statusFilter })
+    return NextResponse.json({ deliveries: deliveries.slice(0, limit) })
+  }
+
+  const endpointIds = new Set((await listEndpoints({ receiverAddress: receiver })).map((ep) => ep.id))
+  const deliveries = (await listDeliveries(statusFilter)).filter((d) => endpointIds.has(d.endpointId))
+  return NextResponse.json({ deliveries: deliveries.slice(0, limit) })
+}
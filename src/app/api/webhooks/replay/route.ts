@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyWebhookAuthorization } from '@/lib/webhooks/events'
+import { replayDelivery } from '@/lib/webhooks/delivery'
+import { getDelivery, getEndpoint } from '@/lib/webhooks/store'
+
+/**
+ * POST /api/webhooks/replay - Re-send a logged delivery
+ *   { receiver, deliveryId, issuedAt, signature }
+ *
+ * The event is sent again (same event ID, so receivers can deduplicate) as a
+ * new delivery with `replayOf` set, attempted immediately and retried like
+ * any other. Authorized by an EIP-712 ManageWebhook signature (action
+ * "replay", target = deliveryId).
+ */
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const { receiver, deliveryId, issuedAt, signature } = body as {
+      receiver: string
+      deliveryId: string
+      issuedAt: number
+      signature: string
+    }
+
+    if (!receiver || !deliveryId || !signature || issuedAt === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: receiver, deliveryId, issuedAt, signature' },
+        { status: 400 }
+      )
+    }
+
+    const delivery = await getDelivery(deliveryId)
+    const endpoint = delivery ? await getEndpoint(delivery.endpointId) : null
+    if (!delivery || !endpoint || endpoint.receiverAddress !== receiver.toLowerCase()) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    const auth = await verifyWebhookAuthorization({ receiver, action: 'replay', target: deliveryId, issuedAt, signature })
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const result = await replayDelivery(deliveryId)
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 })
+    }
+    return NextResponse.json(result.delivery)
+  } catch (error) {
+    console.error('Webhook replay error:', error)
+    return NextResponse.json({ error: 'Failed to replay delivery' }, { status: 500 })
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { isAddress } from 'viem'
+import {
+  WEBHOOK_EVENT_TYPES,
+  isWebhookEventType,
+  verifyWebhookAuthorization,
+  type WebhookEventType,
+} from '@/lib/webhooks/events'
+import { generateWebhookSecret } from '@/lib/webhooks/signing'
+import { checkWebhookTarget } from '@/lib/webhooks/targets'
+import {
+  deleteEndpoint,
+  getEndpoint,
+  listEndpoints,
+  saveEndpoint,
+  type WebhookEndpoint,
+} from '@/lib/webhooks/store'
+
+/**
+ * GET /api/webhooks?receiver=0x... - List a receiver's webhook endpoints
+ * POST /api/webhooks - Register an endpoint
+ *   { receiver, url, events?, issuedAt, signature }
+ * DELETE /api/webhooks - Remove an endpoint
+ *   { receiver, id, issuedAt, signature }
+ *
+ * POST and DELETE are authorized by an EIP-712 ManageWebhook signature from
+ * the receiver (target = url for POST, endpoint id for DELETE). The signing
+ * secret is returned only once, in the POST response; deliveries carry
+ * X-Ensio-Signature (see lib/webhooks/signing.ts). URLs must be HTTPS on a
+ * public host (see lib/webhooks/targets.ts).
+ */
+
+function publicEndpoint(endpoint: WebhookEndpoint): Omit<WebhookEndpoint, 'secret'> {
+  const { id, receiverAddress, url, events, active, createdAt } = endpoint
+  return { id, receiverAddress, url, events, active, createdAt }
+}
+
+export async function GET(req: NextRequest) {
+  const receiver = req.nextUrl.searchParams.get('receiver')
+
+  if (!receiver || !isAddress(receiver)) {
+    return NextResponse.json({ error: 'Missing or invalid receiver' }, { status: 400 })
+  }
+
+  const endpoints = await listEndpoints({ receiverAddress: receiver })
+  return NextResponse.json({ endpoints: endpoints.map(publicEndpoint) })
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const { receiver, url, events, issuedAt, signature } = body as {
+      receiver: string
+      url: string
+      events?: string[]
+      issuedAt: number
+      signature: string
+    }
+
+    if (!receiver || !url || !signature || issuedAt === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: receiver, url, issuedAt, signature' },
+        { status: 400 }
+      )
+    }
+
+    if (!isAddress(receiver)) {
+      return NextResponse.json({ error: 'Invalid receiver address' }, { status: 400 })
+    }
+
+    const target = await checkWebhookTarget(url)
+    if (!target.valid) {
+      return NextResponse.json({ error: target.error }, { status: 400 })
+    }
+
+    if (events !== undefined && (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEventType))) {
+      return NextResponse.json(
+        { error: `Invalid events (expected any of: ${WEBHOOK_EVENT_TYPES.join(', ')})` },
+        { status: 400 }
+      )
+    }
+
+    const auth = await verifyWebhookAuthorization({ receiver, action: 'create', target: url, issuedAt, signature })
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    const endpoint: WebhookEndpoint = {
+      id: `whe_${randomUUID().slice(0, 8)}`,
+      receiverAddress: receiver.toLowerCase(),
+      url,
+      secret: generateWebhookSecret(),
+      events: events ? [...new Set(events as WebhookEventType[])] : [...WEBHOOK_EVENT_TYPES],
+      active: true,
+      createdAt: new Date().toISOString(),
+    }
+    await saveEndpoint(endpoint)
+
+    return NextResponse.json(endpoint)
+  } catch (error) {
+    console.error('Webhook registration error:', error)
+    return NextResponse.json({ error: 'Failed to register webhook' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const body = await req.json()
+    const { receiver, id, issuedAt, signature } = body as {
+      receiver: string
+      id: string
+      issuedAt: number
+      signature: string
+    }
+
+    if (!receiver || !id || !signature || issuedAt === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: receiver, id, issuedAt, signature' },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await getEndpoint(id)
+    if (!endpoint || endpoint.receiverAddress !== receiver.toLowerCase()) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const auth = await verifyWebhookAuthorization({ receiver, action: 'delete', target: id, issuedAt, signature })
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: 401 })
+    }
+
+    await deleteEndpoint(id)
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    console.error('Webhook deletion error:', error)
+    return NextResponse.json({ error: 'Failed to delete webhook' }, { status: 500 })
+  }
+}
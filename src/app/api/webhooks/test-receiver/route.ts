@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SIGNATURE_HEADER, verifyWebhookSignature } from '@/lib/webhooks/signing'
+
+/**
+ * Local webhook receiver for development (404 in production).
+ *
+ * POST /api/webhooks/test-receiver?secret=whsec_... - Accept a delivery
+ *   The signature is checked against `secret` (or WEBHOOK_TEST_SECRET);
+ *   invalid signatures get 401. Add `fail=1` to answer 500 and exercise the
+ *   retry path.
+ * GET /api/webhooks/test-receiver - The last deliveries received, newest first
+ *
+ * Register http://localhost:3000/api/webhooks/test-receiver?secret=... after
+ * creating the endpoint, or set WEBHOOK_TEST_SECRET to its secret.
+ */
+
+type ReceivedDelivery = {
+  receivedAt: string
+  deliveryId: string | null
+  event: string | null
+  signatureValid: boolean
+  error?: string
+  body: unknown
+}
+
+const MAX_RECEIVED = 50
+const received: ReceivedDelivery[] = []
+
+function notFound() {
+  return NextResponse.json({ error: 'Not found' }, { status: 404 })
+}
+
+export async function GET() {
+  if (process.env.NODE_ENV === 'production') return notFound()
+  return NextResponse.json({ received })
+}
+
+export async function POST(req: NextRequest) {
+  if (process.env.NODE_ENV === 'production') return notFound()
+
+  const raw = await req.text()
+  const secret = req.nextUrl.searchParams.get('secret') || process.env.WEBHOOK_TEST_SECRET
+  const check = secret
+    ? verifyWebhookSignature(secret, raw, req.headers.get(SIGNATURE_HEADER))
+    : { valid: false as const, error: 'No secret configured' }
+
+  let body: unknown = raw
+  try {
+    body = JSON.parse(raw)
+  } catch {
+    // keep raw text
+  }
+
+  received.unshift({
+    receivedAt: new Date().toISOString(),
+    deliveryId: req.headers.get('x-ensio-delivery'),
+    event: req.headers.get('x-ensio-event'),
+    signatureValid: check.valid,
+    ...(!check.valid && { error: check.error }),
+    body,
+  })
+  received.length = Math.min(received.length, MAX_RECEIVED)
+
+  if (!check.valid) {
+    return NextResponse.json({ error: check.error }, { status: 401 })
+  }
+  if (req.nextUrl.searchParams.get('fail') === '1') {
+    return NextResponse.json({ error: 'Simulated failure' }, { status: 500 })
+  }
+  return NextResponse.json({ received: true })
+}
@@ -5,19 +5,16 @@ import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { usePrimaryNames } from '@/hooks/use-primary-names'
+import type { Invoice } from '@/lib/invoices/lifecycle'
+import type { SettlementQuote } from '@/lib/invoices/conversion'
+import { formatInvoiceAmount, getInvoiceDecimals, lineItemTotal } from '@/lib/invoices/pricing'
 
-interface Invoice {
-  id: string
-  receiverAddress: string
-  receiverEns?: string
-  amount: string
-  token: string
-  memo?: string
-  status: 'pending' | 'paid' | 'expired'
-  createdAt: string
-  paidAt?: string
-  paidTxHash?: string
-  expiresAt?: string
+const BLOCK_EXPLORERS: Record<string, string> = {
+  ethereum: 'https://etherscan.io',
+  base: 'https://basescan.org',
+  arbitrum: 'https://arbiscan.io',
+  optimism: 'https://optimistic.etherscan.io',
 }
 
 function formatDate(dateStr: string) {
@@ -39,11 +36,12 @@ export default function InvoicePage() {
   const router = useRouter()
   const id = params.id as string
 
-  const [invoice, setInvoice] = useState<Invoice | null>(null)
+  const [invoice, setInvoice] = useState<(Invoice & { settlement?: SettlementQuote }) | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [ensVerified, setEnsVerified] = useState<boolean | null>(null)
   const [ensRecordKey, setEnsRecordKey] = useState<string | null>(null)
+  const payerName = usePrimaryNames(invoice?.payments.map((p) => ({ address: p.payer, chain: p.chain })) ?? [])
 
   useEffect(() => {
     if (!id) return
@@ -105,7 +103,11 @@ export default function InvoicePage() {
 
   const isPaid = invoice.status === 'paid'
   const isExpired = invoice.status === 'expired'
+  const isClosed = invoice.status === 'cancelled' || invoice.status === 'refunded'
+  const isPayable = invoice.status === 'pending' || invoice.status === 'partially_paid'
   const displayName = invoice.receiverEns || formatAddress(invoice.receiverAddress)
+  const isOverdue = isPayable && !!invoice.dueDate && new Date(invoice.dueDate) < new Date()
+  const payAmount = invoice.settlement?.amount ?? invoice.amountDue
 
   return (
     <div className="min-h-screen bg-[#FAFAF8] py-12 px-4">
@@ -136,10 +138,20 @@ export default function InvoicePage() {
                   Expired
                 </div>
               )}
-              {!isPaid && !isExpired && (
+              {isClosed && (
+                <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-[#F8F7F4] text-[#6B6960] text-sm font-medium">
+                  {invoice.status === 'cancelled' ? 'Cancelled' : 'Refunded'}
+                </div>
+              )}
+              {invoice.status === 'draft' && (
+                <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-[#F8F7F4] text-[#6B6960] text-sm font-medium">
+                  Draft
+                </div>
+              )}
+              {isPayable && (
                 <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-[#F8F7F4] text-[#6B6960] text-sm font-medium">
                   <div className="w-2 h-2 rounded-full bg-[#FFC107] animate-pulse" />
-                  Awaiting Payment
+                  {invoice.status === 'partially_paid' ? 'Partially Paid' : 'Awaiting Payment'}
                 </div>
               )}
             </div>
@@ -147,11 +159,71 @@ export default function InvoicePage() {
             {/* Amount */}
             <div className="text-center">
               <p className="text-4xl font-bold text-[#1C1B18]">
-                {parseFloat(invoice.amount).toLocaleString()} {invoice.token}
+                {formatInvoiceAmount(invoice.amount, invoice)}
               </p>
               <p className="text-sm text-[#6B6960] mt-1">to {displayName}</p>
+              {invoice.status === 'partially_paid' && (
+                <p className="text-sm text-[#1C1B18] mt-2">
+                  {formatInvoiceAmount(invoice.amountDue, invoice)} remaining
+                </p>
+              )}
+              {invoice.currency && isPayable && (
+                <p className="text-xs text-[#9C9B93] mt-1">
+                  Settled in {invoice.token}
+                  {invoice.settlement && ` · 1 ${invoice.token} = ${formatInvoiceAmount(String(invoice.settlement.rate), invoice)}`}
+                </p>
+              )}
             </div>
 
+            {/* Line Items */}
+            {invoice.lineItems && invoice.lineItems.length > 0 && (
+              <div className="space-y-2 text-sm">
+                <p className="text-xs text-[#9C9B93]">ITEMS</p>
+                {invoice.lineItems.map((item, i) => (
+                  <div key={i} className="flex justify-between gap-4">
+                    <span className="text-[#1C1B18]">
+                      {item.description}
+                      {item.quantity !== '1' && (
+                        <span className="text-[#6B6960]"> × {item.quantity} @ {formatInvoiceAmount(item.unitPrice, invoice)}</span>
+                      )}
+                    </span>
+                    <span className="text-[#1C1B18] shrink-0">
+                      {formatInvoiceAmount(lineItemTotal(item, getInvoiceDecimals(invoice)) ?? '0', invoice)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Totals */}
+            {invoice.subtotal && (
+              <div className="space-y-2 text-sm border-t border-[#E4E2DC] pt-3">
+                <div className="flex justify-between">
+                  <span className="text-[#6B6960]">Subtotal</span>
+                  <span className="text-[#1C1B18]">{formatInvoiceAmount(invoice.subtotal, invoice)}</span>
+                </div>
+                {invoice.discount && invoice.discountAmount && (
+                  <div className="flex justify-between">
+                    <span className="text-[#6B6960]">
+                      {invoice.discount.description || 'Discount'}
+                      {invoice.discount.type === 'percent' && ` (${invoice.discount.value}%)`}
+                    </span>
+                    <span className="text-[#22C55E]">−{formatInvoiceAmount(invoice.discountAmount, invoice)}</span>
+                  </div>
+                )}
+                {invoice.taxRate !== undefined && invoice.taxAmount && (
+                  <div className="flex justify-between">
+                    <span className="text-[#6B6960]">Tax ({invoice.taxRate}%)</span>
+                    <span className="text-[#1C1B18]">{formatInvoiceAmount(invoice.taxAmount, invoice)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-medium">
+                  <span className="text-[#1C1B18]">Total</span>
+                  <span className="text-[#1C1B18]">{formatInvoiceAmount(invoice.amount, invoice)}</span>
+                </div>
+              </div>
+            )}
+
             {/* Memo */}
             {invoice.memo && (
               <div className="rounded-lg bg-[#F8F7F4] p-4">
@@ -179,7 +251,29 @@ export default function InvoicePage() {
                 <span className="text-[#6B6960]">Created</span>
                 <span className="text-[#1C1B18]">{formatDate(invoice.createdAt)}</span>
               </div>
-              {invoice.expiresAt && !isPaid && (
+              {invoice.dueDate && (
+                <div className="flex justify-between">
+                  <span className="text-[#6B6960]">Due</span>
+                  <span className={isOverdue ? 'text-[#E65100]' : 'text-[#1C1B18]'}>
+                    {formatDate(invoice.dueDate)}{isOverdue && ' (overdue)'}
+                  </span>
+                </div>
+              )}
+              {invoice.periodStart && invoice.periodEnd && (
+                <div className="flex justify-between">
+                  <span className="text-[#6B6960]">Billing period</span>
+                  <span className="text-[#1C1B18]">
+                    {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+                  </span>
+                </div>
+              )}
+              {invoice.payerAddress && (
+                <div className="flex justify-between">
+                  <span className="text-[#6B6960]">Billed to</span>
+                  <span className="text-[#1C1B18]">{invoice.payerEns || formatAddress(invoice.payerAddress)}</span>
+                </div>
+              )}
+              {invoice.expiresAt && (isPayable || isExpired) && (
                 <div className="flex justify-between">
                   <span className="text-[#6B6960]">Expires</span>
                   <span className={isExpired ? 'text-[#E65100]' : 'text-[#1C1B18]'}>
@@ -196,31 +290,59 @@ export default function InvoicePage() {
             </div>
 
             {/* Pay Button */}
-            {!isPaid && !isExpired && (
+            {isPayable && (
               <Button
                 onClick={() => {
                   const payUrl = invoice.receiverEns
-                    ? `/pay/${invoice.receiverEns}?invoice=${invoice.id}&amount=${invoice.amount}`
-                    : `/pay/${invoice.receiverAddress}?invoice=${invoice.id}&amount=${invoice.amount}`
+                    ? `/pay/${invoice.receiverEns}?invoice=${invoice.id}&amount=${payAmount}`
+                    : `/pay/${invoice.receiverAddress}?invoice=${invoice.id}&amount=${payAmount}`
                   router.push(payUrl)
                 }}
                 className="w-full h-12 bg-[#1C1B18] hover:bg-[#2D2C28] text-white font-medium"
               >
-                Pay {parseFloat(invoice.amount).toLocaleString()} {invoice.token}
+                Pay {parseFloat(payAmount).toLocaleString()} {invoice.token}
               </Button>
             )}
 
-            {/* Paid Transaction */}
-            {isPaid && invoice.paidTxHash && (
-              <a
-                href={`https://basescan.org/tx/${invoice.paidTxHash}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="block text-center text-sm text-[#6B6960] hover:text-[#1C1B18] underline"
-              >
-                View transaction
-              </a>
+            {/* Payments */}
+            {invoice.payments.length > 0 && (
+              <div className="space-y-2 text-sm">
+                <p className="text-xs text-[#9C9B93]">PAYMENTS</p>
+                {invoice.payments.map((p) => (
+                  <a
+                    key={p.txHash}
+                    href={`${BLOCK_EXPLORERS[p.chain] || BLOCK_EXPLORERS.base}/tx/${p.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex justify-between rounded-lg bg-[#F8F7F4] px-3 py-2 hover:bg-[#F0EFEB]"
+                  >
+                    <span className="text-[#6B6960]">
+                      {payerName(p.payer, p.chain) || formatAddress(p.payer)} · {p.chain}
+                      {(invoice.currency || p.paidToken !== invoice.token) && ` · ${p.paidAmount} ${p.paidToken}`}
+                    </span>
+                    <span className="text-[#1C1B18]">+{formatInvoiceAmount(p.amount, invoice)}</span>
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {/* Overpayment */}
+            {invoice.creditNote && (
+              <div className="rounded-lg bg-[#FFF3E0] p-3 text-sm text-[#E65100]">
+                Overpaid by {formatInvoiceAmount(invoice.creditNote.amount, invoice)}. A credit note
+                was issued to {formatAddress(invoice.creditNote.payer)}.
+              </div>
             )}
+
+            {/* Export */}
+            <div className="flex justify-center gap-4 text-xs text-[#6B6960]">
+              <a href={`/api/invoice/export?id=${invoice.id}&format=pdf`} className="underline hover:text-[#1C1B18]">
+                Download PDF
+              </a>
+              <a href={`/api/invoice/export?id=${invoice.id}&format=ubl`} className="underline hover:text-[#1C1B18]">
+                Download UBL (XML)
+              </a>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -2,16 +2,43 @@ import { Suspense } from 'react'
 import { PaymentFlow } from './payment-flow'
 import { PayNav } from './pay-nav'
 import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
 
 interface Props {
   params: Promise<{ ens: string }>
-  searchParams: Promise<{ amount?: string; token?: string; invoice?: string }>
+  searchParams: Promise<{ amount?: string; token?: string; invoice?: string; request?: string }>
 }
 
 interface Invoice {
   id: string
   amount: string
+  amountPaid: string
+  amountDue: string
+  token: string
+  currency?: string
   memo?: string
+  settlement?: { amount: string }
+}
+
+interface PaymentRequest {
+  id: string
+  receiverEns: string
+  amount: string
+  token: string
+  chain: string
+  memo: string
+  status: 'active' | 'expired'
+}
+
+async function getPaymentRequest(id: string): Promise<PaymentRequest | null> {
+  try {
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+    const res = await fetch(`${baseUrl}/api/payment-requests?id=${encodeURIComponent(id)}`, { cache: 'no-store' })
+    if (!res.ok) return null
+    return res.json()
+  } catch {
+    return null
+  }
 }
 
 async function getInvoice(id: string): Promise<Invoice | null> {
@@ -28,7 +55,7 @@ async function getInvoice(id: string): Promise<Invoice | null> {
 
 export default async function PayPage({ params, searchParams }: Props) {
   const { ens } = await params
-  const { amount, token, invoice: invoiceId } = await searchParams
+  const { amount, token, invoice: invoiceId, request: requestId } = await searchParams
 
   // Fetch invoice if provided
   let invoice: Invoice | null = null
@@ -36,6 +63,19 @@ export default async function PayPage({ params, searchParams }: Props) {
     invoice = await getInvoice(invoiceId)
   }
 
+  // A signed payment request must exist, be for this name and not have
+  // expired; otherwise refuse rather than fall back to an open payment
+  let paymentRequest: PaymentRequest | null = null
+  let requestError: string | null = null
+  if (requestId) {
+    paymentRequest = await getPaymentRequest(requestId)
+    if (!paymentRequest || paymentRequest.receiverEns !== decodeURIComponent(ens).toLowerCase()) {
+      requestError = `No payment request ${requestId} signed by ${decodeURIComponent(ens)}`
+    } else if (paymentRequest.status === 'expired') {
+      requestError = 'This payment request has expired. Ask the recipient for a new one.'
+    }
+  }
+
   return (
     <div className="min-h-screen bg-[#F8F7F4]">
       {/* Nav with wallet status */}
@@ -51,13 +91,27 @@ export default async function PayPage({ params, searchParams }: Props) {
             </div>
           }
         >
-          <PaymentFlow
-            ensName={ens}
-            prefilledAmount={invoice?.amount || amount}
-            prefilledToken={token}
-            invoiceId={invoice?.id}
-            invoiceMemo={invoice?.memo}
-          />
+          {requestError ? (
+            <Card className="border-[#E4E2DC] bg-white max-w-md mx-auto">
+              <CardContent className="p-6 text-center">
+                <p className="text-[#1C1B18] font-medium">Can&apos;t pay this request</p>
+                <p className="text-sm text-[#6B6960] mt-1">{requestError}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <PaymentFlow
+              ensName={decodeURIComponent(ens)}
+              prefilledAmount={invoice?.settlement?.amount || invoice?.amountDue || paymentRequest?.amount || amount}
+              prefilledToken={paymentRequest?.token || token}
+              invoiceId={invoice?.id}
+              invoiceMemo={invoice?.memo || paymentRequest?.memo || undefined}
+              invoiceOutstanding={
+                invoice && parseFloat(invoice.amountPaid) > 0
+                  ? `${invoice.amountDue} of ${invoice.amount} ${invoice.currency ?? invoice.token} outstanding`
+                  : undefined
+              }
+            />
+          )}
         </Suspense>
       </main>
     </div>
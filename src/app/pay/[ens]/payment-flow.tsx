@@ -1,22 +1,25 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { useAccount, useSendTransaction, useSwitchChain } from 'wagmi'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useAccount, usePublicClient, useSendTransaction, useSignTypedData, useSwitchChain } from 'wagmi'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
 import { OnrampModal } from '@/components/onramp-modal'
 import { useGasTankPayment } from '@/hooks/use-gas-tank-payment'
+import { parseRecipient } from '@/lib/ens/interop-address'
 import type { ENSResolution, RouteOption } from '@/lib/types'
 import type { Address } from 'viem'
 
 interface Props {
+  /** ENS name or address, optionally chain-qualified (alice.eth@base) */
   ensName: string
   prefilledAmount?: string
   prefilledToken?: string
   invoiceId?: string
   invoiceMemo?: string
+  invoiceOutstanding?: string
 }
 
 const SUPPORTED_CHAINS = [
@@ -33,6 +36,31 @@ const BLOCK_EXPLORERS: Record<string, string> = {
   optimism: 'https://optimistic.etherscan.io',
 }
 
+/** Where the quoted route pays out, and why (see /api/quote) */
+type Destination = {
+  address: string
+  chain: string
+  token: string
+  reason?: string
+}
+
+/** RequestPaymentHold typed data from /api/quote, without issuedAt */
+type HoldRequest = {
+  domain: Record<string, unknown>
+  types: Record<string, Array<{ name: string; type: string }>>
+  primaryType: string
+  message: Record<string, unknown>
+}
+
+/** Progress of recording an invoice payment once the transaction is sent */
+type InvoiceRecording =
+  | { state: 'confirming' | 'verifying' | 'recorded' }
+  | { state: 'failed'; error: string }
+
+// A bridged payment is only verifiable once it lands on the destination chain
+const BRIDGE_POLL_INTERVAL_MS = 10_000
+const BRIDGE_POLL_ATTEMPTS = 60
+
 type TokenBalance = {
   chain: string
   chainId: number
@@ -73,14 +101,19 @@ function useBalances(address?: string) {
   return { balances, loading, ethPrice }
 }
 
-export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }: Props) {
+export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo, invoiceOutstanding }: Props) {
   const { address, isConnected, chainId: walletChainId } = useAccount()
   const { sendTransactionAsync } = useSendTransaction()
+  const { signTypedDataAsync } = useSignTypedData()
   const { switchChainAsync } = useSwitchChain()
   const { balances, loading: balancesLoading, ethPrice } = useBalances(address)
   const gasTankPayment = useGasTankPayment()
 
   const [amount, setAmount] = useState(prefilledAmount || '')
+  const recipient = useMemo(() => parseRecipient(ensName), [ensName])
+  const explicitChain = 'error' in recipient || recipient.chainId === null
+    ? null
+    : SUPPORTED_CHAINS.find(c => c.chainId === recipient.chainId) ?? null
   const [recipientInfo, setRecipientInfo] = useState<ENSResolution | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -93,6 +126,11 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
   // Quote & execution
   const [quote, setQuote] = useState<RouteOption | null>(null)
   const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [destination, setDestination] = useState<Destination | null>(null)
+  // Above the receiver's limits.max: the hold to ask for, or the approved one
+  const [holdRequest, setHoldRequest] = useState<HoldRequest | null>(null)
+  const [requestingHold, setRequestingHold] = useState(false)
+  const [holdId, setHoldId] = useState<string | null>(null)
   const [yieldVault, setYieldVault] = useState<string | null>(null)
   const [useYieldRoute, setUseYieldRoute] = useState(false)
   const [useV4Route, setUseV4Route] = useState(false)
@@ -110,6 +148,7 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
   const [executedProvider, setExecutedProvider] = useState<string | null>(null)
   const [v4HookAddress, setV4HookAddress] = useState<string | null>(null)
   const [showOnramp, setShowOnramp] = useState(false)
+  const [invoiceRecording, setInvoiceRecording] = useState<InvoiceRecording | null>(null)
 
   // Filter balances to only supported chains
   const supportedChainNames = SUPPORTED_CHAINS.map(c => c.name.toLowerCase())
@@ -131,11 +170,16 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
     }
   }, [filteredBalances, hasAutoSelected])
 
-  // Fetch recipient ENS info
+  // Fetch recipient ENS info; a bare or ERC-7930 address needs no lookup
   useEffect(() => {
     async function fetchRecipient() {
       try {
-        const res = await fetch(`/api/ens/resolve?name=${encodeURIComponent(ensName)}`)
+        if ('error' in recipient) throw new Error(recipient.error)
+        if (!recipient.isName) {
+          setRecipientInfo({ address: recipient.recipient })
+          return
+        }
+        const res = await fetch(`/api/ens/resolve?name=${encodeURIComponent(recipient.recipient)}`)
         if (!res.ok) throw new Error('Failed to resolve ENS')
         setRecipientInfo(await res.json())
       } catch (e) {
@@ -145,7 +189,7 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
       }
     }
     fetchRecipient()
-  }, [ensName])
+  }, [recipient])
 
   // Check if receiver can accept gas tank payments
   useEffect(() => {
@@ -155,6 +199,17 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [recipientInfo?.address, selectedChain, selectedToken])
 
+  const quoteRequest = useMemo(() => ({
+    amount,
+    fromToken: selectedToken,
+    toToken: 'USDC',
+    fromChain: selectedChain,
+    toChain: 'base',
+    toAddress: ensName,
+    userAddress: address,
+    slippage: 0.005,
+  }), [amount, selectedToken, selectedChain, ensName, address])
+
   // Fetch quote
   useEffect(() => {
     if (!amount || parseFloat(amount) <= 0 || !recipientInfo?.address || !address) {
@@ -168,21 +223,36 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
         const res = await fetch('/api/quote', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            amount,
-            fromToken: selectedToken,
-            toToken: 'USDC',
-            fromChain: selectedChain,
-            toChain: 'base',
-            toAddress: ensName,
-            userAddress: address,
-            slippage: 0.005,
-          }),
+          body: JSON.stringify(quoteRequest),
           signal: controller.signal,
         })
         const data = await res.json()
-        if (data.routes?.[0]) {
+        if (data.requiresApproval) {
+          // Above the receiver's limit: no routes until they approve a hold,
+          // which the payer asks for by signing
+          setQuote(null)
+          setHoldId(null)
+          setHoldRequest(data.code === 'hold_signature_required' ? data.holdRequest : null)
+          setQuoteError(data.code === 'hold_signature_required'
+            ? `This amount is above ${ensName}'s limit and needs their approval.`
+            : `This amount needs approval from ${ensName} first. Try again once they approve it.`)
+        } else if (!res.ok && data.code === 'below_minimum') {
+          setQuote(null)
+          setQuoteError(data.error)
+        } else if (!res.ok) {
+          setQuote(null)
+          setQuoteError(data.error || 'Failed to get quote')
+        } else if (data.routes?.[0]) {
+          setQuoteError(null)
+          setHoldRequest(null)
+          setHoldId(data.holdId ?? null)
           setQuote(data.routes[0])
+          setDestination({
+            address: data.resolvedAddress,
+            chain: data.destination?.chain ?? data.toChain,
+            token: data.destination?.token ?? data.toToken,
+            reason: data.destination?.reason,
+          })
           setYieldVault(data.yieldVault || null)
           setUseYieldRoute(data.useYieldRoute || false)
           setUseV4Route(data.useV4Route || false)
@@ -198,7 +268,67 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
       controller.abort()
       clearTimeout(timeout)
     }
-  }, [amount, selectedToken, selectedChain, recipientInfo?.address, address, ensName])
+  }, [amount, recipientInfo?.address, address, ensName, quoteRequest])
+
+  // Ask the receiver to approve a payment above their limit
+  const requestApproval = useCallback(async () => {
+    if (!holdRequest) return
+    setRequestingHold(true)
+    try {
+      const holdIssuedAt = Math.floor(Date.now() / 1000)
+      const holdSignature = await signTypedDataAsync({
+        ...holdRequest,
+        message: { ...holdRequest.message, issuedAt: BigInt(holdIssuedAt) },
+      } as Parameters<typeof signTypedDataAsync>[0])
+      const res = await fetch('/api/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...quoteRequest, holdIssuedAt, holdSignature }),
+      })
+      const data = await res.json()
+      if (!data.hold) throw new Error(data.error || 'Failed to request approval')
+      setHoldRequest(null)
+      setQuoteError(`Approval requested from ${ensName}. Try again once they approve it.`)
+    } catch (e) {
+      setQuoteError(e instanceof Error ? e.message : 'Failed to request approval')
+    } finally {
+      setRequestingHold(false)
+    }
+  }, [holdRequest, quoteRequest, signTypedDataAsync, ensName])
+
+  const sourceChainId = SUPPORTED_CHAINS.find(c => c.id === selectedChain)?.chainId
+  const sourceClient = usePublicClient({ chainId: sourceChainId })
+
+  // Record an invoice payment once it is mined. The server verifies it on the
+  // destination chain, and answers 202 until a bridged payment has arrived
+  const recordInvoicePayment = useCallback(async (id: string, hash: `0x${string}`, fromChain: string, toChain: string) => {
+    try {
+      setInvoiceRecording({ state: 'confirming' })
+      if (!sourceClient) throw new Error('No client for the source chain')
+      const receipt = await sourceClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') throw new Error('Transaction reverted')
+
+      setInvoiceRecording({ state: 'verifying' })
+      for (let attempt = 0; attempt < BRIDGE_POLL_ATTEMPTS; attempt++) {
+        const res = await fetch('/api/invoice', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id, status: 'paid', txHash: hash, chain: toChain, fromChain }),
+        })
+        const data = await res.json()
+        if (res.status === 202) {
+          await new Promise(resolve => setTimeout(resolve, BRIDGE_POLL_INTERVAL_MS))
+          continue
+        }
+        if (!res.ok) throw new Error(data.error || 'Failed to record the payment')
+        setInvoiceRecording({ state: 'recorded' })
+        return
+      }
+      throw new Error('The bridge has not delivered the payment yet. The invoice will update once it does')
+    } catch (e) {
+      setInvoiceRecording({ state: 'failed', error: e instanceof Error ? e.message : 'Failed to record the payment' })
+    }
+  }, [sourceClient])
 
   // Execute payment
   const handlePay = useCallback(async () => {
@@ -208,8 +338,9 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
     setQuoteError(null)
 
     try {
-      // Use gas tank if available (auto, no toggle needed)
-      const useGasTank = selectedChain === 'base' && selectedToken === 'USDC' && gasTankPayment.canReceiverAccept
+      // Use gas tank if available (auto, no toggle needed). It only pays out on Base
+      const toChain = destination?.chain ?? 'base'
+      const useGasTank = selectedChain === 'base' && selectedToken === 'USDC' && toChain === 'base' && gasTankPayment.canReceiverAccept
 
       if (useGasTank) {
         const amountInDecimals = BigInt(Math.floor(parseFloat(amount) * 1_000_000))
@@ -238,19 +369,20 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
             action: useYieldRoute ? 'yield' : 'transfer',
             amount,
             fromToken: selectedToken,
-            toToken: 'USDC',
-            toAddress: recipientInfo.address,
+            toToken: useYieldRoute || !destination ? 'USDC' : destination.token,
+            toAddress: destination?.address ?? recipientInfo.address,
             fromChain: selectedChain,
-            toChain: 'base',
+            toChain,
           },
           slippage: 0.005,
           ensName,
+          ...(holdId && { holdId }),
           ...(useYieldRoute && yieldVault && { yieldVault, recipient: recipientInfo.address }),
         }),
       })
 
-      if (!res.ok) throw new Error('Failed to prepare transaction')
       const txData = await res.json()
+      if (!res.ok) throw new Error(txData.error || 'Failed to prepare transaction')
 
       const hash = await sendTransactionAsync({
         to: txData.to as `0x${string}`,
@@ -262,20 +394,15 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
       setExecutedProvider(txData.provider || null)
       setV4HookAddress(txData.hookAddress || null)
 
-      // Mark invoice as paid if this was an invoice payment
       if (invoiceId && hash) {
-        fetch('/api/invoice', {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ id: invoiceId, status: 'paid', txHash: hash }),
-        }).catch(() => {}) // Fire and forget
+        recordInvoicePayment(invoiceId, hash, selectedChain, toChain)
       }
     } catch (e) {
       setQuoteError(e instanceof Error ? e.message : 'Payment failed')
     } finally {
       setExecuting(false)
     }
-  }, [address, recipientInfo, amount, quote, selectedChain, selectedToken, walletChainId, switchChainAsync, sendTransactionAsync, ensName, useYieldRoute, yieldVault, gasTankPayment, invoiceId])
+  }, [address, recipientInfo, amount, quote, destination, selectedChain, selectedToken, walletChainId, switchChainAsync, sendTransactionAsync, ensName, holdId, useYieldRoute, yieldVault, gasTankPayment, invoiceId, recordInvoicePayment])
 
   // Loading state
   if (loading) {
@@ -362,6 +489,18 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
               )}
             </div>
           )}
+
+          {invoiceId && invoiceRecording && (
+            invoiceRecording.state === 'failed' ? (
+              <p className="text-sm text-red-600">Invoice not updated: {invoiceRecording.error}</p>
+            ) : (
+              <p className="text-xs text-[#9C9B93]">
+                {invoiceRecording.state === 'confirming' && 'Waiting for confirmation...'}
+                {invoiceRecording.state === 'verifying' && 'Verifying payment for the invoice...'}
+                {invoiceRecording.state === 'recorded' && `Payment recorded on invoice #${invoiceId.toUpperCase()}`}
+              </p>
+            )
+          )}
         </CardContent>
       </Card>
     )
@@ -389,9 +528,15 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
         <p className="text-sm text-[#6B6960] font-mono">
           {recipientInfo.address?.slice(0, 6)}...{recipientInfo.address?.slice(-4)}
         </p>
+        {explicitChain && (
+          <p className="text-xs text-[#6B6960] mt-1">Paid out on {explicitChain.name}</p>
+        )}
         {invoiceId && (
           <p className="text-xs text-[#9C9B93] mt-1">Invoice #{invoiceId.toUpperCase()}</p>
         )}
+        {invoiceOutstanding && (
+          <p className="text-xs text-[#6B6960] mt-0.5">{invoiceOutstanding}</p>
+        )}
       </div>
 
       {/* Invoice Memo */}
@@ -490,9 +635,12 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
               <div className="border-t border-[#E4E2DC] pt-2 flex items-center justify-between text-sm">
                 <span className="text-[#6B6960]">{ensName} receives</span>
                 <span className="text-[#22C55E] font-semibold">
-                  ~${receiverUsdValue.toFixed(2)} USDC
+                  ~${receiverUsdValue.toFixed(2)} {useYieldRoute || !destination ? 'USDC' : destination.token}
                 </span>
               </div>
+              {destination?.reason && (
+                <p className="text-xs text-[#9C9B93]">{destination.reason}</p>
+              )}
               {/* Fee comparison */}
               <p className="text-xs text-center text-[#9C9B93] pt-1">
                 Lower than Coinbase (1.5%) or PayPal (2.9%)
@@ -518,6 +666,16 @@ export function PaymentFlow({ ensName, prefilledAmount, invoiceId, invoiceMemo }
           {quoteError && (
             <p className="text-sm text-red-600">{quoteError}</p>
           )}
+          {holdRequest && isConnected && (
+            <Button
+              variant="outline"
+              onClick={requestApproval}
+              disabled={requestingHold}
+              className="w-full h-10 border-[#E4E2DC]"
+            >
+              {requestingHold ? 'Sign in wallet...' : `Request approval from ${ensName}`}
+            </Button>
+          )}
 
           {/* Pay button */}
           {!isConnected ? (
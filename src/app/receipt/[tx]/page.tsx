@@ -0,0 +1,230 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { usePublicClient } from 'wagmi'
+import { base } from 'wagmi/chains'
+import type { PublicClient } from 'viem'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { usePrimaryNames } from '@/hooks/use-primary-names'
+import type { PaymentReceipt } from '@/lib/types'
+import { verifyReceiptAnchor, verifyReceiptProof, type ReceiptProof } from '@/lib/ens/receipt-proof'
+
+const BLOCK_EXPLORERS: Record<string, string> = {
+  ethereum: 'https://etherscan.io',
+  base: 'https://basescan.org',
+  arbitrum: 'https://arbiscan.io',
+  optimism: 'https://optimistic.etherscan.io',
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatAddress(addr: string) {
+  return addr.startsWith('0x') ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr
+}
+
+type Verification =
+  | { state: 'idle' | 'checking' }
+  | { state: 'valid' }
+  | { state: 'invalid'; error: string }
+
+export default function ReceiptPage() {
+  const params = useParams()
+  const tx = params.tx as string
+  const publicClient = usePublicClient({ chainId: base.id })
+
+  const [receipt, setReceipt] = useState<PaymentReceipt | null>(null)
+  const [proof, setProof] = useState<ReceiptProof | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [verification, setVerification] = useState<Verification>({ state: 'idle' })
+  const senderName = usePrimaryNames(receipt ? [{ address: receipt.sender, chain: receipt.chain }] : [])
+
+  useEffect(() => {
+    if (!tx) return
+
+    fetch(`/api/receipts?tx=${tx}`)
+      .then((res) => {
+        if (!res.ok) throw new Error('Receipt not found')
+        return res.json()
+      })
+      .then((data) => {
+        setReceipt(data.receipt)
+        setProof(data.proof)
+      })
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false))
+  }, [tx])
+
+  // Check the proof against the receipt shown here, then the root against
+  // the anchor contract we trust rather than the one the proof names
+  const verify = async () => {
+    if (!receipt || !proof) return
+    setVerification({ state: 'checking' })
+
+    const inclusion = verifyReceiptProof(proof, {
+      txHash: receipt.txHash as ReceiptProof['receipt']['txHash'],
+      amount: receipt.amount,
+      token: receipt.token,
+      sender: receipt.sender,
+      receiver: receipt.receiver,
+    })
+    if (!inclusion.valid) {
+      setVerification({ state: 'invalid', error: inclusion.error })
+      return
+    }
+    if (!publicClient) {
+      setVerification({ state: 'invalid', error: 'No Base RPC available to read the anchor contract' })
+      return
+    }
+
+    try {
+      const anchored = await verifyReceiptAnchor(
+        proof,
+        publicClient as PublicClient,
+        process.env.NEXT_PUBLIC_RECEIPT_ANCHOR_ADDRESS || proof.anchor.contract,
+      )
+      setVerification(anchored.valid ? { state: 'valid' } : { state: 'invalid', error: anchored.error })
+    } catch (e) {
+      setVerification({ state: 'invalid', error: e instanceof Error ? e.message : 'Failed to read the anchor contract' })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#FAFAF8] flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-[#1C1B18] border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (error || !receipt) {
+    return (
+      <div className="min-h-screen bg-[#FAFAF8] flex items-center justify-center px-4">
+        <Card className="border-[#E4E2DC] bg-white max-w-md mx-auto">
+          <CardContent className="p-6 text-center">
+            <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-[#FFF3E0] flex items-center justify-center">
+              <svg width="24" height="24" viewBox="0 0 24 24" fill="none" className="text-[#E65100]">
+                <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="1.5"/>
+                <path d="M12 8V12M12 16H12.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+              </svg>
+            </div>
+            <h1 className="text-xl font-semibold text-[#1C1B18] mb-2">Receipt Not Found</h1>
+            <p className="text-[#6B6960] mb-4">No receipt has been recorded for this transaction yet.</p>
+            <Link href="/" className="text-[#1C1B18] underline">Go Home</Link>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#FAFAF8] py-12 px-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center mb-6">
+          <p className="text-sm text-[#6B6960] font-mono">RECEIPT {formatAddress(receipt.txHash).toUpperCase()}</p>
+        </div>
+
+        <Card className="border-[#E4E2DC] bg-white">
+          <CardContent className="p-6 space-y-6">
+            {/* Amount */}
+            <div className="text-center">
+              <p className="text-4xl font-bold text-[#1C1B18]">
+                {parseFloat(receipt.amount).toLocaleString()} {receipt.token}
+              </p>
+              <p className="text-sm text-[#6B6960] mt-1">to {formatAddress(receipt.receiver)}</p>
+            </div>
+
+            {/* Details */}
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-[#6B6960]">From</span>
+                <span className="text-[#1C1B18]">{senderName(receipt.sender, receipt.chain) || formatAddress(receipt.sender)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[#6B6960]">Chain</span>
+                <span className="text-[#1C1B18] capitalize">{receipt.chain}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[#6B6960]">Recorded</span>
+                <span className="text-[#1C1B18]">{formatDate(receipt.timestamp)}</span>
+              </div>
+              {receipt.subname && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-[#6B6960]">ENS</span>
+                  <span className="text-[#1C1B18] font-mono text-xs truncate">{receipt.subname}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-[#6B6960]">Transaction</span>
+                <a
+                  href={`${BLOCK_EXPLORERS[receipt.chain] || BLOCK_EXPLORERS.base}/tx/${receipt.txHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[#1C1B18] underline"
+                >
+                  {formatAddress(receipt.txHash)}
+                </a>
+              </div>
+            </div>
+
+            {/* Anchor proof */}
+            {proof ? (
+              <div className="space-y-3">
+                <Button
+                  onClick={verify}
+                  disabled={verification.state === 'checking'}
+                  variant="outline"
+                  className="w-full h-11 border-[#E4E2DC] text-[#1C1B18]"
+                >
+                  {verification.state === 'checking' ? 'Verifying...' : 'Verify independently'}
+                </Button>
+                {verification.state === 'valid' && (
+                  <div className="flex items-center justify-center gap-2 py-2 px-3 rounded-lg bg-[#EDF5F0] text-[#22C55E] text-sm">
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
+                      <path d="M20 6L9 17L4 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                    <span className="font-medium">In batch #{proof.batch}, anchored on Base</span>
+                  </div>
+                )}
+                {verification.state === 'invalid' && (
+                  <div className="rounded-lg bg-[#FFF3E0] p-3 text-sm text-[#E65100]">
+                    Verification failed: {verification.error}
+                  </div>
+                )}
+                <p className="text-xs text-[#9C9B93] text-center">
+                  Checks the Merkle proof in your browser, then reads the batch root from the
+                  anchor contract{' '}
+                  <a
+                    href={`${BLOCK_EXPLORERS.base}/address/${proof.anchor.contract}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline"
+                  >
+                    {formatAddress(proof.anchor.contract)}
+                  </a>
+                  .
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-[#9C9B93] text-center">
+                Not anchored on-chain yet. Receipts are committed to Base in hourly batches.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,13 @@
 'use client'
 
-import { useState } from 'react'
-import { useAccount, useWriteContract, usePublicClient } from 'wagmi'
+import { useEffect, useState } from 'react'
+import { useAccount, useWriteContract, usePublicClient, useSendTransaction, useSwitchChain } from 'wagmi'
 import { namehash, encodeFunctionData } from 'viem'
 import { normalize } from 'viem/ens'
 import { Button } from '@/components/ui/button'
 import {
   PayConfig,
+  PayConfigV2,
   CHAINS,
   DEFAULT_VAULTS,
   createDefaultConfig,
@@ -25,14 +26,42 @@ interface Props {
   onSaved?: () => void
 }
 
+interface PayConfigStatus {
+  config: PayConfigV2 | null
+  source: 'com.pay.config' | 'legacy' | null
+  version: string | null
+  legacyRecords: Record<string, string>
+  error?: string
+  upgradeAvailable: boolean
+}
+
+function usePayConfigStatus(ensName: string) {
+  const [status, setStatus] = useState<PayConfigStatus | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/ens/pay-config?name=${encodeURIComponent(ensName)}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setStatus)
+      .catch(() => setStatus(null))
+  }, [ensName])
+
+  return status
+}
+
 export function PayPreferences({ ensName, onSaved }: Props) {
-  const { address } = useAccount()
+  const { address, chainId } = useAccount()
   const publicClient = usePublicClient({ chainId: 1 })
   const { writeContractAsync, isPending } = useWriteContract()
+  const { sendTransactionAsync } = useSendTransaction()
+  const { switchChainAsync } = useSwitchChain()
+  const status = usePayConfigStatus(ensName)
 
   const [config, setConfig] = useState<PayConfig>(createDefaultConfig())
   const [earnYield, setEarnYield] = useState(false)
   const [saved, setSaved] = useState(false)
+  const [upgrading, setUpgrading] = useState(false)
+  const [upgraded, setUpgraded] = useState(false)
+  const [upgradeError, setUpgradeError] = useState<string | null>(null)
 
   // Update config when yield toggle changes
   const handleYieldToggle = (enabled: boolean) => {
@@ -101,6 +130,36 @@ export function PayPreferences({ ensName, onSaved }: Props) {
     }
   }
 
+  // Fold the legacy records (or a 1.0 config) into com.pay.config 2.0
+  const handleUpgrade = async () => {
+    setUpgrading(true)
+    setUpgradeError(null)
+
+    try {
+      if (chainId !== 1) await switchChainAsync({ chainId: 1 })
+
+      const res = await fetch('/api/ens/pay-config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ensName }),
+      })
+      if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || 'Failed')
+      const txData = await res.json()
+
+      await sendTransactionAsync({
+        to: txData.to as `0x${string}`,
+        data: txData.data as `0x${string}`,
+        value: BigInt(txData.value || 0),
+      })
+      setUpgraded(true)
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : 'Failed'
+      setUpgradeError(/rejected|denied/i.test(msg) ? 'Rejected' : msg)
+    } finally {
+      setUpgrading(false)
+    }
+  }
+
   if (saved) {
     return (
       <div className="p-6 bg-[#F0FDF4] rounded-xl border border-[#22C55E]/20 text-center space-y-3">
@@ -115,8 +174,34 @@ export function PayPreferences({ ensName, onSaved }: Props) {
     )
   }
 
+  const legacyCount = Object.keys(status?.legacyRecords ?? {}).length
+
   return (
     <div className="space-y-4">
+      {/* Upgrade to com.pay.config 2.0 */}
+      {status?.upgradeAvailable && status.config && !upgraded && (
+        <div className="p-4 rounded-lg border border-[#F59E0B]/30 bg-[#FFFBEB] space-y-2">
+          <p className="font-medium text-[#1C1B18]">Upgrade to PayConfig 2.0</p>
+          <p className="text-sm text-[#6B6960]">
+            {status.source === 'legacy'
+              ? `Folds your ${legacyCount} separate payment record${legacyCount === 1 ? '' : 's'} into one com.pay.config record.`
+              : `Updates your com.pay.config from version ${status.version}${legacyCount > 0 ? ` and clears ${legacyCount} legacy record${legacyCount === 1 ? '' : 's'}` : ''}.`}
+            {' '}{getConfigSummary(status.config)}
+          </p>
+          {upgradeError && <p className="text-sm text-[#DC2626]">{upgradeError}</p>}
+          <Button
+            onClick={handleUpgrade}
+            disabled={upgrading || !address}
+            className="w-full h-10 bg-[#F59E0B] hover:bg-[#D97706] text-white font-medium"
+          >
+            {upgrading ? 'Upgrading...' : 'Upgrade in one transaction'}
+          </Button>
+        </div>
+      )}
+      {status?.error && (
+        <p className="text-xs text-[#DC2626]">Existing records could not be read: {status.error}</p>
+      )}
+
       {/* Token Selection */}
       <div>
         <label className="text-xs font-medium text-[#6B6960] uppercase tracking-wide">Receive as</label>
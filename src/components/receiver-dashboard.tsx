@@ -7,6 +7,7 @@ import { QRCodeSVG } from 'qrcode.react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { useClientEnsPreferences } from '@/hooks/use-client-ens'
+import { usePrimaryNames } from '@/hooks/use-primary-names'
 
 // Mock data for demo
 const MOCK_RECEIPTS = [
@@ -78,6 +79,53 @@ function useVaultPosition(vaultAddress?: string, userAddress?: string) {
   return { position, loading }
 }
 
+type SubscriptionSummary = {
+  id: string
+  payerAddress: string
+  payerEns?: string
+  amount: string
+  token: string
+  frequency: 'weekly' | 'monthly'
+  status: 'active' | 'paused' | 'cancelled' | 'completed'
+  nextRunAt: string
+  invoices: Array<{ id: string; status: string; periodStart?: string }>
+}
+
+function useSubscriptions(receiverAddress?: string) {
+  const [subscriptions, setSubscriptions] = useState<SubscriptionSummary[]>([])
+
+  useEffect(() => {
+    if (!receiverAddress) return
+    fetch(`/api/subscriptions?receiver=${receiverAddress}`)
+      .then((r) => r.json())
+      .then((data) => setSubscriptions(data.subscriptions ?? []))
+      .catch(() => setSubscriptions([]))
+  }, [receiverAddress])
+
+  return { subscriptions: receiverAddress ? subscriptions : [] }
+}
+
+type ConfiguredName = {
+  name: string
+  token: string
+  chain: string
+  updatedAt: string
+}
+
+function useConfiguredNames(address?: string) {
+  const [names, setNames] = useState<ConfiguredName[]>([])
+
+  useEffect(() => {
+    if (!address) return
+    fetch(`/api/ens/preferences?address=${address}`)
+      .then((r) => r.json())
+      .then((data) => setNames(data.preferences ?? []))
+      .catch(() => setNames([]))
+  }, [address])
+
+  return { names: address ? names : [] }
+}
+
 function formatAddress(addr: string) {
   return `${addr.slice(0, 6)}...${addr.slice(-4)}`
 }
@@ -93,6 +141,9 @@ export function ReceiverDashboard() {
   const { name: ensName, loading: ensLoading } = useEnsName(address)
   const { vault: currentVault, strategy: currentStrategy, avatar: ensAvatar, loading: prefsLoading } = useClientEnsPreferences(ensName)
   const { position: vaultPosition, loading: positionLoading } = useVaultPosition(currentVault ?? undefined, address)
+  const { subscriptions } = useSubscriptions(address)
+  const { names: configuredNames } = useConfiguredNames(address)
+  const payerName = usePrimaryNames(MOCK_RECEIPTS.map((r) => ({ address: r.from, chain: r.chain })))
 
   const [showSettings, setShowSettings] = useState(false)
   const [selectedToken, setSelectedToken] = useState<string>('USDC')
@@ -378,7 +429,7 @@ export function ReceiverDashboard() {
                     </svg>
                   </div>
                   <div>
-                    <p className="text-sm font-medium text-[#1C1B18]">From {formatAddress(r.from)}</p>
+                    <p className="text-sm font-medium text-[#1C1B18]">From {payerName(r.from, r.chain) || formatAddress(r.from)}</p>
                     <p className="text-xs text-[#6B6960]">{formatDate(r.createdAt)} · {r.chain}</p>
                   </div>
                 </div>
@@ -389,6 +440,62 @@ export function ReceiverDashboard() {
         </CardContent>
       </Card>
 
+      {/* Subscriptions */}
+      {subscriptions.length > 0 && (
+        <Card className="border-[#E4E2DC] bg-white">
+          <CardContent className="p-5">
+            <h2 className="font-semibold text-[#1C1B18] mb-3">Subscriptions</h2>
+            <div className="space-y-2">
+              {subscriptions.map((sub) => {
+                const latest = sub.invoices[0]
+                return (
+                  <div key={sub.id} className="p-3 rounded-lg bg-[#FAFAF8]">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-[#1C1B18]">
+                        {sub.payerEns || formatAddress(sub.payerAddress)}
+                      </p>
+                      <p className="font-medium text-[#1C1B18]">
+                        {sub.amount} {sub.token}<span className="text-xs text-[#6B6960]"> / {sub.frequency === 'weekly' ? 'week' : 'month'}</span>
+                      </p>
+                    </div>
+                    <div className="flex items-center justify-between mt-1 text-xs text-[#6B6960]">
+                      <span>
+                        {sub.status === 'active' ? `Next invoice ${formatDate(sub.nextRunAt)}` : sub.status}
+                      </span>
+                      {latest && (
+                        <a href={`/invoice/${latest.id}`} className="underline hover:text-[#1C1B18]">
+                          Latest: {latest.status.replace('_', ' ')}
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Names with offchain preferences signed by this address */}
+      {configuredNames.length > 0 && (
+        <Card className="border-[#E4E2DC] bg-white">
+          <CardContent className="p-5">
+            <h2 className="font-semibold text-[#1C1B18] mb-3">Configured Names</h2>
+            <div className="space-y-2">
+              {configuredNames.map((pref) => (
+                <div key={pref.name} className="flex items-center justify-between p-3 rounded-lg bg-[#FAFAF8]">
+                  <div>
+                    <p className="text-sm font-medium text-[#1C1B18]">{pref.name}</p>
+                    <p className="text-xs text-[#6B6960]">Updated {formatDate(pref.updatedAt)}</p>
+                  </div>
+                  <p className="text-sm text-[#1C1B18]">{pref.token} on {pref.chain}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Settings Toggle */}
       <button
         onClick={() => setShowSettings(!showSettings)}
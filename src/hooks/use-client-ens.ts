@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { usePublicClient } from 'wagmi'
 import { normalize } from 'viem/ens'
+import { migratePayConfig, parsePayConfig } from '@/lib/ens/pay-config'
 
 interface ENSPreferences {
   vault: string | null
@@ -16,6 +17,9 @@ interface ENSPreferences {
  * Client-side ENS resolution hook.
  * Reads ENS text records directly from Ethereum mainnet via wagmi's public client.
  * Eliminates server round-trip for ENS preferences.
+ *
+ * A valid com.pay.config takes precedence over the legacy vault and
+ * strategy records, which an upgrade to 2.0 clears.
  */
 export function useClientEnsPreferences(ensName: string | null): ENSPreferences {
   const client = usePublicClient({ chainId: 1 })
@@ -42,18 +46,32 @@ export function useClientEnsPreferences(ensName: string | null): ENSPreferences
         const normalized = normalize(ensName!)
 
         // Fetch all records in parallel
-        const [vaultResult, strategyResult, strategiesResult, avatarResult] = await Promise.all([
+        const [vaultResult, strategyResult, strategiesResult, avatarResult, configResult] = await Promise.all([
           client!.getEnsText({ name: normalized, key: 'yieldroute.vault' }).catch(() => null),
           client!.getEnsText({ name: normalized, key: 'ensio.strategy' }).catch(() => null),
           client!.getEnsText({ name: normalized, key: 'ensio.strategies' }).catch(() => null),
           client!.getEnsText({ name: normalized, key: 'avatar' }).catch(() => null),
+          client!.getEnsText({ name: normalized, key: 'com.pay.config' }).catch(() => null),
         ])
 
         if (cancelled) return
 
-        setVault(vaultResult || null)
-        setStrategy(strategyResult || null)
-        setStrategies(strategiesResult || null)
+        const parsed = parsePayConfig(configResult || undefined)
+        if (parsed && 'config' in parsed) {
+          const config = migratePayConfig(parsed.config)
+          const allocation = config.strategies ?? []
+          setVault(config.receive.vault ?? null)
+          setStrategy(
+            allocation.length === 1 ? allocation[0].strategy : config.receive.vault ? 'yield' : strategyResult || null
+          )
+          setStrategies(
+            allocation.length > 1 ? allocation.map((a) => `${a.strategy}:${a.percentage}`).join(',') : null
+          )
+        } else {
+          setVault(vaultResult || null)
+          setStrategy(strategyResult || null)
+          setStrategies(strategiesResult || null)
+        }
 
         // Handle IPFS avatar URLs
         if (avatarResult) {
@@ -0,0 +1,60 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+// Matches MAX_PRIMARY_NAME_BATCH in src/lib/ens/multichain.ts
+const BATCH_SIZE = 50
+
+/**
+ * Primary ENS names for the counterparties of a list of payments.
+ *
+ * Each address is resolved on the chain its payment was made on (ENSIP-19,
+ * forward-verified server-side) via /api/ens/primary-name, one batched
+ * request per chain. Returns a lookup giving the name, or null while
+ * resolving or when the address has none.
+ */
+export function usePrimaryNames(
+  payments: Array<{ address: string; chain: string }>,
+): (address: string, chain: string) => string | null {
+  const [names, setNames] = useState<Record<string, string | null>>({})
+
+  // Stable across renders as long as the set of lookups is the same
+  const lookups = [...new Set(payments.map((p) => `${p.chain.toLowerCase()}:${p.address.toLowerCase()}`))]
+    .sort()
+    .join(',')
+
+  useEffect(() => {
+    if (!lookups) return
+
+    const byChain = new Map<string, string[]>()
+    for (const lookup of lookups.split(',')) {
+      const [chain, address] = lookup.split(':')
+      byChain.set(chain, [...(byChain.get(chain) ?? []), address])
+    }
+
+    const requests: Array<Promise<Array<[string, string | null]>>> = []
+    for (const [chain, addresses] of byChain) {
+      for (let i = 0; i < addresses.length; i += BATCH_SIZE) {
+        const batch = addresses.slice(i, i + BATCH_SIZE)
+        requests.push(
+          fetch(`/api/ens/primary-name?chain=${chain}&addresses=${batch.join(',')}`)
+            .then((r) => r.json())
+            .then((data) =>
+              Object.entries<string | null>(data.names ?? {}).map(
+                ([address, name]): [string, string | null] => [`${chain}:${address}`, name],
+              ),
+            )
+            .catch((): Array<[string, string | null]> => []),
+        )
+      }
+    }
+
+    let cancelled = false
+    Promise.all(requests).then((results) => {
+      if (!cancelled) setNames(Object.fromEntries(results.flat()))
+    })
+    return () => { cancelled = true }
+  }, [lookups])
+
+  return (address, chain) => names[`${chain.toLowerCase()}:${address.toLowerCase()}`] ?? null
+}
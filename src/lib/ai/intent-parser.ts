@@ -149,6 +149,7 @@ function validateIntent(intent: PaymentIntent): PaymentIntent {
     case 'subscribe':
       if (!intent.recipient) missingFields.push('recipient')
       if (!intent.amount) missingFields.push('amount')
+      if (intent.frequency !== 'weekly' && intent.frequency !== 'monthly') missingFields.push('frequency')
       break
     case 'refill':
       if (!intent.amount) missingFields.push('amount')
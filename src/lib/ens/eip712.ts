@@ -2,10 +2,20 @@
  * EIP-712 typed data definitions for offchain ENS preference signing.
  *
  * Users sign a SetPreference message (free, no gas) to store their
- * preferred token + chain offchain, served via CCIP-Read to external
- * ENS consumers.
+ * preferred token + chain offchain, or a SetPayConfig message carrying a
+ * full PayConfig, served via CCIP-Read to external ENS consumers. A
+ * SetRecords message sets the name's address and contenthash records.
+ *
+ * Replay protection: `nonce` must equal the name's current nonce (GET
+ * /api/ens/preferences?name=...), which increments on every accepted
+ * change, and `deadline` (unix seconds) bounds how long a signature can be
+ * submitted.
  */
 
+import { zeroAddress, type Address } from 'viem'
+import type { PayConfig } from './pay-config'
+import type { NameRecords } from './records'
+
 export const PREFERENCE_DOMAIN = {
   name: 'PayAgent',
   version: '1',
@@ -18,19 +28,137 @@ export const PREFERENCE_TYPES = {
     { name: 'token', type: 'string' },
     { name: 'chain', type: 'string' },
     { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
   ],
 } as const
 
+/** Furthest in the future a SetPreference deadline may be. */
+export const MAX_PREFERENCE_DEADLINE_SECONDS = 24 * 60 * 60
+
 export function buildPreferenceMessage(
   ensName: string,
   token: string,
   chain: string,
   nonce: bigint,
+  deadline: bigint,
 ) {
   return {
     ensName,
     token,
     chain,
     nonce,
+    deadline,
+  }
+}
+
+/**
+ * SetPayConfig carries a full PayConfig (1.0 or 2.0) as nested structs,
+ * sharing the per-name nonce with SetPreference. Absent optional fields are
+ * signed as their zero values: the zero address for no vault, empty lists
+ * for no fallbacks or strategies, and empty strings for no limits,
+ * slippage or maxFee (these are decimal strings so wallets display them as
+ * entered).
+ */
+export const PAY_CONFIG_TYPES = {
+  SetPayConfig: [
+    { name: 'ensName', type: 'string' },
+    { name: 'config', type: 'PayConfig' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  PayConfig: [
+    { name: 'version', type: 'string' },
+    { name: 'receive', type: 'Receive' },
+    { name: 'fallback', type: 'Fallback' },
+    { name: 'limits', type: 'Limits' },
+    { name: 'strategies', type: 'Allocation[]' },
+    { name: 'slippage', type: 'string' },
+    { name: 'maxFee', type: 'string' },
+  ],
+  Allocation: [
+    { name: 'strategy', type: 'string' },
+    { name: 'percentage', type: 'uint256' },
+  ],
+  Receive: [
+    { name: 'token', type: 'string' },
+    { name: 'chain', type: 'uint256' },
+    { name: 'vault', type: 'address' },
+  ],
+  Fallback: [
+    { name: 'tokens', type: 'string[]' },
+    { name: 'chains', type: 'uint256[]' },
+  ],
+  Limits: [
+    { name: 'min', type: 'string' },
+    { name: 'max', type: 'string' },
+  ],
+} as const
+
+export function buildPayConfigMessage(
+  ensName: string,
+  config: PayConfig,
+  nonce: bigint,
+  deadline: bigint,
+) {
+  const v2 = config.version === '2.0' ? config : undefined
+  return {
+    ensName,
+    config: {
+      version: config.version,
+      receive: {
+        token: config.receive.token,
+        chain: BigInt(config.receive.chain),
+        vault: (config.receive.vault ?? zeroAddress) as Address,
+      },
+      fallback: {
+        tokens: config.fallback?.tokens ?? [],
+        chains: (config.fallback?.chains ?? []).map(BigInt),
+      },
+      limits: {
+        min: config.limits?.min !== undefined ? String(config.limits.min) : '',
+        max: config.limits?.max !== undefined ? String(config.limits.max) : '',
+      },
+      strategies: (v2?.strategies ?? []).map((a) => ({ strategy: a.strategy, percentage: BigInt(a.percentage) })),
+      slippage: v2?.slippage !== undefined ? String(v2.slippage) : '',
+      maxFee: v2?.maxFee !== undefined ? String(v2.maxFee) : '',
+    },
+    nonce,
+    deadline,
+  }
+}
+
+/**
+ * SetRecords replaces a name's address and contenthash records, sharing the
+ * per-name nonce with SetPreference. Addresses are listed by ascending coin
+ * type; no contenthash is signed as empty bytes.
+ */
+export const RECORDS_TYPES = {
+  SetRecords: [
+    { name: 'ensName', type: 'string' },
+    { name: 'addresses', type: 'AddressRecord[]' },
+    { name: 'contenthash', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  AddressRecord: [
+    { name: 'coinType', type: 'uint256' },
+    { name: 'addr', type: 'bytes' },
+  ],
+} as const
+
+export function buildRecordsMessage(
+  ensName: string,
+  records: NameRecords,
+  nonce: bigint,
+  deadline: bigint,
+) {
+  return {
+    ensName,
+    addresses: Object.entries(records.addresses ?? {})
+      .map(([coinType, addr]) => ({ coinType: BigInt(coinType), addr }))
+      .sort((a, b) => (a.coinType < b.coinType ? -1 : a.coinType > b.coinType ? 1 : 0)),
+    contenthash: records.contenthash ?? '0x',
+    nonce,
+    deadline,
   }
 }
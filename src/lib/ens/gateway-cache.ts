@@ -0,0 +1,93 @@
+/**
+ * LRU cache of signed CCIP-Read gateway responses.
+ *
+ * Keyed by (sender, extraData), i.e. one resolver call on one name. Each
+ * entry carries the tags of the stored records it was built from, either
+ * "{collection}/{key}" or a whole "{collection}"; a commit to a tagged
+ * record drops the entry (see `onCommit` in the storage layer). Entries
+ * also lapse before their signature expires, so clients never receive a
+ * response in the last quarter of its lifetime; `maxAge` is what is left
+ * of that window, for the response's Cache-Control header.
+ *
+ * The cache is per process: writes made by another process are picked up
+ * once the entry lapses, so each record type's TTL bounds the staleness.
+ */
+
+import type { Hex } from 'viem'
+import { onCommit } from '@/lib/storage/repository'
+
+export type CachedGatewayResponse = {
+  /** abi.encode(bytes result, uint64 expires, bytes signature) */
+  data: Hex
+  /** Unix seconds after which the resolver rejects the signature */
+  expires: number
+}
+
+type CacheEntry = CachedGatewayResponse & {
+  /** Unix ms after which the entry is no longer served */
+  reuseUntil: number
+  tags: string[]
+}
+
+const MAX_ENTRIES = 1000
+
+// Map iteration order is insertion order, so the first key is the least
+// recently used one
+const entries = new Map<string, CacheEntry>()
+
+function cacheKey(sender: string, extraData: string): string {
+  return `${sender.toLowerCase()}:${extraData.toLowerCase()}`
+}
+
+onCommit((collection, keys) => {
+  const changed = new Set([collection, ...keys.map((key) => `${collection}/${key}`)])
+  for (const [key, entry] of entries) {
+    if (entry.tags.some((tag) => changed.has(tag))) entries.delete(key)
+  }
+})
+
+function maxAge(entry: CacheEntry, now: number): number {
+  return Math.max(0, Math.floor((entry.reuseUntil - now) / 1000))
+}
+
+export function getCachedGatewayResponse(
+  sender: string,
+  extraData: string,
+  now = Date.now(),
+): (CachedGatewayResponse & { maxAge: number }) | null {
+  const key = cacheKey(sender, extraData)
+  const entry = entries.get(key)
+  if (!entry) return null
+  if (now >= entry.reuseUntil) {
+    entries.delete(key)
+    return null
+  }
+
+  entries.delete(key)
+  entries.set(key, entry)
+  return { data: entry.data, expires: entry.expires, maxAge: maxAge(entry, now) }
+}
+
+/**
+ * Cache a freshly signed response. Returns its max-age in seconds.
+ */
+export function cacheGatewayResponse(
+  sender: string,
+  extraData: string,
+  response: CachedGatewayResponse,
+  tags: string[],
+  now = Date.now(),
+): number {
+  const lifetime = response.expires * 1000 - now
+  if (lifetime <= 0) return 0
+
+  const key = cacheKey(sender, extraData)
+  const entry = { ...response, reuseUntil: now + lifetime * 0.75, tags }
+  entries.delete(key)
+  entries.set(key, entry)
+
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!)
+  }
+  return maxAge(entry, now)
+}
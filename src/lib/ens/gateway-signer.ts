@@ -6,35 +6,148 @@
  *
  * Signing scheme follows EIP-3668 conventions:
  *   keccak256(abi.encodePacked(0x1900, sender, expires, keccak256(extraData), keccak256(result)))
+ *
+ * Keys come from a key ring so the signer can be rotated without downtime:
+ *   GATEWAY_SIGNER_KEYS    JSON array of { id, key, validFrom?, validUntil? }
+ *                          (ISO 8601 timestamps; omitted means unbounded)
+ *   GATEWAY_ACTIVE_SIGNER  id of the key that signs new responses
+ * A single GATEWAY_SIGNER_KEY is still accepted as a ring of one key.
+ *
+ * To rotate, add the new key with a window that overlaps the old one's,
+ * add its address to PayAgentResolverV3, then switch GATEWAY_ACTIVE_SIGNER.
+ * Responses never expire after their signer's validUntil, so once the old
+ * window has ended no response signed by it is still accepted and the old
+ * address can be removed from the resolver.
  */
 
-import {
-  keccak256,
-  encodePacked,
-  type Hex,
-  createWalletClient,
-  http,
-} from 'viem'
-import { privateKeyToAccount } from 'viem/accounts'
-import { mainnet } from 'viem/chains'
-
-function getSignerAccount() {
-  const key = process.env.GATEWAY_SIGNER_KEY
-  if (!key) {
-    throw new Error('GATEWAY_SIGNER_KEY environment variable is not set')
+import { keccak256, encodePacked, type Hex } from 'viem'
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+
+export type GatewaySignerStatus = 'active' | 'verifying' | 'pending' | 'expired'
+
+export interface GatewaySigner {
+  id: string
+  address: Hex
+  validFrom?: string
+  validUntil?: string
+  /**
+   * active: signs new responses. verifying: inside its window, so responses
+   * it signed are still live. pending: window not started. expired: window
+   * over; safe to remove from the resolver.
+   */
+  status: GatewaySignerStatus
+}
+
+type KeyRingEntry = {
+  id: string
+  account: PrivateKeyAccount
+  validFrom?: string
+  validUntil?: string
+}
+
+type KeyRing = { keys: KeyRingEntry[]; activeId: string }
+
+// Parsed once per configuration rather than on every request
+let cached: { source: string; ring: KeyRing } | null = null
+
+function parseTimestamp(id: string, field: string, value: unknown): string | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new Error(`Gateway signer "${id}": ${field} must be an ISO 8601 timestamp`)
   }
-  return privateKeyToAccount(key as `0x${string}`)
+  return value
 }
 
-export async function signGatewayResponse(
-  sender: Hex,
-  expires: bigint,
-  extraData: Hex,
-  result: Hex,
-): Promise<Hex> {
-  const account = getSignerAccount()
+function parseKeyRing(keysJson: string | undefined, singleKey: string | undefined, activeId: string | undefined): KeyRing {
+  if (!keysJson) {
+    if (!singleKey) {
+      throw new Error('GATEWAY_SIGNER_KEYS or GATEWAY_SIGNER_KEY environment variable is not set')
+    }
+    return { keys: [{ id: 'default', account: privateKeyToAccount(singleKey as Hex) }], activeId: 'default' }
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(keysJson)
+  } catch {
+    throw new Error('GATEWAY_SIGNER_KEYS must be a JSON array')
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('GATEWAY_SIGNER_KEYS must be a non-empty JSON array')
+  }
+
+  const keys = raw.map((entry: { id?: unknown; key?: unknown; validFrom?: unknown; validUntil?: unknown }, i) => {
+    const id = typeof entry?.id === 'string' && entry.id ? entry.id : null
+    if (!id) throw new Error(`GATEWAY_SIGNER_KEYS[${i}]: missing id`)
+    if (typeof entry.key !== 'string') throw new Error(`Gateway signer "${id}": missing key`)
+    const validFrom = parseTimestamp(id, 'validFrom', entry.validFrom)
+    const validUntil = parseTimestamp(id, 'validUntil', entry.validUntil)
+    if (validFrom && validUntil && Date.parse(validFrom) >= Date.parse(validUntil)) {
+      throw new Error(`Gateway signer "${id}": validFrom must be before validUntil`)
+    }
+    return { id, account: privateKeyToAccount(entry.key as Hex), validFrom, validUntil }
+  })
+
+  const ids = new Set(keys.map((k) => k.id))
+  if (ids.size !== keys.length) throw new Error('GATEWAY_SIGNER_KEYS: ids must be unique')
+
+  const active = activeId ?? (keys.length === 1 ? keys[0].id : undefined)
+  if (!active) throw new Error('GATEWAY_ACTIVE_SIGNER must name one of GATEWAY_SIGNER_KEYS')
+  if (!ids.has(active)) throw new Error(`GATEWAY_ACTIVE_SIGNER "${active}" is not in GATEWAY_SIGNER_KEYS`)
+
+  return { keys, activeId: active }
+}
+
+function getKeyRing(): KeyRing {
+  const { GATEWAY_SIGNER_KEYS, GATEWAY_SIGNER_KEY, GATEWAY_ACTIVE_SIGNER } = process.env
+  const source = JSON.stringify([GATEWAY_SIGNER_KEYS, GATEWAY_SIGNER_KEY, GATEWAY_ACTIVE_SIGNER])
+  if (cached?.source !== source) {
+    cached = { source, ring: parseKeyRing(GATEWAY_SIGNER_KEYS, GATEWAY_SIGNER_KEY, GATEWAY_ACTIVE_SIGNER) }
+  }
+  return cached.ring
+}
+
+function inWindow(entry: KeyRingEntry, now: number): boolean {
+  return (!entry.validFrom || Date.parse(entry.validFrom) <= now) &&
+    (!entry.validUntil || now < Date.parse(entry.validUntil))
+}
+
+function getActiveKey(now: number): KeyRingEntry {
+  const ring = getKeyRing()
+  const entry = ring.keys.find((k) => k.id === ring.activeId)!
+  if (!inWindow(entry, now)) {
+    throw new Error(`Active gateway signer "${entry.id}" is outside its validity window`)
+  }
+  return entry
+}
 
-  const messageHash = keccak256(
+/**
+ * Every key in the ring (addresses only, never private keys) with its
+ * status at `now`.
+ */
+export function getGatewaySigners(now = Date.now()): GatewaySigner[] {
+  const ring = getKeyRing()
+  return ring.keys.map((entry) => ({
+    id: entry.id,
+    address: entry.account.address,
+    ...(entry.validFrom && { validFrom: entry.validFrom }),
+    ...(entry.validUntil && { validUntil: entry.validUntil }),
+    status: entry.id === ring.activeId && inWindow(entry, now)
+      ? 'active'
+      : inWindow(entry, now)
+        ? 'verifying'
+        : entry.validFrom && now < Date.parse(entry.validFrom)
+          ? 'pending'
+          : 'expired',
+  }))
+}
+
+/**
+ * The hash PayAgentResolver.resolveWithProof recovers the signer from
+ * (after the EIP-191 "\x19Ethereum Signed Message:\n32" prefix).
+ */
+export function gatewayResponseHash(sender: Hex, expires: bigint, extraData: Hex, result: Hex): Hex {
+  return keccak256(
     encodePacked(
       ['bytes2', 'address', 'uint64', 'bytes32', 'bytes32'],
       [
@@ -46,21 +159,29 @@ export async function signGatewayResponse(
       ],
     ),
   )
+}
 
-  const walletClient = createWalletClient({
-    account,
-    chain: mainnet,
-    transport: http(),
-  })
+/**
+ * Sign a gateway response with the active key. The response expires after
+ * `ttlSeconds`, or when the signer's window ends if that is sooner.
+ */
+export async function signGatewayResponse(
+  sender: Hex,
+  extraData: Hex,
+  result: Hex,
+  ttlSeconds = 300,
+): Promise<{ expires: bigint; signature: Hex; signer: string }> {
+  const now = Date.now()
+  const key = getActiveKey(now)
 
-  const signature = await walletClient.signMessage({
-    message: { raw: messageHash },
-  })
+  let expires = Math.floor(now / 1000) + ttlSeconds
+  if (key.validUntil) {
+    expires = Math.min(expires, Math.floor(Date.parse(key.validUntil) / 1000))
+  }
 
-  return signature
-}
+  const signature = await key.account.signMessage({
+    message: { raw: gatewayResponseHash(sender, BigInt(expires), extraData, result) },
+  })
 
-export function getSignerAddress(): Hex {
-  const account = getSignerAccount()
-  return account.address
+  return { expires: BigInt(expires), signature, signer: key.id }
 }
@@ -0,0 +1,141 @@
+/**
+ * Chain-qualified recipients.
+ *
+ * Accepts, besides a plain ENS name or 0x address:
+ *   - ERC-7828 names: `alice.eth@base`, `0xabc…@eip155:8453`, optionally
+ *     followed by an ERC-7930 checksum (`alice.eth@base#1A2B3C4D`)
+ *   - ERC-7930 interoperable addresses, hex-encoded: version 0x0001,
+ *     chain type (0x0000 for eip155), chain reference length and bytes,
+ *     address length and bytes
+ *
+ * The checksum is the first 4 bytes of keccak256 over the interoperable
+ * address without its version, in uppercase hex. For a name it can only be
+ * checked once the name is resolved on the chain (see `interopChecksum`).
+ *
+ * No server dependencies: this module also runs in the browser.
+ */
+
+import { concat, isAddress, isHex, keccak256, numberToHex, size, sliceHex, hexToNumber, type Address, type Hex } from 'viem'
+
+/** Chain labels accepted after `@`, by chain ID. */
+const CHAIN_LABELS: Record<string, number> = {
+  eth: 1,
+  ethereum: 1,
+  mainnet: 1,
+  base: 8453,
+  optimism: 10,
+  op: 10,
+  arbitrum: 42161,
+  arb1: 42161,
+}
+
+/** Canonical label per supported chain, as written by `formatChainAddress`. */
+export const CHAIN_SHORT_NAMES: Record<number, string> = {
+  1: 'eth',
+  8453: 'base',
+  10: 'optimism',
+  42161: 'arbitrum',
+}
+
+const INTEROP_VERSION = '0x0001'
+const EIP155_CHAIN_TYPE = '0x0000'
+
+export type ChainQualifiedRecipient = {
+  /** ENS name or 0x address, without any chain */
+  recipient: string
+  isName: boolean
+  /** Chain named in the input; null for a plain name or address */
+  chainId: number | null
+  /** ERC-7930 checksum given after `#`, uppercase */
+  checksum?: string
+}
+
+/** ERC-7930 interoperable address of an EVM address on `chainId`. */
+export function toInteropAddress(address: Address, chainId: number): Hex {
+  const reference = numberToHex(chainId)
+  // Whole bytes: numberToHex(10) is 0xa
+  const chainRef = (reference.length % 2 ? `0x0${reference.slice(2)}` : reference) as Hex
+  return concat([
+    INTEROP_VERSION,
+    EIP155_CHAIN_TYPE,
+    numberToHex(size(chainRef), { size: 1 }),
+    chainRef,
+    numberToHex(20, { size: 1 }),
+    address.toLowerCase() as Hex,
+  ])
+}
+
+/** ERC-7930 checksum of `address` on `chainId`. */
+export function interopChecksum(address: Address, chainId: number): string {
+  const withoutVersion = sliceHex(toInteropAddress(address, chainId), 2)
+  return keccak256(withoutVersion).slice(2, 10).toUpperCase()
+}
+
+function parseInteropAddress(input: Hex): { address: Address; chainId: number } | { error: string } {
+  try {
+    if (sliceHex(input, 0, 2) !== INTEROP_VERSION) return { error: 'Unsupported interoperable address version' }
+    if (sliceHex(input, 2, 4) !== EIP155_CHAIN_TYPE) return { error: 'Only EVM (eip155) interoperable addresses are supported' }
+
+    const referenceLength = hexToNumber(sliceHex(input, 4, 5))
+    if (referenceLength === 0) return { error: 'Interoperable address has no chain' }
+    const chainId = hexToNumber(sliceHex(input, 5, 5 + referenceLength))
+
+    const addressLength = hexToNumber(sliceHex(input, 5 + referenceLength, 6 + referenceLength))
+    if (addressLength !== 20 || size(input) !== 6 + referenceLength + addressLength) {
+      return { error: 'Malformed interoperable address' }
+    }
+    return { address: sliceHex(input, 6 + referenceLength) as Address, chainId }
+  } catch {
+    return { error: 'Malformed interoperable address' }
+  }
+}
+
+function parseChain(label: string): number | null {
+  const lower = label.toLowerCase()
+  if (lower in CHAIN_LABELS) return CHAIN_LABELS[lower]
+  const caip = /^eip155:(\d+)$/.exec(lower)
+  return caip ? Number(caip[1]) : null
+}
+
+/**
+ * Parse a recipient as typed by a payer or passed to /api/quote. Only the
+ * chains in CHAIN_SHORT_NAMES are accepted.
+ */
+export function parseRecipient(input: string): ChainQualifiedRecipient | { error: string } {
+  let value = input.trim()
+
+  let checksum: string | undefined
+  const hash = value.lastIndexOf('#')
+  if (hash !== -1) {
+    checksum = value.slice(hash + 1).toUpperCase()
+    value = value.slice(0, hash)
+    if (!/^[0-9A-F]{8}$/.test(checksum)) return { error: `Invalid checksum "${checksum}"` }
+  }
+
+  let recipient = value
+  let chainId: number | null = null
+
+  if (isHex(value) && size(value) > 20) {
+    // ERC-7930 binary form
+    const parsed = parseInteropAddress(value)
+    if ('error' in parsed) return parsed
+    recipient = parsed.address
+    chainId = parsed.chainId
+  } else if (value.includes('@')) {
+    const at = value.lastIndexOf('@')
+    recipient = value.slice(0, at)
+    chainId = parseChain(value.slice(at + 1))
+    if (chainId === null) return { error: `Unknown chain "${value.slice(at + 1)}"` }
+  }
+
+  const isName = !isAddress(recipient, { strict: false })
+  if (isName && (!recipient.includes('.') || /\s|@/.test(recipient))) {
+    return { error: `"${recipient}" is not an ENS name or address` }
+  }
+  if (chainId !== null && !(chainId in CHAIN_SHORT_NAMES)) {
+    return { error: `Chain ${chainId} is not supported` }
+  }
+  if (checksum && chainId === null) return { error: 'A checksum needs a chain' }
+
+  return { recipient, isName, chainId, ...(checksum && { checksum }) }
+}
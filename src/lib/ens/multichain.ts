@@ -1,20 +1,14 @@
-import { type Chain, createPublicClient, http } from 'viem'
+import { type Chain, createPublicClient, http, toCoinType } from 'viem'
 import { mainnet, base, optimism, arbitrum } from 'viem/chains'
 import { normalize } from 'viem/ens'
+import { CHAIN_SHORT_NAMES } from './interop-address'
 
 /**
  * Multichain ENS utilities following ERC-7828 and ENSIP-19.
+ * Chain-qualified recipients are parsed in interop-address.ts.
  */
 
-/** Map of chain IDs to human-readable short names used in ERC-7828 notation. */
-const CHAIN_SHORT_NAMES: Record<number, string> = {
-  1: 'eth',
-  8453: 'base',
-  10: 'optimism',
-  42161: 'arbitrum',
-}
-
-/** viem chain objects keyed by chain ID, used to build per-chain clients. */
+/** Chains with ENSIP-19 primary names (an L2 reverse registrar, or mainnet). */
 const CHAIN_OBJECTS: Record<number, Chain> = {
   1: mainnet,
   8453: base,
@@ -22,10 +16,14 @@ const CHAIN_OBJECTS: Record<number, Chain> = {
   42161: arbitrum,
 }
 
-/** Mainnet client used as fallback for reverse resolution. */
+/**
+ * Mainnet client for Universal Resolver calls. Concurrent lookups go out as
+ * one JSON-RPC batch, so resolving a page of payers costs one round trip
+ * (plus any CCIP-Read gateway requests).
+ */
 const mainnetClient = createPublicClient({
   chain: mainnet,
-  transport: http(process.env.ETH_RPC_URL || 'https://eth.llamarpc.com'),
+  transport: http(process.env.ETH_RPC_URL || 'https://eth.llamarpc.com', { batch: true }),
 })
 
 /**
@@ -39,58 +37,77 @@ export function formatChainAddress(name: string, chain: string): string {
   return `${name}@${chain}`
 }
 
+// Most addresses resolved in one getMultichainNames call
+export const MAX_PRIMARY_NAME_BATCH = 50
+
+/** Whether primary names can be resolved for `chainId`. */
+export function supportsPrimaryNames(chainId: number): boolean {
+  return chainId in CHAIN_OBJECTS
+}
+
 /**
- * Perform reverse resolution for an address on a specific chain, following
- * the ENSIP-19 pattern:
+ * Resolve the primary name of an address on a chain, following ENSIP-19.
  *
- *   1. Try resolving on the L2 chain first (if a client can be built).
- *   2. Fall back to L1 mainnet reverse resolution.
+ * The mainnet Universal Resolver reads the reverse record for the chain's
+ * coin type (0x80000000 | chainId on L2s): on Base, Optimism and Arbitrum
+ * that is the name set with the chain's L2 reverse registrar, read over
+ * CCIP-Read, falling back to the default (all-EVM-chains) reverse name.
+ * A mainnet primary name is not a primary name on an L2.
  *
- * Returns the primary ENS name if found, or `null`.
+ * The name only counts if it resolves back to the address for the same
+ * coin type, so nobody can claim a name they don't control.
+ *
+ * Returns the primary ENS name if found and verified, or `null`.
  */
 export async function getMultichainName(
   address: string,
   chainId: number,
 ): Promise<string | null> {
+  if (!supportsPrimaryNames(chainId)) return null
   const addr = address as `0x${string}`
+  const coinType = toCoinType(chainId)
 
-  // 1. Try L2-specific reverse resolution when not on mainnet
-  if (chainId !== 1) {
-    const chainObj = CHAIN_OBJECTS[chainId]
-    if (chainObj) {
-      try {
-        const l2Client = createPublicClient({
-          chain: chainObj,
-          transport: http(),
-        })
-        const l2Name = await l2Client.getEnsName({ address: addr })
-        if (l2Name) return l2Name
-      } catch {
-        // L2 reverse record unavailable — fall through to mainnet
-      }
-    }
-  }
-
-  // 2. Fallback: mainnet reverse resolution
   try {
-    const name = await mainnetClient.getEnsName({ address: addr })
-    return name ?? null
+    const name = await mainnetClient.getEnsName({ address: addr, coinType })
+    if (!name) return null
+
+    // Forward-verify on the same chain
+    const resolved = await mainnetClient.getEnsAddress({ name: normalize(name), coinType })
+    return resolved?.toLowerCase() === addr.toLowerCase() ? name : null
   } catch {
     return null
   }
 }
 
 /**
- * Convenience helper: resolve a name to an address on a specific chain
- * using the ERC-7828 format, then return both the resolved address and
- * the formatted multichain name.
+ * Primary names of several addresses on one chain, keyed by lowercased
+ * address (`null` where there is none). Lookups run concurrently and share
+ * batched RPC requests; at most MAX_PRIMARY_NAME_BATCH distinct addresses.
+ */
+export async function getMultichainNames(
+  addresses: string[],
+  chainId: number,
+): Promise<Record<string, string | null>> {
+  const unique = [...new Set(addresses.map((address) => address.toLowerCase()))]
+  if (unique.length > MAX_PRIMARY_NAME_BATCH) {
+    throw new Error(`At most ${MAX_PRIMARY_NAME_BATCH} addresses per lookup`)
+  }
+
+  const names = await Promise.all(unique.map((address) => getMultichainName(address, chainId)))
+  return Object.fromEntries(unique.map((address, i) => [address, names[i]]))
+}
+
+/**
+ * Convenience helper: resolve a name to its address on a specific chain
+ * (the chain's coin type, ENSIP-11), then return both the resolved address
+ * and the ERC-7828 multichain name.
  */
 export async function resolveMultichainName(
   name: string,
   chainId: number,
 ): Promise<{ address: string | null; multichainName: string | null }> {
   const normalized = normalize(name)
-  const address = await mainnetClient.getEnsAddress({ name: normalized })
+  const address = await mainnetClient.getEnsAddress({ name: normalized, coinType: toCoinType(chainId) })
   const shortName = CHAIN_SHORT_NAMES[chainId]
   const multichainName = shortName
     ? formatChainAddress(name, shortName)
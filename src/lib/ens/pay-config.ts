@@ -1,8 +1,19 @@
 /**
  * com.pay.config - Single JSON record for all payment preferences
+ *
+ * Versions:
+ *   1.0 - receive token/chain/vault, fallbacks and limits
+ *   2.0 - adds the strategy allocation (ensio.strategies), slippage and
+ *         maxFee that used to live in separate records
+ *
+ * Names still configured through the legacy records (com.payagent.*,
+ * ensio.strategy(ies), yieldroute.vault) or a 1.0 config are migrated to
+ * 2.0 on read; see `migratePayConfig` and `payConfigFromLegacyRecords`.
  */
 
-export interface PayConfig {
+import { STRATEGIES, type StrategyAllocation, type StrategyType } from '@/lib/strategies'
+
+export interface PayConfigV1 {
   version: '1.0'
   receive: {
     token: string // USDC, USDT, ETH
@@ -19,6 +30,33 @@ export interface PayConfig {
   }
 }
 
+export interface PayConfigV2 extends Omit<PayConfigV1, 'version'> {
+  version: '2.0'
+  strategies?: StrategyAllocation[] // Percentages sum to 100
+  slippage?: number // Max slippage in percent, e.g. 0.5
+  maxFee?: number // Max acceptable fee in USD
+}
+
+export type PayConfig = PayConfigV1 | PayConfigV2
+
+export const CURRENT_PAY_CONFIG_VERSION = '2.0'
+
+/**
+ * Records folded into a 2.0 config. An upgrade clears them once
+ * com.pay.config carries their values.
+ */
+export const LEGACY_PAY_CONFIG_KEYS = [
+  'com.payagent.token',
+  'com.payagent.chain',
+  'com.payagent.slippage',
+  'com.payagent.maxFee',
+  'yieldroute.vault',
+  'ensio.strategy',
+  'ensio.strategies',
+] as const
+
+export type LegacyPayConfigRecords = Partial<Record<(typeof LEGACY_PAY_CONFIG_KEYS)[number], string>>
+
 // Chain ID to name mapping
 export const CHAINS: Record<number, string> = {
   1: 'Ethereum',
@@ -37,10 +75,13 @@ export const DEFAULT_VAULTS: Record<number, { address: string; name: string; apy
   },
 }
 
+// Max slippage a config may request, in percent
+const MAX_SLIPPAGE_PERCENT = 50
+
 // Create default config
-export function createDefaultConfig(): PayConfig {
+export function createDefaultConfig(): PayConfigV2 {
   return {
-    version: '1.0',
+    version: '2.0',
     receive: {
       token: 'USDC',
       chain: 8453, // Base
@@ -48,18 +89,19 @@ export function createDefaultConfig(): PayConfig {
   }
 }
 
-// Parse config from ENS text record
-export function parsePayConfig(json: string | undefined): PayConfig | null {
+/**
+ * Parse and validate a com.pay.config text record. Returns null when the
+ * record is unset, otherwise the config or the reason it was rejected.
+ */
+export function parsePayConfig(json: string | undefined): { config: PayConfig } | { error: string } | null {
   if (!json) return null
+  let parsed: unknown
   try {
-    const parsed = JSON.parse(json)
-    if (parsed.version === '1.0' && parsed.receive) {
-      return parsed as PayConfig
-    }
-    return null
+    parsed = JSON.parse(json)
   } catch {
-    return null
+    return { error: 'com.pay.config is not valid JSON' }
   }
+  return validatePayConfig(parsed)
 }
 
 // Serialize config for ENS text record
@@ -79,3 +121,253 @@ export function getConfigSummary(config: PayConfig): string {
 
   return base
 }
+
+function describe(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value)
+}
+
+function isAddressLike(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)
+}
+
+function isChainId(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+function validateStrategies(input: unknown): { strategies: StrategyAllocation[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'strategies must be a non-empty list of { strategy, percentage }' }
+  }
+  let total = 0
+  for (const [i, entry] of input.entries()) {
+    const { strategy, percentage } = (entry ?? {}) as Partial<StrategyAllocation>
+    if (typeof strategy !== 'string' || !(strategy in STRATEGIES)) {
+      return { error: `strategies[${i}].strategy must be one of ${Object.keys(STRATEGIES).join(', ')} (got ${describe(strategy)})` }
+    }
+    if (!Number.isInteger(percentage) || percentage! <= 0 || percentage! > 100) {
+      return { error: `strategies[${i}].percentage must be an integer from 1 to 100 (got ${describe(percentage)})` }
+    }
+    total += percentage!
+  }
+  if (total !== 100) return { error: `strategies percentages must sum to 100 (got ${total})` }
+  return { strategies: input as StrategyAllocation[] }
+}
+
+/**
+ * Validate an untrusted PayConfig (e.g. from an API request body or a text
+ * record). Values are kept as given, since the config may be covered by a
+ * signature; errors name the offending field.
+ */
+export function validatePayConfig(input: unknown): { config: PayConfig } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'config must be an object' }
+  const { version, receive, fallback, limits } = input as Partial<PayConfigV2> | Partial<PayConfigV1>
+
+  if (version !== '1.0' && version !== '2.0') {
+    return { error: `Unsupported config version ${describe(version)} (expected "1.0" or "2.0")` }
+  }
+  if (!receive || typeof receive !== 'object') return { error: 'receive is required' }
+  if (typeof receive.token !== 'string' || !receive.token) {
+    return { error: `receive.token must be a token symbol (got ${describe(receive.token)})` }
+  }
+  if (!isChainId(receive.chain)) {
+    return { error: `receive.chain must be a positive integer chain ID (got ${describe(receive.chain)})` }
+  }
+  if (receive.vault !== undefined && !isAddressLike(receive.vault)) {
+    return { error: `receive.vault must be a 0x-prefixed 20-byte address (got ${describe(receive.vault)})` }
+  }
+
+  if (fallback !== undefined) {
+    if (!fallback || typeof fallback !== 'object') return { error: 'fallback must be an object' }
+    if (fallback.tokens !== undefined &&
+        (!Array.isArray(fallback.tokens) || !fallback.tokens.every((t) => typeof t === 'string' && t))) {
+      return { error: 'fallback.tokens must be a list of token symbols' }
+    }
+    if (fallback.chains !== undefined) {
+      if (!Array.isArray(fallback.chains)) return { error: 'fallback.chains must be a list of chain IDs' }
+      const invalid = fallback.chains.findIndex((c) => !isChainId(c))
+      if (invalid >= 0) {
+        return { error: `fallback.chains[${invalid}] must be a positive integer chain ID (got ${describe(fallback.chains[invalid])})` }
+      }
+    }
+  }
+
+  if (limits !== undefined) {
+    if (!limits || typeof limits !== 'object') return { error: 'limits must be an object' }
+    for (const field of ['min', 'max'] as const) {
+      const value = limits[field]
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        return { error: `limits.${field} must be a non-negative number (got ${describe(value)})` }
+      }
+    }
+    if (limits.min !== undefined && limits.max !== undefined && limits.min > limits.max) {
+      return { error: 'limits.min must not exceed limits.max' }
+    }
+  }
+
+  const base = {
+    receive: {
+      token: receive.token,
+      chain: receive.chain,
+      ...(receive.vault && { vault: receive.vault }),
+    },
+    ...(fallback && (fallback.tokens?.length || fallback.chains?.length) && {
+      fallback: {
+        ...(fallback.tokens?.length && { tokens: fallback.tokens }),
+        ...(fallback.chains?.length && { chains: fallback.chains }),
+      },
+    }),
+    ...(limits && (limits.min !== undefined || limits.max !== undefined) && {
+      limits: {
+        ...(limits.min !== undefined && { min: limits.min }),
+        ...(limits.max !== undefined && { max: limits.max }),
+      },
+    }),
+  }
+
+  if (version === '1.0') return { config: { version, ...base } }
+
+  const { strategies, slippage, maxFee } = input as Partial<PayConfigV2>
+  let allocations: StrategyAllocation[] | undefined
+  if (strategies !== undefined) {
+    const validated = validateStrategies(strategies)
+    if ('error' in validated) return validated
+    allocations = validated.strategies
+  }
+  if (slippage !== undefined &&
+      (typeof slippage !== 'number' || !Number.isFinite(slippage) || slippage <= 0 || slippage > MAX_SLIPPAGE_PERCENT)) {
+    return { error: `slippage must be a percentage above 0 and at most ${MAX_SLIPPAGE_PERCENT} (got ${describe(slippage)})` }
+  }
+  if (maxFee !== undefined && (typeof maxFee !== 'number' || !Number.isFinite(maxFee) || maxFee < 0)) {
+    return { error: `maxFee must be a non-negative number (got ${describe(maxFee)})` }
+  }
+
+  return {
+    config: {
+      version,
+      ...base,
+      ...(allocations && { strategies: allocations }),
+      ...(slippage !== undefined && { slippage }),
+      ...(maxFee !== undefined && { maxFee }),
+    },
+  }
+}
+
+/** Upgrade a config to the current version. */
+export function migratePayConfig(config: PayConfig): PayConfigV2 {
+  if (config.version === '2.0') return config
+  return { ...config, version: '2.0' }
+}
+
+function parseLegacyChain(value: string): number | null {
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) || null
+  const match = Object.entries(CHAINS).find(([, name]) => name.toLowerCase() === trimmed.toLowerCase())
+  return match ? Number(match[0]) : null
+}
+
+function parseLegacyStrategies(
+  strategy: string | undefined,
+  strategies: string | undefined,
+): { strategies: StrategyAllocation[] } | { error: string } | null {
+  if (strategies) {
+    const allocations = strategies.split(',').map((part) => {
+      const [id, percent] = part.split(':').map((s) => s.trim())
+      return { strategy: id.toLowerCase() as StrategyType, percentage: Number(percent) }
+    })
+    const validated = validateStrategies(allocations)
+    return 'error' in validated ? { error: `ensio.strategies: ${validated.error}` } : validated
+  }
+  if (strategy) {
+    const id = strategy.trim().toLowerCase()
+    if (!(id in STRATEGIES)) return { error: `ensio.strategy must be one of ${Object.keys(STRATEGIES).join(', ')} (got "${strategy}")` }
+    return { strategies: [{ strategy: id as StrategyType, percentage: 100 }] }
+  }
+  return null
+}
+
+/**
+ * Build a 2.0 config from the legacy per-field records. Returns null when
+ * none of them are set. Token and chain default to USDC on Base, as in
+ * `createDefaultConfig`.
+ */
+export function payConfigFromLegacyRecords(
+  records: LegacyPayConfigRecords,
+): { config: PayConfigV2 } | { error: string } | null {
+  if (!LEGACY_PAY_CONFIG_KEYS.some((key) => records[key])) return null
+
+  const defaults = createDefaultConfig()
+  const chainRecord = records['com.payagent.chain']
+  const chain = chainRecord ? parseLegacyChain(chainRecord) : defaults.receive.chain
+  if (!chain) {
+    return { error: `com.payagent.chain must be a chain ID or one of ${Object.values(CHAINS).join(', ')} (got "${chainRecord}")` }
+  }
+
+  const vault = records['yieldroute.vault']
+  if (vault && !isAddressLike(vault)) {
+    return { error: `yieldroute.vault must be a 0x-prefixed 20-byte address (got "${vault}")` }
+  }
+
+  const strategies = parseLegacyStrategies(records['ensio.strategy'], records['ensio.strategies'])
+  if (strategies && 'error' in strategies) return strategies
+
+  for (const key of ['com.payagent.slippage', 'com.payagent.maxFee'] as const) {
+    const value = records[key]
+    if (value && !Number.isFinite(Number(value))) return { error: `${key} must be a number (got "${value}")` }
+  }
+  const slippage = records['com.payagent.slippage'] ? Number(records['com.payagent.slippage']) : undefined
+  const maxFee = records['com.payagent.maxFee'] ? Number(records['com.payagent.maxFee']) : undefined
+
+  const result = validatePayConfig({
+    version: '2.0',
+    receive: {
+      token: records['com.payagent.token']?.trim().toUpperCase() || defaults.receive.token,
+      chain,
+      ...(vault && { vault }),
+    },
+    ...(strategies && { strategies: strategies.strategies }),
+    ...(slippage !== undefined && { slippage }),
+    ...(maxFee !== undefined && { maxFee }),
+  })
+  if ('error' in result) return { error: `Cannot migrate legacy records: ${result.error}` }
+  return { config: result.config as PayConfigV2 }
+}
+
+/**
+ * Text records a PayConfig answers: the `com.pay.config` JSON itself, one
+ * key per field, and the legacy keys older clients read.
+ */
+export function payConfigTextRecords(config: PayConfig): Record<string, string> {
+  const records: Record<string, string> = {
+    'com.pay.config': serializePayConfig(config),
+    'com.pay.token': config.receive.token,
+    'com.pay.chain': String(config.receive.chain),
+    'com.payagent.token': config.receive.token,
+    'com.payagent.chain': String(config.receive.chain),
+  }
+  if (config.receive.vault) {
+    records['com.pay.vault'] = config.receive.vault
+    records['yieldroute.vault'] = config.receive.vault
+  }
+  if (config.fallback?.tokens?.length) records['com.pay.fallback.tokens'] = config.fallback.tokens.join(',')
+  if (config.fallback?.chains?.length) records['com.pay.fallback.chains'] = config.fallback.chains.join(',')
+  if (config.limits?.min !== undefined) records['com.pay.limits.min'] = String(config.limits.min)
+  if (config.limits?.max !== undefined) records['com.pay.limits.max'] = String(config.limits.max)
+
+  if (config.version === '2.0') {
+    if (config.strategies?.length) {
+      const allocation = config.strategies.map((a) => `${a.strategy}:${a.percentage}`).join(',')
+      records['com.pay.strategies'] = allocation
+      records['ensio.strategies'] = allocation
+      if (config.strategies.length === 1) records['ensio.strategy'] = config.strategies[0].strategy
+    }
+    if (config.slippage !== undefined) {
+      records['com.pay.slippage'] = String(config.slippage)
+      records['com.payagent.slippage'] = String(config.slippage)
+    }
+    if (config.maxFee !== undefined) {
+      records['com.pay.maxFee'] = String(config.maxFee)
+      records['com.payagent.maxFee'] = String(config.maxFee)
+    }
+  }
+  return records
+}
@@ -0,0 +1,251 @@
+/**
+ * Receipt anchoring: commits the Merkle root of each batch of new receipts
+ * to the ReceiptAnchor contract on Base, so a receipt's inclusion proof
+ * (see receipt-proof.ts) can be checked against the chain rather than
+ * against our gateway key.
+ *
+ * Batches live in the "receipt-batches" collection, keyed by batch ID and
+ * numbered from 0 like the contract's. Each holds the leaf fields of its
+ * receipts, so its tree can be rebuilt for any of them. One batch is
+ * pending at a time: a run first settles it (marked anchored once
+ * `rootOf(id)` returns its root, otherwise its commit is sent), and only
+ * then batches the receipts that aren't in any batch yet. If the commit
+ * doesn't confirm within the run, the next run finds it on-chain.
+ *
+ * "receipt-batch-index" maps each anchored receipt's tx hash to its batch
+ * and is written when the batch is anchored, so the gateway only serves
+ * proofs whose root is on-chain.
+ *
+ * Configured by NEXT_PUBLIC_RECEIPT_ANCHOR_ADDRESS (the contract) and
+ * RECEIPT_ANCHOR_KEY (a committer's private key); without both, runs are
+ * skipped. Clients can be injected, as in the receipt ingester.
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  isAddress,
+  parseAbi,
+  zeroHash,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { base } from 'viem/chains'
+import { createRepository } from '@/lib/storage/repository'
+import { getAllReceipts } from './receipt-store'
+import { buildMerkleTree, receiptLeaf, type ReceiptLeafFields, type ReceiptProof } from './receipt-proof'
+
+export type AnchorWalletClient = WalletClient<Transport, Chain, Account>
+
+type ReceiptBatch = {
+  id: number
+  receipts: ReceiptLeafFields[]
+  root: Hex
+  contract: Address
+  status: 'pending' | 'anchored'
+  /** Latest commit transaction sent for the batch */
+  anchorTxHash?: Hex
+  createdAt: string
+  anchoredAt?: string
+}
+
+const batches = createRepository<ReceiptBatch>('receipt-batches')
+const batchIndex = createRepository<{ batch: number }>('receipt-batch-index')
+
+const anchorAbi = parseAbi([
+  'function commit(uint256 batchId, bytes32 root, uint32 count)',
+  'function rootOf(uint256 batchId) view returns (bytes32)',
+  'function batchCount() view returns (uint256)',
+])
+
+// Receipts per batch; the rest wait for the next run
+const MAX_BATCH_SIZE = 512
+// How long a run waits for its commit to be mined
+const COMMIT_TIMEOUT_MS = 40_000
+
+export type AnchorRunResult = {
+  ranAt: string
+  skipped?: string
+  /** Batch anchored during the run */
+  anchored?: { batch: number; count: number; txHash?: Hex }
+  /** Batch still waiting for its commit */
+  pending?: { batch: number; count: number; txHash?: Hex }
+}
+
+function anchorContract(): Address | null {
+  const address = process.env.NEXT_PUBLIC_RECEIPT_ANCHOR_ADDRESS
+  return address && isAddress(address) ? address : null
+}
+
+function defaultPublicClient(): PublicClient {
+  return createPublicClient({
+    chain: base,
+    transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+  }) as PublicClient
+}
+
+function defaultWalletClient(): AnchorWalletClient | null {
+  const key = process.env.RECEIPT_ANCHOR_KEY
+  if (!key) return null
+  return createWalletClient({
+    account: privateKeyToAccount(key as Hex),
+    chain: base,
+    transport: http(process.env.BASE_RPC_URL || 'https://mainnet.base.org'),
+  })
+}
+
+async function findPendingBatch(): Promise<ReceiptBatch | null> {
+  return (await batches.list()).find((batch) => batch.status === 'pending') ?? null
+}
+
+/**
+ * Put every receipt that isn't in a batch yet, oldest first, into the next
+ * batch. Returns null when there are none.
+ */
+async function createBatch(contract: Address): Promise<ReceiptBatch | null> {
+  const receipts = (await getAllReceipts()).sort((a, b) => a.timestamp - b.timestamp)
+
+  return batches.transaction(async (tx) => {
+    // Another run may have created one meanwhile
+    const pending = tx.list().find((batch) => batch.status === 'pending')
+    if (pending) return pending
+
+    const indexed = new Set((await batchIndex.entries()).map(([hash]) => hash))
+    const fresh = receipts
+      .filter((receipt) => !indexed.has(receipt.txHash.toLowerCase()))
+      .slice(0, MAX_BATCH_SIZE)
+    if (fresh.length === 0) return null
+
+    const leaves: ReceiptLeafFields[] = fresh.map((receipt) => ({
+      txHash: receipt.txHash.toLowerCase() as Hex,
+      amount: receipt.amount,
+      token: receipt.token,
+      sender: receipt.sender.toLowerCase(),
+      receiver: receipt.receiver.toLowerCase(),
+      timestamp: receipt.timestamp,
+    }))
+
+    const batch: ReceiptBatch = {
+      id: tx.list().length,
+      receipts: leaves,
+      root: buildMerkleTree(leaves.map(receiptLeaf)).root,
+      contract,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    }
+    tx.put(String(batch.id), batch)
+    return batch
+  })
+}
+
+async function markAnchored(batch: ReceiptBatch, txHash?: Hex): Promise<void> {
+  await batches.put(String(batch.id), {
+    ...batch,
+    status: 'anchored',
+    ...(txHash && { anchorTxHash: txHash }),
+    anchoredAt: new Date().toISOString(),
+  })
+  await batchIndex.transaction((tx) => {
+    for (const receipt of batch.receipts) tx.put(receipt.txHash, { batch: batch.id })
+  })
+}
+
+/**
+ * Settle the pending batch, or batch new receipts and commit them. At most
+ * one commit is sent per run.
+ */
+export async function runReceiptAnchor(options: {
+  publicClient?: PublicClient
+  walletClient?: AnchorWalletClient
+} = {}): Promise<AnchorRunResult> {
+  const ranAt = new Date().toISOString()
+  const contract = anchorContract()
+  const walletClient = options.walletClient ?? defaultWalletClient()
+  if (!contract || !walletClient) {
+    return { ranAt, skipped: 'NEXT_PUBLIC_RECEIPT_ANCHOR_ADDRESS or RECEIPT_ANCHOR_KEY not set' }
+  }
+  const client = options.publicClient ?? defaultPublicClient()
+
+  let batch = await findPendingBatch()
+  if (batch) {
+    const root = await client.readContract({
+      address: batch.contract,
+      abi: anchorAbi,
+      functionName: 'rootOf',
+      args: [BigInt(batch.id)],
+    })
+    if (root.toLowerCase() === batch.root.toLowerCase()) {
+      await markAnchored(batch)
+      return { ranAt, anchored: { batch: batch.id, count: batch.receipts.length, txHash: batch.anchorTxHash } }
+    }
+    if (root !== zeroHash) {
+      throw new Error(`Batch ${batch.id} was committed on-chain with a different root (${root})`)
+    }
+  } else {
+    batch = await createBatch(contract)
+    if (!batch) return { ranAt }
+  }
+
+  const next = await client.readContract({ address: batch.contract, abi: anchorAbi, functionName: 'batchCount' })
+  if (next !== BigInt(batch.id)) {
+    throw new Error(`Batch ${batch.id} is out of step with the anchor contract, which expects batch ${next}`)
+  }
+
+  const txHash = await walletClient.writeContract({
+    address: batch.contract,
+    abi: anchorAbi,
+    functionName: 'commit',
+    args: [BigInt(batch.id), batch.root, batch.receipts.length],
+  })
+  batch = { ...batch, anchorTxHash: txHash }
+  await batches.put(String(batch.id), batch)
+
+  try {
+    const receipt = await client.waitForTransactionReceipt({ hash: txHash, timeout: COMMIT_TIMEOUT_MS })
+    if (receipt.status === 'success') {
+      await markAnchored(batch, txHash)
+      return { ranAt, anchored: { batch: batch.id, count: batch.receipts.length, txHash } }
+    }
+  } catch (error) {
+    // Not mined yet: the next run checks rootOf before committing again
+    console.error(`Receipt batch ${batch.id} commit not confirmed:`, error)
+  }
+  return { ranAt, pending: { batch: batch.id, count: batch.receipts.length, txHash } }
+}
+
+/**
+ * Inclusion proof for the receipt of `txHash`, or null until its batch is
+ * anchored.
+ */
+export async function getReceiptProof(txHash: string): Promise<ReceiptProof | null> {
+  const hash = txHash.toLowerCase()
+  const entry = await batchIndex.get(hash)
+  if (!entry) return null
+
+  const batch = await batches.get(String(entry.batch))
+  if (!batch || batch.status !== 'anchored') return null
+
+  const position = batch.receipts.findIndex((receipt) => receipt.txHash === hash)
+  if (position === -1) return null
+
+  const { root, proofs } = buildMerkleTree(batch.receipts.map(receiptLeaf))
+  return {
+    version: 1,
+    receipt: batch.receipts[position],
+    batch: batch.id,
+    root,
+    proof: proofs[position],
+    anchor: {
+      chainId: base.id,
+      contract: batch.contract,
+      ...(batch.anchorTxHash && { txHash: batch.anchorTxHash }),
+    },
+  }
+}
@@ -0,0 +1,461 @@
+/**
+ * Receipt ingester: creates receipts from chain events, so a receipt
+ * exists whether or not the payer's browser reports the payment.
+ *
+ * Each run scans every chain from its checkpoint up to the latest block
+ * less a few confirmations, looking for payments to known receivers (the
+ * signers of stored preferences):
+ *   - USDC Transfer(from, to = receiver, value) on the USDC contract
+ *   - ERC-4626 Deposit(sender, owner = receiver, assets) on a vault from
+ *     VAULT_TOKEN_MAP, or on the receiver's own PayConfig vault
+ *   - LI.FI LiFiTransferCompleted(receivingAssetId, receiver, amount) from
+ *     the LI.FI diamond
+ *   - GaslessPayment(payer, recipient = receiver, vault, token, amount, fee)
+ *     from the GaslessPaymentRouter at GASLESS_PAYMENT_ROUTER_ADDRESS (Base)
+ * Only logs emitted by those contracts count (see routing/payment-sources),
+ * so nobody can create a receipt by emitting look-alike events from their
+ * own contract. A transaction yields one receipt, from its most specific
+ * evidence: a gasless payment or bridge completion also emits the Transfer
+ * or Deposit that delivered the funds.
+ *
+ * Checkpoints live in the "receipt-checkpoints" collection, one per chain,
+ * together with the hashes of the previous checkpoints. When the checkpoint
+ * block's hash no longer matches the chain, the run walks back to the
+ * newest checkpoint that still does, removes the receipts found in the
+ * blocks after it and scans them again.
+ *
+ * RPC endpoints come from the usual *_RPC_URL env vars and clients can be
+ * injected, so the ingester can be run against a local anvil node.
+ */
+
+import {
+  createPublicClient,
+  formatUnits,
+  http,
+  parseAbiItem,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+import { arbitrum, base, mainnet, optimism } from 'viem/chains'
+import { getTokenAddress, getTokenDecimals } from '@/lib/routing/tokens'
+import { LIFI_DIAMOND, depositToken, getDepositVaults, tokenSymbol } from '@/lib/routing/payment-sources'
+import { createRepository } from '@/lib/storage/repository'
+import { listPreferenceRecords } from './store'
+import { hasReceipt, removeReceiptsAfterBlock, storeReceipt, type ReceiptBlock } from './receipt-store'
+
+type IngestChain = {
+  chain: Chain
+  rpc: string
+  /** Blocks left between the chain head and the scanned range */
+  confirmations: number
+  gaslessRouter?: string
+}
+
+const INGEST_CHAINS: Record<string, IngestChain> = {
+  ethereum: { chain: mainnet, rpc: process.env.ETH_RPC_URL || 'https://eth.llamarpc.com', confirmations: 3 },
+  base: {
+    chain: base,
+    rpc: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
+    confirmations: 5,
+    gaslessRouter: process.env.GASLESS_PAYMENT_ROUTER_ADDRESS,
+  },
+  arbitrum: { chain: arbitrum, rpc: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc', confirmations: 20 },
+  optimism: { chain: optimism, rpc: process.env.OPTIMISM_RPC_URL || 'https://mainnet.optimism.io', confirmations: 5 },
+}
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)')
+const DEPOSIT_EVENT = parseAbiItem(
+  'event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)',
+)
+const LIFI_EVENT = parseAbiItem(
+  'event LiFiTransferCompleted(bytes32 indexed transactionId, address receivingAssetId, address receiver, uint256 amount, uint256 timestamp)',
+)
+const GASLESS_PAYMENT_EVENT = parseAbiItem(
+  'event GaslessPayment(address indexed payer, address indexed recipient, address indexed vault, address token, uint256 amount, uint256 fee)',
+)
+
+// Most blocks scanned per chain in one run, and per getLogs call
+const MAX_BLOCKS_PER_RUN = 2000
+const LOG_BLOCK_RANGE = 500
+
+// Previous checkpoints remembered for finding where a reorg forked off
+const CHECKPOINT_HISTORY = 32
+// How far back to rescan when none of them is on the chain any more
+const MAX_REORG_DEPTH = 128
+
+type Checkpoint = {
+  blockNumber: number
+  blockHash: string
+  /** Earlier checkpoints, newest first */
+  history: ReceiptBlock[]
+  updatedAt: string
+}
+
+const checkpoints = createRepository<Checkpoint>('receipt-checkpoints')
+
+export type ReceiptEvidenceKind = 'gasless-payment' | 'lifi-bridge' | 'vault-deposit' | 'erc20-transfer'
+
+// Lower wins when a transaction has several kinds of evidence
+const EVIDENCE_PRIORITY: Record<ReceiptEvidenceKind, number> = {
+  'gasless-payment': 0,
+  'lifi-bridge': 1,
+  'vault-deposit': 2,
+  'erc20-transfer': 3,
+}
+
+type PaymentEvidence = {
+  txHash: Hex
+  kind: ReceiptEvidenceKind
+  receiver: string
+  token: string
+  amountRaw: bigint
+  /** Payer, when the event says */
+  from: string | null
+  block: ReceiptBlock
+}
+
+type Receiver = {
+  ensName: string
+  /** chainId -> the receiver's own PayConfig vault */
+  vaults: Map<number, string>
+}
+
+export type IngestChainResult = {
+  chain: string
+  /** Range scanned, if any */
+  fromBlock?: number
+  toBlock?: number
+  /** First block rescanned after a reorg */
+  reorgFrom?: number
+  stored: string[]
+  removed: string[]
+}
+
+export type IngestRunResult = {
+  ranAt: string
+  chains: IngestChainResult[]
+  errors: Array<{ chain: string; error: string }>
+}
+
+/** Chains the ingester can scan. */
+export const INGEST_CHAIN_NAMES = Object.keys(INGEST_CHAINS)
+
+/**
+ * Blocks a payment on `chainName` must be buried under before it counts.
+ * Receipts stored from shallower blocks could outlive a reorg, since the
+ * ingester only rescans blocks it has passed.
+ */
+export function getIngestConfirmations(chainName: string): number | null {
+  return INGEST_CHAINS[chainName]?.confirmations ?? null
+}
+
+function createIngestClient(chainName: string): PublicClient {
+  const cfg = INGEST_CHAINS[chainName]
+  return createPublicClient({ chain: cfg.chain, transport: http(cfg.rpc) }) as PublicClient
+}
+
+/**
+ * Receivers by lowercased address. An address with several names files
+ * its receipts under the most recently configured one.
+ */
+async function loadReceivers(): Promise<Map<string, Receiver>> {
+  const receivers = new Map<string, Receiver>()
+  for (const pref of await listPreferenceRecords()) {
+    let receiver = receivers.get(pref.signer)
+    if (!receiver) {
+      receiver = { ensName: pref.name, vaults: new Map() }
+      receivers.set(pref.signer, receiver)
+    }
+    const receive = pref.config?.receive
+    if (receive?.vault && !receiver.vaults.has(receive.chain)) {
+      receiver.vaults.set(receive.chain, receive.vault.toLowerCase())
+    }
+  }
+  return receivers
+}
+
+/**
+ * Every payment to a receiver in blocks `fromBlock`..`toBlock`.
+ */
+async function scanPayments(
+  client: PublicClient,
+  cfg: IngestChain,
+  receivers: Map<string, Receiver>,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<PaymentEvidence[]> {
+  const chainId = cfg.chain.id
+  const addresses = Array.from(receivers.keys()) as Address[]
+  if (addresses.length === 0) return []
+
+  const evidence: PaymentEvidence[] = []
+  const block = (log: { blockNumber: bigint; blockHash: Hex }) => ({
+    number: Number(log.blockNumber),
+    hash: log.blockHash,
+  })
+
+  const usdc = getTokenAddress('USDC', chainId)
+  if (usdc) {
+    const logs = await client.getLogs({
+      address: usdc as Address,
+      event: TRANSFER_EVENT,
+      args: { to: addresses },
+      fromBlock,
+      toBlock,
+    })
+    for (const log of logs) {
+      evidence.push({
+        txHash: log.transactionHash,
+        kind: 'erc20-transfer',
+        receiver: log.args.to!.toLowerCase(),
+        token: 'USDC',
+        amountRaw: log.args.value!,
+        from: log.args.from!.toLowerCase(),
+        block: block(log),
+      })
+    }
+  }
+
+  const receiverVaults = new Map<string, string>()
+  for (const [address, receiver] of receivers) {
+    const vault = receiver.vaults.get(chainId)
+    if (vault) receiverVaults.set(address, vault)
+  }
+  const vaults = await getDepositVaults(client, chainId, receiverVaults)
+
+  if (vaults.assets.size > 0) {
+    const logs = await client.getLogs({
+      address: Array.from(vaults.assets.keys()) as Address[],
+      event: DEPOSIT_EVENT,
+      args: { owner: addresses },
+      fromBlock,
+      toBlock,
+    })
+    for (const log of logs) {
+      const owner = log.args.owner!.toLowerCase()
+      const token = depositToken(vaults, log.address, owner)
+      if (!token) continue
+      evidence.push({
+        txHash: log.transactionHash,
+        kind: 'vault-deposit',
+        receiver: owner,
+        token,
+        amountRaw: log.args.assets!,
+        from: log.args.sender!.toLowerCase(),
+        block: block(log),
+      })
+    }
+  }
+
+  // The receiver isn't indexed, so every completion is fetched and filtered
+  const lifiLogs = await client.getLogs({ address: LIFI_DIAMOND, event: LIFI_EVENT, fromBlock, toBlock })
+  for (const log of lifiLogs) {
+    const receiver = log.args.receiver!.toLowerCase()
+    const token = tokenSymbol(log.args.receivingAssetId!, chainId)
+    if (!receivers.has(receiver) || !token) continue
+    evidence.push({
+      txHash: log.transactionHash,
+      kind: 'lifi-bridge',
+      receiver,
+      token,
+      amountRaw: log.args.amount!,
+      from: null,
+      block: block(log),
+    })
+  }
+
+  if (cfg.gaslessRouter) {
+    const logs = await client.getLogs({
+      address: cfg.gaslessRouter as Address,
+      event: GASLESS_PAYMENT_EVENT,
+      args: { recipient: addresses },
+      fromBlock,
+      toBlock,
+    })
+    for (const log of logs) {
+      const token = tokenSymbol(log.args.token!, chainId)
+      if (!token) continue
+      evidence.push({
+        txHash: log.transactionHash,
+        kind: 'gasless-payment',
+        receiver: log.args.recipient!.toLowerCase(),
+        token,
+        amountRaw: log.args.amount!,
+        from: log.args.payer!.toLowerCase(),
+        block: block(log),
+      })
+    }
+  }
+
+  return evidence
+}
+
+/**
+ * One payment per transaction: the highest-priority kind of evidence,
+ * summed over its logs to the same receiver in the same token.
+ */
+function selectPayments(evidence: PaymentEvidence[]): PaymentEvidence[] {
+  const byTx = new Map<string, PaymentEvidence>()
+  for (const e of evidence) {
+    const key = e.txHash.toLowerCase()
+    const current = byTx.get(key)
+    if (!current || EVIDENCE_PRIORITY[e.kind] < EVIDENCE_PRIORITY[current.kind]) {
+      byTx.set(key, { ...e })
+    } else if (current.kind === e.kind && current.receiver === e.receiver && current.token === e.token) {
+      current.amountRaw += e.amountRaw
+    }
+  }
+  return Array.from(byTx.values())
+}
+
+/**
+ * The newest remembered checkpoint that is still on the chain, and the
+ * ones before it. Falls back to MAX_REORG_DEPTH blocks before the oldest
+ * one, whose hash is then unknown.
+ */
+async function findCanonicalCheckpoint(
+  client: PublicClient,
+  checkpoint: Checkpoint,
+): Promise<{ block: ReceiptBlock | { number: number; hash: null }; history: ReceiptBlock[] }> {
+  const known = [{ number: checkpoint.blockNumber, hash: checkpoint.blockHash }, ...checkpoint.history]
+
+  for (let i = 0; i < known.length; i++) {
+    const onChain = await client.getBlock({ blockNumber: BigInt(known[i].number) }).catch(() => null)
+    if (onChain?.hash?.toLowerCase() === known[i].hash.toLowerCase()) {
+      return { block: known[i], history: known.slice(i + 1) }
+    }
+  }
+
+  const oldest = known[known.length - 1].number
+  return { block: { number: Math.max(0, oldest - MAX_REORG_DEPTH), hash: null }, history: [] }
+}
+
+/**
+ * Scan one chain from its checkpoint and store the receipts found.
+ *
+ * The first run only records a checkpoint at the current block: history
+ * before the ingester was set up isn't backfilled. The chain is scanned
+ * without holding the checkpoint lock; only storing the receipts and the
+ * new checkpoint does. If another run moved the checkpoint in the meantime,
+ * this run's results are dropped and nothing is stored.
+ */
+export async function ingestChain(chainName: string, client?: PublicClient): Promise<IngestChainResult> {
+  const cfg = INGEST_CHAINS[chainName]
+  if (!cfg) throw new Error(`Unsupported chain "${chainName}"`)
+  const rpc = client ?? createIngestClient(chainName)
+  const result: IngestChainResult = { chain: chainName, stored: [], removed: [] }
+
+  const head = Number(await rpc.getBlockNumber())
+  const safeHead = head - cfg.confirmations
+  if (safeHead < 0) return result
+
+  const blockHash = async (blockNumber: number) =>
+    (await rpc.getBlock({ blockNumber: BigInt(blockNumber) })).hash.toLowerCase()
+
+  // Commit the new checkpoint (and whatever else `write` does) unless
+  // another run got there first
+  const commit = (
+    expected: Checkpoint | null,
+    next: ReceiptBlock & { history: ReceiptBlock[] },
+    write: () => Promise<void> = async () => {},
+  ) =>
+    checkpoints.transaction(async (tx) => {
+      const current = tx.get(chainName)
+      if (current?.blockHash !== expected?.blockHash || current?.blockNumber !== expected?.blockNumber) return false
+      await write()
+      tx.put(chainName, {
+        blockNumber: next.number,
+        blockHash: next.hash,
+        history: next.history.slice(0, CHECKPOINT_HISTORY),
+        updatedAt: new Date().toISOString(),
+      })
+      return true
+    })
+
+  const checkpoint = await checkpoints.get(chainName)
+  if (!checkpoint) {
+    await commit(null, { number: safeHead, hash: await blockHash(safeHead), history: [] })
+    return result
+  }
+
+  let history = [{ number: checkpoint.blockNumber, hash: checkpoint.blockHash }, ...checkpoint.history]
+  let fromBlock = checkpoint.blockNumber + 1
+  let reorgFrom: number | undefined
+
+  const canonical = await findCanonicalCheckpoint(rpc, checkpoint)
+  if (canonical.block.number !== checkpoint.blockNumber) {
+    reorgFrom = canonical.block.number + 1
+    fromBlock = reorgFrom
+    history = canonical.block.hash ? [canonical.block, ...canonical.history] : []
+  }
+  const removeReorged = async () => {
+    if (reorgFrom !== undefined) result.removed = await removeReceiptsAfterBlock(chainName, reorgFrom - 1)
+  }
+
+  const toBlock = Math.min(safeHead, fromBlock + MAX_BLOCKS_PER_RUN - 1)
+  if (toBlock < fromBlock) {
+    // Rewound past the safe head: resume from the common ancestor
+    if (reorgFrom === undefined) return result
+    const resumeFrom = { number: fromBlock - 1, hash: await blockHash(fromBlock - 1), history: history.slice(1) }
+    return (await commit(checkpoint, resumeFrom, removeReorged)) ? { ...result, reorgFrom } : result
+  }
+
+  const receivers = await loadReceivers()
+  const evidence: PaymentEvidence[] = []
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+    const end = Math.min(toBlock, start + LOG_BLOCK_RANGE - 1)
+    evidence.push(...(await scanPayments(rpc, cfg, receivers, BigInt(start), BigInt(end))))
+  }
+
+  const payments: Array<PaymentEvidence & { from: string }> = []
+  for (const payment of selectPayments(evidence)) {
+    const from = payment.from ?? (await rpc.getTransaction({ hash: payment.txHash })).from.toLowerCase()
+    payments.push({ ...payment, from })
+  }
+
+  const next = { number: toBlock, hash: await blockHash(toBlock), history }
+  const committed = await commit(checkpoint, next, async () => {
+    await removeReorged()
+    for (const payment of payments) {
+      if (await hasReceipt(payment.txHash)) continue
+      await storeReceipt(
+        payment.txHash,
+        formatUnits(payment.amountRaw, getTokenDecimals(payment.token)),
+        payment.token,
+        chainName,
+        payment.receiver,
+        payment.from,
+        receivers.get(payment.receiver)?.ensName,
+        payment.block,
+      )
+      result.stored.push(payment.txHash.toLowerCase())
+    }
+  })
+  if (!committed) return result
+  return { ...result, ...(reorgFrom !== undefined && { reorgFrom }), fromBlock, toBlock }
+}
+
+/**
+ * Run the ingester on every chain in RECEIPT_INGEST_CHAINS (comma-separated
+ * chain names; default all), or on `options.chains`. A failing chain is
+ * reported and doesn't stop the others.
+ */
+export async function runReceiptIngester(options: {
+  chains?: string[]
+  clients?: Partial<Record<string, PublicClient>>
+} = {}): Promise<IngestRunResult> {
+  const configured = process.env.RECEIPT_INGEST_CHAINS?.split(',').map((c) => c.trim()).filter(Boolean)
+  const chains = options.chains ?? configured ?? INGEST_CHAIN_NAMES
+  const run: IngestRunResult = { ranAt: new Date().toISOString(), chains: [], errors: [] }
+
+  for (const chain of chains) {
+    try {
+      run.chains.push(await ingestChain(chain, options.clients?.[chain]))
+    } catch (error) {
+      run.errors.push({ chain, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return run
+}
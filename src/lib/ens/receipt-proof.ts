@@ -0,0 +1,165 @@
+/**
+ * Merkle proofs for anchored payment receipts.
+ *
+ * Receipts are committed in batches to the ReceiptAnchor contract on Base
+ * (see receipt-anchor.ts). A proof carries the receipt's fields, its batch
+ * and the sibling hashes up to the batch root, so anyone can check offline
+ * that the receipt is in the batch (`verifyReceiptProof`), then confirm the
+ * root on-chain (`verifyReceiptAnchor`) without trusting our gateway key.
+ *
+ * Hashing matches the contract and OpenZeppelin's MerkleProof: leaves are
+ * double-hashed ABI encodings of the receipt fields and each pair of nodes
+ * is hashed in sorted order, so a proof is just the list of siblings.
+ *
+ * No server dependencies: this module also runs in the browser.
+ */
+
+import { concat, encodeAbiParameters, isAddress, keccak256, parseAbi, type Address, type Hex, type PublicClient } from 'viem'
+
+/** Receipt fields committed in a leaf. */
+export type ReceiptLeafFields = {
+  txHash: Hex
+  amount: string
+  token: string
+  sender: string
+  /** ENS name, or address when the receiver has none */
+  receiver: string
+  /** Unix milliseconds, as in PaymentReceipt */
+  timestamp: number
+}
+
+export type ReceiptProof = {
+  version: 1
+  receipt: ReceiptLeafFields
+  batch: number
+  root: Hex
+  proof: Hex[]
+  anchor: {
+    chainId: number
+    contract: Address
+    /** Transaction that committed the root */
+    txHash?: Hex
+  }
+}
+
+export type ProofCheck = { valid: true } | { valid: false; error: string }
+
+const anchorAbi = parseAbi(['function rootOf(uint256 batchId) view returns (bytes32)'])
+
+export function receiptLeaf(receipt: ReceiptLeafFields): Hex {
+  const encoded = encodeAbiParameters(
+    [
+      { type: 'bytes32' },
+      { type: 'string' },
+      { type: 'string' },
+      { type: 'string' },
+      { type: 'string' },
+      { type: 'uint256' },
+    ],
+    [
+      receipt.txHash.toLowerCase() as Hex,
+      receipt.amount,
+      receipt.token,
+      receipt.sender.toLowerCase(),
+      receipt.receiver.toLowerCase(),
+      BigInt(receipt.timestamp),
+    ],
+  )
+  return keccak256(keccak256(encoded))
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return a.toLowerCase() < b.toLowerCase() ? keccak256(concat([a, b])) : keccak256(concat([b, a]))
+}
+
+/**
+ * Root of the tree over `leaves` and each leaf's proof, in input order.
+ * A node without a sibling moves up a level unchanged.
+ */
+export function buildMerkleTree(leaves: Hex[]): { root: Hex; proofs: Hex[][] } {
+  if (leaves.length === 0) throw new Error('Cannot build a Merkle tree without leaves')
+
+  const proofs: Hex[][] = leaves.map(() => [])
+  // Position of each input leaf in the current level
+  let positions = leaves.map((_, i) => i)
+  let level = leaves
+
+  while (level.length > 1) {
+    const next: Hex[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i])
+    }
+    positions = positions.map((pos, leaf) => {
+      const sibling = pos % 2 === 0 ? pos + 1 : pos - 1
+      if (sibling < level.length) proofs[leaf].push(level[sibling])
+      return Math.floor(pos / 2)
+    })
+    level = next
+  }
+
+  return { root: level[0], proofs }
+}
+
+export function processMerkleProof(leaf: Hex, proof: Hex[]): Hex {
+  return proof.reduce<Hex>((node, sibling) => hashPair(node, sibling), leaf)
+}
+
+/**
+ * Check offline that `proof.receipt` is in the batch with root
+ * `proof.root`. Pass the receipt as displayed or resolved elsewhere as
+ * `expected` to also check that the proof is about that receipt.
+ */
+export function verifyReceiptProof(
+  proof: ReceiptProof,
+  expected?: Partial<ReceiptLeafFields>,
+): ProofCheck {
+  if (proof.version !== 1) return { valid: false, error: `Unsupported proof version ${proof.version}` }
+
+  if (expected) {
+    for (const [field, value] of Object.entries(expected)) {
+      if (value === undefined) continue
+      const actual = proof.receipt[field as keyof ReceiptLeafFields]
+      if (String(actual).toLowerCase() !== String(value).toLowerCase()) {
+        return { valid: false, error: `Proof is for a receipt with a different ${field}` }
+      }
+    }
+  }
+
+  const root = processMerkleProof(receiptLeaf(proof.receipt), proof.proof)
+  if (root.toLowerCase() !== proof.root.toLowerCase()) {
+    return { valid: false, error: 'Receipt is not in the batch: proof does not lead to the root' }
+  }
+  return { valid: true }
+}
+
+/**
+ * Check that the proof's root is the one committed on-chain for its batch.
+ * `client` must be connected to `proof.anchor.chainId`; pass the anchor
+ * contract you trust as `contract` rather than relying on the proof's.
+ */
+export async function verifyReceiptAnchor(
+  proof: ReceiptProof,
+  client: PublicClient,
+  contract: string = proof.anchor.contract,
+): Promise<ProofCheck> {
+  if (!isAddress(contract)) return { valid: false, error: 'Invalid anchor contract address' }
+  if (contract.toLowerCase() !== proof.anchor.contract.toLowerCase()) {
+    return { valid: false, error: 'Proof names a different anchor contract' }
+  }
+
+  const chainId = await client.getChainId()
+  if (chainId !== proof.anchor.chainId) {
+    return { valid: false, error: `Client is on chain ${chainId}, the anchor is on ${proof.anchor.chainId}` }
+  }
+
+  const root = await client.readContract({
+    address: contract,
+    abi: anchorAbi,
+    functionName: 'rootOf',
+    args: [BigInt(proof.batch)],
+  })
+  if (root.toLowerCase() !== proof.root.toLowerCase()) {
+    return { valid: false, error: `Batch ${proof.batch} root on-chain does not match the proof` }
+  }
+  return { valid: true }
+}
@@ -1,55 +1,100 @@
 /**
- * JSON-file receipt store for offchain ENS payment receipts.
+ * Receipt store for offchain ENS payment receipts.
  *
- * Reads/writes `data/ens-receipts.json` in the project root.
- * Each entry is keyed by transaction hash.
+ * Stored in the "receipts" collection of the shared storage layer.
+ * Each entry is keyed by lowercased transaction hash.
  *
  * Supports:
  * - Lookup by transaction hash
  * - Lookup by ENS name (receiver)
- * - ENSIO text records for CCIP-Read resolution
+ * - Text records for CCIP-Read resolution of tx-{shortHash}.payments.{name}.eth
+ *
+ * Receipts with a receiver ENS name get a short hash when stored: the first
+ * 8 hex digits of the tx hash, extended one digit at a time while another
+ * of that receiver's receipts already uses it. It never changes afterwards,
+ * so a published subname keeps pointing at the same receipt.
+ *
+ * Receipts verified on-chain record the block they were found in, so the
+ * receipt ingester can drop them again if that block is reorganised away
+ * (see `removeReceiptsAfterBlock`).
  */
 
-import { readFile, writeFile, mkdir } from 'fs/promises'
-import { existsSync } from 'fs'
-import path from 'path'
-import { buildReceiptTextRecords, buildENSIOReceiptTextRecords } from './receipts'
+import {
+  buildReceiptTextRecords,
+  buildENSIOReceiptTextRecords,
+  generateReceiptSubnameForENS,
+  receiptShortHash,
+} from './receipts'
+import { emitWebhookEvent } from '@/lib/webhooks/delivery'
+import { createRepository } from '@/lib/storage/repository'
 import type { ReceiptTextRecords, ENSIOReceiptTextRecords, PaymentReceipt } from '@/lib/types'
 
+/** Block a receipt's transaction was included in. */
+export type ReceiptBlock = { number: number; hash: string }
+
 type StoredReceipt = {
   amount: string
   token: string
   chain: string
   recipient: string // address
   receiverENS?: string // ENS name
+  /** Unique among the receiver's receipts; set when receiverENS is */
+  shortHash?: string
   from: string
   textRecords: ReceiptTextRecords
   ensioTextRecords: ENSIOReceiptTextRecords
   timestamp: number
   createdAt: string
+  block?: ReceiptBlock
 }
 
-type ReceiptStore = Record<string, StoredReceipt>
+const receipts = createRepository<StoredReceipt>('receipts')
 
-const DATA_DIR = path.join(process.cwd(), 'data')
-const STORE_PATH = path.join(DATA_DIR, 'ens-receipts.json')
-
-async function readStore(): Promise<ReceiptStore> {
-  try {
-    const raw = await readFile(STORE_PATH, 'utf-8')
-    return JSON.parse(raw) as ReceiptStore
-  } catch {
-    return {}
+function toPaymentReceipt(txHash: string, entry: StoredReceipt): PaymentReceipt {
+  return {
+    txHash: entry.ensioTextRecords['com.ensio.txHash'],
+    amount: entry.amount,
+    token: entry.token,
+    sender: entry.from,
+    receiver: entry.receiverENS || entry.recipient,
+    chain: entry.chain,
+    timestamp: entry.timestamp,
+    ...(entry.receiverENS && {
+      subname: generateReceiptSubnameForENS(txHash, entry.receiverENS, shortHashOf(txHash, entry)),
+    }),
   }
 }
 
-async function writeStore(store: ReceiptStore): Promise<void> {
-  if (!existsSync(DATA_DIR)) {
-    await mkdir(DATA_DIR, { recursive: true })
+// Receipts stored before short hashes were assigned use the plain prefix
+function shortHashOf(txHash: string, entry: StoredReceipt): string {
+  return entry.shortHash ?? receiptShortHash(txHash)
+}
+
+/**
+ * Find a receipt by full hash, or by prefix for short hashes like 0xabc123.
+ */
+async function findReceipt(txHash: string): Promise<[string, StoredReceipt] | null> {
+  const normalizedHash = txHash.toLowerCase()
+
+  // Try exact match first
+  const exact = await receipts.get(normalizedHash)
+  if (exact) return [normalizedHash, exact]
+
+  for (const [hash, entry] of await receipts.entries()) {
+    if (hash.startsWith(normalizedHash) || normalizedHash.startsWith(hash.slice(0, normalizedHash.length))) {
+      return [hash, entry]
+    }
   }
-  await writeFile(STORE_PATH, JSON.stringify(store, null, 2), 'utf-8')
+  return null
 }
 
+/**
+ * Store a receipt. Returns it with its subname, if the receiver has an ENS
+ * name. `receipt.stored` fires only the first time a transaction is stored,
+ * not when the same receipt is stored again. Storing it again also keeps
+ * its timestamp and text records, so the gateway keeps serving what was
+ * anchored for it and it keeps its place in the receiver's history.
+ */
 export async function storeReceipt(
   txHash: string,
   amount: string,
@@ -58,54 +103,122 @@ export async function storeReceipt(
   recipient: string,
   from: string,
   receiverENS?: string,
-): Promise<void> {
-  const store = await readStore()
-  const timestamp = Date.now()
-  const textRecords = buildReceiptTextRecords(txHash, amount, token, chain, recipient)
-  const ensioTextRecords = buildENSIOReceiptTextRecords(txHash, amount, token, chain, from, timestamp)
-  store[txHash.toLowerCase()] = {
-    amount,
-    token,
-    chain,
-    recipient,
-    receiverENS: receiverENS?.toLowerCase(),
-    from: from.toLowerCase(),
-    textRecords,
-    ensioTextRecords,
-    timestamp,
-    createdAt: new Date(timestamp).toISOString(),
+  block?: ReceiptBlock,
+): Promise<PaymentReceipt> {
+  const hash = txHash.toLowerCase()
+  const receiver = receiverENS?.toLowerCase()
+
+  const { entry, created } = await receipts.transaction((tx) => {
+    const previous = tx.get(hash)
+    const timestamp = previous?.timestamp ?? Date.now()
+    let shortHash: string | undefined
+    if (receiver) {
+      if (previous?.receiverENS === receiver && previous.shortHash) {
+        // Storing the same receipt again keeps its subname
+        shortHash = previous.shortHash
+      } else {
+        const taken = new Set<string>()
+        for (const other of tx.list()) {
+          const otherHash = other.ensioTextRecords['com.ensio.txHash'].toLowerCase()
+          if (other.receiverENS === receiver && otherHash !== hash) taken.add(shortHashOf(otherHash, other))
+        }
+        shortHash = receiptShortHash(hash, taken)
+      }
+    }
+
+    const stored: StoredReceipt = {
+      amount,
+      token,
+      chain,
+      recipient,
+      receiverENS: receiver,
+      ...(shortHash && { shortHash }),
+      from: from.toLowerCase(),
+      textRecords: previous?.textRecords ?? buildReceiptTextRecords(txHash, amount, token, chain, recipient),
+      ensioTextRecords: previous?.ensioTextRecords
+        ?? buildENSIOReceiptTextRecords(txHash, amount, token, chain, from, timestamp),
+      timestamp,
+      createdAt: previous?.createdAt ?? new Date(timestamp).toISOString(),
+      ...(block && { block: { number: block.number, hash: block.hash.toLowerCase() } }),
+    }
+    tx.put(hash, stored)
+    return { entry: stored, created: !previous }
+  })
+
+  if (!created) return toPaymentReceipt(hash, entry)
+
+  try {
+    await emitWebhookEvent('receipt.stored', recipient, {
+      receipt: {
+        txHash: hash,
+        amount,
+        token,
+        chain,
+        recipient,
+        receiverENS: entry.receiverENS,
+        from: entry.from,
+        createdAt: entry.createdAt,
+      },
+    })
+  } catch (error) {
+    console.error('Failed to emit receipt.stored webhook:', error)
   }
-  await writeStore(store)
+
+  return toPaymentReceipt(hash, entry)
 }
 
-export async function getReceipt(txHash: string): Promise<ReceiptTextRecords | null> {
-  const store = await readStore()
-  const entry = store[txHash.toLowerCase()]
-  if (!entry) return null
-  return entry.textRecords
+export async function hasReceipt(txHash: string): Promise<boolean> {
+  return (await receipts.get(txHash.toLowerCase())) !== null
 }
 
 /**
- * Get ENSIO text records for a receipt by transaction hash.
- * Used by CCIP-Read gateway for resolving tx-{hash}.payments.{name}.eth
+ * Delete every receipt on `chain` found in a block above `blockNumber`,
+ * after a reorg replaced those blocks. Receipts without a recorded block
+ * are kept. Returns the removed tx hashes.
  */
-export async function getENSIOReceipt(txHash: string): Promise<ENSIOReceiptTextRecords | null> {
-  const store = await readStore()
-  // Handle both full hash and short hash (first 10 chars including 0x)
-  const normalizedHash = txHash.toLowerCase()
+export async function removeReceiptsAfterBlock(chain: string, blockNumber: number): Promise<string[]> {
+  const removed = await receipts.transaction((tx) => {
+    const found: Array<[string, StoredReceipt]> = []
+    for (const entry of tx.list()) {
+      if (entry.chain !== chain || !entry.block || entry.block.number <= blockNumber) continue
+      const hash = entry.ensioTextRecords['com.ensio.txHash'].toLowerCase()
+      tx.delete(hash)
+      found.push([hash, entry])
+    }
+    return found
+  })
 
-  // Try exact match first
-  if (store[normalizedHash]) {
-    return store[normalizedHash].ensioTextRecords
+  for (const [hash, entry] of removed) {
+    try {
+      await emitWebhookEvent('receipt.removed', entry.recipient, {
+        receipt: { txHash: hash, chain, recipient: entry.recipient, receiverENS: entry.receiverENS, block: entry.block },
+      })
+    } catch (error) {
+      console.error('Failed to emit receipt.removed webhook:', error)
+    }
   }
+  return removed.map(([hash]) => hash)
+}
 
-  // Try matching by prefix (for short hashes like 0xabc123)
-  for (const [hash, entry] of Object.entries(store)) {
-    if (hash.startsWith(normalizedHash) || normalizedHash.startsWith(hash.slice(0, normalizedHash.length))) {
-      return entry.ensioTextRecords
+/**
+ * Text records (com.payagent.* and com.ensio.*) of the receipt behind
+ * tx-{shortHash}.payments.{receiverENS}, or null if the receiver has no
+ * receipt with that short hash. The full tx hash works too.
+ * Used by the CCIP-Read gateway.
+ */
+export async function getReceiptTextRecordsBySubname(
+  receiverENS: string,
+  shortHash: string,
+): Promise<ReceiptTextRecords & ENSIOReceiptTextRecords | null> {
+  const receiver = receiverENS.toLowerCase()
+  const normalizedHash = shortHash.toLowerCase()
+
+  for (const [hash, entry] of await receipts.entries()) {
+    if (entry.receiverENS !== receiver) continue
+    if (hash === normalizedHash || shortHashOf(hash, entry) === normalizedHash) {
+      return { ...entry.textRecords, ...entry.ensioTextRecords }
     }
   }
-
   return null
 }
 
@@ -113,33 +226,8 @@ export async function getENSIOReceipt(txHash: string): Promise<ENSIOReceiptTextR
  * Get full receipt data by transaction hash.
  */
 export async function getReceiptByTxHash(txHash: string): Promise<PaymentReceipt | null> {
-  const store = await readStore()
-  const normalizedHash = txHash.toLowerCase()
-
-  // Try exact match first
-  let entry = store[normalizedHash]
-
-  // Try matching by prefix (for short hashes)
-  if (!entry) {
-    for (const [hash, e] of Object.entries(store)) {
-      if (hash.startsWith(normalizedHash) || normalizedHash.startsWith(hash.slice(0, normalizedHash.length))) {
-        entry = e
-        break
-      }
-    }
-  }
-
-  if (!entry) return null
-
-  return {
-    txHash: entry.ensioTextRecords['com.ensio.txHash'],
-    amount: entry.amount,
-    token: entry.token,
-    sender: entry.from,
-    receiver: entry.receiverENS || entry.recipient,
-    chain: entry.chain,
-    timestamp: entry.timestamp,
-  }
+  const found = await findReceipt(txHash)
+  return found ? toPaymentReceipt(...found) : null
 }
 
 export async function getReceiptsByRecipient(recipientAddress: string): Promise<Array<{
@@ -150,8 +238,7 @@ export async function getReceiptsByRecipient(recipientAddress: string): Promise<
   from: string
   createdAt: string
 }>> {
-  const store = await readStore()
-  const receipts: Array<{
+  const matches: Array<{
     txHash: string
     amount: string
     token: string
@@ -160,9 +247,9 @@ export async function getReceiptsByRecipient(recipientAddress: string): Promise<
     createdAt: string
   }> = []
 
-  for (const [txHash, entry] of Object.entries(store)) {
+  for (const [txHash, entry] of await receipts.entries()) {
     if (entry.recipient.toLowerCase() === recipientAddress.toLowerCase()) {
-      receipts.push({
+      matches.push({
         txHash,
         amount: entry.amount,
         token: entry.token,
@@ -174,7 +261,7 @@ export async function getReceiptsByRecipient(recipientAddress: string): Promise<
   }
 
   // Sort by date descending (newest first)
-  return receipts.sort((a, b) =>
+  return matches.sort((a, b) =>
     new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   )
 }
@@ -184,47 +271,29 @@ export async function getReceiptsByRecipient(recipientAddress: string): Promise<
  * Used by /api/receipts?ens=alice.eth
  */
 export async function getReceiptsByENS(ensName: string): Promise<PaymentReceipt[]> {
-  const store = await readStore()
-  const receipts: PaymentReceipt[] = []
+  const matches: PaymentReceipt[] = []
   const normalizedENS = ensName.toLowerCase()
 
-  for (const [, entry] of Object.entries(store)) {
+  for (const [txHash, entry] of await receipts.entries()) {
     if (entry.receiverENS?.toLowerCase() === normalizedENS) {
-      receipts.push({
-        txHash: entry.ensioTextRecords['com.ensio.txHash'],
-        amount: entry.amount,
-        token: entry.token,
-        sender: entry.from,
-        receiver: entry.receiverENS || entry.recipient,
-        chain: entry.chain,
-        timestamp: entry.timestamp,
-      })
+      matches.push(toPaymentReceipt(txHash, entry))
     }
   }
 
   // Sort by timestamp descending (newest first)
-  return receipts.sort((a, b) => b.timestamp - a.timestamp)
+  return matches.sort((a, b) => b.timestamp - a.timestamp)
 }
 
 /**
  * Get all receipts in the store.
  */
 export async function getAllReceipts(): Promise<PaymentReceipt[]> {
-  const store = await readStore()
-  const receipts: PaymentReceipt[] = []
-
-  for (const [, entry] of Object.entries(store)) {
-    receipts.push({
-      txHash: entry.ensioTextRecords['com.ensio.txHash'],
-      amount: entry.amount,
-      token: entry.token,
-      sender: entry.from,
-      receiver: entry.receiverENS || entry.recipient,
-      chain: entry.chain,
-      timestamp: entry.timestamp,
-    })
+  const all: PaymentReceipt[] = []
+
+  for (const [txHash, entry] of await receipts.entries()) {
+    all.push(toPaymentReceipt(txHash, entry))
   }
 
   // Sort by timestamp descending (newest first)
-  return receipts.sort((a, b) => b.timestamp - a.timestamp)
+  return all.sort((a, b) => b.timestamp - a.timestamp)
 }
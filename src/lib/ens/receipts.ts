@@ -3,12 +3,13 @@ import type { ReceiptTextRecords, ENSIOReceiptTextRecords } from '@/lib/types'
 /**
  * Payment receipt subname utilities.
  *
- * These are pure data-structure helpers. Actual on-chain subname creation
- * would require a registrar / name-wrapper contract interaction.
+ * These are pure data-structure helpers. The subnames aren't created
+ * on-chain: the CCIP-Read gateway serves them through the wildcard
+ * resolver on the receiver's name (see receipt-store.ts).
  */
 
-/** Default parent name under which receipt subnames live. */
-const DEFAULT_PARENT = 'payments.payagent.eth'
+/** Hex digits of the tx hash in a receipt subname, unless that collides. */
+export const RECEIPT_SHORT_HASH_LENGTH = 8
 
 /**
  * Build ENSIO-namespaced text records for CCIP-Read resolution.
@@ -35,45 +36,43 @@ export function buildENSIOReceiptTextRecords(
 }
 
 /**
- * Generate a receipt subname for a specific ENS name.
- * Pattern: tx-{shortHash}.payments.{name}.eth
+ * Shortest prefix of `txHash` (0x plus at least RECEIPT_SHORT_HASH_LENGTH
+ * hex digits) that isn't already one of the receiver's short hashes.
  *
  * @example
- *   generateReceiptSubnameForENS('0xabc123def456', 'alice.eth')
- *   // => "tx-0xabc123.payments.alice.eth"
+ *   receiptShortHash('0xabc123de4567', new Set(['0xabc123de']))
+ *   // => "0xabc123de4"
  */
-export function generateReceiptSubnameForENS(
-  txHash: string,
-  ensName: string,
-): string {
-  // Use first 8 chars of tx hash (after 0x) for a shorter subname
-  const shortHash = txHash.toLowerCase().slice(0, 10) // 0x + 8 chars
-  return `tx-${shortHash}.payments.${ensName}`
+export function receiptShortHash(txHash: string, taken: ReadonlySet<string> = new Set()): string {
+  const normalizedHash = txHash.toLowerCase()
+  let length = 2 + RECEIPT_SHORT_HASH_LENGTH
+  while (length < normalizedHash.length && taken.has(normalizedHash.slice(0, length))) length++
+  return normalizedHash.slice(0, length)
 }
 
 /**
- * Generate a deterministic receipt subname from a transaction hash.
+ * Generate a receipt subname for a specific ENS name.
+ * Pattern: tx-{shortHash}.payments.{name}.eth
  *
- * @example
- *   generateReceiptSubname('0xabc123def456')
- *   // => "tx-0xabc123def456.payments.payagent.eth"
+ * Pass the short hash the receipt store assigned, which is longer when the
+ * receiver has another receipt with the same first 8 hex digits.
  *
- *   generateReceiptSubname('0xabc123def456', 'receipts.mydapp.eth')
- *   // => "tx-0xabc123def456.receipts.mydapp.eth"
+ * @example
+ *   generateReceiptSubnameForENS('0xabc123def456', 'alice.eth')
+ *   // => "tx-0xabc123de.payments.alice.eth"
  */
-export function generateReceiptSubname(
+export function generateReceiptSubnameForENS(
   txHash: string,
-  parentName: string = DEFAULT_PARENT,
+  ensName: string,
+  shortHash: string = receiptShortHash(txHash),
 ): string {
-  // Normalise the hash to lowercase for consistency
-  const normalizedHash = txHash.toLowerCase()
-  return `tx-${normalizedHash}.${parentName}`
+  return `tx-${shortHash}.payments.${ensName.toLowerCase()}`
 }
 
 /**
  * Build a set of ENS text records that encode the details of a payment
- * receipt. These records can be set on the subname produced by
- * `generateReceiptSubname`.
+ * receipt, served on the subname produced by
+ * `generateReceiptSubnameForENS`.
  *
  * @returns A plain object whose keys are ENS text-record keys.
  */
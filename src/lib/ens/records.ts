@@ -0,0 +1,77 @@
+/**
+ * Address and contenthash records for offchain names.
+ *
+ * Served by the CCIP-Read gateway for addr(bytes32), addr(bytes32,uint256)
+ * and contenthash(bytes32). Addresses are keyed by ENSIP-9 coin type
+ * (decimal string) and stored as the hex bytes addr(bytes32,uint256)
+ * returns: 20-byte addresses for ETH (60) and EVM chains (ENSIP-11:
+ * 0x80000000 | chainId), the coin's native binary format otherwise.
+ * Contenthash is ENSIP-7 encoded.
+ */
+
+import { isAddress, isHex, type Hex } from 'viem'
+
+export const ETH_COIN_TYPE = BigInt(60)
+
+/** ENSIP-11 coin type for "any EVM chain", used when a chain has no record of its own. */
+export const DEFAULT_EVM_COIN_TYPE = BigInt(0x80000000)
+
+export type NameRecords = {
+  addresses?: Record<string, Hex>
+  contenthash?: Hex
+}
+
+function isBytes(value: unknown): value is Hex {
+  return isHex(value) && value.length > 2 && value.length % 2 === 0
+}
+
+export function isEvmCoinType(coinType: bigint): boolean {
+  return coinType === ETH_COIN_TYPE || (coinType & DEFAULT_EVM_COIN_TYPE) !== BigInt(0)
+}
+
+/**
+ * Validate untrusted records (e.g. from an API request body). Values are
+ * kept as given, since they are covered by a signature.
+ */
+export function validateNameRecords(input: unknown): { records: NameRecords } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'records must be an object' }
+  const { addresses, contenthash } = input as NameRecords
+
+  if (addresses !== undefined) {
+    if (!addresses || typeof addresses !== 'object' || Array.isArray(addresses)) {
+      return { error: 'records.addresses must map coin types to addresses' }
+    }
+    for (const [coinType, value] of Object.entries(addresses)) {
+      if (!/^\d+$/.test(coinType) || BigInt(coinType) >= BigInt(2) ** BigInt(256)) {
+        return { error: `records.addresses: "${coinType}" is not a coin type` }
+      }
+      if (isEvmCoinType(BigInt(coinType)) ? !isAddress(value) : !isBytes(value)) {
+        return { error: `records.addresses[${coinType}] must be ${isEvmCoinType(BigInt(coinType)) ? 'an address' : 'hex-encoded bytes'}` }
+      }
+    }
+  }
+
+  if (contenthash !== undefined && !isBytes(contenthash)) {
+    return { error: 'records.contenthash must be hex-encoded bytes' }
+  }
+
+  return {
+    records: {
+      ...(addresses && Object.keys(addresses).length > 0 && { addresses }),
+      ...(contenthash && { contenthash }),
+    },
+  }
+}
+
+/**
+ * Address for `coinType`, or '0x' if there is none. EVM chains without a
+ * record of their own use the default EVM record; ETH falls back to
+ * `owner`, the address that signed the name's preference.
+ */
+export function resolveAddressRecord(records: NameRecords | undefined, coinType: bigint, owner: string): Hex {
+  const explicit = records?.addresses?.[coinType.toString()]
+  if (explicit) return explicit
+  if (coinType === ETH_COIN_TYPE) return owner as Hex
+  if (isEvmCoinType(coinType)) return records?.addresses?.[DEFAULT_EVM_COIN_TYPE.toString()] ?? '0x'
+  return '0x'
+}
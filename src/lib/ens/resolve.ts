@@ -3,6 +3,17 @@ import { normalize, toCoinType } from 'viem/ens'
 import { mainnet } from 'viem/chains'
 import type { ENSResolution } from '@/lib/types'
 import { getPreference } from '@/lib/ens/store'
+import {
+  CURRENT_PAY_CONFIG_VERSION,
+  LEGACY_PAY_CONFIG_KEYS,
+  migratePayConfig,
+  parsePayConfig,
+  payConfigFromLegacyRecords,
+  type LegacyPayConfigRecords,
+  type PayConfig,
+  type PayConfigV2,
+} from '@/lib/ens/pay-config'
+import { formatStrategyAllocation } from '@/lib/strategies'
 
 const client = createPublicClient({
   chain: mainnet,
@@ -51,6 +62,25 @@ const DEMO_ENS_CACHE: Record<string, ENSResolution> = {
   },
 }
 
+/**
+ * ENSResolution fields a PayConfig sets. A single 100% allocation is
+ * reported as `strategy`, since `strategies` only parses the multi form.
+ */
+function payConfigPreferences(config: PayConfig): Partial<ENSResolution> {
+  const payConfig = migratePayConfig(config)
+  const { receive, strategies, slippage, maxFee } = payConfig
+  return {
+    payConfig,
+    preferredToken: receive.token,
+    preferredChain: String(receive.chain),
+    ...(receive.vault && { yieldVault: receive.vault, strategy: 'yield' }),
+    ...(strategies?.length === 1 && { strategy: strategies[0].strategy }),
+    ...(strategies && strategies.length > 1 && { strategies: formatStrategyAllocation(strategies) }),
+    ...(slippage !== undefined && { preferredSlippage: String(slippage) }),
+    ...(maxFee !== undefined && { maxFee: String(maxFee) }),
+  }
+}
+
 /**
  * Resolve an ENS name to an address and read PayAgent-specific + standard text records.
  *
@@ -64,6 +94,9 @@ const DEMO_ENS_CACHE: Record<string, ENSResolution> = {
  * Standard records:
  *   avatar                 – ENS avatar URL
  *   description            – profile description
+ *
+ * A valid com.pay.config (offchain first, then on-chain) overrides the
+ * individual records it covers; an invalid one is ignored.
  */
 export async function resolveENS(name: string): Promise<ENSResolution> {
   const normalized = normalize(name)
@@ -90,6 +123,7 @@ export async function resolveENS(name: string): Promise<ENSResolution> {
   let yieldVault: string | undefined
   let strategy: string | undefined
   let strategies: string | undefined
+  let payConfig: PayConfig | undefined
 
   // Check offchain store first (free preferences take precedence for token + chain)
   try {
@@ -97,6 +131,7 @@ export async function resolveENS(name: string): Promise<ENSResolution> {
     if (offchain) {
       preferredToken = offchain.token
       preferredChain = offchain.chain
+      payConfig = offchain.config
     }
   } catch {
     // Offchain store unavailable, fall through to on-chain
@@ -138,22 +173,11 @@ export async function resolveENS(name: string): Promise<ENSResolution> {
     strategy = results[8]
     strategies = results[9]
 
-    // Parse com.pay.config (takes precedence over legacy records)
-    const payConfig = results[10]
-    if (payConfig) {
-      try {
-        const config = JSON.parse(payConfig)
-        if (config.version === '1.0' && config.receive) {
-          preferredToken = config.receive.token
-          preferredChain = String(config.receive.chain)
-          if (config.receive.vault) {
-            yieldVault = config.receive.vault
-            strategy = 'yield'
-          }
-        }
-      } catch {
-        // Invalid JSON, ignore
-      }
+    // com.pay.config takes precedence over legacy records, but not over a
+    // signed offchain config
+    if (!payConfig) {
+      const parsed = parsePayConfig(results[10])
+      if (parsed && 'config' in parsed) payConfig = parsed.config
     }
   } catch {
     // Text records not set, that's fine
@@ -171,6 +195,7 @@ export async function resolveENS(name: string): Promise<ENSResolution> {
     yieldVault,
     strategy,
     strategies,
+    ...(payConfig && payConfigPreferences(payConfig)),
   }
 
   // If no address resolved and we have demo data, use demo as fallback
@@ -220,3 +245,65 @@ export async function resolveChainAddress(
     return null
   }
 }
+
+export type PayConfigStatus = {
+  /** Current config as 2.0, migrated from whatever the name has set */
+  config: PayConfigV2 | null
+  /** Where `config` came from */
+  source: 'com.pay.config' | 'legacy' | null
+  /** Version of the stored com.pay.config, if any */
+  version: PayConfig['version'] | null
+  /** Legacy records that are set, and would be cleared by an upgrade */
+  legacyRecords: LegacyPayConfigRecords
+  /** Why the stored records could not be read as a config */
+  error?: string
+  /** Whether writing `config` as com.pay.config would change the name */
+  upgradeAvailable: boolean
+}
+
+/**
+ * Read a name's on-chain payment records and migrate them to a 2.0
+ * com.pay.config. A valid com.pay.config wins over the legacy records; an
+ * invalid one is reported in `error` and the legacy records are used
+ * instead.
+ */
+export async function getPayConfigStatus(name: string): Promise<PayConfigStatus> {
+  const normalized = normalize(name)
+  const read = (key: string) =>
+    client
+      .getEnsText({ name: normalized, key })
+      .then((v) => v || undefined)
+      .catch(() => undefined)
+
+  const [stored, ...legacyValues] = await Promise.all([
+    read('com.pay.config'),
+    ...LEGACY_PAY_CONFIG_KEYS.map(read),
+  ])
+  const legacyRecords: LegacyPayConfigRecords = Object.fromEntries(
+    LEGACY_PAY_CONFIG_KEYS.flatMap((key, i) => (legacyValues[i] ? [[key, legacyValues[i]]] : [])),
+  )
+  const hasLegacy = Object.keys(legacyRecords).length > 0
+
+  const parsed = parsePayConfig(stored)
+  if (parsed && 'config' in parsed) {
+    return {
+      config: migratePayConfig(parsed.config),
+      source: 'com.pay.config',
+      version: parsed.config.version,
+      legacyRecords,
+      upgradeAvailable: parsed.config.version !== CURRENT_PAY_CONFIG_VERSION || hasLegacy,
+    }
+  }
+
+  const legacy = payConfigFromLegacyRecords(legacyRecords)
+  const error = parsed?.error ?? (legacy && 'error' in legacy ? legacy.error : undefined)
+  const config = legacy && 'config' in legacy ? legacy.config : null
+  return {
+    config,
+    source: config ? 'legacy' : null,
+    version: null,
+    legacyRecords,
+    ...(error && { error }),
+    upgradeAvailable: config !== null,
+  }
+}
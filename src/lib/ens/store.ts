@@ -1,93 +1,277 @@
 /**
- * JSON-file preference store for offchain ENS preferences.
+ * Preference store for offchain ENS preferences.
  *
- * Reads/writes `data/ens-preferences.json` in the project root.
- * Each entry is keyed by normalised ENS name.
+ * Stored in the "preferences" collection of the shared storage layer.
+ * Each entry is keyed by normalised ENS name, with two secondary indexes
+ * maintained by `setPreference`:
+ *   - "preference-nodes": namehash -> name, so CCIP-Read lookups by node
+ *     are a single read instead of hashing every stored name
+ *   - "preference-signers": signer address -> names, for listing every name
+ *     an address has configured
+ *
+ * Every accepted change consumes the name's nonce (a counter starting at 0)
+ * and is appended to the "preference-audit" collection.
+ *
+ * A preference is either a plain token + chain (SetPreference) or a full
+ * PayConfig (SetPayConfig), in which case token and chain mirror
+ * `config.receive`. Each such change replaces the previous preference;
+ * address and contenthash records (SetRecords) are kept alongside it and
+ * changed separately.
  */
 
-import { readFile, writeFile, mkdir } from 'fs/promises'
-import { existsSync } from 'fs'
-import path from 'path'
 import { namehash } from 'viem/ens'
+import { createRepository } from '@/lib/storage/repository'
+import type { PayConfig } from './pay-config'
+import type { NameRecords } from './records'
 
 type StoredPreference = {
   token: string
   chain: string
+  config?: PayConfig
+  records?: NameRecords
   signer: string
   signature: string
+  /** Nonce the next signed change must carry */
+  nonce: number
   updatedAt: string
 }
 
-type PreferenceStore = Record<string, StoredPreference>
+export type PreferenceAuditEntry = {
+  name: string
+  nonce: number
+  token: string
+  chain: string
+  config?: PayConfig
+  records?: NameRecords
+  previous: { token: string; chain: string; config?: PayConfig; records?: NameRecords; signer: string } | null
+  signer: string
+  signature: string
+  deadline: number
+  acceptedAt: string
+}
+
+export type PreferenceRecord = {
+  name: string
+  node: string
+  token: string
+  chain: string
+  config?: PayConfig
+  records?: NameRecords
+  signer: string
+  updatedAt: string
+}
 
-const DATA_DIR = path.join(process.cwd(), 'data')
-const STORE_PATH = path.join(DATA_DIR, 'ens-preferences.json')
+const preferences = createRepository<StoredPreference>('preferences')
+const nodeIndex = createRepository<string>('preference-nodes')
+const signerIndex = createRepository<string[]>('preference-signers')
+const auditLog = createRepository<PreferenceAuditEntry>('preference-audit')
 
-async function readStore(): Promise<PreferenceStore> {
-  try {
-    const raw = await readFile(STORE_PATH, 'utf-8')
-    return JSON.parse(raw) as PreferenceStore
-  } catch {
-    return {}
-  }
+// Zero-padded so audit keys for one name sort by nonce
+function auditKey(name: string, nonce: number): string {
+  return `${name}#${String(nonce).padStart(10, '0')}`
 }
 
-async function writeStore(store: PreferenceStore): Promise<void> {
-  if (!existsSync(DATA_DIR)) {
-    await mkdir(DATA_DIR, { recursive: true })
+function toRecord(name: string, entry: StoredPreference): PreferenceRecord {
+  return {
+    name,
+    node: namehash(name),
+    token: entry.token,
+    chain: entry.chain,
+    ...(entry.config && { config: entry.config }),
+    ...(entry.records && { records: entry.records }),
+    signer: entry.signer,
+    updatedAt: entry.updatedAt,
   }
-  await writeFile(STORE_PATH, JSON.stringify(store, null, 2), 'utf-8')
 }
 
 export async function getPreference(
   ensName: string,
-): Promise<{ token: string; chain: string } | null> {
-  const store = await readStore()
-  const entry = store[ensName.toLowerCase()]
+): Promise<{ token: string; chain: string; config?: PayConfig } | null> {
+  const entry = await preferences.get(ensName.toLowerCase())
   if (!entry) return null
-  return { token: entry.token, chain: entry.chain }
+  return { token: entry.token, chain: entry.chain, ...(entry.config && { config: entry.config }) }
+}
+
+/**
+ * Full preference record for a name, including its node and signer.
+ */
+export async function getPreferenceRecord(ensName: string): Promise<PreferenceRecord | null> {
+  const name = ensName.toLowerCase()
+  const entry = await preferences.get(name)
+  return entry ? toRecord(name, entry) : null
+}
+
+export async function getPreferenceRecordByNode(node: string): Promise<PreferenceRecord | null> {
+  const name = await nodeIndex.get(node.toLowerCase())
+  if (!name) return null
+  return getPreferenceRecord(name)
 }
 
 export async function getPreferenceByNode(
   node: string,
-): Promise<{ token: string; chain: string } | null> {
-  const store = await readStore()
-  // Search through all entries to find one whose namehash matches
-  for (const [name, entry] of Object.entries(store)) {
-    try {
-      if (namehash(name) === node) {
-        return { token: entry.token, chain: entry.chain }
-      }
-    } catch {
-      continue
+): Promise<{ token: string; chain: string; config?: PayConfig } | null> {
+  const record = await getPreferenceRecordByNode(node)
+  if (!record) return null
+  return { token: record.token, chain: record.chain, ...(record.config && { config: record.config }) }
+}
+
+/**
+ * Every name whose current preference was signed by `signer`, newest first.
+ */
+export async function getPreferencesBySigner(signer: string): Promise<PreferenceRecord[]> {
+  const address = signer.toLowerCase()
+  const names = (await signerIndex.get(address)) ?? []
+  const records = await Promise.all(names.map(getPreferenceRecord))
+  return records
+    // The index can lag a concurrent re-sign by another address
+    .filter((r): r is PreferenceRecord => r !== null && r.signer === address)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Every stored preference, newest first.
+ */
+export async function listPreferenceRecords(): Promise<PreferenceRecord[]> {
+  return (await preferences.entries())
+    .map(([name, entry]) => toRecord(name, entry))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+type SignedChange = {
+  ensName: string
+  signer: string
+  signature: string
+  nonce: bigint
+  deadline: bigint
+}
+
+type PreferenceValue = Pick<StoredPreference, 'token' | 'chain' | 'config' | 'records'>
+
+/**
+ * Store a signed change. `nonce` must equal the name's current nonce; the
+ * check and the increment happen in one transaction, so a signature can be
+ * accepted at most once. `next` derives the new value from the current one.
+ */
+async function applySignedChange(
+  change: SignedChange,
+  next: (previous: StoredPreference | null) => PreferenceValue | { error: string },
+): Promise<{ nonce: bigint } | { error: string }> {
+  const name = change.ensName.toLowerCase()
+  const address = change.signer.toLowerCase()
+  const node = namehash(name)
+
+  return preferences.transaction(async (tx) => {
+    const previous = tx.get(name) ?? null
+    const expected = previous?.nonce ?? 0
+    if (change.nonce !== BigInt(expected)) {
+      return { error: `Invalid nonce: expected ${expected}` }
     }
-  }
-  return null
+
+    const value = next(previous)
+    if ('error' in value) return value
+
+    const now = new Date().toISOString()
+
+    // Indexes and the audit entry are written first: if they fail the
+    // preference isn't stored, and lookups tolerate index entries that point
+    // at a stale record
+    await nodeIndex.put(node, name)
+    await signerIndex.transaction((index) => {
+      if (previous && previous.signer !== address) {
+        const remaining = (index.get(previous.signer) ?? []).filter((n) => n !== name)
+        if (remaining.length > 0) index.put(previous.signer, remaining)
+        else index.delete(previous.signer)
+      }
+      const names = index.get(address) ?? []
+      if (!names.includes(name)) index.put(address, [...names, name])
+    })
+    await auditLog.put(auditKey(name, expected), {
+      name,
+      nonce: expected,
+      ...value,
+      previous: previous
+        ? {
+            token: previous.token,
+            chain: previous.chain,
+            ...(previous.config && { config: previous.config }),
+            ...(previous.records && { records: previous.records }),
+            signer: previous.signer,
+          }
+        : null,
+      signer: address,
+      signature: change.signature,
+      deadline: Number(change.deadline),
+      acceptedAt: now,
+    })
+
+    tx.put(name, {
+      ...value,
+      signer: address,
+      signature: change.signature,
+      nonce: expected + 1,
+      updatedAt: now,
+    })
+    return { nonce: BigInt(expected + 1) }
+  })
 }
 
-export async function setPreference(
-  ensName: string,
-  token: string,
-  chain: string,
-  signer: string,
-  signature: string,
-): Promise<void> {
-  const store = await readStore()
-  store[ensName.toLowerCase()] = {
+/**
+ * Store a signed preference change.
+ *
+ * Pass `config` for a SetPayConfig change; token and chain are then taken
+ * from `config.receive`. Address and contenthash records are kept.
+ */
+export async function setPreference(change: SignedChange & (
+  | { token: string; chain: string; config?: undefined }
+  | { config: PayConfig }
+)): Promise<{ nonce: bigint } | { error: string }> {
+  const token = change.config ? change.config.receive.token : change.token
+  const chain = change.config ? String(change.config.receive.chain) : change.chain
+
+  return applySignedChange(change, (previous) => ({
     token,
     chain,
-    signer: signer.toLowerCase(),
-    signature,
-    updatedAt: new Date().toISOString(),
-  }
-  await writeStore(store)
+    ...(change.config && { config: change.config }),
+    ...(previous?.records && { records: previous.records }),
+  }))
 }
 
+/**
+ * Store a signed SetRecords change, replacing the name's address and
+ * contenthash records. The name must already have a preference, which is
+ * kept as is.
+ */
+export async function setPreferenceRecords(
+  change: SignedChange & { records: NameRecords },
+): Promise<{ nonce: bigint } | { error: string }> {
+  return applySignedChange(change, (previous) => {
+    if (!previous) return { error: 'Set a payment preference for this name before adding records' }
+    return {
+      token: previous.token,
+      chain: previous.chain,
+      ...(previous.config && { config: previous.config }),
+      records: change.records,
+    }
+  })
+}
+
+/**
+ * Nonce the next signed change for `ensName` must carry.
+ */
 export async function getNonce(ensName: string): Promise<bigint> {
-  const store = await readStore()
-  const entry = store[ensName.toLowerCase()]
-  if (!entry) return BigInt(0)
-  // Nonce = number of times preference has been set (simple monotonic counter)
-  // We derive it from updatedAt to keep it simple
-  return BigInt(Math.floor(new Date(entry.updatedAt).getTime() / 1000))
+  const entry = await preferences.get(ensName.toLowerCase())
+  return BigInt(entry?.nonce ?? 0)
+}
+
+/**
+ * Accepted changes for a name, or signed by an address, newest first.
+ */
+export async function getPreferenceAuditLog(
+  filter: { ensName?: string; signer?: string },
+): Promise<PreferenceAuditEntry[]> {
+  const name = filter.ensName?.toLowerCase()
+  const signer = filter.signer?.toLowerCase()
+  return (await auditLog.list())
+    .filter((e) => (!name || e.name === name) && (!signer || e.signer === signer))
+    .sort((a, b) => b.acceptedAt.localeCompare(a.acceptedAt) || b.nonce - a.nonce)
 }
@@ -1,6 +1,8 @@
 import { createPublicClient, encodeFunctionData, http, namehash, keccak256, toHex, labelhash } from 'viem'
 import { normalize } from 'viem/ens'
 import { mainnet } from 'viem/chains'
+import type { InvoiceDiscount, InvoiceLineItem } from '@/lib/invoices/pricing'
+import { serializePayConfig, type PayConfigV2 } from '@/lib/ens/pay-config'
 
 const client = createPublicClient({
   chain: mainnet,
@@ -319,6 +321,55 @@ export async function buildSetMultiStrategyTransaction(
   }
 }
 
+/**
+ * Build transaction data that upgrades a name to a 2.0 com.pay.config via
+ * a single multicall: writes the config and clears the legacy records it
+ * replaces (`clearKeys`), so they can't drift out of sync with it.
+ */
+export async function buildUpgradePayConfigTransaction(
+  ensName: string,
+  config: PayConfigV2,
+  clearKeys: readonly string[],
+): Promise<{ to: string; data: string; value: string; chainId: number }> {
+  const normalized = normalize(ensName)
+  const node = namehash(normalized)
+
+  const resolverAddress = await client.getEnsResolver({ name: normalized })
+  if (!resolverAddress) {
+    throw new Error(`No resolver found for ${ensName}`)
+  }
+
+  const calls: `0x${string}`[] = [
+    encodeFunctionData({
+      abi: resolverAbi,
+      functionName: 'setText',
+      args: [node, 'com.pay.config', serializePayConfig(config)],
+    }),
+    ...clearKeys.map((key) =>
+      encodeFunctionData({
+        abi: resolverAbi,
+        functionName: 'setText',
+        args: [node, key, ''],
+      })
+    ),
+  ]
+
+  const data = calls.length === 1
+    ? calls[0]
+    : encodeFunctionData({
+        abi: resolverAbi,
+        functionName: 'multicall',
+        args: [calls],
+      })
+
+  return {
+    to: resolverAddress,
+    data,
+    value: '0',
+    chainId: 1,
+  }
+}
+
 /**
  * Invoice data structure for ENS storage
  */
@@ -326,22 +377,66 @@ export interface InvoiceData {
   id: string
   amount: string
   token: string
+  currency?: string
   memo?: string
+  lineItems?: InvoiceLineItem[]
+  discount?: InvoiceDiscount
+  taxRate?: string
+  subtotal?: string
+  discountAmount?: string
+  taxAmount?: string
+  dueDate?: string
   createdAt: string
   expiresAt?: string
 }
 
+function hasStructuredFields(invoice: InvoiceData): boolean {
+  return !!(invoice.currency || invoice.lineItems?.length || invoice.discount || invoice.taxRate || invoice.dueDate)
+}
+
 /**
  * Compute a deterministic hash of invoice data for ENS storage.
  * This allows verification without storing full invoice on-chain.
+ *
+ * Structured invoices (line items, discount, tax, due date or a fiat
+ * currency) are hashed as a versioned payload with a fixed key order that
+ * covers every field; plain invoices keep the original payload so hashes
+ * already anchored in ENS still verify.
  */
 export function computeInvoiceHash(invoice: InvoiceData): string {
+  if (!hasStructuredFields(invoice)) {
+    const payload = JSON.stringify({
+      id: invoice.id,
+      amount: invoice.amount,
+      token: invoice.token,
+      memo: invoice.memo || '',
+      createdAt: invoice.createdAt,
+    })
+    return keccak256(toHex(payload))
+  }
+
   const payload = JSON.stringify({
+    version: 2,
     id: invoice.id,
     amount: invoice.amount,
     token: invoice.token,
+    currency: invoice.currency ?? null,
     memo: invoice.memo || '',
+    lineItems: (invoice.lineItems ?? []).map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+    })),
+    discount: invoice.discount
+      ? { type: invoice.discount.type, value: invoice.discount.value, description: invoice.discount.description ?? '' }
+      : null,
+    taxRate: invoice.taxRate ?? null,
+    subtotal: invoice.subtotal ?? null,
+    discountAmount: invoice.discountAmount ?? null,
+    taxAmount: invoice.taxAmount ?? null,
+    dueDate: invoice.dueDate ?? null,
     createdAt: invoice.createdAt,
+    expiresAt: invoice.expiresAt ?? null,
   })
   return keccak256(toHex(payload))
 }
@@ -365,8 +460,9 @@ export async function buildSetInvoiceTransaction(
 
   const invoiceHash = computeInvoiceHash(invoice)
   const recordKey = `ensio.invoice.${invoice.id}`
-  // Compact format: hash:amount:token (allows basic verification without full data)
-  const recordValue = `${invoiceHash}:${invoice.amount}:${invoice.token}`
+  // Compact format: hash:amount:token (allows basic verification without full data).
+  // Fiat-denominated invoices record their currency in place of the token.
+  const recordValue = `${invoiceHash}:${invoice.amount}:${invoice.currency ?? invoice.token}`
 
   const data = encodeFunctionData({
     abi: resolverAbi,
@@ -462,7 +558,7 @@ export async function buildCreateInvoiceSubdomainTransaction(
   const invoiceValue = [
     invoiceHash,
     invoice.amount,
-    invoice.token,
+    invoice.currency ?? invoice.token,
     invoice.memo || '',
     invoice.expiresAt || '',
   ].join(':')
@@ -0,0 +1,191 @@
+/**
+ * Export model shared by the PDF and UBL renderers.
+ *
+ * Invoices and payment receipts are flattened into one document shape so
+ * both formats render the same facts: parties, lines, totals, the on-chain
+ * payments (with block-explorer proof links and ENS receipt subnames) and
+ * the `computeInvoiceHash` value anchored in ENS.
+ */
+
+import { computeInvoiceHash } from '@/lib/ens/write'
+import { generateReceiptSubnameForENS } from '@/lib/ens/receipts'
+import { getReceiptByTxHash } from '@/lib/ens/receipt-store'
+import type { Invoice } from '@/lib/invoices/lifecycle'
+import { getInvoiceDecimals, lineItemTotal } from '@/lib/invoices/pricing'
+import { findInvoiceByTxHash } from '@/lib/invoices/store'
+import { resolveVerifyChain } from '@/lib/invoices/verify-payment'
+import type { PaymentReceipt } from '@/lib/types'
+
+const BLOCK_EXPLORERS: Record<string, string> = {
+  ethereum: 'https://etherscan.io',
+  base: 'https://basescan.org',
+  arbitrum: 'https://arbiscan.io',
+  optimism: 'https://optimistic.etherscan.io',
+}
+
+export type ExportFormat = 'pdf' | 'ubl'
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['pdf', 'ubl']
+
+export type ExportParty = {
+  name: string
+  address?: string
+}
+
+export type ExportLine = {
+  description: string
+  quantity: string
+  unitPrice: string
+  total: string
+}
+
+export type ExportPayment = {
+  txHash: string
+  chain: string
+  token: string
+  amount: string
+  from: string
+  at: string
+  proofUrl: string
+  receiptSubname?: string
+}
+
+export interface ExportDocument {
+  kind: 'invoice' | 'receipt'
+  id: string
+  issuedAt: string
+  dueDate?: string
+  period?: { start: string; end: string }
+  status?: string
+  memo?: string
+  seller: ExportParty
+  buyer?: ExportParty
+  /** Settlement token */
+  token: string
+  /** Fiat denomination, when the amounts below are not in `token` */
+  currency?: string
+  lines: ExportLine[]
+  subtotal: string
+  discount?: { amount: string; description: string }
+  tax?: { rate: string; amount: string }
+  total: string
+  amountPaid: string
+  amountDue: string
+  payments: ExportPayment[]
+  invoiceHash: string
+  /** Explorer link to the (first) settling transaction */
+  proofUrl?: string
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+function proofUrl(chain: string, txHash: string): string {
+  const name = resolveVerifyChain(chain) ?? 'base'
+  return `${BLOCK_EXPLORERS[name] ?? BLOCK_EXPLORERS.base}/tx/${txHash}`
+}
+
+export async function invoiceToExportDocument(invoice: Invoice): Promise<ExportDocument> {
+  const decimals = getInvoiceDecimals(invoice)
+  const lines: ExportLine[] = invoice.lineItems?.length
+    ? invoice.lineItems.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        total: lineItemTotal(item, decimals) ?? '0',
+      }))
+    : [{ description: invoice.memo || 'Payment', quantity: '1', unitPrice: invoice.subtotal ?? invoice.amount, total: invoice.subtotal ?? invoice.amount }]
+
+  const payments = await Promise.all(invoice.payments.map(async (p) => ({
+    txHash: p.txHash,
+    chain: p.chain,
+    token: p.paidToken,
+    amount: p.paidAmount,
+    from: p.payer,
+    at: p.at,
+    proofUrl: proofUrl(p.chain, p.txHash),
+    ...(invoice.receiverEns && {
+      // The stored receipt's subname has a longer short hash on collision
+      receiptSubname: (await getReceiptByTxHash(p.txHash))?.subname
+        ?? generateReceiptSubnameForENS(p.txHash, invoice.receiverEns),
+    }),
+  })))
+
+  return {
+    kind: 'invoice',
+    id: invoice.id,
+    issuedAt: invoice.createdAt,
+    dueDate: invoice.dueDate,
+    ...(invoice.periodStart && invoice.periodEnd && {
+      period: { start: invoice.periodStart, end: invoice.periodEnd },
+    }),
+    status: invoice.status,
+    memo: invoice.memo,
+    seller: { name: invoice.receiverEns || invoice.receiverAddress, address: invoice.receiverAddress },
+    ...(invoice.payerAddress && {
+      buyer: { name: invoice.payerEns || invoice.payerAddress, address: invoice.payerAddress },
+    }),
+    token: invoice.token,
+    currency: invoice.currency,
+    lines,
+    subtotal: invoice.subtotal ?? invoice.amount,
+    ...(invoice.discount && invoice.discountAmount && {
+      discount: { amount: invoice.discountAmount, description: invoice.discount.description || 'Discount' },
+    }),
+    ...(invoice.taxRate !== undefined && invoice.taxAmount && {
+      tax: { rate: invoice.taxRate, amount: invoice.taxAmount },
+    }),
+    total: invoice.amount,
+    amountPaid: invoice.amountPaid,
+    amountDue: invoice.amountDue,
+    payments,
+    invoiceHash: computeInvoiceHash(invoice),
+    proofUrl: payments[0]?.proofUrl,
+  }
+}
+
+/**
+ * Build the export for a payment receipt. When the payment settled one of
+ * our invoices, the invoice hash is that invoice's; otherwise the receipt
+ * itself is hashed as a single-line invoice keyed by its tx hash.
+ */
+export async function receiptToExportDocument(receipt: PaymentReceipt): Promise<ExportDocument> {
+  const issuedAt = new Date(receipt.timestamp).toISOString()
+  const linkedInvoice = await findInvoiceByTxHash(receipt.txHash)
+
+  const payment: ExportPayment = {
+    txHash: receipt.txHash,
+    chain: receipt.chain,
+    token: receipt.token,
+    amount: receipt.amount,
+    from: receipt.sender,
+    at: issuedAt,
+    proofUrl: proofUrl(receipt.chain, receipt.txHash),
+    ...(receipt.subname && { receiptSubname: receipt.subname }),
+  }
+
+  return {
+    kind: 'receipt',
+    id: receipt.txHash.slice(0, 10),
+    issuedAt,
+    status: 'paid',
+    memo: linkedInvoice ? `Payment for invoice ${linkedInvoice.id}` : undefined,
+    seller: {
+      name: receipt.receiver,
+      address: linkedInvoice?.receiverAddress ?? (receipt.receiver.endsWith('.eth') ? undefined : receipt.receiver),
+    },
+    buyer: { name: receipt.sender, address: receipt.sender },
+    token: receipt.token,
+    lines: [{ description: 'Payment received', quantity: '1', unitPrice: receipt.amount, total: receipt.amount }],
+    subtotal: receipt.amount,
+    total: receipt.amount,
+    amountPaid: receipt.amount,
+    amountDue: '0',
+    payments: [payment],
+    invoiceHash: linkedInvoice
+      ? computeInvoiceHash(linkedInvoice)
+      : computeInvoiceHash({ id: receipt.txHash, amount: receipt.amount, token: receipt.token, createdAt: issuedAt }),
+    proofUrl: payment.proofUrl,
+  }
+}
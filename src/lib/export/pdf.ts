@@ -0,0 +1,174 @@
+/**
+ * PDF rendering for invoice and receipt exports.
+ *
+ * A single-column A4 layout drawn with pdf-lib's built-in Helvetica, so no
+ * font files need to ship with the server. Text is limited to the
+ * WinAnsi character set; anything outside it (e.g. emoji ENS names) is
+ * replaced with "?".
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { formatInvoiceAmount } from '@/lib/invoices/pricing'
+import type { ExportDocument } from './document'
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+
+const INK = rgb(0.11, 0.106, 0.094)
+const MUTED = rgb(0.42, 0.41, 0.376)
+
+// Printable ASCII, Latin-1 and the euro sign
+const WIN_ANSI = /[^\x20-\x7E\xA0-\xFF€]/g
+
+function sanitize(text: string): string {
+  return text.replace(/[−–]/g, '-').replace(WIN_ANSI, '?')
+}
+
+function formatDate(iso: string): string {
+  return iso.slice(0, 10)
+}
+
+export async function renderPdf(doc: ExportDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const mono = await pdf.embedFont(StandardFonts.Courier)
+
+  const title = doc.kind === 'invoice' ? `Invoice #${doc.id.toUpperCase()}` : `Payment Receipt ${doc.id}`
+  pdf.setTitle(title)
+  pdf.setProducer('ENSIO')
+  pdf.setSubject(`Invoice hash ${doc.invoiceHash}`)
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  const text = (
+    value: string,
+    options: { x?: number; size?: number; font?: PDFFont; color?: typeof INK; align?: 'left' | 'right' } = {},
+  ) => {
+    const { size = 10, font = regular, color = INK, align = 'left' } = options
+    const safe = sanitize(value)
+    const x = align === 'right'
+      ? (options.x ?? PAGE_WIDTH - MARGIN) - font.widthOfTextAtSize(safe, size)
+      : options.x ?? MARGIN
+    page.drawText(safe, { x, y, size, font, color })
+  }
+
+  const row = (label: string, value: string, options: { font?: PDFFont; size?: number } = {}) => {
+    ensureSpace(16)
+    text(label, { color: MUTED, size: options.size })
+    text(value, { align: 'right', font: options.font, size: options.size })
+    y -= 16
+  }
+
+  const rule = () => {
+    ensureSpace(12)
+    page.drawLine({
+      start: { x: MARGIN, y: y + 4 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y + 4 },
+      thickness: 0.5,
+      color: MUTED,
+    })
+    y -= 12
+  }
+
+  const heading = (label: string) => {
+    ensureSpace(28)
+    y -= 8
+    text(label.toUpperCase(), { size: 8, font: bold, color: MUTED })
+    y -= 16
+  }
+
+  const money = (amount: string) => formatInvoiceAmount(amount, doc)
+
+  // Header
+  text(title, { size: 20, font: bold })
+  y -= 26
+  text(`Issued ${formatDate(doc.issuedAt)}${doc.status ? ` - ${doc.status.replace('_', ' ')}` : ''}`, { color: MUTED })
+  y -= 24
+
+  // Parties
+  heading(doc.kind === 'invoice' ? 'From' : 'Paid to')
+  text(doc.seller.name, { font: bold })
+  y -= 14
+  if (doc.seller.address && doc.seller.address !== doc.seller.name) {
+    text(doc.seller.address, { font: mono, size: 8, color: MUTED })
+    y -= 14
+  }
+  if (doc.buyer) {
+    heading(doc.kind === 'invoice' ? 'Bill to' : 'Paid by')
+    text(doc.buyer.name, { font: bold })
+    y -= 14
+    if (doc.buyer.address && doc.buyer.address !== doc.buyer.name) {
+      text(doc.buyer.address, { font: mono, size: 8, color: MUTED })
+      y -= 14
+    }
+  }
+
+  // Dates
+  if (doc.dueDate || doc.period) {
+    heading('Terms')
+    if (doc.dueDate) row('Due date', formatDate(doc.dueDate))
+    if (doc.period) row('Billing period', `${formatDate(doc.period.start)} to ${formatDate(doc.period.end)}`)
+  }
+
+  if (doc.memo) {
+    heading('Memo')
+    ensureSpace(14)
+    text(doc.memo)
+    y -= 14
+  }
+
+  // Lines
+  heading('Items')
+  for (const line of doc.lines) {
+    const detail = line.quantity === '1' ? '' : `  ${line.quantity} x ${money(line.unitPrice)}`
+    row(`${line.description}${detail}`, money(line.total))
+  }
+  rule()
+  row('Subtotal', money(doc.subtotal))
+  if (doc.discount) row(doc.discount.description, `-${money(doc.discount.amount)}`)
+  if (doc.tax) row(`Tax (${doc.tax.rate}%)`, money(doc.tax.amount))
+  row('Total', money(doc.total), { font: bold, size: 12 })
+  if (doc.kind === 'invoice') {
+    row('Paid', money(doc.amountPaid))
+    row('Amount due', money(doc.amountDue), { font: bold })
+    if (doc.currency) row('Settlement token', doc.token)
+  }
+
+  // On-chain proof
+  if (doc.payments.length > 0) {
+    heading('On-chain payments')
+    for (const p of doc.payments) {
+      ensureSpace(56)
+      text(`${p.amount} ${p.token} on ${p.chain} from ${p.from}`, { size: 9 })
+      y -= 12
+      text(`Tx ${p.txHash}`, { font: mono, size: 8 })
+      y -= 12
+      text(p.proofUrl, { font: mono, size: 8, color: MUTED })
+      y -= 12
+      if (p.receiptSubname) {
+        text(`ENS receipt: ${p.receiptSubname}`, { font: mono, size: 8, color: MUTED })
+        y -= 12
+      }
+      y -= 6
+    }
+  }
+
+  heading('Verification')
+  ensureSpace(28)
+  text('Invoice hash (keccak256, as anchored in ENS)', { size: 8, color: MUTED })
+  y -= 12
+  text(doc.invoiceHash, { font: mono, size: 8 })
+  y -= 12
+
+  return pdf.save()
+}
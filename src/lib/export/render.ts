@@ -0,0 +1,21 @@
+import type { ExportDocument, ExportFormat } from './document'
+import { renderPdf } from './pdf'
+import { renderUbl } from './ubl'
+
+export type RenderedExport = {
+  body: Uint8Array | string
+  contentType: string
+  filename: string
+}
+
+/**
+ * Render an export document in the requested format, with the content type
+ * and download filename to serve it under.
+ */
+export async function renderExport(doc: ExportDocument, format: ExportFormat): Promise<RenderedExport> {
+  const basename = `${doc.kind}-${doc.id}`
+  if (format === 'pdf') {
+    return { body: await renderPdf(doc), contentType: 'application/pdf', filename: `${basename}.pdf` }
+  }
+  return { body: renderUbl(doc), contentType: 'application/xml', filename: `${basename}.xml` }
+}
@@ -0,0 +1,157 @@
+/**
+ * UBL 2.1 invoice rendering (EN 16931 core profile).
+ *
+ * Crypto settlement has no native place in UBL, so it is carried in the
+ * standard extension points:
+ *   - AdditionalDocumentReference "invoice-hash": the `computeInvoiceHash`
+ *     value anchored in ENS
+ *   - AdditionalDocumentReference per payment: tx hash, with the block
+ *     explorer link as the external URI and the ENS receipt subname as
+ *     description
+ *   - PaymentMeans code ZZZ (mutually defined) with the receiver address as
+ *     the payee account and the settlement token/chain as account name
+ *
+ * UBL requires ISO 4217 currency codes: fiat invoices use their currency,
+ * USD stablecoin invoices are expressed in USD, anything else keeps the
+ * token symbol.
+ */
+
+import { formatUnits, parseUnits } from 'viem'
+import { getInvoiceDecimals } from '@/lib/invoices/pricing'
+import { STABLECOINS } from '@/lib/routing/tokens'
+import type { ExportDocument } from './document'
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function el(name: string, value: string, attrs: Record<string, string> = {}): string {
+  const attrText = Object.entries(attrs).map(([k, v]) => ` ${k}="${escapeXml(v)}"`).join('')
+  return `<${name}${attrText}>${escapeXml(value)}</${name}>`
+}
+
+function block(name: string, children: Array<string | false | undefined>): string {
+  const body = children.filter(Boolean).join('')
+  return `<${name}>${body}</${name}>`
+}
+
+function documentCurrency(doc: ExportDocument): string {
+  if (doc.currency) return doc.currency
+  return STABLECOINS.includes(doc.token.toUpperCase()) ? 'USD' : doc.token.toUpperCase()
+}
+
+function party(tag: string, p: { name: string; address?: string }): string {
+  return block(tag, [
+    block('cac:Party', [
+      p.address && block('cac:PartyIdentification', [el('cbc:ID', p.address)]),
+      block('cac:PartyName', [el('cbc:Name', p.name)]),
+      block('cac:PartyLegalEntity', [el('cbc:RegistrationName', p.name)]),
+    ]),
+  ])
+}
+
+export function renderUbl(doc: ExportDocument): string {
+  const currency = documentCurrency(doc)
+  const money = (name: string, value: string) => el(name, value, { currencyID: currency })
+
+  const taxRate = doc.tax?.rate ?? '0'
+  const taxCategory = (tag: string) => block(tag, [
+    el('cbc:ID', doc.tax && parseFloat(doc.tax.rate) > 0 ? 'S' : 'Z'),
+    el('cbc:Percent', taxRate),
+    block('cac:TaxScheme', [el('cbc:ID', 'VAT')]),
+  ])
+
+  const decimals = getInvoiceDecimals(doc)
+  const taxExclusive = doc.discount
+    ? formatUnits(parseUnits(doc.subtotal, decimals) - parseUnits(doc.discount.amount, decimals), decimals)
+    : doc.subtotal
+  const settlementNote = currency !== doc.token.toUpperCase()
+    ? `Settled in ${doc.token}${doc.payments[0] ? ` on ${doc.payments[0].chain}` : ''}`
+    : undefined
+
+  const body = [
+    el('cbc:UBLVersionID', '2.1'),
+    el('cbc:CustomizationID', 'urn:cen.eu:en16931:2017'),
+    el('cbc:ID', doc.id),
+    el('cbc:IssueDate', doc.issuedAt.slice(0, 10)),
+    doc.dueDate && el('cbc:DueDate', doc.dueDate.slice(0, 10)),
+    el('cbc:InvoiceTypeCode', '380'),
+    doc.memo && el('cbc:Note', doc.memo),
+    doc.kind === 'receipt' && el('cbc:Note', 'Payment receipt'),
+    settlementNote && el('cbc:Note', settlementNote),
+    el('cbc:DocumentCurrencyCode', currency),
+    doc.period && block('cac:InvoicePeriod', [
+      el('cbc:StartDate', doc.period.start.slice(0, 10)),
+      el('cbc:EndDate', doc.period.end.slice(0, 10)),
+    ]),
+    block('cac:AdditionalDocumentReference', [
+      el('cbc:ID', doc.invoiceHash),
+      el('cbc:DocumentTypeCode', '130'),
+      el('cbc:DocumentDescription', 'invoice-hash (keccak256, anchored in ENS)'),
+    ]),
+    ...doc.payments.map((p) => block('cac:AdditionalDocumentReference', [
+      el('cbc:ID', p.txHash),
+      el('cbc:DocumentDescription', p.receiptSubname ?? `${p.chain} transaction`),
+      block('cac:Attachment', [
+        block('cac:ExternalReference', [el('cbc:URI', p.proofUrl)]),
+      ]),
+    ])),
+    party('cac:AccountingSupplierParty', doc.seller),
+    party('cac:AccountingCustomerParty', doc.buyer ?? { name: 'Unknown payer' }),
+    block('cac:PaymentMeans', [
+      el('cbc:PaymentMeansCode', 'ZZZ'),
+      doc.payments[0] && el('cbc:PaymentID', doc.payments[0].txHash),
+      doc.seller.address && block('cac:PayeeFinancialAccount', [
+        el('cbc:ID', doc.seller.address),
+        el('cbc:Name', `${doc.token}${doc.payments[0] ? ` on ${doc.payments[0].chain}` : ''}`),
+      ]),
+    ]),
+    doc.discount && block('cac:AllowanceCharge', [
+      el('cbc:ChargeIndicator', 'false'),
+      el('cbc:AllowanceChargeReason', doc.discount.description),
+      money('cbc:Amount', doc.discount.amount),
+      taxCategory('cac:TaxCategory'),
+    ]),
+    block('cac:TaxTotal', [
+      money('cbc:TaxAmount', doc.tax?.amount ?? '0'),
+      block('cac:TaxSubtotal', [
+        money('cbc:TaxableAmount', taxExclusive),
+        money('cbc:TaxAmount', doc.tax?.amount ?? '0'),
+        taxCategory('cac:TaxCategory'),
+      ]),
+    ]),
+    block('cac:LegalMonetaryTotal', [
+      money('cbc:LineExtensionAmount', doc.subtotal),
+      money('cbc:TaxExclusiveAmount', taxExclusive),
+      money('cbc:TaxInclusiveAmount', doc.total),
+      doc.discount && money('cbc:AllowanceTotalAmount', doc.discount.amount),
+      money('cbc:PrepaidAmount', doc.amountPaid),
+      money('cbc:PayableAmount', doc.amountDue),
+    ]),
+    ...doc.lines.map((line, i) => block('cac:InvoiceLine', [
+      el('cbc:ID', String(i + 1)),
+      el('cbc:InvoicedQuantity', line.quantity, { unitCode: 'C62' }),
+      money('cbc:LineExtensionAmount', line.total),
+      block('cac:Item', [
+        el('cbc:Name', line.description),
+        taxCategory('cac:ClassifiedTaxCategory'),
+      ]),
+      block('cac:Price', [money('cbc:PriceAmount', line.unitPrice)]),
+    ])),
+  ]
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"' +
+      ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"' +
+      ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    body.filter(Boolean).join(''),
+    '</Invoice>',
+    '',
+  ].join('\n')
+}
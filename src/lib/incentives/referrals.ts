@@ -11,6 +11,8 @@
  * - Total referral earnings: $30
  */
 
+import { createRepository } from '@/lib/storage/repository'
+
 export interface Referral {
   referrer: string        // ENS or address of referrer
   referred: string        // ENS or address of referred user
@@ -33,34 +35,22 @@ export interface ReferrerStats {
 export const REFERRAL_FEE_SHARE = 0.50      // 50% of protocol fee
 export const REFERRAL_DURATION_MS = 6 * 30 * 24 * 60 * 60 * 1000  // 6 months
 
-// In-memory referral store (in production, use database)
-const referrals = new Map<string, Referral>()  // referred -> referral
-const referrerIndex = new Map<string, Set<string>>()  // referrer -> Set<referred>
-
-// Demo data
-function initDemoData() {
-  if (referrals.size > 0) return
-
-  const now = Date.now()
-  const oneMonthAgo = now - 30 * 24 * 60 * 60 * 1000
-
-  // vitalik.eth referred alice.eth and bob.eth
-  registerReferral('vitalik.eth', 'alice.eth', oneMonthAgo)
-  registerReferral('vitalik.eth', 'bob.eth', oneMonthAgo)
+// Persisted in the "referrals" collection, keyed by normalised referred user.
+// Demo referrals are seeded by a storage migration.
+const referrals = createRepository<Referral>('referrals')
 
-  // Record some earnings
-  recordReferralEarning('alice.eth', 25)  // $25 earned from alice
-  recordReferralEarning('bob.eth', 15)    // $15 earned from bob
+function isActive(referral: Referral, now: number = Date.now()): boolean {
+  return now <= referral.expiresAt
 }
 
 /**
  * Register a new referral
  */
-export function registerReferral(
+export async function registerReferral(
   referrer: string,
   referred: string,
   timestamp?: number
-): { success: boolean; error?: string } {
+): Promise<{ success: boolean; error?: string }> {
   const normalizedReferrer = referrer.toLowerCase()
   const normalizedReferred = referred.toLowerCase()
 
@@ -69,62 +59,46 @@ export function registerReferral(
     return { success: false, error: 'Cannot refer yourself' }
   }
 
-  // Check if already referred
-  if (referrals.has(normalizedReferred)) {
-    return { success: false, error: 'User already has a referrer' }
-  }
-
-  const now = timestamp || Date.now()
-  const referral: Referral = {
-    referrer: normalizedReferrer,
-    referred: normalizedReferred,
-    createdAt: now,
-    expiresAt: now + REFERRAL_DURATION_MS,
-    totalEarned: 0,
-    isActive: true,
-  }
-
-  referrals.set(normalizedReferred, referral)
-
-  // Update referrer index
-  if (!referrerIndex.has(normalizedReferrer)) {
-    referrerIndex.set(normalizedReferrer, new Set())
-  }
-  referrerIndex.get(normalizedReferrer)!.add(normalizedReferred)
+  return referrals.transaction((tx) => {
+    // Check if already referred
+    if (tx.get(normalizedReferred)) {
+      return { success: false, error: 'User already has a referrer' }
+    }
 
-  return { success: true }
+    const now = timestamp || Date.now()
+    tx.put(normalizedReferred, {
+      referrer: normalizedReferrer,
+      referred: normalizedReferred,
+      createdAt: now,
+      expiresAt: now + REFERRAL_DURATION_MS,
+      totalEarned: 0,
+      isActive: true,
+    })
+    return { success: true }
+  })
 }
 
 /**
  * Get referrer for a user (if any)
  */
-export function getReferrer(referred: string): string | null {
-  initDemoData()
-  const referral = referrals.get(referred.toLowerCase())
-  if (!referral) return null
-
-  // Check if still active
-  if (Date.now() > referral.expiresAt) {
-    referral.isActive = false
-    return null
-  }
-
+export async function getReferrer(referred: string): Promise<string | null> {
+  const referral = await referrals.get(referred.toLowerCase())
+  if (!referral || !isActive(referral)) return null
   return referral.referrer
 }
 
 /**
  * Calculate referral reward from a payment fee
  */
-export function calculateReferralReward(
+export async function calculateReferralReward(
   receiverAddress: string,
   protocolFeeUsd: number
-): {
+): Promise<{
   referrer: string | null
   referralReward: number
   netProtocolFee: number
-} {
-  initDemoData()
-  const referrer = getReferrer(receiverAddress)
+}> {
+  const referrer = await getReferrer(receiverAddress)
 
   if (!referrer || protocolFeeUsd <= 0) {
     return {
@@ -147,47 +121,38 @@ export function calculateReferralReward(
 /**
  * Record earnings from a referral (called after payment)
  */
-export function recordReferralEarning(
+export async function recordReferralEarning(
   referred: string,
   earnedUsd: number
-): void {
-  const referral = referrals.get(referred.toLowerCase())
-  if (referral && referral.isActive) {
-    referral.totalEarned += earnedUsd
-  }
+): Promise<void> {
+  const key = referred.toLowerCase()
+  await referrals.transaction((tx) => {
+    const referral = tx.get(key)
+    if (referral && isActive(referral)) {
+      tx.put(key, { ...referral, totalEarned: referral.totalEarned + earnedUsd })
+    }
+  })
 }
 
 /**
  * Get referrer stats
  */
-export function getReferrerStats(referrer: string): ReferrerStats {
-  initDemoData()
+export async function getReferrerStats(referrer: string): Promise<ReferrerStats> {
   const normalizedReferrer = referrer.toLowerCase()
-  const referredSet = referrerIndex.get(normalizedReferrer) || new Set()
-
-  const referralList: Referral[] = []
-  let totalEarned = 0
-  let activeCount = 0
-
-  for (const referred of referredSet) {
-    const referral = referrals.get(referred)
-    if (referral) {
-      // Update active status
-      if (Date.now() > referral.expiresAt) {
-        referral.isActive = false
-      }
-
-      referralList.push(referral)
-      totalEarned += referral.totalEarned
-      if (referral.isActive) activeCount++
-    }
-  }
+  const now = Date.now()
+
+  const referralList: Referral[] = (await referrals.list())
+    .filter(r => r.referrer === normalizedReferrer)
+    .map(r => ({ ...r, isActive: isActive(r, now) }))
+
+  const totalEarned = referralList.reduce((sum, r) => sum + r.totalEarned, 0)
+  const activeCount = referralList.filter(r => r.isActive).length
 
   // Estimate monthly earnings from active referrals
   const monthlyEarnings = referralList
     .filter(r => r.isActive)
     .reduce((sum, r) => {
-      const monthsActive = Math.max(1, (Date.now() - r.createdAt) / (30 * 24 * 60 * 60 * 1000))
+      const monthsActive = Math.max(1, (now - r.createdAt) / (30 * 24 * 60 * 60 * 1000))
       return sum + (r.totalEarned / monthsActive)
     }, 0)
 
@@ -2,9 +2,11 @@
  * Volume Tracker
  *
  * Tracks monthly payment volume per receiver for fee tier calculation.
- * In production, this would be a database. For hackathon, in-memory + localStorage.
+ * Records persist in the "volume" collection of the shared storage layer;
+ * receivers without a record fall back to the demo volumes below.
  */
 
+import { createRepository } from '@/lib/storage/repository'
 import { getFeeTier, type FeeTier } from './fee-tiers'
 
 interface VolumeRecord {
@@ -16,8 +18,7 @@ interface VolumeRecord {
   tier: string
 }
 
-// In-memory store (resets on server restart)
-const volumeStore = new Map<string, VolumeRecord>()
+const volumeStore = createRepository<VolumeRecord>('volume')
 
 // Demo data for showcasing tiers
 const DEMO_VOLUMES: Record<string, number> = {
@@ -28,21 +29,14 @@ const DEMO_VOLUMES: Record<string, number> = {
 }
 
 /**
- * Get volume record for a receiver
+ * Starting record for a receiver that hasn't been tracked yet
  */
-export function getVolumeRecord(addressOrEns: string): VolumeRecord {
-  const key = addressOrEns.toLowerCase()
-
-  // Check if already tracked
-  if (volumeStore.has(key)) {
-    return volumeStore.get(key)!
-  }
-
+function defaultVolumeRecord(addressOrEns: string): VolumeRecord {
   // Check demo data
-  const demoVolume = DEMO_VOLUMES[key] || 0
+  const demoVolume = DEMO_VOLUMES[addressOrEns.toLowerCase()] || 0
   const tier = getFeeTier(demoVolume)
 
-  const record: VolumeRecord = {
+  return {
     address: addressOrEns,
     monthlyVolumeUsd: demoVolume,
     totalVolumeUsd: demoVolume,
@@ -50,49 +44,55 @@ export function getVolumeRecord(addressOrEns: string): VolumeRecord {
     lastPaymentAt: new Date().toISOString(),
     tier: tier.name,
   }
+}
 
-  volumeStore.set(key, record)
-  return record
+/**
+ * Get volume record for a receiver
+ */
+export async function getVolumeRecord(addressOrEns: string): Promise<VolumeRecord> {
+  return (await volumeStore.get(addressOrEns.toLowerCase())) ?? defaultVolumeRecord(addressOrEns)
 }
 
 /**
  * Record a payment and update volume
  */
-export function recordPayment(params: {
+export async function recordPayment(params: {
   receiver: string
   amountUsd: number
   txHash: string
-}): VolumeRecord {
+}): Promise<VolumeRecord> {
   const { receiver, amountUsd } = params
   const key = receiver.toLowerCase()
 
-  const existing = getVolumeRecord(key)
-  const newMonthlyVolume = existing.monthlyVolumeUsd + amountUsd
-  const tier = getFeeTier(newMonthlyVolume)
-
-  const updated: VolumeRecord = {
-    ...existing,
-    monthlyVolumeUsd: newMonthlyVolume,
-    totalVolumeUsd: existing.totalVolumeUsd + amountUsd,
-    paymentCount: existing.paymentCount + 1,
-    lastPaymentAt: new Date().toISOString(),
-    tier: tier.name,
-  }
-
-  volumeStore.set(key, updated)
-  return updated
+  return volumeStore.transaction((tx) => {
+    const existing = tx.get(key) ?? defaultVolumeRecord(key)
+    const newMonthlyVolume = existing.monthlyVolumeUsd + amountUsd
+    const tier = getFeeTier(newMonthlyVolume)
+
+    const updated: VolumeRecord = {
+      ...existing,
+      monthlyVolumeUsd: newMonthlyVolume,
+      totalVolumeUsd: existing.totalVolumeUsd + amountUsd,
+      paymentCount: existing.paymentCount + 1,
+      lastPaymentAt: new Date().toISOString(),
+      tier: tier.name,
+    }
+
+    tx.put(key, updated)
+    return updated
+  })
 }
 
 /**
  * Get tier info for a receiver
  */
-export function getReceiverTier(addressOrEns: string): {
+export async function getReceiverTier(addressOrEns: string): Promise<{
   record: VolumeRecord
   tier: FeeTier
   nextTier: FeeTier | null
   volumeToNextTier: number
-} {
-  const record = getVolumeRecord(addressOrEns)
+}> {
+  const record = await getVolumeRecord(addressOrEns)
   const tier = getFeeTier(record.monthlyVolumeUsd)
 
   // Find next tier
@@ -126,11 +126,15 @@ export async function hasGasTank(address: string): Promise<boolean> {
 /**
  * Leaderboard for demo
  */
-export function getLeaderboard(): VolumeRecord[] {
+export async function getLeaderboard(): Promise<VolumeRecord[]> {
+  const records = new Map(await volumeStore.entries())
+
   // Include demo data
-  Object.keys(DEMO_VOLUMES).forEach(getVolumeRecord)
+  for (const name of Object.keys(DEMO_VOLUMES)) {
+    if (!records.has(name)) records.set(name, defaultVolumeRecord(name))
+  }
 
-  return Array.from(volumeStore.values())
+  return Array.from(records.values())
     .sort((a, b) => b.monthlyVolumeUsd - a.monthlyVolumeUsd)
     .slice(0, 10)
 }
@@ -0,0 +1,64 @@
+/**
+ * Receiver authorization for manual invoice transitions.
+ *
+ * Payments are verified on-chain and expiry follows `expiresAt`, but
+ * publishing a draft, cancelling and refunding are the receiver's calls:
+ * they are authorized by an EIP-712 UpdateInvoice signature from the
+ * invoice's receiver address (free, no gas), valid for a few minutes.
+ */
+
+import { verifyTypedData, type Hex } from 'viem'
+import { PREFERENCE_DOMAIN } from '@/lib/ens/eip712'
+import type { Invoice, InvoiceStatus } from './lifecycle'
+
+export const UPDATE_INVOICE_TYPES = {
+  UpdateInvoice: [
+    { name: 'receiver', type: 'address' },
+    { name: 'invoiceId', type: 'string' },
+    { name: 'status', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const
+
+// How long an update signature stays valid
+const AUTH_WINDOW_SECONDS = 10 * 60
+
+/**
+ * Verify that the receiver of `invoice` signed an UpdateInvoice message
+ * moving it to `status` within the last few minutes. On success, returns
+ * the receiver address to record as the transition's actor.
+ */
+export async function verifyInvoiceAuthorization(
+  invoice: Invoice,
+  params: {
+    status: InvoiceStatus
+    issuedAt: number
+    signature: string
+  },
+): Promise<{ valid: true; actor: string } | { valid: false; error: string }> {
+  const now = Math.floor(Date.now() / 1000)
+  if (!Number.isInteger(params.issuedAt) || Math.abs(now - params.issuedAt) > AUTH_WINDOW_SECONDS) {
+    return { valid: false, error: 'Authorization expired or issuedAt invalid' }
+  }
+
+  try {
+    const valid = await verifyTypedData({
+      address: invoice.receiverAddress as Hex,
+      domain: PREFERENCE_DOMAIN,
+      types: UPDATE_INVOICE_TYPES,
+      primaryType: 'UpdateInvoice',
+      message: {
+        receiver: invoice.receiverAddress as Hex,
+        invoiceId: invoice.id,
+        status: params.status,
+        issuedAt: BigInt(params.issuedAt),
+      },
+      signature: params.signature as Hex,
+    })
+    return valid
+      ? { valid: true, actor: invoice.receiverAddress.toLowerCase() }
+      : { valid: false, error: 'Invalid signature: only the invoice receiver can make this change' }
+  } catch {
+    return { valid: false, error: 'Invalid signature' }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Token conversion for invoice bookkeeping.
+ *
+ * Payments can arrive in a different token than the invoice is denominated
+ * in (e.g. USDT against a USDC invoice), and fiat invoices (e.g. EUR) are
+ * always settled in a token. Amounts are converted through spot prices from
+ * CoinGecko, cached for five minutes; USD stablecoins are treated as exactly
+ * one dollar without a lookup.
+ */
+
+import { STABLECOINS } from '@/lib/routing/tokens'
+import type { Invoice } from './lifecycle'
+
+const PRICE_CACHE_TTL = 5 * 60 * 1000
+
+// CoinGecko asset IDs for tokens we accept as payment
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+  WETH: 'ethereum',
+  WBTC: 'bitcoin',
+  CBBTC: 'bitcoin',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+  DAI: 'dai',
+}
+
+const priceCache = new Map<string, { price: number; fetchedAt: number }>()
+
+async function getCoinPrice(coingeckoId: string, vsCurrency: string): Promise<number | null> {
+  const key = `${coingeckoId}:${vsCurrency}`
+  const cached = priceCache.get(key)
+  if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_TTL) {
+    return cached.price
+  }
+
+  try {
+    const res = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=${coingeckoId}&vs_currencies=${vsCurrency}`,
+      { next: { revalidate: 300 } },
+    )
+    if (!res.ok) return cached?.price ?? null
+    const data = await res.json()
+    const price = data[coingeckoId]?.[vsCurrency]
+    if (typeof price !== 'number') return cached?.price ?? null
+    priceCache.set(key, { price, fetchedAt: Date.now() })
+    return price
+  } catch {
+    return cached?.price ?? null
+  }
+}
+
+/** Price of one unit of `token` in a fiat `currency`, or null when it can't be priced. */
+export async function getTokenPrice(token: string, currency: string = 'USD'): Promise<number | null> {
+  const upper = token.toUpperCase()
+  if (currency.toUpperCase() === 'USD' && STABLECOINS.includes(upper)) return 1
+  const id = COINGECKO_IDS[upper]
+  return id ? getCoinPrice(id, currency.toLowerCase()) : null
+}
+
+/** USD price of one unit of `token`, or null when it can't be priced. */
+export async function getTokenPriceUsd(token: string): Promise<number | null> {
+  return getTokenPrice(token, 'USD')
+}
+
+/**
+ * Convert a decimal `amount` of `fromToken` into `toToken` units.
+ * Returns null when either side has no known price.
+ */
+export async function convertTokenAmount(
+  amount: number,
+  fromToken: string,
+  toToken: string,
+): Promise<number | null> {
+  if (fromToken.toUpperCase() === toToken.toUpperCase()) return amount
+
+  const [fromPrice, toPrice] = await Promise.all([
+    getTokenPriceUsd(fromToken),
+    getTokenPriceUsd(toToken),
+  ])
+  if (fromPrice === null || toPrice === null || toPrice === 0) return null
+
+  return (amount * fromPrice) / toPrice
+}
+
+/**
+ * Convert a decimal `amount` of `token` into a fiat `currency`.
+ * Returns null when the token has no known price.
+ */
+export async function convertToCurrency(
+  amount: number,
+  token: string,
+  currency: string,
+): Promise<number | null> {
+  const price = await getTokenPrice(token, currency)
+  return price === null ? null : amount * price
+}
+
+export type SettlementQuote = {
+  token: string
+  /** Token amount that settles the outstanding balance at `rate` */
+  amount: string
+  /** Price of one token in the invoice currency */
+  rate: number
+  quotedAt: string
+}
+
+/**
+ * Quote how much of the settlement token covers a fiat invoice's outstanding
+ * balance at the current rate. The quote is indicative: the amount credited
+ * is recomputed from the rate when the payment is verified.
+ */
+export async function quoteSettlement(invoice: Invoice): Promise<SettlementQuote | null> {
+  if (!invoice.currency) return null
+
+  const rate = await getTokenPrice(invoice.token, invoice.currency)
+  if (rate === null || rate === 0) return null
+
+  const amount = parseFloat(invoice.amountDue) / rate
+  return {
+    token: invoice.token,
+    // Round up to 6 decimals so paying the quote never leaves dust outstanding
+    amount: (Math.ceil(amount * 1e6) / 1e6).toString(),
+    rate,
+    quotedAt: new Date().toISOString(),
+  }
+}
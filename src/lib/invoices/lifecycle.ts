@@ -0,0 +1,265 @@
+/**
+ * Invoice lifecycle state machine.
+ *
+ *   draft ──► pending ──► partially_paid ──► paid ──► refunded
+ *     │          │               │
+ *     └──────────┴───────────────┴──► cancelled / expired
+ *
+ * Every transition is appended to the invoice's history with a timestamp
+ * and the actor that triggered it (receiver address, payer address, or
+ * "system" for automatic expiry).
+ *
+ * Payments are tracked individually: an invoice can be settled by several
+ * transfers from different chains, and anything paid beyond the invoice
+ * amount is recorded as a credit note for the payer.
+ */
+
+import { formatUnits, parseUnits } from 'viem'
+import { getInvoiceDecimals, type InvoiceDiscount, type InvoiceLineItem } from './pricing'
+
+export type InvoiceStatus =
+  | 'draft'
+  | 'pending'
+  | 'partially_paid'
+  | 'paid'
+  | 'expired'
+  | 'cancelled'
+  | 'refunded'
+
+export const INVOICE_STATUSES: readonly InvoiceStatus[] = [
+  'draft',
+  'pending',
+  'partially_paid',
+  'paid',
+  'expired',
+  'cancelled',
+  'refunded',
+]
+
+export interface InvoiceTransition {
+  from: InvoiceStatus | null // null for the creation entry
+  to: InvoiceStatus
+  at: string
+  actor: string
+  txHash?: string
+  reason?: string
+}
+
+export interface InvoicePayment {
+  txHash: string
+  chain: string
+  payer: string
+  /** Amount credited to the invoice, in the invoice's denomination */
+  amount: string
+  /** Token and amount actually received (may differ from the invoice token) */
+  paidToken: string
+  paidAmount: string
+  at: string
+}
+
+export interface CreditNote {
+  /** Excess over the invoice amount, in the invoice's denomination */
+  amount: string
+  token: string
+  payer: string
+  txHash: string
+  issuedAt: string
+}
+
+export interface Invoice {
+  id: string
+  receiverAddress: string
+  receiverEns?: string
+  /** Invoice total, in `currency` when set and in `token` otherwise */
+  amount: string
+  /** Settlement token */
+  token: string
+  /** Fiat denomination (e.g. "EUR"); converted to `token` at payment time */
+  currency?: string
+  memo?: string
+  lineItems?: InvoiceLineItem[]
+  discount?: InvoiceDiscount
+  /** Tax percentage applied after the discount */
+  taxRate?: string
+  /** Breakdown of `amount`, present when line items, a discount or tax apply */
+  subtotal?: string
+  discountAmount?: string
+  taxAmount?: string
+  dueDate?: string
+  status: InvoiceStatus
+  createdAt: string
+  updatedAt: string
+  paidAt?: string
+  paidTxHash?: string
+  expiresAt?: string
+  payments: InvoicePayment[]
+  /** Sum of all payments, in the invoice's denomination */
+  amountPaid: string
+  /** Outstanding balance (never negative) */
+  amountDue: string
+  creditNote?: CreditNote
+  /** Set on invoices generated from a recurring subscription */
+  subscriptionId?: string
+  payerAddress?: string
+  payerEns?: string
+  periodStart?: string
+  periodEnd?: string
+  history: InvoiceTransition[]
+}
+
+export type NewInvoiceFields = Pick<Invoice, 'id' | 'receiverAddress' | 'amount' | 'token'> &
+  Partial<Pick<
+    Invoice,
+    | 'receiverEns'
+    | 'currency'
+    | 'memo'
+    | 'lineItems'
+    | 'discount'
+    | 'taxRate'
+    | 'subtotal'
+    | 'discountAmount'
+    | 'taxAmount'
+    | 'dueDate'
+    | 'expiresAt'
+    | 'subscriptionId'
+    | 'payerAddress'
+    | 'payerEns'
+    | 'periodStart'
+    | 'periodEnd'
+  >>
+
+/** Legal next states for each status. Terminal states map to an empty list. */
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  draft: ['pending', 'cancelled'],
+  pending: ['partially_paid', 'paid', 'expired', 'cancelled'],
+  partially_paid: ['partially_paid', 'paid', 'expired', 'cancelled', 'refunded'],
+  paid: ['refunded'],
+  expired: [],
+  cancelled: [],
+  refunded: [],
+}
+
+/** Actor recorded for transitions the server performs on its own (e.g. expiry). */
+export const SYSTEM_ACTOR = 'system'
+
+export function isInvoiceStatus(value: unknown): value is InvoiceStatus {
+  return typeof value === 'string' && (INVOICE_STATUSES as readonly string[]).includes(value)
+}
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Build a new invoice in "pending" (or "draft") with an empty payment record
+ * and the creation entry in its history.
+ */
+export function createInvoice(
+  fields: NewInvoiceFields,
+  actor: string,
+  options: { draft?: boolean; at?: Date } = {},
+): Invoice {
+  const createdAt = (options.at ?? new Date()).toISOString()
+  const status: InvoiceStatus = options.draft ? 'draft' : 'pending'
+
+  return {
+    ...fields,
+    status,
+    createdAt,
+    updatedAt: createdAt,
+    payments: [],
+    amountPaid: '0',
+    amountDue: fields.amount,
+    history: [{ from: null, to: status, at: createdAt, actor: actor.toLowerCase() }],
+  }
+}
+
+/**
+ * Apply a status transition to an invoice.
+ *
+ * Returns the updated invoice (the input is not mutated) or an error when the
+ * transition is not allowed from the current status.
+ */
+export function transitionInvoice(
+  invoice: Invoice,
+  to: InvoiceStatus,
+  actor: string,
+  details: { txHash?: string; reason?: string; at?: Date } = {},
+): { invoice: Invoice } | { error: string } {
+  if (!canTransition(invoice.status, to)) {
+    return { error: `Cannot move invoice from "${invoice.status}" to "${to}"` }
+  }
+
+  const at = (details.at ?? new Date()).toISOString()
+  const entry: InvoiceTransition = {
+    from: invoice.status,
+    to,
+    at,
+    actor: actor.toLowerCase(),
+    ...(details.txHash && { txHash: details.txHash }),
+    ...(details.reason && { reason: details.reason }),
+  }
+
+  return {
+    invoice: {
+      ...invoice,
+      status: to,
+      updatedAt: at,
+      ...(to === 'paid' && { paidAt: at, paidTxHash: details.txHash ?? invoice.paidTxHash }),
+      history: [...invoice.history, entry],
+    },
+  }
+}
+
+/**
+ * Record a verified payment against an invoice.
+ *
+ * Moves the invoice to "partially_paid" while a balance remains and to
+ * "paid" once it is covered. Any excess is issued as a credit note to the
+ * payer of the settling transfer.
+ */
+export function applyPayment(
+  invoice: Invoice,
+  payment: InvoicePayment,
+  actor: string,
+): { invoice: Invoice } | { error: string } {
+  const decimals = getInvoiceDecimals(invoice)
+  const total = parseUnits(invoice.amount, decimals)
+  const paidBefore = parseUnits(invoice.amountPaid, decimals)
+  const paidAfter = paidBefore + parseUnits(payment.amount, decimals)
+  const zero = BigInt(0)
+
+  const to: InvoiceStatus = paidAfter >= total ? 'paid' : 'partially_paid'
+  const result = transitionInvoice(invoice, to, actor, { txHash: payment.txHash, at: new Date(payment.at) })
+  if ('error' in result) return result
+
+  const due = total - paidAfter
+  const excess = paidAfter - total
+
+  return {
+    invoice: {
+      ...result.invoice,
+      payments: [...invoice.payments, payment],
+      amountPaid: formatUnits(paidAfter, decimals),
+      amountDue: formatUnits(due > zero ? due : zero, decimals),
+      ...(excess > zero && {
+        creditNote: {
+          amount: formatUnits(excess, decimals),
+          token: invoice.currency ?? invoice.token,
+          payer: payment.payer,
+          txHash: payment.txHash,
+          issuedAt: payment.at,
+        },
+      }),
+    },
+  }
+}
+
+/**
+ * Whether an open invoice has passed its expiry time.
+ */
+export function isPastExpiry(invoice: Invoice, now: Date = new Date()): boolean {
+  if (!invoice.expiresAt) return false
+  if (invoice.status !== 'pending' && invoice.status !== 'partially_paid') return false
+  return new Date(invoice.expiresAt) < now
+}
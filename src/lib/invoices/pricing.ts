@@ -0,0 +1,172 @@
+/**
+ * Invoice pricing: line items, discounts, tax and fiat denomination.
+ *
+ * All arithmetic is done on integers scaled to the invoice's precision (the
+ * token's decimals, or the currency's minor unit for fiat invoices) so
+ * totals are exact and reproducible — the ENS-anchored invoice hash commits
+ * to them.
+ *
+ *   subtotal = Σ quantity × unitPrice
+ *   total    = (subtotal − discount) × (1 + taxRate / 100)
+ */
+
+import { formatUnits, parseUnits } from 'viem'
+import { getTokenDecimals } from '@/lib/routing/tokens'
+
+export interface InvoiceLineItem {
+  description: string
+  quantity: string
+  unitPrice: string
+}
+
+export interface InvoiceDiscount {
+  type: 'percent' | 'fixed'
+  value: string
+  description?: string
+}
+
+export type InvoiceTotals = {
+  subtotal: string
+  discountAmount: string
+  taxAmount: string
+  total: string
+}
+
+/** Fiat currencies an invoice can be denominated in */
+export const FIAT_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY'] as const
+
+export type FiatCurrency = (typeof FIAT_CURRENCIES)[number]
+
+/** Decimals of each currency's minor unit, per ISO 4217 */
+export const FIAT_DECIMALS: Record<FiatCurrency, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CHF: 2,
+  CAD: 2,
+  AUD: 2,
+  JPY: 0,
+}
+
+// Quantities and percentages are accepted with up to this many decimals
+const RATIO_DECIMALS = 4
+
+export function isFiatCurrency(value: unknown): value is FiatCurrency {
+  return typeof value === 'string' && (FIAT_CURRENCIES as readonly string[]).includes(value)
+}
+
+/**
+ * Precision of an invoice's amounts: the currency's minor unit for fiat
+ * (none for JPY), token decimals otherwise.
+ */
+export function getInvoiceDecimals(invoice: { token: string; currency?: string }): number {
+  if (!invoice.currency) return getTokenDecimals(invoice.token)
+  return isFiatCurrency(invoice.currency) ? FIAT_DECIMALS[invoice.currency] : 2
+}
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/
+
+function parseDecimal(value: string, decimals: number): bigint | null {
+  if (typeof value !== 'string' || !DECIMAL_PATTERN.test(value)) return null
+  const [, fraction = ''] = value.split('.')
+  if (fraction.length > decimals) return null
+  return parseUnits(value, decimals)
+}
+
+// Round-half-up division for non-negative integers
+function divRound(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator / BigInt(2)) / denominator
+}
+
+/**
+ * Total of a single line item (quantity × unit price, rounded half up to the
+ * invoice precision), or null when either value is malformed.
+ */
+export function lineItemTotal(item: InvoiceLineItem, decimals: number): string | null {
+  const quantity = parseDecimal(item.quantity, RATIO_DECIMALS)
+  const unitPrice = parseDecimal(item.unitPrice, decimals)
+  if (quantity === null || unitPrice === null) return null
+  return formatUnits(divRound(quantity * unitPrice, BigInt(10) ** BigInt(RATIO_DECIMALS)), decimals)
+}
+
+/**
+ * Validate pricing input and compute totals.
+ *
+ * Line items replace a flat `amount`; without them, `amount` is the subtotal.
+ */
+export function computeInvoiceTotals(
+  input: {
+    amount?: string
+    lineItems?: InvoiceLineItem[]
+    discount?: InvoiceDiscount
+    taxRate?: string
+  },
+  decimals: number,
+): { totals: InvoiceTotals } | { error: string } {
+  const scale = BigInt(10) ** BigInt(RATIO_DECIMALS)
+  const zero = BigInt(0)
+  let subtotal = zero
+
+  if (input.lineItems?.length) {
+    for (const [i, item] of input.lineItems.entries()) {
+      if (!item?.description?.trim()) return { error: `Line item ${i + 1}: description is required` }
+      const quantity = parseDecimal(item.quantity, RATIO_DECIMALS)
+      if (quantity === null || quantity === zero) {
+        return { error: `Line item ${i + 1}: quantity must be a positive number` }
+      }
+      const unitPrice = parseDecimal(item.unitPrice, decimals)
+      if (unitPrice === null) {
+        return { error: `Line item ${i + 1}: unitPrice must be a number with at most ${decimals} decimals` }
+      }
+      subtotal += divRound(quantity * unitPrice, scale)
+    }
+  } else {
+    const amount = input.amount !== undefined ? parseDecimal(input.amount, decimals) : null
+    if (amount === null) return { error: `amount must be a number with at most ${decimals} decimals` }
+    subtotal = amount
+  }
+
+  let discountAmount = zero
+  if (input.discount) {
+    const { type, value } = input.discount
+    if (type === 'percent') {
+      const pct = parseDecimal(value, RATIO_DECIMALS)
+      if (pct === null || pct > BigInt(100) * scale) return { error: 'Discount percentage must be between 0 and 100' }
+      discountAmount = divRound(subtotal * pct, BigInt(100) * scale)
+    } else if (type === 'fixed') {
+      const fixed = parseDecimal(value, decimals)
+      if (fixed === null || fixed > subtotal) return { error: 'Fixed discount must be between 0 and the subtotal' }
+      discountAmount = fixed
+    } else {
+      return { error: 'Discount type must be "percent" or "fixed"' }
+    }
+  }
+
+  let taxAmount = zero
+  if (input.taxRate !== undefined) {
+    const rate = parseDecimal(input.taxRate, RATIO_DECIMALS)
+    if (rate === null || rate > BigInt(100) * scale) return { error: 'taxRate must be a percentage between 0 and 100' }
+    taxAmount = divRound((subtotal - discountAmount) * rate, BigInt(100) * scale)
+  }
+
+  const total = subtotal - discountAmount + taxAmount
+  if (total <= zero) return { error: 'Invoice total must be positive' }
+
+  return {
+    totals: {
+      subtotal: formatUnits(subtotal, decimals),
+      discountAmount: formatUnits(discountAmount, decimals),
+      taxAmount: formatUnits(taxAmount, decimals),
+      total: formatUnits(total, decimals),
+    },
+  }
+}
+
+/** Format an amount in the invoice's denomination for display. */
+export function formatInvoiceAmount(amount: string, invoice: { token: string; currency?: string }): string {
+  const value = parseFloat(amount)
+  if (invoice.currency) {
+    return value.toLocaleString('en-US', { style: 'currency', currency: invoice.currency })
+  }
+  return `${value.toLocaleString()} ${invoice.token}`
+}
@@ -0,0 +1,90 @@
+/**
+ * Durable invoice repository.
+ *
+ * Invoices live in the "invoices" collection of the shared storage layer
+ * (see lib/storage/repository.ts for backends and configuration), keyed by
+ * invoice ID.
+ */
+
+import { createRepository } from '@/lib/storage/repository'
+import type { Invoice, InvoiceStatus } from './lifecycle'
+
+export type InvoiceFilter = {
+  receiverAddress?: string
+  receiverEns?: string
+  status?: InvoiceStatus
+  payerAddress?: string
+  subscriptionId?: string
+}
+
+function matchesFilter(invoice: Invoice, filter: InvoiceFilter = {}): boolean {
+  if (filter.receiverAddress && invoice.receiverAddress.toLowerCase() !== filter.receiverAddress.toLowerCase()) {
+    return false
+  }
+  if (filter.receiverEns && invoice.receiverEns?.toLowerCase() !== filter.receiverEns.toLowerCase()) {
+    return false
+  }
+  if (filter.status && invoice.status !== filter.status) return false
+  if (filter.payerAddress && invoice.payerAddress?.toLowerCase() !== filter.payerAddress.toLowerCase()) {
+    return false
+  }
+  if (filter.subscriptionId && invoice.subscriptionId !== filter.subscriptionId) return false
+  return true
+}
+
+function sortNewestFirst(invoices: Invoice[]): Invoice[] {
+  return invoices.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+}
+
+const invoices = createRepository<Invoice>('invoices')
+
+export async function getInvoice(id: string): Promise<Invoice | null> {
+  return invoices.get(id)
+}
+
+export async function listInvoices(filter?: InvoiceFilter): Promise<Invoice[]> {
+  return sortNewestFirst((await invoices.list()).filter((inv) => matchesFilter(inv, filter)))
+}
+
+/**
+ * Find the invoice (if any) that already recorded `txHash` as a payment.
+ */
+export async function findInvoiceByTxHash(txHash: string): Promise<Invoice | null> {
+  const hash = txHash.toLowerCase()
+  const all = await invoices.list()
+  return all.find((inv) =>
+    inv.paidTxHash?.toLowerCase() === hash ||
+    inv.payments.some((p) => p.txHash.toLowerCase() === hash) ||
+    inv.history.some((entry) => entry.txHash?.toLowerCase() === hash),
+  ) ?? null
+}
+
+export async function saveInvoice(invoice: Invoice): Promise<void> {
+  await invoices.put(invoice.id, invoice)
+}
+
+/**
+ * Atomically read, modify and write back a single invoice.
+ *
+ * `update` receives the current invoice and returns (or resolves to) either
+ * the new invoice or an error; errors are passed through without writing
+ * anything. Reads made inside `update` see every earlier committed write.
+ */
+export async function updateInvoice(
+  id: string,
+  update: (current: Invoice) =>
+    | { invoice: Invoice }
+    | { error: string }
+    | Promise<{ invoice: Invoice } | { error: string }>,
+): Promise<{ invoice: Invoice } | { error: string; notFound?: boolean }> {
+  return invoices.transaction(async (tx) => {
+    const current = tx.get(id)
+    if (!current) return { error: 'Invoice not found', notFound: true }
+
+    const result = await update(current)
+    if ('error' in result) return result
+
+    tx.put(id, result.invoice)
+    return result
+  })
+}
@@ -0,0 +1,299 @@
+/**
+ * On-chain payment verification for invoices.
+ *
+ * Before a payment is recorded against an invoice, the server fetches the
+ * claimed transaction receipt and looks for evidence that value actually
+ * reached the invoice receiver in one of the accepted tokens:
+ *   - ERC-20 Transfer(from, to = receiver, value) on the token contract
+ *   - LI.FI LiFiTransferCompleted(receivingAssetId = token, receiver, amount)
+ *     from the LI.FI diamond, for bridge completions on the destination chain
+ *   - ERC-4626 Deposit(sender, owner = receiver, assets) on a known vault
+ *     holding the token, or on the receiver's own PayConfig vault
+ *     (yield-route payments)
+ *   - a plain value transfer for native ETH invoices
+ * Events from any other contract are ignored (see routing/payment-sources).
+ *
+ * The transaction must also have been mined after the invoice was created,
+ * so an earlier transfer to the same receiver can't settle a new invoice.
+ *
+ * RPC endpoints come from the usual *_RPC_URL env vars, so pointing
+ * BASE_RPC_URL at a local anvil fork verifies against that fork.
+ */
+
+import {
+  createPublicClient,
+  formatUnits,
+  http,
+  parseAbiItem,
+  parseEventLogs,
+  parseUnits,
+  type Chain,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+import { arbitrum, base, mainnet, optimism } from 'viem/chains'
+import { CHAIN_ID_TO_NAME, getTokenAddress, getTokenDecimals } from '@/lib/routing/tokens'
+import { depositToken, getDepositVaults, isLifiDiamond } from '@/lib/routing/payment-sources'
+import { getPreferencesBySigner } from '@/lib/ens/store'
+import type { Invoice } from './lifecycle'
+import { convertToCurrency, convertTokenAmount } from './conversion'
+import { getInvoiceDecimals } from './pricing'
+
+const VERIFY_CHAINS: Record<string, { chain: Chain; rpc: string }> = {
+  base: { chain: base, rpc: process.env.BASE_RPC_URL || 'https://mainnet.base.org' },
+  ethereum: { chain: mainnet, rpc: process.env.ETH_RPC_URL || 'https://eth.llamarpc.com' },
+  arbitrum: { chain: arbitrum, rpc: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc' },
+  optimism: { chain: optimism, rpc: process.env.OPTIMISM_RPC_URL || 'https://mainnet.optimism.io' },
+}
+
+const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000'
+
+const PAYMENT_EVENTS = [
+  parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)'),
+  parseAbiItem('event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)'),
+  parseAbiItem(
+    'event LiFiTransferCompleted(bytes32 indexed transactionId, address receivingAssetId, address receiver, uint256 amount, uint256 timestamp)',
+  ),
+]
+
+/**
+ * Tokens accepted against an invoice besides the invoice token itself.
+ * Amounts in these are converted to the invoice token at payment time.
+ */
+const ACCEPTED_PAYMENT_TOKENS = ['USDC', 'USDT', 'DAI', 'ETH', 'WETH']
+
+export type PaymentEvidenceKind = 'erc20-transfer' | 'lifi-bridge' | 'vault-deposit' | 'native-transfer'
+
+export type VerifiedPayment = {
+  verified: true
+  txHash: string
+  chain: string
+  chainId: number
+  blockNumber: string
+  from: string
+  kinds: PaymentEvidenceKind[]
+  /** Token the receiver actually got */
+  token: string
+  /** Amount received, in `token` units */
+  paidAmount: string
+  /** Amount received, converted to the invoice's denomination */
+  amount: string
+}
+
+export type PaymentVerification = VerifiedPayment | { verified: false; error: string }
+
+/** Normalise a chain name or numeric chain ID to a verification chain name. */
+export function resolveVerifyChain(chain: string | number): string | null {
+  const asNumber = typeof chain === 'number' ? chain : Number(chain)
+  const name = Number.isInteger(asNumber) && asNumber > 0
+    ? CHAIN_ID_TO_NAME[asNumber]
+    : String(chain).toLowerCase()
+  return name && VERIFY_CHAINS[name] ? name : null
+}
+
+/** Client for a chain returned by `resolveVerifyChain`. */
+export function getVerifyClient(chainName: string): PublicClient {
+  const cfg = VERIFY_CHAINS[chainName]
+  return createPublicClient({ chain: cfg.chain, transport: http(cfg.rpc) }) as PublicClient
+}
+
+/**
+ * The receiver's own PayConfig vault on `chainId`, keyed by the receiver as
+ * getDepositVaults takes it. Its most recently configured name wins.
+ */
+async function getReceiverVaults(receiver: string, chainId: number): Promise<Map<string, string>> {
+  const vaults = new Map<string, string>()
+  for (const pref of await getPreferencesBySigner(receiver)) {
+    const receive = pref.config?.receive
+    if (receive?.vault && receive.chain === chainId) {
+      vaults.set(receiver, receive.vault)
+      break
+    }
+  }
+  return vaults
+}
+
+/**
+ * Sum every payment to `receiver` found in a transaction, per token.
+ *
+ * The receipt is fetched once and each of `tokens` is matched against its
+ * logs; tokens with no evidence are omitted from the result.
+ */
+export async function findPaymentsToReceiver(params: {
+  txHash: Hex
+  chain: string
+  receiver: string
+  tokens: string[]
+  client?: PublicClient
+}): Promise<
+  | {
+      payments: Array<{ token: string; amountRaw: bigint; kinds: PaymentEvidenceKind[] }>
+      from: string
+      chainId: number
+      blockNumber: bigint
+      blockHash: Hex
+    }
+  | { error: string }
+> {
+  const chainName = resolveVerifyChain(params.chain)
+  if (!chainName) return { error: `Unsupported chain "${params.chain}"` }
+
+  const chainId = VERIFY_CHAINS[chainName].chain.id
+  const client = params.client ?? getVerifyClient(chainName)
+  const receiver = params.receiver.toLowerCase()
+
+  let receipt: Awaited<ReturnType<PublicClient['getTransactionReceipt']>>
+  try {
+    receipt = await client.getTransactionReceipt({ hash: params.txHash })
+  } catch {
+    return { error: `Transaction ${params.txHash} not found on ${chainName}` }
+  }
+
+  if (receipt.status !== 'success') {
+    return { error: 'Transaction reverted' }
+  }
+
+  const logs = parseEventLogs({ abi: PAYMENT_EVENTS, logs: receipt.logs })
+  const vaults = logs.some((log) => log.eventName === 'Deposit')
+    ? await getDepositVaults(client, chainId, await getReceiverVaults(receiver, chainId))
+    : null
+  const payments: Array<{ token: string; amountRaw: bigint; kinds: PaymentEvidenceKind[] }> = []
+
+  for (const token of params.tokens) {
+    const tokenAddress = getTokenAddress(token, chainId)?.toLowerCase()
+    if (!tokenAddress) continue
+
+    let transferred = BigInt(0)
+    let bridged = BigInt(0)
+    let deposited = BigInt(0)
+    let native = BigInt(0)
+    const kinds = new Set<PaymentEvidenceKind>()
+
+    if (tokenAddress === NATIVE_TOKEN) {
+      const tx = await client.getTransaction({ hash: params.txHash })
+      if (tx.to?.toLowerCase() === receiver && tx.value > BigInt(0)) {
+        native = tx.value
+        kinds.add('native-transfer')
+      }
+    }
+
+    for (const log of logs) {
+      const emitter = log.address.toLowerCase()
+
+      if (log.eventName === 'Transfer') {
+        if (emitter === tokenAddress && log.args.to.toLowerCase() === receiver) {
+          transferred += log.args.value
+          kinds.add('erc20-transfer')
+        }
+      } else if (log.eventName === 'LiFiTransferCompleted') {
+        if (
+          isLifiDiamond(emitter) &&
+          log.args.receiver.toLowerCase() === receiver &&
+          log.args.receivingAssetId.toLowerCase() === tokenAddress
+        ) {
+          bridged += log.args.amount
+          kinds.add('lifi-bridge')
+        }
+      } else if (log.eventName === 'Deposit') {
+        if (log.args.owner.toLowerCase() !== receiver || !vaults) continue
+        const asset = depositToken(vaults, emitter, receiver)
+        if (asset && getTokenAddress(asset, chainId)?.toLowerCase() === tokenAddress) {
+          deposited += log.args.assets
+          kinds.add('vault-deposit')
+        }
+      }
+    }
+
+    if (kinds.size === 0) continue
+
+    // A bridge completion also emits the Transfer to the receiver, so the two
+    // describe the same funds — count whichever is larger, not both.
+    const amountRaw = (transferred > bridged ? transferred : bridged) + deposited + native
+    payments.push({ token, amountRaw, kinds: Array.from(kinds) })
+  }
+
+  return {
+    payments,
+    from: receipt.from.toLowerCase(),
+    chainId,
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+  }
+}
+
+/**
+ * Verify that `txHash` on `chain` pays `invoice.receiverAddress` in the
+ * invoice token or another accepted token, and report the amount received
+ * converted to the invoice's denomination (its fiat currency, if any, at the
+ * current rate). Whether that settles the invoice is up to the caller (see
+ * `applyPayment`).
+ */
+export async function verifyInvoicePayment(
+  invoice: Invoice,
+  claim: { txHash: string; chain: string | number },
+  client?: PublicClient,
+): Promise<PaymentVerification> {
+  if (!/^0x[a-fA-F0-9]{64}$/.test(claim.txHash)) {
+    return { verified: false, error: 'Invalid transaction hash' }
+  }
+
+  const chainName = resolveVerifyChain(claim.chain)
+  if (!chainName) {
+    return { verified: false, error: `Unsupported chain "${claim.chain}"` }
+  }
+
+  const invoiceToken = invoice.token.toUpperCase()
+  const tokens = [invoiceToken, ...ACCEPTED_PAYMENT_TOKENS.filter((t) => t !== invoiceToken)]
+  const chainClient = client ?? getVerifyClient(chainName)
+
+  const found = await findPaymentsToReceiver({
+    txHash: claim.txHash as Hex,
+    chain: chainName,
+    receiver: invoice.receiverAddress,
+    tokens,
+    client: chainClient,
+  })
+  if ('error' in found) {
+    return { verified: false, error: found.error }
+  }
+
+  // Block timestamps are in seconds; a payment in the invoice's own second counts
+  const block = await chainClient.getBlock({ blockHash: found.blockHash })
+  if (Number(block.timestamp) < Math.floor(new Date(invoice.createdAt).getTime() / 1000)) {
+    return { verified: false, error: 'Transaction was mined before the invoice was created' }
+  }
+
+  // Prefer evidence in the invoice token; otherwise take the first accepted token
+  const payment = found.payments[0]
+  if (!payment) {
+    return { verified: false, error: `No payment to ${invoice.receiverAddress} found in transaction` }
+  }
+
+  const paidAmount = formatUnits(payment.amountRaw, getTokenDecimals(payment.token))
+  const denomination = invoice.currency ?? invoiceToken
+  let amount = paidAmount
+  if (payment.token !== denomination) {
+    const converted = invoice.currency
+      ? await convertToCurrency(parseFloat(paidAmount), payment.token, invoice.currency)
+      : await convertTokenAmount(parseFloat(paidAmount), payment.token, invoiceToken)
+    if (converted === null) {
+      return { verified: false, error: `Could not price ${payment.token} in ${denomination}` }
+    }
+    // Round down to the invoice's precision so conversions never overstate a payment
+    const decimals = Math.min(getInvoiceDecimals(invoice), 8)
+    amount = formatUnits(parseUnits(converted.toFixed(decimals + 2).slice(0, -2), decimals), decimals)
+  }
+
+  return {
+    verified: true,
+    txHash: claim.txHash.toLowerCase(),
+    chain: chainName,
+    chainId: found.chainId,
+    blockNumber: found.blockNumber.toString(),
+    from: found.from,
+    kinds: payment.kinds,
+    token: payment.token,
+    paidAmount,
+    amount,
+  }
+}
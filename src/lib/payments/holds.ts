@@ -0,0 +1,292 @@
+/**
+ * Manual-approval holds for payments above a receiver's PayConfig
+ * `limits.max`.
+ *
+ * /api/quote creates a hold instead of returning routes, once the payer
+ * has asked for one with an EIP-712 RequestPaymentHold signature; the
+ * receiver approves or rejects it with a DecidePaymentHold signature (both
+ * free, no gas), after which quoting the same payment returns routes.
+ * /api/execute consumes the approval, so it covers a single payment. Holds
+ * live in the "payment-holds" collection of the shared storage layer;
+ * pending holds and unused approvals lapse after HOLD_TTL_MS.
+ */
+
+import { randomUUID } from 'crypto'
+import { verifyTypedData, type Hex } from 'viem'
+import { PREFERENCE_DOMAIN } from '@/lib/ens/eip712'
+import { createRepository } from '@/lib/storage/repository'
+
+export type PaymentHoldStatus = 'pending_approval' | 'approved' | 'rejected' | 'expired' | 'used'
+
+export interface PaymentHold {
+  id: string
+  status: PaymentHoldStatus
+  receiverEns: string
+  /** Lowercased address of the receiver, who decides the hold */
+  receiverAddress: string
+  payerAddress: string
+  amount: string
+  fromToken: string
+  fromChain: string
+  amountUsd: number
+  /** The receiver's limits.max at the time of the quote */
+  maxUsd: number
+  createdAt: string
+  expiresAt: string
+  decidedAt?: string
+  /** When /api/execute prepared the approved payment */
+  usedAt?: string
+}
+
+export type PaymentHoldDecision = 'approve' | 'reject'
+
+const HOLD_TTL_MS = 24 * 60 * 60 * 1000
+
+const holds = createRepository<PaymentHold>('payment-holds')
+
+/**
+ * Open holds past their expiry read as expired: a pending hold nobody
+ * decided, or an approval the payer didn't use in time.
+ */
+function withExpiry(hold: PaymentHold, now = Date.now()): PaymentHold {
+  const open = hold.status === 'pending_approval' || hold.status === 'approved'
+  if (open && new Date(hold.expiresAt).getTime() <= now) {
+    return { ...hold, status: 'expired' }
+  }
+  return hold
+}
+
+export async function getPaymentHold(id: string): Promise<PaymentHold | null> {
+  const hold = await holds.get(id)
+  return hold ? withExpiry(hold) : null
+}
+
+export async function listPaymentHolds(filter: {
+  receiverAddress?: string
+  payerAddress?: string
+  status?: PaymentHoldStatus
+} = {}): Promise<PaymentHold[]> {
+  return (await holds.list())
+    .map((hold) => withExpiry(hold))
+    .filter((hold) =>
+      (!filter.receiverAddress || hold.receiverAddress === filter.receiverAddress.toLowerCase()) &&
+      (!filter.payerAddress || hold.payerAddress === filter.payerAddress.toLowerCase()) &&
+      (!filter.status || hold.status === filter.status),
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export type HeldPayment = {
+  receiverEns: string
+  payerAddress: string
+  amount: string
+  fromToken: string
+  fromChain: string
+}
+
+/** Whether `hold` was opened for this payment. */
+export function isHoldFor(hold: PaymentHold, payment: HeldPayment): boolean {
+  return hold.receiverEns === payment.receiverEns.toLowerCase() &&
+    hold.payerAddress === payment.payerAddress.toLowerCase() &&
+    hold.amount === payment.amount &&
+    hold.fromToken === payment.fromToken.toUpperCase() &&
+    hold.fromChain === payment.fromChain.toLowerCase()
+}
+
+/**
+ * The open (pending or approved) hold for this payment, if any.
+ */
+export async function findOpenHold(payment: HeldPayment): Promise<PaymentHold | null> {
+  return (await listPaymentHolds({ payerAddress: payment.payerAddress }))
+    .find((hold) => (hold.status === 'pending_approval' || hold.status === 'approved') && isHoldFor(hold, payment)) ?? null
+}
+
+/**
+ * Find the open (pending or approved) hold for this payment, or create one.
+ * Re-quoting the same payment (receiver, payer, amount, source token and
+ * chain) returns the same hold rather than a new one. The caller checks
+ * the payer's request with `verifyHoldRequest` first.
+ */
+export async function holdPayment(payment: HeldPayment & {
+  receiverAddress: string
+  amountUsd: number
+  maxUsd: number
+}): Promise<{ hold: PaymentHold; created: boolean }> {
+  return holds.transaction((tx) => {
+    const now = Date.now()
+    const existing = tx.list()
+      .map((hold) => withExpiry(hold, now))
+      .find((hold) => (hold.status === 'pending_approval' || hold.status === 'approved') && isHoldFor(hold, payment))
+    if (existing) return { hold: existing, created: false }
+
+    const hold: PaymentHold = {
+      id: `hold_${randomUUID()}`,
+      status: 'pending_approval',
+      receiverEns: payment.receiverEns.toLowerCase(),
+      receiverAddress: payment.receiverAddress.toLowerCase(),
+      payerAddress: payment.payerAddress.toLowerCase(),
+      amount: payment.amount,
+      fromToken: payment.fromToken.toUpperCase(),
+      fromChain: payment.fromChain.toLowerCase(),
+      amountUsd: payment.amountUsd,
+      maxUsd: payment.maxUsd,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + HOLD_TTL_MS).toISOString(),
+    }
+    tx.put(hold.id, hold)
+    return { hold, created: true }
+  })
+}
+
+/**
+ * Approve or reject a pending hold. Only the receiver may decide, which the
+ * caller checks with `verifyHoldDecision` first.
+ */
+export async function decidePaymentHold(
+  id: string,
+  decision: PaymentHoldDecision,
+): Promise<{ hold: PaymentHold } | { error: string; notFound?: boolean }> {
+  return holds.transaction((tx) => {
+    const current = tx.get(id)
+    if (!current) return { error: 'Hold not found', notFound: true }
+
+    const hold = withExpiry(current)
+    if (hold.status !== 'pending_approval') {
+      return { error: `Hold is already ${hold.status}` }
+    }
+
+    const now = Date.now()
+    const decided: PaymentHold = {
+      ...hold,
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      decidedAt: new Date(now).toISOString(),
+      // An approval gives the payer a fresh window to pay
+      ...(decision === 'approve' && { expiresAt: new Date(now + HOLD_TTL_MS).toISOString() }),
+    }
+    tx.put(id, decided)
+    return { hold: decided }
+  })
+}
+
+/**
+ * Mark the approved hold `id` used by this payment, so the approval can't
+ * be spent twice.
+ */
+export async function consumePaymentHold(
+  id: string,
+  payment: HeldPayment,
+): Promise<{ hold: PaymentHold } | { error: string; notFound?: boolean }> {
+  return holds.transaction((tx) => {
+    const current = tx.get(id)
+    if (!current || !isHoldFor(current, payment)) return { error: 'Hold not found', notFound: true }
+
+    const hold = withExpiry(current)
+    if (hold.status !== 'approved') {
+      return { error: hold.status === 'pending_approval' ? 'Hold is not approved yet' : `Hold is ${hold.status}` }
+    }
+
+    const used: PaymentHold = { ...hold, status: 'used', usedAt: new Date().toISOString() }
+    tx.put(id, used)
+    return { hold: used }
+  })
+}
+
+export const REQUEST_PAYMENT_HOLD_TYPES = {
+  RequestPaymentHold: [
+    { name: 'payer', type: 'address' },
+    { name: 'receiver', type: 'string' },
+    { name: 'amount', type: 'string' },
+    { name: 'fromToken', type: 'string' },
+    { name: 'fromChain', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const
+
+export const DECIDE_PAYMENT_HOLD_TYPES = {
+  DecidePaymentHold: [
+    { name: 'receiver', type: 'address' },
+    { name: 'holdId', type: 'string' },
+    { name: 'decision', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const
+
+// How long a request or decision signature stays valid
+const AUTH_WINDOW_SECONDS = 10 * 60
+
+/**
+ * Verify that `receiver` signed a DecidePaymentHold message for this hold
+ * and decision within the last few minutes.
+ */
+export async function verifyHoldDecision(params: {
+  receiver: string
+  holdId: string
+  decision: PaymentHoldDecision
+  issuedAt: number
+  signature: string
+}): Promise<{ valid: true } | { valid: false; error: string }> {
+  const now = Math.floor(Date.now() / 1000)
+  if (!Number.isInteger(params.issuedAt) || Math.abs(now - params.issuedAt) > AUTH_WINDOW_SECONDS) {
+    return { valid: false, error: 'Authorization expired or issuedAt invalid' }
+  }
+
+  try {
+    const valid = await verifyTypedData({
+      address: params.receiver as Hex,
+      domain: PREFERENCE_DOMAIN,
+      types: DECIDE_PAYMENT_HOLD_TYPES,
+      primaryType: 'DecidePaymentHold',
+      message: {
+        receiver: params.receiver as Hex,
+        holdId: params.holdId,
+        decision: params.decision,
+        issuedAt: BigInt(params.issuedAt),
+      },
+      signature: params.signature as Hex,
+    })
+    return valid ? { valid: true } : { valid: false, error: 'Invalid signature' }
+  } catch {
+    return { valid: false, error: 'Invalid signature' }
+  }
+}
+
+/** RequestPaymentHold message for `payment`, except its issuedAt. */
+export function holdRequestMessage(payment: HeldPayment) {
+  return {
+    payer: payment.payerAddress as Hex,
+    receiver: payment.receiverEns.toLowerCase(),
+    amount: payment.amount,
+    fromToken: payment.fromToken.toUpperCase(),
+    fromChain: payment.fromChain.toLowerCase(),
+  }
+}
+
+/**
+ * Verify that the payer signed a RequestPaymentHold message for this
+ * payment within the last few minutes, so holds (and the receiver's
+ * payment.held notifications) can't be opened in someone else's name.
+ * `receiver` is the lowercased ENS name or address being paid.
+ */
+export async function verifyHoldRequest(
+  payment: HeldPayment,
+  params: { issuedAt: number; signature: string },
+): Promise<{ valid: true } | { valid: false; error: string }> {
+  const now = Math.floor(Date.now() / 1000)
+  if (!Number.isInteger(params.issuedAt) || Math.abs(now - params.issuedAt) > AUTH_WINDOW_SECONDS) {
+    return { valid: false, error: 'Authorization expired or issuedAt invalid' }
+  }
+
+  try {
+    const valid = await verifyTypedData({
+      address: payment.payerAddress as Hex,
+      domain: PREFERENCE_DOMAIN,
+      types: REQUEST_PAYMENT_HOLD_TYPES,
+      primaryType: 'RequestPaymentHold',
+      message: { ...holdRequestMessage(payment), issuedAt: BigInt(params.issuedAt) },
+      signature: params.signature as Hex,
+    })
+    return valid ? { valid: true } : { valid: false, error: 'Invalid signature' }
+  } catch {
+    return { valid: false, error: 'Invalid signature' }
+  }
+}
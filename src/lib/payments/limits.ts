@@ -0,0 +1,41 @@
+/**
+ * PayConfig payment limits.
+ *
+ * A receiver's `limits.min` and `limits.max` are in USD; the payment is
+ * priced in its source token at the current rate. Both /api/quote and
+ * /api/execute apply them, so calling execute directly doesn't skip them:
+ * payments below the minimum are refused and payments above the maximum
+ * need an approved hold (see holds.ts).
+ */
+
+import { getTokenPriceUsd } from '@/lib/invoices/conversion'
+import type { PayConfigV2 } from '@/lib/ens/pay-config'
+
+export type LimitCheck =
+  | { within: true; amountUsd?: number }
+  | { within: false; code: 'below_minimum'; amountUsd: number; minUsd: number }
+  | { within: false; code: 'above_maximum'; amountUsd: number; maxUsd: number }
+
+/**
+ * Check `amount` of `fromToken` against the receiver's limits. Returns an
+ * error when the token can't be priced, since the limits can't be applied.
+ */
+export async function checkPaymentLimits(
+  limits: PayConfigV2['limits'],
+  amount: string,
+  fromToken: string,
+): Promise<LimitCheck | { error: string }> {
+  if (!limits || (limits.min === undefined && limits.max === undefined)) return { within: true }
+
+  const price = await getTokenPriceUsd(fromToken)
+  if (price === null) return { error: `Cannot price ${fromToken} to check the payment limits` }
+  const amountUsd = parseFloat(amount) * price
+
+  if (limits.min !== undefined && amountUsd < limits.min) {
+    return { within: false, code: 'below_minimum', amountUsd, minUsd: limits.min }
+  }
+  if (limits.max !== undefined && amountUsd > limits.max) {
+    return { within: false, code: 'above_maximum', amountUsd, maxUsd: limits.max }
+  }
+  return { within: true, amountUsd }
+}
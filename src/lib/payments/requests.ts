@@ -0,0 +1,193 @@
+/**
+ * Receiver-signed payment requests.
+ *
+ * The receiver signs a PaymentRequest (amount, token, chain, expiry, memo,
+ * nonce) with EIP-712 and gets back a short ID; `req-{id}.{name}.eth`
+ * then resolves over CCIP-Read to the signed fields plus
+ * `com.payagent.verified`, and /pay/{name}?request={id} prefills them.
+ * The ID is derived from the typed-data hash, so submitting the same
+ * signed request twice returns the same ID; pick a new nonce for another
+ * request with the same fields.
+ *
+ * Requests live in the "payment-requests" collection of the shared storage
+ * layer, keyed by ID.
+ */
+
+import { hashTypedData, verifyTypedData, type Hex } from 'viem'
+import { PREFERENCE_DOMAIN } from '@/lib/ens/eip712'
+import { createRepository } from '@/lib/storage/repository'
+
+export interface PaymentRequest {
+  id: string
+  receiverEns: string
+  /** Lowercased address that signed the request */
+  receiverAddress: string
+  amount: string
+  token: string
+  chain: string
+  /** Unix seconds */
+  expiry: number
+  memo: string
+  nonce: string
+  signature: string
+  createdAt: string
+}
+
+export type PaymentRequestFields = {
+  ensName: string
+  amount: string
+  token: string
+  chain: string
+  expiry: bigint
+  memo: string
+  nonce: bigint
+}
+
+export const PAYMENT_REQUEST_TYPES = {
+  PaymentRequest: [
+    { name: 'ensName', type: 'string' },
+    { name: 'amount', type: 'string' },
+    { name: 'token', type: 'string' },
+    { name: 'chain', type: 'string' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'memo', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const
+
+/** Longest a request may stay payable. */
+export const MAX_PAYMENT_REQUEST_SECONDS = 90 * 24 * 60 * 60
+
+const MAX_MEMO_LENGTH = 140
+
+const requests = createRepository<PaymentRequest>('payment-requests')
+
+/**
+ * Short, DNS-label-safe ID for a signed request: the first 12 hex digits
+ * of its EIP-712 hash.
+ */
+export function paymentRequestId(fields: PaymentRequestFields): string {
+  const hash = hashTypedData({
+    domain: PREFERENCE_DOMAIN,
+    types: PAYMENT_REQUEST_TYPES,
+    primaryType: 'PaymentRequest',
+    message: fields,
+  })
+  return hash.slice(2, 14)
+}
+
+export function isPaymentRequestExpired(request: PaymentRequest, now = Date.now()): boolean {
+  return request.expiry * 1000 <= now
+}
+
+/**
+ * Validate untrusted request fields (e.g. from an API request body).
+ */
+export function validatePaymentRequest(
+  input: Record<string, unknown>,
+): { fields: PaymentRequestFields } | { error: string } {
+  const { ensName, amount, token, chain, expiry, memo = '', nonce } = input
+
+  if (typeof ensName !== 'string' || !ensName.includes('.')) return { error: 'ensName must be an ENS name' }
+  if (typeof amount !== 'string' || !/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+    return { error: 'amount must be a positive decimal string' }
+  }
+  if (typeof token !== 'string' || !/^[A-Za-z0-9]+$/.test(token)) return { error: 'token must be a token symbol' }
+  if (typeof chain !== 'string' || !chain) return { error: 'chain is required' }
+  if (typeof memo !== 'string' || memo.length > MAX_MEMO_LENGTH) {
+    return { error: `memo must be a string of at most ${MAX_MEMO_LENGTH} characters` }
+  }
+
+  let parsedExpiry: bigint
+  let parsedNonce: bigint
+  try {
+    parsedExpiry = BigInt(expiry as string | number)
+    parsedNonce = BigInt(nonce as string | number)
+  } catch {
+    return { error: 'expiry and nonce must be non-negative integers' }
+  }
+  if (parsedNonce < BigInt(0)) return { error: 'expiry and nonce must be non-negative integers' }
+
+  const now = BigInt(Math.floor(Date.now() / 1000))
+  if (parsedExpiry <= now) return { error: 'expiry must be in the future' }
+  if (parsedExpiry > now + BigInt(MAX_PAYMENT_REQUEST_SECONDS)) {
+    return { error: `expiry too far in the future (max ${MAX_PAYMENT_REQUEST_SECONDS}s)` }
+  }
+
+  return {
+    fields: { ensName, amount, token, chain, expiry: parsedExpiry, memo, nonce: parsedNonce },
+  }
+}
+
+export async function verifyPaymentRequestSignature(
+  fields: PaymentRequestFields,
+  signer: string,
+  signature: string,
+): Promise<boolean> {
+  try {
+    return await verifyTypedData({
+      address: signer as Hex,
+      domain: PREFERENCE_DOMAIN,
+      types: PAYMENT_REQUEST_TYPES,
+      primaryType: 'PaymentRequest',
+      message: fields,
+      signature: signature as Hex,
+    })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Store a signed request. The caller checks the signature and that the
+ * signer owns `fields.ensName` first.
+ */
+export async function savePaymentRequest(
+  fields: PaymentRequestFields,
+  signer: string,
+  signature: string,
+): Promise<PaymentRequest | { error: string }> {
+  const id = paymentRequestId(fields)
+  return requests.transaction((tx): PaymentRequest | { error: string } => {
+    const existing = tx.get(id)
+    if (existing) {
+      // Same typed-data hash prefix but different fields: astronomically
+      // unlikely, but never hand back someone else's request
+      const same =
+        existing.receiverEns === fields.ensName.toLowerCase() &&
+        existing.nonce === fields.nonce.toString() &&
+        existing.expiry === Number(fields.expiry)
+      return same ? existing : { error: 'Request ID collision, sign again with a new nonce' }
+    }
+
+    const request: PaymentRequest = {
+      id,
+      receiverEns: fields.ensName.toLowerCase(),
+      receiverAddress: signer.toLowerCase(),
+      amount: fields.amount,
+      token: fields.token,
+      chain: fields.chain,
+      expiry: Number(fields.expiry),
+      memo: fields.memo,
+      nonce: fields.nonce.toString(),
+      signature,
+      createdAt: new Date().toISOString(),
+    }
+    tx.put(id, request)
+    return request
+  })
+}
+
+export async function getPaymentRequest(id: string): Promise<PaymentRequest | null> {
+  return requests.get(id.toLowerCase())
+}
+
+/**
+ * A receiver's requests, newest first.
+ */
+export async function listPaymentRequests(receiverEns: string): Promise<PaymentRequest[]> {
+  const name = receiverEns.toLowerCase()
+  return (await requests.list())
+    .filter((r) => r.receiverEns === name)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
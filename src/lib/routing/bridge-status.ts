@@ -0,0 +1,41 @@
+import { createConfig, getStatus } from '@lifi/sdk'
+
+createConfig({ integrator: 'payagent' })
+
+export type BridgeStatus =
+  | { status: 'done'; txHash: string; chainId: number; fromAddress?: string }
+  | { status: 'pending' }
+  | { status: 'failed'; error: string }
+
+/**
+ * Where a LI.FI cross-chain transfer sent from `fromChainId` in `txHash`
+ * landed on `toChainId`: the destination transaction (and the sender of the
+ * source one) once the bridge has delivered, `pending` until then.
+ */
+export async function getBridgeStatus(
+  txHash: string,
+  fromChainId: number,
+  toChainId: number,
+): Promise<BridgeStatus> {
+  const status = await getStatus({ txHash, fromChain: fromChainId, toChain: toChainId })
+
+  switch (status.status) {
+    case 'DONE': {
+      if (status.substatus === 'REFUNDED') {
+        return { status: 'failed', error: 'The bridge refunded the transfer' }
+      }
+      // Pending receiving info has only the chain
+      const receiving = 'receiving' in status ? status.receiving as { chainId: number; txHash?: string } : undefined
+      if (!receiving?.txHash) return { status: 'pending' }
+      const fromAddress = 'fromAddress' in status ? status.fromAddress.toLowerCase() : undefined
+      return { status: 'done', txHash: receiving.txHash, chainId: receiving.chainId, fromAddress }
+    }
+    case 'FAILED':
+      return { status: 'failed', error: `Bridge transfer failed${status.substatus ? ` (${status.substatus})` : ''}` }
+    case 'INVALID':
+      return { status: 'failed', error: 'Not a LI.FI transfer' }
+    default:
+      // NOT_FOUND until LI.FI has indexed the source transaction
+      return { status: 'pending' }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Contracts whose events count as evidence of a payment.
+ *
+ * Anyone can emit a Transfer, Deposit or LiFiTransferCompleted look-alike
+ * from their own contract, so payment evidence is only taken from:
+ *   - the token contract itself, for Transfer
+ *   - the LI.FI diamond, for LiFiTransferCompleted
+ *   - a known vault from VAULT_TOKEN_MAP, for Deposit to any receiver, or
+ *     the receiver's own PayConfig vault, for Deposit to that receiver only
+ *
+ * Used by invoice payment verification, receipt POSTs and the receipt
+ * ingester alike.
+ */
+
+import { parseAbi, type Address, type PublicClient } from 'viem'
+import { TOKEN_MAP, VAULT_TOKEN_MAP } from './tokens'
+
+/** The LI.FI diamond; the same address on every supported chain. */
+export const LIFI_DIAMOND = '0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE'
+
+const erc4626Abi = parseAbi(['function asset() view returns (address)'])
+
+export type DepositVaults = {
+  /** Vault -> symbol of the token it holds, null if not a known token */
+  assets: Map<string, string | null>
+  /** Receivers' own vaults -> the receivers whose deposits into them count */
+  ownVaults: Map<string, Set<string>>
+}
+
+export function isLifiDiamond(address: string): boolean {
+  return address.toLowerCase() === LIFI_DIAMOND.toLowerCase()
+}
+
+/** Symbol of the TOKEN_MAP token at `address` on `chainId`, or null. */
+export function tokenSymbol(address: string, chainId: number): string | null {
+  const lower = address.toLowerCase()
+  for (const [symbol, entry] of Object.entries(TOKEN_MAP)) {
+    if (entry.addresses[chainId]?.toLowerCase() === lower) return symbol
+  }
+  return null
+}
+
+/**
+ * Vaults whose Deposit events count on `chainId`. `receiverVaults` maps
+ * each receiver to its own PayConfig vault on that chain; the asset of
+ * those is read from the vault.
+ */
+export async function getDepositVaults(
+  client: PublicClient,
+  chainId: number,
+  receiverVaults: Map<string, string>,
+): Promise<DepositVaults> {
+  const assets = new Map<string, string | null>()
+  for (const entry of Object.values(VAULT_TOKEN_MAP)) {
+    const vault = entry.addresses[chainId]
+    if (vault) assets.set(vault.toLowerCase(), entry.underlying)
+  }
+
+  const ownVaults = new Map<string, Set<string>>()
+  for (const [receiver, configured] of receiverVaults) {
+    const vault = configured.toLowerCase()
+    if (assets.has(vault)) continue
+    if (!ownVaults.has(vault)) ownVaults.set(vault, new Set())
+    ownVaults.get(vault)!.add(receiver.toLowerCase())
+  }
+  for (const vault of ownVaults.keys()) {
+    const asset = await client
+      .readContract({ address: vault as Address, abi: erc4626Abi, functionName: 'asset' })
+      .catch(() => null)
+    assets.set(vault, asset ? tokenSymbol(asset, chainId) : null)
+  }
+
+  return { assets, ownVaults }
+}
+
+/**
+ * Token a Deposit on `vault` to `owner` pays in, or null when it doesn't
+ * count as a payment.
+ */
+export function depositToken(vaults: DepositVaults, vault: string, owner: string): string | null {
+  const address = vault.toLowerCase()
+  const own = vaults.ownVaults.get(address)
+  if (own && !own.has(owner.toLowerCase())) return null
+  return vaults.assets.get(address) ?? null
+}
@@ -0,0 +1,68 @@
+/**
+ * Storage backend contract.
+ *
+ * A backend keeps JSON-serialisable records in named collections, each keyed
+ * by string. It only has to provide point reads, a full scan, an atomic batch
+ * write and a per-collection write lock; typed access, read-modify-write
+ * transactions and in-process queueing live in `repository.ts` on top.
+ *
+ * Backends shipped here:
+ *   - file (default): one JSON file per collection, see `file.ts`
+ *   - sqlite: a single SQLite database file, see `sqlite.ts`
+ *   - memory: process-local, for experiments and read-only hosts
+ */
+
+export type RecordChange = {
+  key: string
+  /** New value, or null to delete the key */
+  value: unknown | null
+}
+
+export interface StorageBackend {
+  readonly kind: string
+  get(collection: string, key: string): Promise<unknown | null>
+  entries(collection: string): Promise<Array<[string, unknown]>>
+  /** Apply every change or none of them. */
+  write(collection: string, changes: RecordChange[]): Promise<void>
+  /**
+   * Run `fn` while holding the collection's write lock. File-based backends
+   * lock across processes; the memory backend relies on the repository's
+   * in-process queue alone.
+   */
+  lock<T>(collection: string, fn: () => Promise<T>): Promise<T>
+}
+
+export function createMemoryBackend(): StorageBackend {
+  const collections = new Map<string, Map<string, unknown>>()
+
+  function collectionMap(name: string): Map<string, unknown> {
+    let map = collections.get(name)
+    if (!map) {
+      map = new Map()
+      collections.set(name, map)
+    }
+    return map
+  }
+
+  // Values are cloned in and out so callers can't mutate stored records
+  return {
+    kind: 'memory',
+    async get(collection, key) {
+      const value = collectionMap(collection).get(key)
+      return value === undefined ? null : structuredClone(value)
+    },
+    async entries(collection) {
+      return Array.from(collectionMap(collection), ([key, value]) => [key, structuredClone(value)])
+    },
+    async write(collection, changes) {
+      const map = collectionMap(collection)
+      for (const { key, value } of changes) {
+        if (value === null) map.delete(key)
+        else map.set(key, structuredClone(value))
+      }
+    },
+    async lock(_collection, fn) {
+      return fn()
+    },
+  }
+}
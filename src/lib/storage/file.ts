@@ -0,0 +1,123 @@
+/**
+ * JSON-file storage backend.
+ *
+ * Each collection is one file, `{dir}/{collection}.json`, holding an object
+ * keyed by record key. Writes go to a temp file that is renamed into place,
+ * so a crash mid-write never leaves a truncated file, and each collection
+ * has a lock file so separate processes (e.g. `next dev` workers and a
+ * script) don't overwrite each other's changes.
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdir, open, readFile, rename, rm, stat, utimes, writeFile } from 'fs/promises'
+import path from 'path'
+import type { StorageBackend } from './backend'
+
+const LOCK_RETRY_MS = 25
+const LOCK_TIMEOUT_MS = 10 * 1000
+// A lock file not touched for this long was left behind by a crashed process
+const LOCK_STALE_MS = 30 * 1000
+// How often the holder touches its lock file, well within LOCK_STALE_MS
+const LOCK_REFRESH_MS = 5 * 1000
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === code
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file at `lockPath`.
+ *
+ * The lock file holds a token unique to this holder, and its mtime is
+ * refreshed while `fn` runs so a long-running holder isn't taken for a
+ * crashed one. On release it is removed only if it still holds our token,
+ * i.e. if no other process broke it as stale meanwhile.
+ */
+export async function withLockFile<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  await mkdir(path.dirname(lockPath), { recursive: true })
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  const token = `${process.pid}:${randomUUID()}`
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx')
+      await handle.writeFile(token)
+      await handle.close()
+      break
+    } catch (error) {
+      if (!isErrorCode(error, 'EEXIST')) throw error
+
+      const lockStat = await stat(lockPath).catch(() => null)
+      if (lockStat && Date.now() - lockStat.mtimeMs > LOCK_STALE_MS) {
+        await rm(lockPath, { force: true })
+        continue
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for storage lock ${lockPath}`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+    }
+  }
+
+  const refresh = setInterval(() => {
+    const now = new Date()
+    utimes(lockPath, now, now).catch(() => undefined)
+  }, LOCK_REFRESH_MS)
+  refresh.unref()
+
+  try {
+    return await fn()
+  } finally {
+    clearInterval(refresh)
+    const holder = await readFile(lockPath, 'utf-8').catch(() => null)
+    if (holder === token) await rm(lockPath, { force: true })
+  }
+}
+
+/**
+ * Write `contents` to `filePath` via a temp file and rename.
+ */
+export async function writeFileAtomic(filePath: string, contents: string | Uint8Array): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  await writeFile(tmpPath, contents)
+  await rename(tmpPath, filePath)
+}
+
+export function createFileBackend(dir: string): StorageBackend {
+  const filePath = (collection: string) => path.join(dir, `${collection}.json`)
+
+  async function readCollection(collection: string): Promise<Record<string, unknown>> {
+    let raw: string
+    try {
+      raw = await readFile(filePath(collection), 'utf-8')
+    } catch (error) {
+      if (isErrorCode(error, 'ENOENT')) return {}
+      throw error
+    }
+    // A file that doesn't parse is left alone rather than overwritten
+    return JSON.parse(raw) as Record<string, unknown>
+  }
+
+  return {
+    kind: 'file',
+    async get(collection, key) {
+      const records = await readCollection(collection)
+      return Object.hasOwn(records, key) ? records[key] : null
+    },
+    async entries(collection) {
+      return Object.entries(await readCollection(collection))
+    },
+    async write(collection, changes) {
+      if (changes.length === 0) return
+      const records = await readCollection(collection)
+      for (const { key, value } of changes) {
+        if (value === null) delete records[key]
+        else records[key] = value
+      }
+      await writeFileAtomic(filePath(collection), JSON.stringify(records, null, 2))
+    },
+    async lock(collection, fn) {
+      return withLockFile(`${filePath(collection)}.lock`, fn)
+    },
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Storage migrations.
+ *
+ * Applied in version order the first time a process touches storage, with
+ * each applied version recorded in the `_migrations` collection. The runner
+ * holds that collection's lock, so concurrent processes apply each migration
+ * once. Migrations work on the raw backend and hardcode collection names:
+ * they describe the data as it was when they were written, not the current
+ * repository code.
+ *
+ * Never edit a migration that has shipped; add a new one instead. Each `up`
+ * should tolerate being re-run after a partial failure.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { namehash } from 'viem/ens'
+import type { StorageBackend } from './backend'
+
+export interface Migration {
+  version: number
+  name: string
+  up(backend: StorageBackend): Promise<void>
+}
+
+const MIGRATIONS_COLLECTION = '_migrations'
+
+async function readLegacyJson(filePath: string): Promise<Record<string, unknown> | null> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8')) as Record<string, unknown>
+  } catch {
+    return null
+  }
+}
+
+/** Copy records that don't exist yet; existing keys win. */
+async function importRecords(
+  backend: StorageBackend,
+  collection: string,
+  records: Record<string, unknown> | null | undefined,
+): Promise<void> {
+  if (!records) return
+  const existing = new Set((await backend.entries(collection)).map(([key]) => key))
+  const changes = Object.entries(records)
+    .filter(([key]) => !existing.has(key))
+    .map(([key, value]) => ({ key, value }))
+  await backend.write(collection, changes)
+}
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    name: 'import-legacy-json-stores',
+    async up(backend) {
+      // The per-feature JSON files used before the shared storage layer.
+      // They are left in place; delete them once the import is confirmed.
+      const dataDir = path.join(process.cwd(), 'data')
+
+      await importRecords(backend, 'preferences', await readLegacyJson(path.join(dataDir, 'ens-preferences.json')))
+      await importRecords(backend, 'receipts', await readLegacyJson(path.join(dataDir, 'ens-receipts.json')))
+      await importRecords(
+        backend,
+        'invoices',
+        await readLegacyJson(process.env.INVOICE_STORE_PATH || path.join(dataDir, 'invoices.json')),
+      )
+      await importRecords(
+        backend,
+        'subscriptions',
+        await readLegacyJson(process.env.SUBSCRIPTION_STORE_PATH || path.join(dataDir, 'subscriptions.json')),
+      )
+
+      const webhooks = await readLegacyJson(process.env.WEBHOOK_STORE_PATH || path.join(dataDir, 'webhooks.json'))
+      await importRecords(backend, 'webhook-endpoints', webhooks?.endpoints as Record<string, unknown> | undefined)
+      await importRecords(backend, 'webhook-deliveries', webhooks?.deliveries as Record<string, unknown> | undefined)
+    },
+  },
+  {
+    version: 2,
+    name: 'seed-demo-referrals',
+    async up(backend) {
+      // Referrals used to be an in-memory map seeded with this demo data on
+      // every start; seed it once now that they persist.
+      const createdAt = Date.now() - 30 * 24 * 60 * 60 * 1000
+      const expiresAt = createdAt + 6 * 30 * 24 * 60 * 60 * 1000
+      const demo = (referred: string, totalEarned: number) => ({
+        referrer: 'vitalik.eth',
+        referred,
+        createdAt,
+        expiresAt,
+        totalEarned,
+        isActive: true,
+      })
+      await importRecords(backend, 'referrals', {
+        'alice.eth': demo('alice.eth', 25),
+        'bob.eth': demo('bob.eth', 15),
+      })
+    },
+  },
+  {
+    version: 3,
+    name: 'index-preferences-by-node-and-signer',
+    async up(backend) {
+      const nodes: Record<string, string> = {}
+      const signers: Record<string, string[]> = {}
+
+      for (const [name, value] of await backend.entries('preferences')) {
+        const signer = (value as { signer?: string }).signer?.toLowerCase()
+        try {
+          nodes[namehash(name)] = name
+        } catch {
+          continue
+        }
+        if (signer) signers[signer] = [...(signers[signer] ?? []), name]
+      }
+
+      await backend.write('preference-nodes', Object.entries(nodes).map(([key, value]) => ({ key, value })))
+      await backend.write('preference-signers', Object.entries(signers).map(([key, value]) => ({ key, value })))
+    },
+  },
+  {
+    version: 4,
+    name: 'add-preference-nonces',
+    async up(backend) {
+      // Nonces used to be derived from updatedAt; start every existing name
+      // at 0 now that they are stored counters
+      const changes = (await backend.entries('preferences'))
+        .filter(([, value]) => typeof (value as { nonce?: unknown }).nonce !== 'number')
+        .map(([key, value]) => ({ key, value: { ...(value as object), nonce: 0 } }))
+      await backend.write('preferences', changes)
+    },
+  },
+  {
+    version: 5,
+    name: 'add-invoice-payment-totals',
+    async up(backend) {
+      // Invoices created before partial payments were tracked have no
+      // payments list or totals; a paid (or since refunded) one was settled
+      // in full by its single paidTxHash
+      const changes = (await backend.entries('invoices'))
+        .filter(([, value]) => !Array.isArray((value as { payments?: unknown }).payments))
+        .map(([key, value]) => {
+          const invoice = value as { amount: string; status: string }
+          const settled = invoice.status === 'paid' || invoice.status === 'refunded'
+          return {
+            key,
+            value: {
+              ...invoice,
+              payments: [],
+              amountPaid: settled ? invoice.amount : '0',
+              amountDue: settled ? '0' : invoice.amount,
+            },
+          }
+        })
+      await backend.write('invoices', changes)
+    },
+  },
+]
+
+/**
+ * Apply every migration newer than the backend's recorded state. Returns
+ * the versions applied by this call.
+ */
+export async function runMigrations(
+  backend: StorageBackend,
+  migrations: readonly Migration[] = MIGRATIONS,
+): Promise<number[]> {
+  return backend.lock(MIGRATIONS_COLLECTION, async () => {
+    const applied = new Set((await backend.entries(MIGRATIONS_COLLECTION)).map(([key]) => Number(key)))
+    const pending = migrations
+      .filter((m) => !applied.has(m.version))
+      .sort((a, b) => a.version - b.version)
+
+    for (const migration of pending) {
+      await migration.up(backend)
+      await backend.write(MIGRATIONS_COLLECTION, [{
+        key: String(migration.version),
+        value: { name: migration.name, appliedAt: new Date().toISOString() },
+      }])
+    }
+    return pending.map((m) => m.version)
+  })
+}
@@ -0,0 +1,165 @@
+/**
+ * Shared storage layer.
+ *
+ * Feature stores (preferences, receipts, invoices, subscriptions, webhooks,
+ * referrals, volume) each get a typed `Repository` over one collection of
+ * the active backend, chosen by STORAGE_DRIVER:
+ *   - "file" (default): JSON files under STORAGE_PATH (default data/store/)
+ *   - "sqlite": one SQLite database at STORAGE_PATH (default data/ensio.sqlite)
+ *   - "memory": process-local, e.g. on hosts with a read-only filesystem
+ *
+ * Read-modify-write goes through `transaction`, which holds the collection
+ * lock (queued in-process, lock file across processes) and commits all of
+ * its writes in one batch. Pending migrations run before the first access.
+ * `onCommit` listeners hear about every write committed by this process,
+ * e.g. to invalidate caches built on top of a collection.
+ *
+ * A hosted database can be plugged in by implementing `StorageBackend` and
+ * passing it to `setStorageBackend()` at startup.
+ */
+
+import path from 'path'
+import { createMemoryBackend, type RecordChange, type StorageBackend } from './backend'
+import { createFileBackend } from './file'
+import { createSqliteBackend } from './sqlite'
+import { runMigrations } from './migrations'
+
+/**
+ * Synchronous view of a collection inside a transaction. Reads see the
+ * transaction's own writes; nothing is stored until the callback returns.
+ */
+export interface RepositoryTransaction<T> {
+  get(key: string): T | null
+  list(): T[]
+  put(key: string, value: T): void
+  delete(key: string): boolean
+}
+
+export interface Repository<T> {
+  get(key: string): Promise<T | null>
+  list(): Promise<T[]>
+  entries(): Promise<Array<[string, T]>>
+  put(key: string, value: T): Promise<void>
+  delete(key: string): Promise<boolean>
+  /**
+   * Run `fn` with exclusive write access to the collection and commit its
+   * writes atomically. If `fn` throws, nothing is written.
+   */
+  transaction<R>(fn: (tx: RepositoryTransaction<T>) => R | Promise<R>): Promise<R>
+}
+
+function createDefaultBackend(): StorageBackend {
+  const configuredPath = process.env.STORAGE_PATH
+  switch (process.env.STORAGE_DRIVER) {
+    case 'memory':
+      return createMemoryBackend()
+    case 'sqlite':
+      return createSqliteBackend(configuredPath || path.join(process.cwd(), 'data', 'ensio.sqlite'))
+    default:
+      return createFileBackend(configuredPath || path.join(process.cwd(), 'data', 'store'))
+  }
+}
+
+let backend: StorageBackend | null = null
+let ready: Promise<unknown> | null = null
+
+async function getBackend(): Promise<StorageBackend> {
+  const current = (backend ??= createDefaultBackend())
+  ready ??= runMigrations(current).catch((error) => {
+    // Retry on the next access instead of failing every call from now on
+    ready = null
+    throw error
+  })
+  await ready
+  return current
+}
+
+/**
+ * Replace the active backend. Its migrations run on next access.
+ */
+export function setStorageBackend(next: StorageBackend): void {
+  backend = next
+  ready = null
+}
+
+// Serialises transactions per collection within this process, so the
+// cross-process lock is only contended between processes.
+const queues = new Map<string, Promise<unknown>>()
+
+function enqueue<T>(collection: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(collection) ?? Promise.resolve()).then(task, task)
+  queues.set(collection, run.catch(() => undefined))
+  return run
+}
+
+type CommitListener = (collection: string, keys: string[]) => void
+
+const commitListeners = new Set<CommitListener>()
+
+/**
+ * Call `listener` after each committed write in this process with the
+ * collection and the keys it changed. Returns a function that unsubscribes.
+ * Writes by other processes sharing a file or SQLite backend aren't seen.
+ */
+export function onCommit(listener: CommitListener): () => void {
+  commitListeners.add(listener)
+  return () => commitListeners.delete(listener)
+}
+
+function notifyCommit(collection: string, keys: string[]): void {
+  for (const listener of commitListeners) {
+    try {
+      listener(collection, keys)
+    } catch (error) {
+      // The write is already committed; a listener can't undo it
+      console.error(`Commit listener failed for ${collection}:`, error)
+    }
+  }
+}
+
+export function createRepository<T>(collection: string): Repository<T> {
+  async function transaction<R>(fn: (tx: RepositoryTransaction<T>) => R | Promise<R>): Promise<R> {
+    const store = await getBackend()
+    return enqueue(collection, () => store.lock(collection, async () => {
+      const records = new Map((await store.entries(collection)) as Array<[string, T]>)
+      const changes = new Map<string, RecordChange>()
+
+      const result = await fn({
+        get: (key) => records.get(key) ?? null,
+        list: () => Array.from(records.values()),
+        put(key, value) {
+          records.set(key, value)
+          changes.set(key, { key, value })
+        },
+        delete(key) {
+          const existed = records.delete(key)
+          if (existed) changes.set(key, { key, value: null })
+          return existed
+        },
+      })
+
+      await store.write(collection, Array.from(changes.values()))
+      if (changes.size > 0) notifyCommit(collection, Array.from(changes.keys()))
+      return result
+    }))
+  }
+
+  return {
+    async get(key) {
+      return (await (await getBackend()).get(collection, key)) as T | null
+    },
+    async list() {
+      return (await (await getBackend()).entries(collection)).map(([, value]) => value as T)
+    },
+    async entries() {
+      return (await (await getBackend()).entries(collection)) as Array<[string, T]>
+    },
+    async put(key, value) {
+      await transaction((tx) => tx.put(key, value))
+    },
+    async delete(key) {
+      return transaction((tx) => tx.delete(key))
+    },
+    transaction,
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * SQLite storage backend.
+ *
+ * Uses sql.js (SQLite compiled to WebAssembly, no native build step) with
+ * the database kept in one file. Every record lives in a single `records`
+ * table keyed by (collection, key) with the value as JSON text. A batch
+ * write runs in one SQL transaction and the database image is then written
+ * back atomically; the in-memory copy is reloaded whenever another process
+ * has replaced the file.
+ *
+ * Because every write replaces the whole image, writes take a database-wide
+ * lock file on top of the per-collection lock held by repository
+ * transactions.
+ */
+
+import { readFile, stat } from 'fs/promises'
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js'
+import type { StorageBackend } from './backend'
+import { withLockFile, writeFileAtomic } from './file'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (collection, key)
+  )
+`
+
+let sqlJs: Promise<SqlJsStatic> | null = null
+
+export function createSqliteBackend(dbPath: string): StorageBackend {
+  let db: Database | null = null
+  let loadedVersion = ''
+
+  async function database(): Promise<Database> {
+    const fileStat = await stat(dbPath).catch(() => null)
+    const version = fileStat ? `${fileStat.mtimeMs}:${fileStat.size}` : 'none'
+    if (db && version === loadedVersion) return db
+
+    sqlJs ??= initSqlJs()
+    const SQL = await sqlJs
+    // Callers awaiting the previous handle still use it synchronously in
+    // their continuation, so free it only once those have run
+    const previous = db
+    if (previous) setTimeout(() => previous.close(), 0)
+
+    db = fileStat ? new SQL.Database(await readFile(dbPath)) : new SQL.Database()
+    db.run(SCHEMA)
+    loadedVersion = version
+    return db
+  }
+
+  return {
+    kind: 'sqlite',
+    async get(collection, key) {
+      const stmt = (await database()).prepare('SELECT value FROM records WHERE collection = ? AND key = ?')
+      try {
+        stmt.bind([collection, key])
+        return stmt.step() ? JSON.parse(stmt.get()[0] as string) : null
+      } finally {
+        stmt.free()
+      }
+    },
+    async entries(collection) {
+      const stmt = (await database()).prepare('SELECT key, value FROM records WHERE collection = ? ORDER BY key')
+      const rows: Array<[string, unknown]> = []
+      try {
+        stmt.bind([collection])
+        while (stmt.step()) {
+          const [key, value] = stmt.get()
+          rows.push([key as string, JSON.parse(value as string)])
+        }
+      } finally {
+        stmt.free()
+      }
+      return rows
+    },
+    async write(collection, changes) {
+      if (changes.length === 0) return
+
+      await withLockFile(`${dbPath}.lock`, async () => {
+        const current = await database()
+        const now = new Date().toISOString()
+
+        current.run('BEGIN')
+        try {
+          for (const { key, value } of changes) {
+            if (value === null) {
+              current.run('DELETE FROM records WHERE collection = ? AND key = ?', [collection, key])
+            } else {
+              current.run(
+                'INSERT OR REPLACE INTO records (collection, key, value, updated_at) VALUES (?, ?, ?, ?)',
+                [collection, key, JSON.stringify(value), now],
+              )
+            }
+          }
+          current.run('COMMIT')
+        } catch (error) {
+          current.run('ROLLBACK')
+          throw error
+        }
+
+        await writeFileAtomic(dbPath, current.export())
+        const written = await stat(dbPath)
+        loadedVersion = `${written.mtimeMs}:${written.size}`
+      })
+    },
+    async lock(collection, fn) {
+      return withLockFile(`${dbPath}.${collection}.lock`, fn)
+    },
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Recurring invoice schedules.
+ *
+ * A subscription is an invoice template (receiver, payer, amount, token,
+ * memo) plus a billing frequency. Billing period n starts at
+ * `startAt + n * frequency`; monthly periods keep the start day of month,
+ * clamped to the end of shorter months (Jan 31 → Feb 28 → Mar 31).
+ */
+
+import type { PaymentIntent } from '@/lib/ai/intent-parser'
+
+export type SubscriptionFrequency = 'weekly' | 'monthly'
+
+export const SUBSCRIPTION_FREQUENCIES: readonly SubscriptionFrequency[] = ['weekly', 'monthly']
+
+export type SubscriptionStatus = 'active' | 'paused' | 'cancelled' | 'completed'
+
+export interface Subscription {
+  id: string
+  receiverAddress: string
+  receiverEns?: string
+  payerAddress: string
+  payerEns?: string
+  amount: string
+  token: string
+  memo?: string
+  frequency: SubscriptionFrequency
+  status: SubscriptionStatus
+  startAt: string
+  /** No periods starting at or after this time are billed */
+  endAt?: string
+  /** Expiry applied to each generated invoice */
+  dueInHours?: number
+  /** Index of the next billing period to invoice */
+  nextPeriod: number
+  /** Start of the next billing period (derived from startAt + nextPeriod) */
+  nextRunAt: string
+  invoiceIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type SubscriptionTemplate = Pick<
+  Subscription,
+  'receiverAddress' | 'receiverEns' | 'payerAddress' | 'payerEns' | 'amount' | 'token' | 'memo' | 'frequency'
+>
+
+export function isSubscriptionFrequency(value: unknown): value is SubscriptionFrequency {
+  return typeof value === 'string' && (SUBSCRIPTION_FREQUENCIES as readonly string[]).includes(value)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+/**
+ * Start of billing period `n` for a schedule beginning at `startAt`.
+ */
+export function periodStart(startAt: Date, frequency: SubscriptionFrequency, n: number): Date {
+  if (frequency === 'weekly') {
+    return new Date(startAt.getTime() + n * 7 * 24 * 60 * 60 * 1000)
+  }
+
+  const year = startAt.getUTCFullYear()
+  const month = startAt.getUTCMonth() + n
+  const day = Math.min(startAt.getUTCDate(), daysInMonth(year, month))
+  return new Date(Date.UTC(
+    year,
+    month,
+    day,
+    startAt.getUTCHours(),
+    startAt.getUTCMinutes(),
+    startAt.getUTCSeconds(),
+    startAt.getUTCMilliseconds(),
+  ))
+}
+
+/**
+ * First period index whose start is at or after `now`. Used when resuming a
+ * paused subscription so the paused periods are skipped, not back-billed.
+ */
+export function nextPeriodFrom(subscription: Subscription, now: Date): number {
+  const start = new Date(subscription.startAt)
+  let n = subscription.nextPeriod
+  while (periodStart(start, subscription.frequency, n) < now) n++
+  return n
+}
+
+/**
+ * Build a subscription template from a parsed "subscribe" intent. The user
+ * who issued the intent is the payer; the intent recipient is the receiver.
+ */
+export function subscriptionFromIntent(
+  intent: PaymentIntent,
+  payerAddress: string,
+): { template: Omit<SubscriptionTemplate, 'receiverAddress'> & { recipient: string } } | { error: string } {
+  if (intent.action !== 'subscribe') {
+    return { error: `Expected a subscribe intent, got "${intent.action}"` }
+  }
+  if (!intent.recipient || !intent.amount) {
+    return { error: 'Subscription needs a recipient and an amount' }
+  }
+  if (!isSubscriptionFrequency(intent.frequency)) {
+    return { error: 'Subscription frequency must be weekly or monthly' }
+  }
+
+  return {
+    template: {
+      recipient: intent.recipient,
+      ...(intent.recipient.includes('.') && { receiverEns: intent.recipient }),
+      payerAddress,
+      amount: intent.amount,
+      token: intent.token?.toUpperCase() || 'USDC',
+      frequency: intent.frequency,
+    },
+  }
+}
+
+export type SubscriptionAction = 'pause' | 'resume' | 'cancel'
+
+/**
+ * Pause, resume or cancel a subscription. Cancelled and completed
+ * subscriptions are terminal.
+ */
+export function changeSubscriptionStatus(
+  subscription: Subscription,
+  action: SubscriptionAction,
+  now: Date = new Date(),
+): { subscription: Subscription } | { error: string } {
+  const { status } = subscription
+  if (status === 'cancelled' || status === 'completed') {
+    return { error: `Subscription is already ${status}` }
+  }
+
+  const updatedAt = now.toISOString()
+
+  switch (action) {
+    case 'pause':
+      if (status !== 'active') return { error: `Cannot pause a ${status} subscription` }
+      return { subscription: { ...subscription, status: 'paused', updatedAt } }
+    case 'resume': {
+      if (status !== 'paused') return { error: `Cannot resume a ${status} subscription` }
+      const nextPeriod = nextPeriodFrom(subscription, now)
+      return {
+        subscription: {
+          ...subscription,
+          status: 'active',
+          nextPeriod,
+          nextRunAt: periodStart(new Date(subscription.startAt), subscription.frequency, nextPeriod).toISOString(),
+          updatedAt,
+        },
+      }
+    }
+    case 'cancel':
+      return { subscription: { ...subscription, status: 'cancelled', updatedAt } }
+  }
+}
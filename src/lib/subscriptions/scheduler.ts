@@ -0,0 +1,138 @@
+/**
+ * Subscription scheduler.
+ *
+ * Each run bills every active subscription whose next period has started:
+ * one invoice per elapsed period, addressed to the subscription's payer.
+ * Invoice IDs are derived from the subscription ID and period number, so a
+ * run that overlaps another (or is retried after a crash) never creates a
+ * duplicate invoice for the same period.
+ *
+ * The clock is injectable so the schedule can be driven with a fake time in
+ * tests; the cron route uses the system clock.
+ */
+
+import { SYSTEM_ACTOR, createInvoice } from '@/lib/invoices/lifecycle'
+import { getInvoice, saveInvoice } from '@/lib/invoices/store'
+import { emitInvoiceEvent } from '@/lib/webhooks/delivery'
+import { periodStart, type Subscription } from './schedule'
+import { listSubscriptions, updateSubscription } from './store'
+
+export type Clock = () => Date
+
+export const systemClock: Clock = () => new Date()
+
+// Cap on periods billed per subscription in one run, so a schedule that was
+// left unattended for years doesn't flood the payer in a single pass.
+const MAX_PERIODS_PER_RUN = 12
+
+export type SchedulerRunResult = {
+  ranAt: string
+  processed: number
+  invoiceIds: string[]
+  errors: Array<{ subscriptionId: string; error: string }>
+}
+
+export function subscriptionInvoiceId(subscriptionId: string, period: number): string {
+  return `${subscriptionId}-${period + 1}`
+}
+
+/**
+ * Invoice every elapsed billing period of a single subscription.
+ */
+export async function billSubscription(
+  id: string,
+  clock: Clock = systemClock,
+): Promise<{ subscription: Subscription; invoiceIds: string[] } | { error: string; notFound?: boolean }> {
+  const invoiceIds: string[] = []
+
+  const result = await updateSubscription(id, async (current) => {
+    if (current.status !== 'active') return { subscription: current }
+
+    const now = clock()
+    const start = new Date(current.startAt)
+    const endAt = current.endAt ? new Date(current.endAt) : null
+    let sub = current
+
+    for (let i = 0; i < MAX_PERIODS_PER_RUN; i++) {
+      const from = periodStart(start, sub.frequency, sub.nextPeriod)
+      if (endAt && from >= endAt) {
+        sub = { ...sub, status: 'completed', updatedAt: now.toISOString() }
+        break
+      }
+      if (from > now) break
+
+      const to = periodStart(start, sub.frequency, sub.nextPeriod + 1)
+      const invoiceId = subscriptionInvoiceId(sub.id, sub.nextPeriod)
+
+      if (!(await getInvoice(invoiceId))) {
+        const invoice = createInvoice(
+          {
+            id: invoiceId,
+            receiverAddress: sub.receiverAddress,
+            receiverEns: sub.receiverEns,
+            amount: sub.amount,
+            token: sub.token,
+            memo: sub.memo,
+            expiresAt: sub.dueInHours
+              ? new Date(now.getTime() + sub.dueInHours * 60 * 60 * 1000).toISOString()
+              : undefined,
+            subscriptionId: sub.id,
+            payerAddress: sub.payerAddress,
+            payerEns: sub.payerEns,
+            periodStart: from.toISOString(),
+            periodEnd: to.toISOString(),
+          },
+          SYSTEM_ACTOR,
+          { at: now },
+        )
+        await saveInvoice(invoice)
+        await emitInvoiceEvent('invoice.created', invoice)
+      }
+
+      invoiceIds.push(invoiceId)
+      sub = {
+        ...sub,
+        nextPeriod: sub.nextPeriod + 1,
+        nextRunAt: to.toISOString(),
+        invoiceIds: sub.invoiceIds.includes(invoiceId) ? sub.invoiceIds : [...sub.invoiceIds, invoiceId],
+        updatedAt: now.toISOString(),
+      }
+    }
+
+    return { subscription: sub }
+  })
+
+  if ('error' in result) return result
+  return { subscription: result.subscription, invoiceIds }
+}
+
+/**
+ * Bill every due subscription. Failures are collected per subscription so
+ * one bad record doesn't stop the rest of the run.
+ */
+export async function runSubscriptionScheduler(clock: Clock = systemClock): Promise<SchedulerRunResult> {
+  const now = clock()
+  const due = (await listSubscriptions({ status: 'active' }))
+    .filter((sub) => new Date(sub.nextRunAt) <= now)
+
+  const run: SchedulerRunResult = { ranAt: now.toISOString(), processed: 0, invoiceIds: [], errors: [] }
+
+  for (const sub of due) {
+    try {
+      const result = await billSubscription(sub.id, clock)
+      if ('error' in result) {
+        run.errors.push({ subscriptionId: sub.id, error: result.error })
+        continue
+      }
+      run.processed++
+      run.invoiceIds.push(...result.invoiceIds)
+    } catch (error) {
+      run.errors.push({
+        subscriptionId: sub.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return run
+}
@@ -0,0 +1,67 @@
+/**
+ * Durable subscription repository.
+ *
+ * Mirrors the invoice store: the "subscriptions" collection of the shared
+ * storage layer, keyed by subscription ID.
+ */
+
+import { createRepository } from '@/lib/storage/repository'
+import type { Subscription, SubscriptionStatus } from './schedule'
+
+export type SubscriptionFilter = {
+  receiverAddress?: string
+  payerAddress?: string
+  status?: SubscriptionStatus
+}
+
+function matchesFilter(sub: Subscription, filter: SubscriptionFilter = {}): boolean {
+  if (filter.receiverAddress && sub.receiverAddress.toLowerCase() !== filter.receiverAddress.toLowerCase()) {
+    return false
+  }
+  if (filter.payerAddress && sub.payerAddress.toLowerCase() !== filter.payerAddress.toLowerCase()) {
+    return false
+  }
+  if (filter.status && sub.status !== filter.status) return false
+  return true
+}
+
+function sortNewestFirst(subs: Subscription[]): Subscription[] {
+  return subs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+}
+
+const subscriptions = createRepository<Subscription>('subscriptions')
+
+export async function getSubscription(id: string): Promise<Subscription | null> {
+  return subscriptions.get(id)
+}
+
+export async function listSubscriptions(filter?: SubscriptionFilter): Promise<Subscription[]> {
+  return sortNewestFirst((await subscriptions.list()).filter((sub) => matchesFilter(sub, filter)))
+}
+
+export async function saveSubscription(subscription: Subscription): Promise<void> {
+  await subscriptions.put(subscription.id, subscription)
+}
+
+/**
+ * Atomically read, modify and write back a single subscription. Same
+ * contract as `updateInvoice`.
+ */
+export async function updateSubscription(
+  id: string,
+  update: (current: Subscription) =>
+    | { subscription: Subscription }
+    | { error: string }
+    | Promise<{ subscription: Subscription } | { error: string }>,
+): Promise<{ subscription: Subscription } | { error: string; notFound?: boolean }> {
+  return subscriptions.transaction(async (tx) => {
+    const current = tx.get(id)
+    if (!current) return { error: 'Subscription not found', notFound: true }
+
+    const result = await update(current)
+    if ('error' in result) return result
+
+    tx.put(id, result.subscription)
+    return result
+  })
+}
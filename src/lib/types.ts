@@ -1,3 +1,5 @@
+import type { PayConfigV2 } from '@/lib/ens/pay-config'
+
 export type MessageRole = 'user' | 'agent'
 
 export type RouteType = 'standard' | 'composer' | 'contract-call'
@@ -50,6 +52,8 @@ export type ENSResolution = {
   strategy?: string
   /** ensio.strategies — Multi-strategy allocation: "yield:50,restaking:50" */
   strategies?: string
+  /** com.pay.config (offchain or on-chain), migrated to 2.0 */
+  payConfig?: PayConfigV2
 }
 
 /**
@@ -89,6 +93,8 @@ export type PaymentReceipt = {
   receiver: string // ENS name
   chain: string
   timestamp: number
+  /** tx-{shortHash}.payments.{name}.eth, when the receiver has an ENS name */
+  subname?: string
 }
 
 export type TokenBalance = {
@@ -0,0 +1,201 @@
+/**
+ * Webhook dispatch.
+ *
+ * `emitWebhookEvent` records one delivery per subscribed endpoint and kicks
+ * off the first attempt without blocking the caller. Failed attempts are
+ * retried with exponential backoff (30s, 1m, 2m, ... up to MAX_ATTEMPTS) by
+ * `processDueDeliveries`, which the /api/webhooks/cron route runs; a
+ * delivery that never got its first attempt (e.g. the serverless function
+ * was frozen) is picked up the same way.
+ */
+
+import { randomUUID } from 'crypto'
+import type { Invoice } from '@/lib/invoices/lifecycle'
+import type { WebhookEvent, WebhookEventType } from './events'
+import { signWebhookPayload } from './signing'
+import { checkWebhookTarget } from './targets'
+import {
+  claimDelivery,
+  getDelivery,
+  listDeliveries,
+  listEndpoints,
+  saveDeliveries,
+  type DeliveryAttempt,
+  type WebhookDelivery,
+} from './store'
+
+const MAX_ATTEMPTS = 8
+const BACKOFF_BASE_MS = 30 * 1000
+const REQUEST_TIMEOUT_MS = 10 * 1000
+// Lease held while an attempt is in flight; longer than the request timeout
+const LEASE_MS = 60 * 1000
+
+export function backoffDelay(attempt: number): number {
+  return BACKOFF_BASE_MS * 2 ** (attempt - 1)
+}
+
+/**
+ * Record an event and start delivering it to every endpoint the receiver
+ * registered for its type. Returns the created delivery IDs.
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  receiverAddress: string,
+  data: Record<string, unknown>,
+): Promise<string[]> {
+  const endpoints = await listEndpoints({ receiverAddress, event: type })
+  if (endpoints.length === 0) return []
+
+  const now = new Date().toISOString()
+  const event: WebhookEvent = {
+    id: `evt_${randomUUID()}`,
+    type,
+    createdAt: now,
+    receiverAddress: receiverAddress.toLowerCase(),
+    data,
+  }
+
+  const deliveries: WebhookDelivery[] = endpoints.map((ep) => ({
+    id: `dlv_${randomUUID()}`,
+    endpointId: ep.id,
+    event,
+    status: 'pending',
+    attempts: [],
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  }))
+  await saveDeliveries(deliveries)
+
+  for (const d of deliveries) {
+    void processDelivery(d.id).catch((error) => console.error('Webhook delivery error:', error))
+  }
+  return deliveries.map((d) => d.id)
+}
+
+/**
+ * Emit an invoice lifecycle event. Errors are logged, never thrown, so a
+ * webhook problem can't fail the invoice operation that triggered it.
+ */
+export async function emitInvoiceEvent(type: WebhookEventType, invoice: Invoice): Promise<void> {
+  try {
+    await emitWebhookEvent(type, invoice.receiverAddress, { invoice })
+  } catch (error) {
+    console.error(`Failed to emit ${type} webhook:`, error)
+  }
+}
+
+async function send(url: string, secret: string, delivery: WebhookDelivery): Promise<DeliveryAttempt> {
+  const body = JSON.stringify(delivery.event)
+  const started = Date.now()
+
+  const target = await checkWebhookTarget(url)
+  if (!target.valid) {
+    return { at: new Date(started).toISOString(), error: target.error, durationMs: Date.now() - started }
+  }
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ENSIO-Webhooks/1.0',
+        'X-Ensio-Event': delivery.event.type,
+        'X-Ensio-Delivery': delivery.id,
+        'X-Ensio-Signature': signWebhookPayload(secret, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    })
+    return {
+      at: new Date(started).toISOString(),
+      statusCode: res.status,
+      ...(!res.ok && { error: `HTTP ${res.status}` }),
+      durationMs: Date.now() - started,
+    }
+  } catch (error) {
+    return {
+      at: new Date(started).toISOString(),
+      error: error instanceof Error ? error.message : 'Request failed',
+      durationMs: Date.now() - started,
+    }
+  }
+}
+
+/**
+ * Attempt a single delivery if it is pending and due. Returns the updated
+ * delivery, or null if another worker holds it or it isn't due yet.
+ */
+export async function processDelivery(id: string, now: Date = new Date()): Promise<WebhookDelivery | null> {
+  const claimed = await claimDelivery(id, now, LEASE_MS)
+  if (!claimed) return null
+
+  const { delivery, endpoint } = claimed
+  const attempt: DeliveryAttempt = endpoint?.active
+    ? await send(endpoint.url, endpoint.secret, delivery)
+    : { at: now.toISOString(), error: 'Endpoint removed or disabled', durationMs: 0 }
+
+  const attempts = [...delivery.attempts, attempt]
+  const succeeded = !attempt.error
+  const exhausted = attempts.length >= MAX_ATTEMPTS || !endpoint?.active
+
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    nextAttemptAt: succeeded || exhausted
+      ? undefined
+      : new Date(Date.now() + backoffDelay(attempts.length)).toISOString(),
+    updatedAt: new Date().toISOString(),
+  }
+  await saveDeliveries([updated])
+  return updated
+}
+
+/**
+ * Attempt every pending delivery whose next attempt is due.
+ */
+export async function processDueDeliveries(now: Date = new Date()): Promise<{
+  attempted: number
+  succeeded: number
+  failed: number
+}> {
+  const due = await listDeliveries({ status: 'pending', dueBefore: now })
+  const result = { attempted: 0, succeeded: 0, failed: 0 }
+
+  for (const d of due) {
+    const updated = await processDelivery(d.id, now)
+    if (!updated) continue
+    result.attempted++
+    if (updated.status === 'succeeded') result.succeeded++
+    if (updated.status === 'failed') result.failed++
+  }
+  return result
+}
+
+/**
+ * Re-send a past delivery's event as a new delivery to the same endpoint,
+ * attempted immediately. The original log entry is left untouched.
+ */
+export async function replayDelivery(id: string): Promise<{ delivery: WebhookDelivery } | { error: string; notFound?: boolean }> {
+  const original = await getDelivery(id)
+  if (!original) return { error: 'Delivery not found', notFound: true }
+
+  const now = new Date().toISOString()
+  const replay: WebhookDelivery = {
+    id: `dlv_${randomUUID()}`,
+    endpointId: original.endpointId,
+    event: original.event,
+    status: 'pending',
+    attempts: [],
+    nextAttemptAt: now,
+    replayOf: original.id,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await saveDeliveries([replay])
+
+  const delivered = await processDelivery(replay.id)
+  return { delivery: delivered ?? replay }
+}
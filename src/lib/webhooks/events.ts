@@ -0,0 +1,95 @@
+/**
+ * Webhook event types and management authorization.
+ *
+ * Receivers register HTTPS endpoints for the events below. Registering,
+ * removing, replaying and reading the delivery log are authorized by an
+ * EIP-712 signature from the receiver address (free, no gas), valid for a
+ * few minutes.
+ */
+
+import { verifyTypedData, type Hex } from 'viem'
+import { PREFERENCE_DOMAIN } from '@/lib/ens/eip712'
+
+export type WebhookEventType =
+  | 'invoice.created'
+  | 'invoice.paid'
+  | 'invoice.partially_paid'
+  | 'invoice.expired'
+  | 'receipt.stored'
+  | 'receipt.removed'
+  | 'payment.held'
+
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+  'invoice.created',
+  'invoice.paid',
+  'invoice.partially_paid',
+  'invoice.expired',
+  'receipt.stored',
+  'receipt.removed',
+  'payment.held',
+]
+
+export interface WebhookEvent {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  /** Receiver the event belongs to (lowercased address) */
+  receiverAddress: string
+  data: Record<string, unknown>
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+export type WebhookAction = 'create' | 'delete' | 'replay' | 'list-deliveries'
+
+export const MANAGE_WEBHOOK_TYPES = {
+  ManageWebhook: [
+    { name: 'receiver', type: 'address' },
+    { name: 'action', type: 'string' },
+    { name: 'target', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const
+
+// How long a management signature stays valid
+const AUTH_WINDOW_SECONDS = 10 * 60
+
+/**
+ * Verify that `receiver` signed a ManageWebhook message for `action` on
+ * `target` (endpoint URL for create, endpoint ID for delete, delivery ID for
+ * replay, endpoint ID or lowercased receiver address for list-deliveries)
+ * within the last few minutes.
+ */
+export async function verifyWebhookAuthorization(params: {
+  receiver: string
+  action: WebhookAction
+  target: string
+  issuedAt: number
+  signature: string
+}): Promise<{ valid: true } | { valid: false; error: string }> {
+  const now = Math.floor(Date.now() / 1000)
+  if (!Number.isInteger(params.issuedAt) || Math.abs(now - params.issuedAt) > AUTH_WINDOW_SECONDS) {
+    return { valid: false, error: 'Authorization expired or issuedAt invalid' }
+  }
+
+  try {
+    const valid = await verifyTypedData({
+      address: params.receiver as Hex,
+      domain: PREFERENCE_DOMAIN,
+      types: MANAGE_WEBHOOK_TYPES,
+      primaryType: 'ManageWebhook',
+      message: {
+        receiver: params.receiver as Hex,
+        action: params.action,
+        target: params.target,
+        issuedAt: BigInt(params.issuedAt),
+      },
+      signature: params.signature as Hex,
+    })
+    return valid ? { valid: true } : { valid: false, error: 'Invalid signature' }
+  } catch {
+    return { valid: false, error: 'Invalid signature' }
+  }
+}
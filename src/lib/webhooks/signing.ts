@@ -0,0 +1,58 @@
+/**
+ * HMAC signing for webhook deliveries.
+ *
+ * Every request carries
+ *   X-Ensio-Signature: t={unix seconds},v1={hex HMAC-SHA256(secret, "{t}.{body}")}
+ * Receivers recompute the HMAC over the raw body and reject stale
+ * timestamps to prevent replays. `verifyWebhookSignature` does both.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export const SIGNATURE_HEADER = 'x-ensio-signature'
+
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+): { valid: true } | { valid: false; error: string } {
+  if (!header) return { valid: false, error: 'Missing signature header' }
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [k, ...rest] = part.trim().split('=')
+      return [k, rest.join('=')]
+    }),
+  )
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1) {
+    return { valid: false, error: 'Malformed signature header' }
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return { valid: false, error: 'Signature timestamp outside tolerance' }
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex')
+  const received = Buffer.from(parts.v1, 'hex')
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, error: 'Signature mismatch' }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,125 @@
+/**
+ * Webhook endpoint registry and delivery log.
+ *
+ * Stored in the "webhook-endpoints" and "webhook-deliveries" collections of
+ * the shared storage layer. The delivery lease in `claimDelivery` is taken
+ * inside a transaction, so a retry is never sent twice concurrently.
+ */
+
+import { createRepository } from '@/lib/storage/repository'
+import type { WebhookEvent, WebhookEventType } from './events'
+
+export interface WebhookEndpoint {
+  id: string
+  receiverAddress: string
+  url: string
+  secret: string
+  events: WebhookEventType[]
+  active: boolean
+  createdAt: string
+}
+
+export type DeliveryAttempt = {
+  at: string
+  statusCode?: number
+  error?: string
+  durationMs: number
+}
+
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  endpointId: string
+  event: WebhookEvent
+  status: DeliveryStatus
+  attempts: DeliveryAttempt[]
+  /** When the next attempt is due (pending deliveries only) */
+  nextAttemptAt?: string
+  /** Set on deliveries created by the replay endpoint */
+  replayOf?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Oldest finished deliveries are dropped beyond this many log entries
+const MAX_DELIVERIES = 5000
+
+const endpoints = createRepository<WebhookEndpoint>('webhook-endpoints')
+const deliveries = createRepository<WebhookDelivery>('webhook-deliveries')
+
+export async function getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+  return endpoints.get(id)
+}
+
+export async function listEndpoints(filter: { receiverAddress?: string; event?: WebhookEventType } = {}): Promise<WebhookEndpoint[]> {
+  return (await endpoints.list()).filter((ep) =>
+    (!filter.receiverAddress || ep.receiverAddress === filter.receiverAddress.toLowerCase()) &&
+    (!filter.event || (ep.active && ep.events.includes(filter.event))),
+  )
+}
+
+export async function saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+  await endpoints.put(endpoint.id, endpoint)
+}
+
+export async function deleteEndpoint(id: string): Promise<boolean> {
+  return endpoints.delete(id)
+}
+
+export async function getDelivery(id: string): Promise<WebhookDelivery | null> {
+  return deliveries.get(id)
+}
+
+export async function listDeliveries(filter: {
+  endpointId?: string
+  status?: DeliveryStatus
+  dueBefore?: Date
+} = {}): Promise<WebhookDelivery[]> {
+  return (await deliveries.list())
+    .filter((d) =>
+      (!filter.endpointId || d.endpointId === filter.endpointId) &&
+      (!filter.status || d.status === filter.status) &&
+      (!filter.dueBefore || (!!d.nextAttemptAt && new Date(d.nextAttemptAt) <= filter.dueBefore)),
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function saveDeliveries(updates: WebhookDelivery[]): Promise<void> {
+  if (updates.length === 0) return
+  await deliveries.transaction((tx) => {
+    for (const d of updates) tx.put(d.id, d)
+
+    const all = tx.list()
+    if (all.length <= MAX_DELIVERIES) return
+    const finished = all
+      .filter((d) => d.status !== 'pending')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    for (const d of finished.slice(0, all.length - MAX_DELIVERIES)) {
+      tx.delete(d.id)
+    }
+  })
+}
+
+/**
+ * Take the lease on a due delivery: push its next attempt time out by
+ * `leaseMs` so no other worker picks it up while it is in flight. Returns
+ * null when the delivery is not pending or not yet due.
+ */
+export async function claimDelivery(
+  id: string,
+  now: Date,
+  leaseMs: number,
+): Promise<{ delivery: WebhookDelivery; endpoint: WebhookEndpoint | null } | null> {
+  const delivery = await deliveries.transaction((tx) => {
+    const current = tx.get(id)
+    if (!current || current.status !== 'pending') return null
+    if (current.nextAttemptAt && new Date(current.nextAttemptAt) > now) return null
+
+    const leased = { ...current, nextAttemptAt: new Date(now.getTime() + leaseMs).toISOString() }
+    tx.put(id, leased)
+    return leased
+  })
+  if (!delivery) return null
+  return { delivery, endpoint: await endpoints.get(delivery.endpointId) }
+}
@@ -0,0 +1,88 @@
+/**
+ * Webhook target checks.
+ *
+ * Endpoints are fetched from our servers, so a registered URL must not
+ * point into our own network: loopback, private, link-local (including
+ * cloud metadata at 169.254.169.254) and other non-public addresses are
+ * rejected, whether given as an IP or as a hostname resolving to one. The
+ * check runs at registration and again before each delivery, since DNS
+ * can change in between.
+ *
+ * Outside production, plain HTTP and local targets are allowed so the
+ * development receiver (/api/webhooks/test-receiver) can be used.
+ */
+
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+const NON_PUBLIC = new BlockList()
+NON_PUBLIC.addSubnet('0.0.0.0', 8, 'ipv4')
+NON_PUBLIC.addSubnet('10.0.0.0', 8, 'ipv4')
+NON_PUBLIC.addSubnet('100.64.0.0', 10, 'ipv4') // carrier-grade NAT
+NON_PUBLIC.addSubnet('127.0.0.0', 8, 'ipv4')
+NON_PUBLIC.addSubnet('169.254.0.0', 16, 'ipv4')
+NON_PUBLIC.addSubnet('172.16.0.0', 12, 'ipv4')
+NON_PUBLIC.addSubnet('192.0.0.0', 24, 'ipv4')
+NON_PUBLIC.addSubnet('192.168.0.0', 16, 'ipv4')
+NON_PUBLIC.addSubnet('198.18.0.0', 15, 'ipv4') // benchmarking
+NON_PUBLIC.addSubnet('224.0.0.0', 3, 'ipv4') // multicast and reserved
+NON_PUBLIC.addAddress('::', 'ipv6')
+NON_PUBLIC.addAddress('::1', 'ipv6')
+NON_PUBLIC.addSubnet('fc00::', 7, 'ipv6') // unique local
+NON_PUBLIC.addSubnet('fe80::', 10, 'ipv6') // link-local
+NON_PUBLIC.addSubnet('ff00::', 8, 'ipv6') // multicast
+
+const LOCAL_HOSTNAME_RE = /(^|\.)(localhost|local|internal)$/i
+
+function allowLocalTargets(): boolean {
+  return process.env.NODE_ENV !== 'production'
+}
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return !NON_PUBLIC.check(mapped[1], 'ipv4')
+  const family = isIP(address)
+  if (family === 0) return false
+  return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Check that `value` is a URL webhooks may be delivered to: HTTPS, on a
+ * host that only resolves to public addresses.
+ */
+export async function checkWebhookTarget(value: string): Promise<{ valid: true } | { valid: false; error: string }> {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return { valid: false, error: 'Invalid url' }
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && allowLocalTargets())) {
+    return { valid: false, error: 'Invalid url (HTTPS required)' }
+  }
+  if (allowLocalTargets()) return { valid: true }
+
+  // URL keeps IPv6 literals in brackets
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1')
+  if (LOCAL_HOSTNAME_RE.test(host)) {
+    return { valid: false, error: 'Webhook url must not point to a local host' }
+  }
+
+  let addresses: string[]
+  if (isIP(host)) {
+    addresses = [host]
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((entry) => entry.address)
+    } catch {
+      return { valid: false, error: `Could not resolve ${host}` }
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return { valid: false, error: 'Webhook url must resolve to a public address' }
+  }
+  return { valid: true }
+}
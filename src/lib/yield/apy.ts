@@ -0,0 +1,191 @@
+/**
+ * Live vault APY from ERC-4626 share-price deltas.
+ *
+ * The share price is convertToAssets(one share), read the same way as
+ * /api/vault/position, at the latest block and at blocks about 7 and 30
+ * days earlier; the growth is annualised over the actual time between the
+ * blocks. TVL is totalAssets() in the vault's asset.
+ *
+ * Historical reads need an archive RPC. Windows that can't be read (or a
+ * vault younger than the window), and the protocol name, come from the
+ * yield-data provider instead (see providers.ts).
+ */
+
+import { createPublicClient, formatUnits, http, parseAbi, type Address, type Chain, type PublicClient } from 'viem'
+import { arbitrum, base, mainnet, optimism } from 'viem/chains'
+import { getYieldDataProvider } from './providers'
+
+export type VaultApy = {
+  /** Current APY in percent: the 7-day figure when available */
+  apy: number | null
+  apy7d: number | null
+  apy30d: number | null
+  /** e.g. "1.2M USDC" on-chain, or "$1.2M" from the provider */
+  tvl: string | null
+  protocol: string | null
+}
+
+// blockTime (seconds) is only used to guess which block to read; the APY
+// uses the real timestamps of the blocks read
+const APY_CHAINS: Record<number, { chain: Chain; rpc: string; blockTime: number }> = {
+  1: { chain: mainnet, rpc: process.env.ETH_RPC_URL || 'https://eth.llamarpc.com', blockTime: 12 },
+  8453: { chain: base, rpc: process.env.BASE_RPC_URL || 'https://mainnet.base.org', blockTime: 2 },
+  42161: { chain: arbitrum, rpc: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc', blockTime: 0.25 },
+  10: { chain: optimism, rpc: process.env.OPTIMISM_RPC_URL || 'https://mainnet.optimism.io', blockTime: 2 },
+}
+
+const erc4626Abi = parseAbi([
+  'function convertToAssets(uint256 shares) view returns (uint256)',
+  'function totalAssets() view returns (uint256)',
+  'function asset() view returns (address)',
+  'function decimals() view returns (uint8)',
+])
+
+const erc20Abi = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+])
+
+const DAY_SECONDS = 24 * 60 * 60
+const YEAR_SECONDS = 365 * DAY_SECONDS
+
+// Share prices move slowly, so one computation serves every APY record
+const APY_CACHE_TTL = 5 * 60 * 1000
+const apyCache = new Map<string, { data: Promise<VaultApy>; expires: number }>()
+
+const clients = new Map<number, PublicClient>()
+
+function getClient(chainId: number): PublicClient | null {
+  const config = APY_CHAINS[chainId]
+  if (!config) return null
+  let client = clients.get(chainId)
+  if (!client) {
+    client = createPublicClient({ chain: config.chain, transport: http(config.rpc) }) as PublicClient
+    clients.set(chainId, client)
+  }
+  return client
+}
+
+function formatCompact(value: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+}
+
+export function formatApy(apy: number): string {
+  return `${apy.toFixed(2)}%`
+}
+
+/**
+ * APY (percent) over the `days` before the latest block, or null if the
+ * window can't be read.
+ */
+async function shareGrowthApy(
+  client: PublicClient,
+  vault: Address,
+  oneShare: bigint,
+  latest: { number: bigint; timestamp: bigint },
+  priceNow: bigint,
+  days: number,
+  blockTime: number,
+): Promise<number | null> {
+  try {
+    const back = BigInt(Math.round((days * DAY_SECONDS) / blockTime))
+    if (back >= latest.number) return null
+    const then = await client.getBlock({ blockNumber: latest.number - back })
+
+    const elapsed = Number(latest.timestamp - then.timestamp)
+    // A wildly wrong block time guess would annualise the wrong window
+    if (elapsed < days * DAY_SECONDS * 0.5) return null
+
+    const priceThen = await client.readContract({
+      address: vault,
+      abi: erc4626Abi,
+      functionName: 'convertToAssets',
+      args: [oneShare],
+      blockNumber: then.number,
+    })
+    if (priceThen === BigInt(0)) return null
+
+    const growth = Number((priceNow * BigInt(1e12)) / priceThen) / 1e12
+    return (Math.pow(growth, YEAR_SECONDS / elapsed) - 1) * 100
+  } catch {
+    // No archive state, or the vault didn't exist yet
+    return null
+  }
+}
+
+async function onChainVaultApy(
+  vault: Address,
+  chainId: number,
+): Promise<Pick<VaultApy, 'apy7d' | 'apy30d' | 'tvl'> | null> {
+  const client = getClient(chainId)
+  if (!client) return null
+
+  try {
+    const [decimals, latest, totalAssets, asset] = await Promise.all([
+      client.readContract({ address: vault, abi: erc4626Abi, functionName: 'decimals' }),
+      client.getBlock(),
+      client.readContract({ address: vault, abi: erc4626Abi, functionName: 'totalAssets' }),
+      client.readContract({ address: vault, abi: erc4626Abi, functionName: 'asset' }),
+    ])
+    const oneShare = BigInt(10) ** BigInt(decimals)
+    const priceNow = await client.readContract({
+      address: vault,
+      abi: erc4626Abi,
+      functionName: 'convertToAssets',
+      args: [oneShare],
+      blockNumber: latest.number,
+    })
+
+    const { blockTime } = APY_CHAINS[chainId]
+    const [apy7d, apy30d, assetInfo] = await Promise.all([
+      shareGrowthApy(client, vault, oneShare, latest, priceNow, 7, blockTime),
+      shareGrowthApy(client, vault, oneShare, latest, priceNow, 30, blockTime),
+      Promise.all([
+        client.readContract({ address: asset, abi: erc20Abi, functionName: 'decimals' }),
+        client.readContract({ address: asset, abi: erc20Abi, functionName: 'symbol' }),
+      ]).catch(() => null),
+    ])
+
+    const tvl = assetInfo
+      ? `${formatCompact(Number(formatUnits(totalAssets, assetInfo[0])))} ${assetInfo[1]}`
+      : null
+
+    return { apy7d, apy30d, tvl }
+  } catch {
+    // Not an ERC-4626 vault on this chain, or the RPC is unavailable
+    return null
+  }
+}
+
+async function computeVaultApy(vault: Address, chainId: number): Promise<VaultApy> {
+  const [onChain, fallback] = await Promise.all([
+    onChainVaultApy(vault, chainId),
+    getYieldDataProvider().getVaultYield({ address: vault, chainId }).catch(() => null),
+  ])
+
+  const apy7d = onChain?.apy7d ?? fallback?.apy7d ?? null
+  const apy30d = onChain?.apy30d ?? fallback?.apy30d ?? null
+  return {
+    apy: onChain?.apy7d ?? fallback?.apy ?? apy30d,
+    apy7d,
+    apy30d,
+    tvl: onChain?.tvl ?? (fallback?.tvlUsd !== undefined ? `$${formatCompact(fallback.tvlUsd)}` : null),
+    protocol: fallback?.protocol ?? null,
+  }
+}
+
+/**
+ * APY, TVL and protocol for an ERC-4626 vault on `chainId`. Results are
+ * cached for a few minutes.
+ */
+export async function getVaultApy(vault: string, chainId: number): Promise<VaultApy> {
+  const key = `${chainId}:${vault.toLowerCase()}`
+  const cached = apyCache.get(key)
+  if (cached && cached.expires > Date.now()) return cached.data
+
+  const data = computeVaultApy(vault as Address, chainId)
+  apyCache.set(key, { data, expires: Date.now() + APY_CACHE_TTL })
+  // Don't keep a failure around for the whole TTL
+  data.catch(() => apyCache.delete(key))
+  return data
+}
@@ -0,0 +1,84 @@
+/**
+ * Yield-data providers.
+ *
+ * Fallback source of vault APY, TVL and protocol name when they can't be
+ * computed on-chain (see apy.ts), e.g. when the RPC has no archive state.
+ * The default provider reads the DeFiLlama yields API; another source can
+ * be plugged in with `setYieldDataProvider()` at startup.
+ */
+
+export type VaultYield = {
+  /** Current APY, in percent */
+  apy: number
+  apy7d?: number
+  apy30d?: number
+  tvlUsd?: number
+  protocol?: string
+}
+
+export interface YieldDataProvider {
+  readonly name: string
+  getVaultYield(vault: { address: string; chainId: number }): Promise<VaultYield | null>
+}
+
+// DeFiLlama pool IDs for known vaults
+const DEFILLAMA_POOLS: Record<string, string> = {
+  '0x4e65fe4dba92790696d040ac24aa414708f5c0ab': 'aave-v3-base-usdc', // Aave USDC on Base
+  '0x7bfa7c4f149e7415b73bdedfe609237e29cbf34a': 'morpho-base-usdc',  // Morpho USDC on Base
+}
+
+type DefiLlamaPool = {
+  pool: string
+  project?: string
+  apy: number
+  apyBase7d?: number | null
+  apyMean30d?: number | null
+  tvlUsd?: number
+}
+
+export function createDefiLlamaProvider(): YieldDataProvider {
+  return {
+    name: 'defillama',
+    async getVaultYield({ address }) {
+      const vault = address.toLowerCase()
+      const poolId = DEFILLAMA_POOLS[vault]
+      if (!poolId) return null
+
+      try {
+        const res = await fetch('https://yields.llama.fi/pools', {
+          next: { revalidate: 300 }, // Cache for 5 minutes
+        })
+        if (!res.ok) return null
+
+        const data = await res.json()
+        const pool = (data.data as DefiLlamaPool[] | undefined)?.find((p) =>
+          p.pool.toLowerCase().includes(poolId) || p.pool.toLowerCase().includes(vault),
+        )
+        if (!pool) return null
+
+        return {
+          apy: pool.apy,
+          ...(pool.apyBase7d != null && { apy7d: pool.apyBase7d }),
+          ...(pool.apyMean30d != null && { apy30d: pool.apyMean30d }),
+          ...(pool.tvlUsd !== undefined && { tvlUsd: pool.tvlUsd }),
+          ...(pool.project && { protocol: pool.project }),
+        }
+      } catch {
+        return null
+      }
+    },
+  }
+}
+
+let provider: YieldDataProvider | null = null
+
+export function getYieldDataProvider(): YieldDataProvider {
+  return (provider ??= createDefiLlamaProvider())
+}
+
+/**
+ * Replace the yield-data provider.
+ */
+export function setYieldDataProvider(next: YieldDataProvider): void {
+  provider = next
+}
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Minimal ERC-20 for tests. Anyone can mint; put its runtime code at
+///         a real token address with anvil_setCode to stand in for that token.
+contract MockERC20 {
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    mapping(address => uint256) public balanceOf;
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+        emit Transfer(address(0), to, amount);
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "MockERC20: insufficient balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+}
+
+/// @notice Stands in for the LI.FI diamond on the destination chain: pays out
+///         a bridged transfer and emits LiFiTransferCompleted, as the
+///         executor does.
+contract MockLiFiDiamond {
+    event LiFiTransferCompleted(
+        bytes32 indexed transactionId,
+        address receivingAssetId,
+        address receiver,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    function complete(bytes32 transactionId, address token, address receiver, uint256 amount) external {
+        MockERC20(token).transfer(receiver, amount);
+        emit LiFiTransferCompleted(transactionId, token, receiver, amount, block.timestamp);
+    }
+
+    /// @notice Emits LiFiTransferCompleted without paying anything out, as a
+    ///         look-alike contract could.
+    function announce(bytes32 transactionId, address token, address receiver, uint256 amount) external {
+        emit LiFiTransferCompleted(transactionId, token, receiver, amount, block.timestamp);
+    }
+}
+
+/// @notice ERC-4626-shaped vault that reports `asset` and emits Deposit
+///         without taking any funds, as a look-alike vault could.
+contract MockVault {
+    event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares);
+
+    address public asset;
+
+    constructor(address asset_) {
+        asset = asset_;
+    }
+
+    function deposit(uint256 assets, address receiver) external returns (uint256) {
+        emit Deposit(msg.sender, receiver, assets, assets);
+        return assets;
+    }
+}
@@ -0,0 +1,218 @@
+/**
+ * ERC-3668 conformance: PayAgentResolver and PayAgentResolverV2 deployed to
+ * anvil, with the gateway route served over HTTP, resolved end to end by
+ * viem's CCIP-Read client (OffchainLookup → gateway → resolveWithProof).
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  decodeAbiParameters,
+  decodeErrorResult,
+  decodeFunctionResult,
+  encodeFunctionData,
+  parseAbi,
+  toFunctionSelector,
+  toHex,
+  type Abi,
+  type Hex,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { namehash, packetToBytes } from 'viem/ens'
+import { GET, OPTIONS, POST } from '@/app/api/ens/gateway/[[...params]]/route'
+import { createMemoryBackend } from '@/lib/storage/backend'
+import { createRepository, setStorageBackend } from '@/lib/storage/repository'
+import { storeReceipt } from '@/lib/ens/receipt-store'
+import { startAnvil, type Anvil } from '../helpers/anvil'
+import { compileContract } from '../helpers/solidity'
+import { serveRoute, type RouteServer } from '../helpers/route-server'
+
+const GATEWAY_KEY = `0x${'b2'.repeat(32)}` as Hex
+const GATEWAY_SIGNER = privateKeyToAccount(GATEWAY_KEY).address
+const RECEIVER = '0x1111111111111111111111111111111111111111'
+
+const resolverAbi = parseAbi([
+  'function resolve(bytes name, bytes data) view returns (bytes)',
+  'function text(bytes32 node, string key) view returns (string)',
+  'function addr(bytes32 node) view returns (address)',
+  'error OffchainLookup(address sender, string[] urls, bytes callData, bytes4 callbackFunction, bytes extraData)',
+  'error InvalidSignature()',
+  'error SignatureExpired()',
+])
+
+let anvil: Anvil
+let gateway: RouteServer
+let resolverV1: { abi: Abi; bytecode: Hex }
+let resolverV2: { abi: Abi; bytecode: Hex }
+
+beforeAll(async () => {
+  resolverV1 = compileContract('PayAgentResolver.sol', 'PayAgentResolver')
+  resolverV2 = compileContract('PayAgentResolverV2.sol', 'PayAgentResolverV2')
+  anvil = await startAnvil()
+  gateway = await serveRoute('/api/ens/gateway', { GET, POST, OPTIONS })
+  process.env.GATEWAY_SIGNER_KEY = GATEWAY_KEY
+})
+
+afterAll(async () => {
+  await gateway?.close()
+  await anvil?.stop()
+  delete process.env.GATEWAY_SIGNER_KEY
+})
+
+beforeEach(() => {
+  setStorageBackend(createMemoryBackend())
+})
+
+const getUrl = () => `${gateway.url}/{sender}/{data}.json`
+const postUrl = () => `${gateway.url}/{sender}`
+
+async function deploy(contract: { abi: Abi; bytecode: Hex }, url: string, signer: Hex = GATEWAY_SIGNER) {
+  return anvil.deploy(contract, [signer, url])
+}
+
+/** resolve(name, call) through CCIP-Read, decoded as `functionName` returns */
+async function resolve(
+  resolver: Hex,
+  name: string,
+  call: { functionName: 'text'; key: string } | { functionName: 'addr' },
+) {
+  const node = namehash(name)
+  const data = call.functionName === 'text'
+    ? encodeFunctionData({ abi: resolverAbi, functionName: 'text', args: [node, call.key] })
+    : encodeFunctionData({ abi: resolverAbi, functionName: 'addr', args: [node] })
+
+  const result = await anvil.publicClient.readContract({
+    address: resolver,
+    abi: resolverAbi,
+    functionName: 'resolve',
+    args: [toHex(packetToBytes(name)), data],
+  })
+  return decodeFunctionResult({ abi: resolverAbi, functionName: call.functionName, data: result })
+}
+
+describe('PayAgentResolver over CCIP-Read', () => {
+  it('resolves a payment request subname through a GET gateway URL', async () => {
+    const resolver = await deploy(resolverV1, getUrl())
+
+    await expect(resolve(resolver, 'pay-10-usdc.alice.payagent.eth', { functionName: 'text', key: 'com.payagent.amount' }))
+      .resolves.toBe('10')
+    await expect(resolve(resolver, 'pay-10-usdc.alice.payagent.eth', { functionName: 'text', key: 'com.payagent.token' }))
+      .resolves.toBe('USDC')
+    expect(gateway.requests.at(-1)?.method).toBe('GET')
+  })
+
+  it('resolves through a POST gateway URL', async () => {
+    const resolver = await deploy(resolverV1, postUrl())
+    const before = gateway.requests.length
+
+    await expect(resolve(resolver, 'pay-25-dai.bob.payagent.eth', { functionName: 'text', key: 'com.payagent.recipient' }))
+      .resolves.toBe('bob.eth')
+    expect(gateway.requests.slice(before).map((r) => r.method)).toEqual(['POST'])
+  })
+
+  it('resolves a stored preference', async () => {
+    await createRepository('preferences').put('alice.eth', {
+      token: 'USDC',
+      chain: 'base',
+      signer: RECEIVER,
+      signature: '0x',
+      nonce: 1,
+      updatedAt: new Date().toISOString(),
+    })
+    const resolver = await deploy(resolverV1, getUrl())
+
+    await expect(resolve(resolver, 'alice.payagent.eth', { functionName: 'text', key: 'com.payagent.chain' }))
+      .resolves.toBe('base')
+  })
+
+  it('reverts without a gateway call for keys outside com.payagent.* and com.pay.*', async () => {
+    const resolver = await deploy(resolverV1, getUrl())
+    const before = gateway.requests.length
+
+    await expect(resolve(resolver, 'alice.payagent.eth', { functionName: 'text', key: 'com.ensio.amount' }))
+      .rejects.toThrow(/not a payagent key/)
+    expect(gateway.requests.length).toBe(before)
+  })
+
+  it('rejects responses signed by a key the resolver does not trust', async () => {
+    const resolver = await deploy(resolverV1, getUrl(), privateKeyToAccount(`0x${'c3'.repeat(32)}`).address)
+
+    await expect(resolve(resolver, 'pay-10-usdc.alice.payagent.eth', { functionName: 'text', key: 'com.payagent.amount' }))
+      .rejects.toThrow(/InvalidSignature/)
+  })
+
+  it('rejects responses past their expiry', async () => {
+    const resolver = await deploy(resolverV1, getUrl())
+    const snapshot = await anvil.testClient.snapshot()
+    try {
+      // Payment request text is signed for a day
+      await anvil.testClient.increaseTime({ seconds: 2 * 24 * 60 * 60 })
+      await anvil.testClient.mine({ blocks: 1 })
+
+      await expect(resolve(resolver, 'pay-10-usdc.carol.payagent.eth', { functionName: 'text', key: 'com.payagent.amount' }))
+        .rejects.toThrow(/SignatureExpired/)
+    } finally {
+      await anvil.testClient.revert({ id: snapshot })
+    }
+  })
+
+  it('returns the gateway call as an OffchainLookup revert', async () => {
+    const resolver = await deploy(resolverV1, getUrl())
+    const name = toHex(packetToBytes('alice.payagent.eth'))
+    const data = encodeFunctionData({
+      abi: resolverAbi,
+      functionName: 'text',
+      args: [namehash('alice.payagent.eth'), 'com.payagent.token'],
+    })
+
+    // Raw eth_call: viem's client would follow the lookup itself
+    const res = await fetch(anvil.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'eth_call',
+        params: [{ to: resolver, data: encodeFunctionData({ abi: resolverAbi, functionName: 'resolve', args: [name, data] }) }, 'latest'],
+      }),
+    })
+    const revertData = ((await res.json()) as { error?: { data?: Hex } }).error?.data
+    const lookup = decodeErrorResult({ abi: resolverAbi, data: revertData! })
+    expect(lookup.errorName).toBe('OffchainLookup')
+
+    const [sender, urls, callData, callback, extraData] = lookup.args as [Hex, string[], Hex, Hex, Hex]
+    expect(sender.toLowerCase()).toBe(resolver.toLowerCase())
+    expect(urls).toEqual([getUrl()])
+    expect(callback).toBe(toFunctionSelector('resolveWithProof(bytes,bytes)'))
+    expect(extraData).toBe(callData)
+    const [dnsName, resolverCall] = decodeAbiParameters([{ type: 'bytes' }, { type: 'bytes' }], callData)
+    expect(dnsName).toBe(name)
+    expect(resolverCall).toBe(data)
+  })
+})
+
+describe('PayAgentResolverV2 over CCIP-Read', () => {
+  it('resolves receipt subnames', async () => {
+    const txHash = `0x${'ab'.repeat(32)}`
+    const receipt = await storeReceipt(txHash, '12.5', 'USDC', 'base', RECEIVER, `0x${'22'.repeat(20)}`, 'alice.eth')
+    const resolver = await deploy(resolverV2, getUrl())
+
+    await expect(resolve(resolver, receipt.subname!, { functionName: 'text', key: 'com.ensio.amount' }))
+      .resolves.toBe('12.5')
+    await expect(resolve(resolver, receipt.subname!, { functionName: 'text', key: 'com.ensio.txHash' }))
+      .resolves.toBe(txHash)
+  })
+
+  it('resolves addr() to the preference signer', async () => {
+    await createRepository('preferences').put('dave.eth', {
+      token: 'USDC',
+      chain: 'base',
+      signer: RECEIVER,
+      signature: '0x',
+      nonce: 1,
+      updatedAt: new Date().toISOString(),
+    })
+    const resolver = await deploy(resolverV2, getUrl())
+
+    await expect(resolve(resolver, 'dave.payagent.eth', { functionName: 'addr' })).resolves.toBe(RECEIVER)
+  })
+})
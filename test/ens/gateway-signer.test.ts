@@ -0,0 +1,102 @@
+/**
+ * Gateway response signatures: the hash matches what
+ * PayAgentResolver.resolveWithProof rebuilds, and the signature recovers to
+ * the active key under EIP-191, as the contract checks it.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  concat,
+  hashMessage,
+  keccak256,
+  recoverAddress,
+  recoverMessageAddress,
+  toHex,
+  verifyMessage,
+  type Hex,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { gatewayResponseHash, getGatewaySigners, signGatewayResponse } from '@/lib/ens/gateway-signer'
+
+const KEY_A = `0x${'a1'.repeat(32)}` as Hex
+const KEY_B = `0x${'b2'.repeat(32)}` as Hex
+
+const SENDER = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+const EXTRA_DATA = '0x1234abcd' as Hex
+const RESULT = '0x0000000000000000000000000000000000000000000000000000000000000020' as Hex
+
+afterEach(() => {
+  delete process.env.GATEWAY_SIGNER_KEY
+  delete process.env.GATEWAY_SIGNER_KEYS
+  delete process.env.GATEWAY_ACTIVE_SIGNER
+})
+
+describe('gatewayResponseHash', () => {
+  it('packs 0x1900, sender, expires and the data hashes like resolveWithProof', () => {
+    const expires = BigInt(1_700_000_000)
+    const packed = concat([
+      '0x1900',
+      SENDER,
+      toHex(expires, { size: 8 }),
+      keccak256(EXTRA_DATA),
+      keccak256(RESULT),
+    ])
+
+    expect(gatewayResponseHash(SENDER, expires, EXTRA_DATA, RESULT)).toBe(keccak256(packed))
+  })
+})
+
+describe('signGatewayResponse', () => {
+  it('signs the response hash as an EIP-191 message from the active key', async () => {
+    process.env.GATEWAY_SIGNER_KEY = KEY_A
+    const signer = privateKeyToAccount(KEY_A).address
+
+    const { expires, signature } = await signGatewayResponse(SENDER, EXTRA_DATA, RESULT)
+    const hash = gatewayResponseHash(SENDER, expires, EXTRA_DATA, RESULT)
+
+    // resolveWithProof: ecrecover(keccak256("\x19Ethereum Signed Message:\n32" ‖ hash))
+    await expect(recoverAddress({ hash: hashMessage({ raw: hash }), signature })).resolves.toBe(signer)
+    await expect(recoverMessageAddress({ message: { raw: hash }, signature })).resolves.toBe(signer)
+    await expect(verifyMessage({ address: signer, message: { raw: hash }, signature })).resolves.toBe(true)
+  })
+
+  it('does not verify against another sender or result', async () => {
+    process.env.GATEWAY_SIGNER_KEY = KEY_A
+    const signer = privateKeyToAccount(KEY_A).address
+
+    const { expires, signature } = await signGatewayResponse(SENDER, EXTRA_DATA, RESULT)
+    const otherSender = gatewayResponseHash('0x0000000000000000000000000000000000000001', expires, EXTRA_DATA, RESULT)
+    const otherResult = gatewayResponseHash(SENDER, expires, EXTRA_DATA, '0x00')
+
+    await expect(verifyMessage({ address: signer, message: { raw: otherSender }, signature })).resolves.toBe(false)
+    await expect(verifyMessage({ address: signer, message: { raw: otherResult }, signature })).resolves.toBe(false)
+  })
+
+  it('expires after the TTL', async () => {
+    process.env.GATEWAY_SIGNER_KEY = KEY_A
+    const now = Math.floor(Date.now() / 1000)
+
+    const { expires } = await signGatewayResponse(SENDER, EXTRA_DATA, RESULT, 60)
+
+    expect(Number(expires)).toBeGreaterThanOrEqual(now + 60)
+    expect(Number(expires)).toBeLessThanOrEqual(now + 61)
+  })
+
+  it('signs with the active key of a ring and never expires after its window', async () => {
+    const validUntil = new Date(Date.now() + 30_000).toISOString()
+    process.env.GATEWAY_SIGNER_KEYS = JSON.stringify([
+      { id: 'old', key: KEY_A },
+      { id: 'new', key: KEY_B, validUntil },
+    ])
+    process.env.GATEWAY_ACTIVE_SIGNER = 'new'
+
+    const { expires, signature, signer } = await signGatewayResponse(SENDER, EXTRA_DATA, RESULT, 300)
+    const hash = gatewayResponseHash(SENDER, expires, EXTRA_DATA, RESULT)
+
+    expect(signer).toBe('new')
+    expect(Number(expires)).toBe(Math.floor(Date.parse(validUntil) / 1000))
+    await expect(recoverMessageAddress({ message: { raw: hash }, signature }))
+      .resolves.toBe(privateKeyToAccount(KEY_B).address)
+    expect(getGatewaySigners().map((s) => [s.id, s.status])).toEqual([['old', 'verifying'], ['new', 'active']])
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Receipt ingester against anvil standing in for Base: a mock ERC-20 at the
+ * USDC address and a mock LI.FI diamond at the diamond's address. Covers
+ * checkpointing, confirmations, rescans and reorgs, and runs that overlap.
+ */
+
+import { createServer, type Server } from 'http'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseUnits, type Abi, type Hex } from 'viem'
+import { ingestChain } from '@/lib/ens/receipt-ingester'
+import { getReceiptByTxHash, getReceiptTextRecordsBySubname, hasReceipt, storeReceipt } from '@/lib/ens/receipt-store'
+import { listDeliveries, saveEndpoint } from '@/lib/webhooks/store'
+import { LIFI_DIAMOND } from '@/lib/routing/payment-sources'
+import { getTokenAddress } from '@/lib/routing/tokens'
+import { createMemoryBackend } from '@/lib/storage/backend'
+import { createRepository, setStorageBackend } from '@/lib/storage/repository'
+import { startAnvil, type Anvil } from '../helpers/anvil'
+import { compileContract } from '../helpers/solidity'
+
+const RECEIVER = '0x1111111111111111111111111111111111111111'
+const OTHER = '0x3333333333333333333333333333333333333333'
+const USDC = getTokenAddress('USDC', 8453) as Hex
+// Base confirmations in the ingester's chain config
+const CONFIRMATIONS = 5
+
+let anvil: Anvil
+let token: { abi: Abi; bytecode: Hex }
+let bridge: { abi: Abi; bytecode: Hex }
+let server: Server
+let hookUrl: string
+
+beforeAll(async () => {
+  token = compileContract('Mocks.sol', 'MockERC20')
+  bridge = compileContract('Mocks.sol', 'MockLiFiDiamond')
+  anvil = await startAnvil({ chainId: 8453 })
+  await anvil.deployAt(USDC, token)
+  await anvil.deployAt(LIFI_DIAMOND, bridge)
+  await send(USDC, token.abi, 'mint', [anvil.account.address, parseUnits('1000', 6)])
+  await send(USDC, token.abi, 'mint', [LIFI_DIAMOND, parseUnits('1000', 6)])
+
+  server = createServer((req, res) => {
+    req.resume()
+    res.writeHead(200).end()
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  hookUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}/hook`
+})
+
+afterAll(async () => {
+  await anvil?.stop()
+  await new Promise((resolve) => server?.close(resolve))
+})
+
+beforeEach(async () => {
+  setStorageBackend(createMemoryBackend())
+  // Stored as setPreference would for a name signed by RECEIVER
+  await createRepository('preferences').put('alice.eth', {
+    token: 'USDC',
+    chain: 'base',
+    signer: RECEIVER,
+    signature: '0x',
+    nonce: 1,
+    updatedAt: new Date().toISOString(),
+  })
+  await saveEndpoint({
+    id: 'whe_receipts',
+    receiverAddress: RECEIVER,
+    url: hookUrl,
+    secret: 'whsec_test',
+    events: ['receipt.stored', 'receipt.removed'],
+    active: true,
+    createdAt: new Date().toISOString(),
+  })
+  // Bury earlier tests' transactions below the first checkpoint
+  await confirm()
+})
+
+async function send(address: Hex, abi: Abi, functionName: string, args: unknown[]): Promise<Hex> {
+  const hash = await anvil.walletClient.writeContract({
+    address,
+    abi,
+    functionName,
+    args,
+    account: anvil.account,
+    chain: anvil.chain,
+  })
+  await anvil.publicClient.waitForTransactionReceipt({ hash })
+  return hash
+}
+
+function pay(to: string, amount: string): Promise<Hex> {
+  return send(USDC, token.abi, 'transfer', [to, parseUnits(amount, 6)])
+}
+
+async function confirm() {
+  await anvil.testClient.mine({ blocks: CONFIRMATIONS })
+}
+
+async function deliveriesOf(type: string) {
+  return (await listDeliveries({ endpointId: 'whe_receipts' })).filter((d) => d.event.type === type)
+}
+
+describe('ingestChain', () => {
+  it('only records a checkpoint on its first run', async () => {
+    const txHash = await pay(RECEIVER, '25')
+    await confirm()
+
+    expect(await ingestChain('base', anvil.publicClient)).toEqual({ chain: 'base', stored: [], removed: [] })
+
+    await confirm()
+    expect((await ingestChain('base', anvil.publicClient)).stored).toEqual([])
+    expect(await hasReceipt(txHash)).toBe(false)
+  })
+
+  it('stores payments once they have enough confirmations, and only once', async () => {
+    await ingestChain('base', anvil.publicClient)
+    const transfer = await pay(RECEIVER, '25')
+    const bridged = await send(LIFI_DIAMOND, bridge.abi, 'complete', [
+      `0x${'12'.repeat(32)}`,
+      USDC,
+      RECEIVER,
+      parseUnits('10', 6),
+    ])
+    await pay(OTHER, '5')
+
+    expect((await ingestChain('base', anvil.publicClient)).stored).toEqual([])
+
+    await confirm()
+    const run = await ingestChain('base', anvil.publicClient)
+    expect([...run.stored].sort()).toEqual([transfer, bridged].map((h) => h.toLowerCase()).sort())
+    expect(await getReceiptByTxHash(transfer)).toMatchObject({
+      amount: '25',
+      token: 'USDC',
+      chain: 'base',
+      sender: anvil.account.address.toLowerCase(),
+      receiver: 'alice.eth',
+    })
+    // The bridge completion's Transfer doesn't make a second receipt
+    expect(await getReceiptByTxHash(bridged)).toMatchObject({ amount: '10', sender: anvil.account.address.toLowerCase() })
+
+    await confirm()
+    expect((await ingestChain('base', anvil.publicClient)).stored).toEqual([])
+    expect(await deliveriesOf('receipt.stored')).toHaveLength(2)
+  })
+
+  it('stores each receipt once when runs overlap', async () => {
+    await ingestChain('base', anvil.publicClient)
+    const txHash = await pay(RECEIVER, '25')
+    await confirm()
+
+    const runs = await Promise.all([ingestChain('base', anvil.publicClient), ingestChain('base', anvil.publicClient)])
+
+    expect(runs.flatMap((run) => run.stored)).toEqual([txHash.toLowerCase()])
+    expect(await deliveriesOf('receipt.stored')).toHaveLength(1)
+  })
+
+  it('removes receipts from blocks a reorg replaced and rescans from the fork', async () => {
+    await ingestChain('base', anvil.publicClient)
+    const snapshot = await anvil.testClient.snapshot()
+    const txHash = await pay(RECEIVER, '25')
+    await confirm()
+    expect((await ingestChain('base', anvil.publicClient)).stored).toEqual([txHash.toLowerCase()])
+
+    // A different transaction in the replacing blocks, so their hashes differ
+    await anvil.testClient.revert({ id: snapshot })
+    await pay(OTHER, '25')
+    await confirm()
+    await anvil.testClient.mine({ blocks: 1 })
+    const run = await ingestChain('base', anvil.publicClient)
+
+    expect(run.reorgFrom).toBeDefined()
+    expect(run.removed).toEqual([txHash.toLowerCase()])
+    expect(run.stored).toEqual([])
+    expect(await hasReceipt(txHash)).toBe(false)
+    expect(await deliveriesOf('receipt.removed')).toHaveLength(1)
+  })
+})
+
+describe('storeReceipt', () => {
+  it('fires receipt.stored only the first time a transaction is stored', async () => {
+    const txHash = `0x${'ab'.repeat(32)}`
+    const store = () => storeReceipt(txHash, '25', 'USDC', 'base', RECEIVER, OTHER, 'alice.eth')
+
+    const first = await store()
+    const second = await store()
+
+    expect(second.subname).toBe(first.subname)
+    expect(await deliveriesOf('receipt.stored')).toHaveLength(1)
+  })
+  it('keeps the timestamp and text records when a receipt is stored again', async () => {
+    const txHash = `0x${'cd'.repeat(32)}`
+    const store = () => storeReceipt(txHash, '25', 'USDC', 'base', RECEIVER, OTHER, 'alice.eth')
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      vi.setSystemTime(new Date('2026-03-02T09:00:00.000Z'))
+      const first = await store()
+      const records = await getReceiptTextRecordsBySubname('alice.eth', txHash)
+
+      vi.setSystemTime(new Date('2026-03-02T10:00:00.000Z'))
+      const second = await store()
+
+      expect(second.timestamp).toBe(first.timestamp)
+      expect(await getReceiptTextRecordsBySubname('alice.eth', txHash)).toEqual(records)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
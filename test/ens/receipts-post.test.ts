@@ -0,0 +1,108 @@
+/**
+ * POST /api/ens/receipts against anvil standing in for Base (BASE_RPC_URL
+ * points at it): receipts are only stored from trusted contracts' events,
+ * once the ingester's confirmation depth is reached.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { parseUnits, type Abi, type Hex } from 'viem'
+import { LIFI_DIAMOND } from '@/lib/routing/payment-sources'
+import { getTokenAddress } from '@/lib/routing/tokens'
+import { startAnvil, type Anvil } from '../helpers/anvil'
+import { compileContract } from '../helpers/solidity'
+
+const RECEIVER = '0x1111111111111111111111111111111111111111'
+const USDC = getTokenAddress('USDC', 8453) as Hex
+// Base confirmations in the ingester's chain config
+const CONFIRMATIONS = 5
+
+let anvil: Anvil
+let token: { abi: Abi; bytecode: Hex }
+let bridge: { abi: Abi; bytecode: Hex }
+
+// Loaded after BASE_RPC_URL is set, since RPC URLs are read at import
+let POST: typeof import('@/app/api/ens/receipts/route').POST
+let receipts: typeof import('@/lib/ens/receipt-store')
+let storage: typeof import('@/lib/storage/repository')
+let backends: typeof import('@/lib/storage/backend')
+
+beforeAll(async () => {
+  token = compileContract('Mocks.sol', 'MockERC20')
+  bridge = compileContract('Mocks.sol', 'MockLiFiDiamond')
+  anvil = await startAnvil({ chainId: 8453 })
+  await anvil.deployAt(USDC, token)
+  await anvil.deployAt(LIFI_DIAMOND, bridge)
+  await send(USDC, token.abi, 'mint', [anvil.account.address, parseUnits('1000', 6)])
+
+  vi.stubEnv('BASE_RPC_URL', anvil.rpcUrl)
+  vi.resetModules()
+  POST = (await import('@/app/api/ens/receipts/route')).POST
+  receipts = await import('@/lib/ens/receipt-store')
+  storage = await import('@/lib/storage/repository')
+  backends = await import('@/lib/storage/backend')
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await anvil?.stop()
+})
+
+beforeEach(() => {
+  storage.setStorageBackend(backends.createMemoryBackend())
+})
+
+async function send(address: Hex, abi: Abi, functionName: string, args: unknown[]): Promise<Hex> {
+  const hash = await anvil.walletClient.writeContract({
+    address,
+    abi,
+    functionName,
+    args,
+    account: anvil.account,
+    chain: anvil.chain,
+  })
+  await anvil.publicClient.waitForTransactionReceipt({ hash })
+  return hash
+}
+
+async function post(txHash: Hex) {
+  const res = await POST(new NextRequest('http://localhost/api/ens/receipts', {
+    method: 'POST',
+    body: JSON.stringify({ txHash, chain: 'base', token: 'USDC', recipient: RECEIVER }),
+  }))
+  return { status: res.status, body: await res.json() }
+}
+
+describe('POST /api/ens/receipts', () => {
+  it('waits for the confirmations the ingester requires before storing', async () => {
+    const txHash = await send(USDC, token.abi, 'transfer', [RECEIVER, parseUnits('25', 6)])
+    await anvil.testClient.mine({ blocks: CONFIRMATIONS - 1 })
+
+    expect(await post(txHash)).toMatchObject({ status: 202, body: { pending: true } })
+    expect(await receipts.hasReceipt(txHash)).toBe(false)
+
+    await anvil.testClient.mine({ blocks: 1 })
+    expect((await post(txHash)).status).toBe(200)
+    expect(await receipts.getReceiptByTxHash(txHash)).toMatchObject({
+      amount: '25',
+      sender: anvil.account.address.toLowerCase(),
+    })
+  })
+
+  it('rejects a bridge completion emitted by a look-alike contract', async () => {
+    const lookalike = await anvil.deploy(bridge)
+    const txHash = await send(lookalike, bridge.abi, 'announce', [
+      `0x${'34'.repeat(32)}`,
+      USDC,
+      RECEIVER,
+      parseUnits('25', 6),
+    ])
+    await anvil.testClient.mine({ blocks: CONFIRMATIONS })
+
+    const { status, body } = await post(txHash)
+
+    expect(status).toBe(422)
+    expect(body.error).toBe(`Payment verification failed: No payment to ${RECEIVER} found in transaction`)
+    expect(await receipts.hasReceipt(txHash)).toBe(false)
+  })
+})
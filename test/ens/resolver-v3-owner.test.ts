@@ -0,0 +1,62 @@
+/**
+ * PayAgentResolverV3 ownership on anvil: only the owner manages the
+ * signer set, and ownership can't be handed to the zero address.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { BaseError, ContractFunctionRevertedError, zeroAddress, type Abi, type Hex } from 'viem'
+import { startAnvil, type Anvil } from '../helpers/anvil'
+import { compileContract } from '../helpers/solidity'
+
+const GATEWAY_SIGNER = '0x2222222222222222222222222222222222222222'
+const NEW_OWNER = '0x3333333333333333333333333333333333333333'
+
+let anvil: Anvil
+let resolverV3: { abi: Abi; bytecode: Hex }
+
+beforeAll(async () => {
+  resolverV3 = compileContract('PayAgentResolverV3.sol', 'PayAgentResolverV3')
+  anvil = await startAnvil()
+})
+
+afterAll(async () => {
+  await anvil?.stop()
+})
+
+/** Name of the custom error `functionName(args)` reverts with, if any */
+async function revertOf(address: Hex, functionName: string, args: unknown[]): Promise<string | undefined> {
+  try {
+    await anvil.publicClient.simulateContract({ address, abi: resolverV3.abi, functionName, args, account: anvil.account })
+    return undefined
+  } catch (error) {
+    const reverted = error instanceof BaseError ? error.walk((e) => e instanceof ContractFunctionRevertedError) : null
+    return reverted instanceof ContractFunctionRevertedError ? reverted.data?.errorName : undefined
+  }
+}
+
+describe('PayAgentResolverV3.transferOwnership', () => {
+  it('refuses the zero address', async () => {
+    const resolver = await anvil.deploy(resolverV3, [GATEWAY_SIGNER, 'http://localhost/{sender}/{data}.json'])
+
+    expect(await revertOf(resolver, 'transferOwnership', [zeroAddress])).toBe('InvalidOwner')
+    expect(await anvil.publicClient.readContract({ address: resolver, abi: resolverV3.abi, functionName: 'owner' }))
+      .toBe(anvil.account.address)
+  })
+
+  it('hands the signer set to the new owner', async () => {
+    const resolver = await anvil.deploy(resolverV3, [GATEWAY_SIGNER, 'http://localhost/{sender}/{data}.json'])
+    const hash = await anvil.walletClient.writeContract({
+      address: resolver,
+      abi: resolverV3.abi,
+      functionName: 'transferOwnership',
+      args: [NEW_OWNER],
+      account: anvil.account,
+      chain: anvil.chain,
+    })
+    await anvil.publicClient.waitForTransactionReceipt({ hash })
+
+    expect(await anvil.publicClient.readContract({ address: resolver, abi: resolverV3.abi, functionName: 'owner' }))
+      .toBe(NEW_OWNER)
+    expect(await revertOf(resolver, 'addSigner', [NEW_OWNER])).toBe('Unauthorized')
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Local anvil node for tests that need a real chain.
+ *
+ * The binary comes from the @foundry-rs/anvil dev dependency, or ANVIL_BIN
+ * if set. Each node listens on a free port and is stopped by `stop()`.
+ * Tests that need mainnet contracts at their real addresses put stand-ins
+ * there with `testClient.setCode` rather than forking, so they run offline.
+ */
+
+import { spawn } from 'child_process'
+import { createServer } from 'net'
+import path from 'path'
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  type Abi,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type TestClient,
+  type WalletClient,
+} from 'viem'
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { defineChain } from 'viem/utils'
+
+// Deployer and sender for test transactions, funded when the node starts
+export const ANVIL_ACCOUNT = privateKeyToAccount(`0x${'a1'.repeat(32)}`)
+
+export type Anvil = {
+  rpcUrl: string
+  chain: Chain
+  account: PrivateKeyAccount
+  publicClient: PublicClient
+  walletClient: WalletClient
+  testClient: TestClient
+  /** Deploy `bytecode` with constructor `args` and return its address */
+  deploy(contract: { abi: Abi; bytecode: Hex }, args?: readonly unknown[]): Promise<Hex>
+  /**
+   * Put the runtime code of `contract` at `address`, e.g. a mock at a real
+   * token address. Constructor state isn't carried over.
+   */
+  deployAt(address: Hex, contract: { abi: Abi; bytecode: Hex }): Promise<void>
+  stop(): Promise<void>
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer()
+    server.once('error', reject)
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number }
+      server.close(() => resolve(port))
+    })
+  })
+}
+
+async function waitForRpc(rpcUrl: string, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      })
+      if (res.ok) return
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+  throw new Error(`anvil did not start within ${timeoutMs}ms`)
+}
+
+/**
+ * Start anvil with `chainId` (default 31337).
+ */
+export async function startAnvil(options: { chainId?: number } = {}): Promise<Anvil> {
+  const chainId = options.chainId ?? 31337
+  const port = await freePort()
+  const rpcUrl = `http://127.0.0.1:${port}`
+  const bin = process.env.ANVIL_BIN ?? path.join(process.cwd(), 'node_modules', '.bin', 'anvil')
+
+  const child = spawn(bin, ['--port', String(port), '--chain-id', String(chainId), '--silent'], {
+    stdio: ['ignore', 'ignore', 'pipe'],
+  })
+  let stderr = ''
+  child.stderr?.on('data', (chunk) => { stderr += chunk })
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()))
+
+  try {
+    await Promise.race([
+      waitForRpc(rpcUrl, 30_000),
+      exited.then(() => { throw new Error(`anvil exited: ${stderr}`) }),
+    ])
+  } catch (error) {
+    child.kill('SIGTERM')
+    throw error
+  }
+
+  const chain = defineChain({
+    id: chainId,
+    name: 'Anvil',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  })
+  const transport = http(rpcUrl)
+  // Blocks are mined on demand, so the head is never served from a cache
+  const publicClient = createPublicClient({ chain, transport, pollingInterval: 100, cacheTime: 0 }) as PublicClient
+  const walletClient = createWalletClient({ chain, transport, account: ANVIL_ACCOUNT })
+  const testClient = createTestClient({ chain, transport, mode: 'anvil' })
+  await testClient.setBalance({ address: ANVIL_ACCOUNT.address, value: BigInt(10) ** BigInt(22) })
+
+  const deploy: Anvil['deploy'] = async (contract, args = []) => {
+    const hash = await walletClient.deployContract({
+      abi: contract.abi,
+      bytecode: contract.bytecode,
+      args,
+      account: ANVIL_ACCOUNT,
+      chain,
+    })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (!receipt.contractAddress) throw new Error('Deployment failed')
+    return receipt.contractAddress
+  }
+
+  return {
+    rpcUrl,
+    chain,
+    account: ANVIL_ACCOUNT,
+    publicClient,
+    walletClient,
+    testClient,
+    deploy,
+    async deployAt(address, contract) {
+      const deployed = await deploy(contract)
+      const code = await publicClient.getCode({ address: deployed })
+      if (!code) throw new Error('Deployment left no code')
+      await testClient.setCode({ address, bytecode: code })
+    },
+    async stop() {
+      if (child.exitCode === null) {
+        child.kill('SIGTERM')
+        await exited
+      }
+    },
+  }
+}
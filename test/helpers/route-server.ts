@@ -0,0 +1,64 @@
+/**
+ * Serves app router handlers over a local HTTP server, so clients that
+ * fetch by URL (viem's CCIP-Read, webhook senders) can call them in tests
+ * without a Next.js server.
+ */
+
+import { createServer, type IncomingMessage } from 'http'
+import { NextRequest } from 'next/server'
+
+type RouteContext = { params: Promise<{ params?: string[] }> }
+type RouteHandler = (req: NextRequest, ctx: RouteContext) => Response | Promise<Response>
+
+export type RouteServer = {
+  /** URL of `basePath` on this server, e.g. http://127.0.0.1:1234/api/ens/gateway */
+  url: string
+  /** Requests received, oldest first */
+  requests: Array<{ method: string; path: string }>
+  close(): Promise<void>
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/**
+ * Serve `handlers` at `basePath`. Path segments after it are passed to the
+ * handler as the optional catch-all `params`, as for [[...params]] routes.
+ */
+export async function serveRoute(basePath: string, handlers: Partial<Record<string, RouteHandler>>): Promise<RouteServer> {
+  const requests: RouteServer['requests'] = []
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1')
+    const method = req.method ?? 'GET'
+    requests.push({ method, path: url.pathname })
+
+    const handler = handlers[method]
+    if (!url.pathname.startsWith(basePath) || !handler) {
+      res.writeHead(404).end()
+      return
+    }
+
+    const rest = url.pathname.slice(basePath.length).split('/').filter(Boolean).map(decodeURIComponent)
+    const body = method === 'GET' || method === 'HEAD' ? undefined : await readBody(req)
+    const response = await handler(
+      new NextRequest(url, { method, headers: req.headers as Record<string, string>, body }),
+      { params: Promise.resolve({ params: rest.length > 0 ? rest : undefined }) },
+    )
+
+    res.writeHead(response.status, Object.fromEntries(response.headers.entries()))
+    res.end(Buffer.from(await response.arrayBuffer()))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as { port: number }
+
+  return {
+    url: `http://127.0.0.1:${port}${basePath}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Compiles the contracts under contracts/src (and test-only contracts under
+ * test/contracts) with solc-js, using the settings of contracts/foundry.toml,
+ * so tests can deploy them to anvil without forge.
+ */
+
+import fs from 'fs'
+import { createRequire } from 'module'
+import path from 'path'
+import type { Abi, Hex } from 'viem'
+
+type Solc = {
+  compile(input: string, callbacks: { import(importPath: string): { contents: string } | { error: string } }): string
+}
+
+type SolcOutput = {
+  errors?: Array<{ severity: 'error' | 'warning'; formattedMessage: string }>
+  contracts?: Record<string, Record<string, { abi: Abi; evm: { bytecode: { object: string } } }>>
+}
+
+const solc = createRequire(import.meta.url)('solc') as Solc
+
+const ROOT = process.cwd()
+const SOURCE_DIRS = [path.join(ROOT, 'contracts', 'src'), path.join(ROOT, 'test', 'contracts')]
+const IMPORT_DIRS = [...SOURCE_DIRS, path.join(ROOT, 'node_modules'), path.join(ROOT, 'contracts', 'node_modules')]
+
+// viaIR compiles take a while; each file is compiled once per test run
+const compiled = new Map<string, SolcOutput>()
+
+function findFile(dirs: string[], file: string): string | null {
+  for (const dir of dirs) {
+    const candidate = path.join(dir, file)
+    if (fs.existsSync(candidate)) return candidate
+  }
+  return null
+}
+
+function compileFile(file: string): SolcOutput {
+  const cached = compiled.get(file)
+  if (cached) return cached
+
+  const sourcePath = findFile(SOURCE_DIRS, file)
+  if (!sourcePath) throw new Error(`Contract source ${file} not found`)
+
+  const input = {
+    language: 'Solidity',
+    sources: { [file]: { content: fs.readFileSync(sourcePath, 'utf8') } },
+    settings: {
+      evmVersion: 'cancun',
+      viaIR: true,
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  }
+  const output = JSON.parse(solc.compile(JSON.stringify(input), {
+    import(importPath) {
+      const found = findFile(IMPORT_DIRS, importPath)
+      return found ? { contents: fs.readFileSync(found, 'utf8') } : { error: `File not found: ${importPath}` }
+    },
+  })) as SolcOutput
+
+  const errors = (output.errors ?? []).filter((e) => e.severity === 'error')
+  if (errors.length > 0) {
+    throw new Error(`Compiling ${file} failed:\n${errors.map((e) => e.formattedMessage).join('\n')}`)
+  }
+  compiled.set(file, output)
+  return output
+}
+
+/**
+ * ABI and creation bytecode of contract `name` in `file` (a path relative to
+ * contracts/src or test/contracts).
+ */
+export function compileContract(file: string, name: string): { abi: Abi; bytecode: Hex } {
+  const contract = compileFile(file).contracts?.[file]?.[name]
+  if (!contract) throw new Error(`Contract ${name} not found in ${file}`)
+  return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` }
+}
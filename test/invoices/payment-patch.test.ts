@@ -0,0 +1,164 @@
+/**
+ * Recording invoice payments through PATCH /api/invoice, verified against
+ * anvil standing in for Base (BASE_RPC_URL points at it). LI.FI's status
+ * API is mocked; the destination transaction it reports is real.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { parseUnits, type Abi, type Hex } from 'viem'
+import type { BridgeStatus } from '@/lib/routing/bridge-status'
+import type { Invoice } from '@/lib/invoices/lifecycle'
+import { LIFI_DIAMOND } from '@/lib/routing/payment-sources'
+import { getTokenAddress } from '@/lib/routing/tokens'
+import { startAnvil, type Anvil } from '../helpers/anvil'
+import { compileContract } from '../helpers/solidity'
+
+const bridgeStatus = vi.hoisted(() => ({ next: { status: 'pending' } as BridgeStatus }))
+
+vi.mock('@/lib/routing/bridge-status', () => ({
+  getBridgeStatus: vi.fn(async () => bridgeStatus.next),
+}))
+
+const RECEIVER = '0x1111111111111111111111111111111111111111'
+const PAYER = '0x4444444444444444444444444444444444444444'
+const USDC = getTokenAddress('USDC', 8453) as Hex
+
+let anvil: Anvil
+let token: { abi: Abi; bytecode: Hex }
+let bridge: { abi: Abi; bytecode: Hex }
+
+// Loaded after BASE_RPC_URL is set, since RPC URLs are read at import
+let PATCH: typeof import('@/app/api/invoice/route').PATCH
+let store: typeof import('@/lib/invoices/store')
+let lifecycle: typeof import('@/lib/invoices/lifecycle')
+let getBridgeStatus: typeof import('@/lib/routing/bridge-status').getBridgeStatus
+let storage: typeof import('@/lib/storage/repository')
+let backends: typeof import('@/lib/storage/backend')
+
+beforeAll(async () => {
+  token = compileContract('Mocks.sol', 'MockERC20')
+  bridge = compileContract('Mocks.sol', 'MockLiFiDiamond')
+  anvil = await startAnvil({ chainId: 8453 })
+  await anvil.deployAt(USDC, token)
+  await anvil.deployAt(LIFI_DIAMOND, bridge)
+  await send(USDC, token.abi, 'mint', [anvil.account.address, parseUnits('1000', 6)])
+  await send(USDC, token.abi, 'mint', [LIFI_DIAMOND, parseUnits('1000', 6)])
+
+  vi.stubEnv('BASE_RPC_URL', anvil.rpcUrl)
+  vi.resetModules()
+  PATCH = (await import('@/app/api/invoice/route')).PATCH
+  store = await import('@/lib/invoices/store')
+  lifecycle = await import('@/lib/invoices/lifecycle')
+  getBridgeStatus = (await import('@/lib/routing/bridge-status')).getBridgeStatus
+  storage = await import('@/lib/storage/repository')
+  backends = await import('@/lib/storage/backend')
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  await anvil?.stop()
+})
+
+beforeEach(async () => {
+  storage.setStorageBackend(backends.createMemoryBackend())
+  vi.mocked(getBridgeStatus).mockClear()
+  await store.saveInvoice(lifecycle.createInvoice(
+    { id: 'inv_1', receiverAddress: RECEIVER, amount: '25', token: 'USDC' },
+    RECEIVER,
+    { at: new Date(Date.now() - 60 * 60 * 1000) },
+  ))
+})
+
+async function send(address: Hex, abi: Abi, functionName: string, args: unknown[]): Promise<Hex> {
+  const hash = await anvil.walletClient.writeContract({
+    address,
+    abi,
+    functionName,
+    args,
+    account: anvil.account,
+    chain: anvil.chain,
+  })
+  await anvil.publicClient.waitForTransactionReceipt({ hash })
+  return hash
+}
+
+async function patch(body: Record<string, unknown>) {
+  const res = await PATCH(new NextRequest('http://localhost/api/invoice', {
+    method: 'PATCH',
+    body: JSON.stringify({ id: 'inv_1', status: 'paid', ...body }),
+  }))
+  return { status: res.status, body: await res.json() }
+}
+
+describe('PATCH /api/invoice payments', () => {
+  it('records a same-chain payment verified on that chain', async () => {
+    const txHash = await send(USDC, token.abi, 'transfer', [RECEIVER, parseUnits('25', 6)])
+
+    const { status, body } = await patch({ txHash, chain: 'base', fromChain: 'base' })
+
+    expect(status).toBe(200)
+    expect(body).toMatchObject({ status: 'paid', amountDue: '0', verification: { chain: 'base', amount: '25' } })
+    expect(body.payments).toEqual([expect.objectContaining({ txHash: txHash.toLowerCase(), payer: anvil.account.address.toLowerCase() })])
+    expect(getBridgeStatus).not.toHaveBeenCalled()
+  })
+
+  it('answers 202 until the bridge has delivered a cross-chain payment', async () => {
+    bridgeStatus.next = { status: 'pending' }
+
+    const { status, body } = await patch({ txHash: `0x${'aa'.repeat(32)}`, chain: 'base', fromChain: 'arbitrum' })
+
+    expect(status).toBe(202)
+    expect(body).toMatchObject({ pending: true })
+    expect(getBridgeStatus).toHaveBeenCalledWith(`0x${'aa'.repeat(32)}`, 42161, 8453)
+    expect((await store.getInvoice('inv_1'))?.status).toBe('pending')
+  })
+
+  it('verifies a delivered cross-chain payment on the destination chain, paid by the source sender', async () => {
+    const sourceTx = `0x${'bb'.repeat(32)}`
+    const destinationTx = await send(LIFI_DIAMOND, bridge.abi, 'complete', [
+      `0x${'12'.repeat(32)}`,
+      USDC,
+      RECEIVER,
+      parseUnits('25', 6),
+    ])
+    bridgeStatus.next = { status: 'done', txHash: destinationTx, chainId: 8453, fromAddress: PAYER }
+
+    const { status, body } = await patch({ txHash: sourceTx, chain: 'base', fromChain: 'arbitrum' })
+
+    expect(status).toBe(200)
+    expect(body).toMatchObject({ status: 'paid', verification: { chain: 'base', evidence: expect.arrayContaining(['lifi-bridge']) } })
+    expect((body as Invoice).payments).toEqual([
+      expect.objectContaining({ txHash: destinationTx.toLowerCase(), chain: 'base', payer: PAYER }),
+    ])
+  })
+
+  it('reports a failed bridge transfer', async () => {
+    bridgeStatus.next = { status: 'failed', error: 'The bridge refunded the transfer' }
+
+    const { status, body } = await patch({ txHash: `0x${'cc'.repeat(32)}`, chain: 'base', fromChain: 'optimism' })
+
+    expect(status).toBe(422)
+    expect(body.error).toBe('Payment verification failed: The bridge refunded the transfer')
+  })
+
+  it('rejects a payment mined before the invoice was created', async () => {
+    const txHash = await send(USDC, token.abi, 'transfer', [RECEIVER, parseUnits('25', 6)])
+    await store.saveInvoice(lifecycle.createInvoice(
+      { id: 'inv_1', receiverAddress: RECEIVER, amount: '25', token: 'USDC' },
+      RECEIVER,
+      { at: new Date(Date.now() + 60 * 60 * 1000) },
+    ))
+
+    const { status, body } = await patch({ txHash, chain: 'base' })
+
+    expect(status).toBe(422)
+    expect(body.error).toBe('Payment verification failed: Transaction was mined before the invoice was created')
+  })
+
+  it('rejects an unsupported source chain', async () => {
+    const { status } = await patch({ txHash: `0x${'dd'.repeat(32)}`, chain: 'base', fromChain: 'solana' })
+
+    expect(status).toBe(400)
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * Invoice precision per fiat currency: ISO 4217 minor units, so yen
+ * invoices have no fractional amounts.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { computeInvoiceTotals, getInvoiceDecimals } from '@/lib/invoices/pricing'
+
+describe('getInvoiceDecimals', () => {
+  it('uses the currency minor unit for fiat invoices and token decimals otherwise', () => {
+    expect(getInvoiceDecimals({ token: 'USDC', currency: 'USD' })).toBe(2)
+    expect(getInvoiceDecimals({ token: 'USDC', currency: 'EUR' })).toBe(2)
+    expect(getInvoiceDecimals({ token: 'USDC', currency: 'JPY' })).toBe(0)
+    expect(getInvoiceDecimals({ token: 'USDC' })).toBe(6)
+  })
+})
+
+describe('computeInvoiceTotals', () => {
+  it('rounds yen totals to whole yen', () => {
+    const decimals = getInvoiceDecimals({ token: 'USDC', currency: 'JPY' })
+
+    const result = computeInvoiceTotals(
+      { lineItems: [{ description: 'Hosting', quantity: '3', unitPrice: '1999' }], taxRate: '10' },
+      decimals,
+    )
+
+    expect(result).toEqual({
+      totals: { subtotal: '5997', discountAmount: '0', taxAmount: '600', total: '6597' },
+    })
+  })
+
+  it('rejects fractional yen', () => {
+    expect(computeInvoiceTotals({ amount: '1000.50' }, 0)).toEqual({
+      error: 'amount must be a number with at most 0 decimals',
+    })
+  })
+
+  it('keeps cents for dollar invoices', () => {
+    const result = computeInvoiceTotals({ amount: '19.99', taxRate: '8.25' }, getInvoiceDecimals({ token: 'USDC', currency: 'USD' }))
+
+    expect(result).toEqual({
+      totals: { subtotal: '19.99', discountAmount: '0', taxAmount: '1.65', total: '21.64' },
+    })
+  })
+})
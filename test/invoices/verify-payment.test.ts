@@ -0,0 +1,186 @@
+/**
+ * verifyInvoicePayment against transactions mined on anvil (chain ID 8453),
+ * with a mock ERC-20 at the Base USDC address and a mock LI.FI diamond at
+ * the diamond's address paying out bridged transfers. Look-alike bridges
+ * and vaults elsewhere must not count.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { parseUnits, type Abi, type Hex } from 'viem'
+import { verifyInvoicePayment } from '@/lib/invoices/verify-payment'
+import { createInvoice, type Invoice } from '@/lib/invoices/lifecycle'
+import { setPreference } from '@/lib/ens/store'
+import { LIFI_DIAMOND } from '@/lib/routing/payment-sources'
+import { getTokenAddress } from '@/lib/routing/tokens'
+import { createMemoryBackend } from '@/lib/storage/backend'
+import { setStorageBackend } from '@/lib/storage/repository'
+import { startAnvil, type Anvil } from '../helpers/anvil'
+import { compileContract } from '../helpers/solidity'
+
+const RECEIVER = '0x1111111111111111111111111111111111111111'
+const OTHER = '0x3333333333333333333333333333333333333333'
+const USDC = getTokenAddress('USDC', 8453) as Hex
+
+let anvil: Anvil
+let token: { abi: Abi; bytecode: Hex }
+let bridge: { abi: Abi; bytecode: Hex }
+let vault: { abi: Abi; bytecode: Hex }
+
+beforeAll(async () => {
+  token = compileContract('Mocks.sol', 'MockERC20')
+  bridge = compileContract('Mocks.sol', 'MockLiFiDiamond')
+  vault = compileContract('Mocks.sol', 'MockVault')
+  anvil = await startAnvil({ chainId: 8453 })
+  await anvil.deployAt(USDC, token)
+  await anvil.deployAt(LIFI_DIAMOND, bridge)
+  await send(USDC, token.abi, 'mint', [anvil.account.address, parseUnits('1000', 6)])
+  await send(USDC, token.abi, 'mint', [LIFI_DIAMOND, parseUnits('1000', 6)])
+})
+
+beforeEach(() => {
+  setStorageBackend(createMemoryBackend())
+})
+
+afterAll(async () => {
+  await anvil?.stop()
+})
+
+async function send(address: Hex, abi: Abi, functionName: string, args: unknown[], gas?: bigint): Promise<Hex> {
+  const hash = await anvil.walletClient.writeContract({
+    address,
+    abi,
+    functionName,
+    args,
+    account: anvil.account,
+    chain: anvil.chain,
+    ...(gas && { gas }),
+  })
+  await anvil.publicClient.waitForTransactionReceipt({ hash })
+  return hash
+}
+
+function invoice(fields: { amount?: string; createdAt?: Date } = {}): Invoice {
+  return createInvoice(
+    { id: 'inv_test', receiverAddress: RECEIVER, amount: fields.amount ?? '25', token: 'USDC' },
+    RECEIVER,
+    { at: fields.createdAt ?? new Date(Date.now() - 60 * 60 * 1000) },
+  )
+}
+
+describe('verifyInvoicePayment', () => {
+  it('verifies a USDC transfer to the receiver', async () => {
+    const txHash = await send(USDC, token.abi, 'transfer', [RECEIVER, parseUnits('25', 6)])
+
+    const result = await verifyInvoicePayment(invoice(), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toMatchObject({
+      verified: true,
+      txHash: txHash.toLowerCase(),
+      chain: 'base',
+      chainId: 8453,
+      from: anvil.account.address.toLowerCase(),
+      kinds: ['erc20-transfer'],
+      token: 'USDC',
+      paidAmount: '25',
+      amount: '25',
+    })
+  })
+
+  it('rejects a transaction mined before the invoice was created', async () => {
+    const txHash = await send(USDC, token.abi, 'transfer', [RECEIVER, parseUnits('25', 6)])
+    const block = await anvil.publicClient.getBlock()
+    const createdAt = new Date((Number(block.timestamp) + 60) * 1000)
+
+    const result = await verifyInvoicePayment(invoice({ createdAt }), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toEqual({ verified: false, error: 'Transaction was mined before the invoice was created' })
+  })
+
+  it('accepts a transaction mined in the second the invoice was created', async () => {
+    const txHash = await send(USDC, token.abi, 'transfer', [RECEIVER, parseUnits('25', 6)])
+    const receipt = await anvil.publicClient.getTransactionReceipt({ hash: txHash })
+    const block = await anvil.publicClient.getBlock({ blockHash: receipt.blockHash })
+    const createdAt = new Date(Number(block.timestamp) * 1000 + 900)
+
+    const result = await verifyInvoicePayment(invoice({ createdAt }), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result.verified).toBe(true)
+  })
+
+  it('rejects a transfer to someone else', async () => {
+    const txHash = await send(USDC, token.abi, 'transfer', [OTHER, parseUnits('25', 6)])
+
+    const result = await verifyInvoicePayment(invoice(), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toEqual({ verified: false, error: `No payment to ${RECEIVER} found in transaction` })
+  })
+
+  it('rejects a reverted transaction', async () => {
+    // A fixed gas limit skips estimation, which would refuse to send it
+    const txHash = await send(USDC, token.abi, 'transfer', [RECEIVER, parseUnits('1000000', 6)], BigInt(100_000))
+
+    const result = await verifyInvoicePayment(invoice(), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toEqual({ verified: false, error: 'Transaction reverted' })
+  })
+
+  it('rejects an unknown transaction', async () => {
+    const result = await verifyInvoicePayment(invoice(), { txHash: `0x${'ee'.repeat(32)}`, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toMatchObject({ verified: false, error: expect.stringMatching(/not found on base/) })
+  })
+
+  it('verifies a LI.FI bridge completion on the destination chain without counting it twice', async () => {
+    const txHash = await send(LIFI_DIAMOND, bridge.abi, 'complete', [
+      `0x${'12'.repeat(32)}`,
+      USDC,
+      RECEIVER,
+      parseUnits('10', 6),
+    ])
+
+    const result = await verifyInvoicePayment(invoice({ amount: '10' }), { txHash, chain: 8453 }, anvil.publicClient)
+
+    expect(result).toMatchObject({ verified: true, token: 'USDC', paidAmount: '10', amount: '10' })
+    expect(result.verified && [...result.kinds].sort()).toEqual(['erc20-transfer', 'lifi-bridge'])
+  })
+  it('ignores a bridge completion emitted by a look-alike contract', async () => {
+    const lookalike = await anvil.deploy(bridge)
+    const txHash = await send(lookalike, bridge.abi, 'announce', [
+      `0x${'34'.repeat(32)}`,
+      USDC,
+      RECEIVER,
+      parseUnits('25', 6),
+    ])
+
+    const result = await verifyInvoicePayment(invoice(), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toEqual({ verified: false, error: `No payment to ${RECEIVER} found in transaction` })
+  })
+
+  it('ignores a deposit into an unlisted vault holding USDC', async () => {
+    const lookalike = await anvil.deploy(vault, [USDC])
+    const txHash = await send(lookalike, vault.abi, 'deposit', [parseUnits('25', 6), RECEIVER])
+
+    const result = await verifyInvoicePayment(invoice(), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toEqual({ verified: false, error: `No payment to ${RECEIVER} found in transaction` })
+  })
+
+  it("counts a deposit into the receiver's own PayConfig vault", async () => {
+    const own = await anvil.deploy(vault, [USDC])
+    // The signature is checked by the API route, not the store
+    await setPreference({
+      ensName: 'alice.eth',
+      signer: RECEIVER,
+      signature: '0x',
+      nonce: BigInt(0),
+      deadline: BigInt(0),
+      config: { version: '2.0', receive: { token: 'USDC', chain: 8453, vault: own } },
+    })
+    const txHash = await send(own, vault.abi, 'deposit', [parseUnits('25', 6), RECEIVER])
+
+    const result = await verifyInvoicePayment(invoice(), { txHash, chain: 'base' }, anvil.publicClient)
+
+    expect(result).toMatchObject({ verified: true, kinds: ['vault-deposit'], token: 'USDC', amount: '25' })
+  })
+})
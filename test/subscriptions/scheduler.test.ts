@@ -0,0 +1,249 @@
+/**
+ * Subscription scheduler driven by a fake clock: which subscriptions are
+ * due, catching up on missed periods, retrying a failed run without
+ * duplicate invoices, and the backoff on the invoice.created webhooks it
+ * emits.
+ */
+
+import { createServer, type Server } from 'http'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { billSubscription, runSubscriptionScheduler, type Clock } from '@/lib/subscriptions/scheduler'
+import { getSubscription, saveSubscription } from '@/lib/subscriptions/store'
+import type { Subscription, SubscriptionFrequency } from '@/lib/subscriptions/schedule'
+import { getInvoice, listInvoices } from '@/lib/invoices/store'
+import { backoffDelay, processDueDeliveries } from '@/lib/webhooks/delivery'
+import { listDeliveries, saveEndpoint } from '@/lib/webhooks/store'
+import { createMemoryBackend } from '@/lib/storage/backend'
+import { setStorageBackend } from '@/lib/storage/repository'
+
+// Number of upcoming saveInvoice calls that fail, to simulate a storage outage
+const outage = vi.hoisted(() => ({ failures: 0 }))
+
+vi.mock('@/lib/invoices/store', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/invoices/store')>()
+  return {
+    ...actual,
+    saveInvoice: async (...args: Parameters<typeof actual.saveInvoice>) => {
+      if (outage.failures > 0) {
+        outage.failures--
+        throw new Error('Storage unavailable')
+      }
+      return actual.saveInvoice(...args)
+    },
+  }
+})
+
+const RECEIVER = '0x1111111111111111111111111111111111111111'
+const PAYER = '0x2222222222222222222222222222222222222222'
+
+let now: Date
+const clock: Clock = () => now
+
+function advance(ms: number) {
+  now = new Date(now.getTime() + ms)
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const WEEK = 7 * DAY
+
+async function subscribe(
+  id: string,
+  frequency: SubscriptionFrequency,
+  startAt: string,
+  extra: Partial<Subscription> = {},
+): Promise<Subscription> {
+  const subscription: Subscription = {
+    id,
+    receiverAddress: RECEIVER,
+    receiverEns: 'alice.eth',
+    payerAddress: PAYER,
+    amount: '25',
+    token: 'USDC',
+    memo: 'Hosting',
+    frequency,
+    status: 'active',
+    startAt,
+    nextPeriod: 0,
+    nextRunAt: startAt,
+    invoiceIds: [],
+    createdAt: startAt,
+    updatedAt: startAt,
+    ...extra,
+  }
+  await saveSubscription(subscription)
+  return subscription
+}
+
+beforeEach(() => {
+  setStorageBackend(createMemoryBackend())
+  outage.failures = 0
+  now = new Date('2026-03-02T09:00:00.000Z')
+})
+
+describe('runSubscriptionScheduler', () => {
+  it('bills a subscription once its period starts, and not again until the next', async () => {
+    await subscribe('sub_weekly', 'weekly', '2026-03-03T09:00:00.000Z')
+
+    expect((await runSubscriptionScheduler(clock)).invoiceIds).toEqual([])
+
+    advance(DAY)
+    const first = await runSubscriptionScheduler(clock)
+    expect(first).toMatchObject({ processed: 1, invoiceIds: ['sub_weekly-1'], errors: [] })
+    expect(await getInvoice('sub_weekly-1')).toMatchObject({
+      status: 'pending',
+      payerAddress: PAYER,
+      amount: '25',
+      periodStart: '2026-03-03T09:00:00.000Z',
+      periodEnd: '2026-03-10T09:00:00.000Z',
+      createdAt: now.toISOString(),
+    })
+
+    advance(WEEK - 1)
+    expect((await runSubscriptionScheduler(clock)).processed).toBe(0)
+
+    advance(1)
+    expect((await runSubscriptionScheduler(clock)).invoiceIds).toEqual(['sub_weekly-2'])
+    expect((await getSubscription('sub_weekly'))?.nextRunAt).toBe('2026-03-17T09:00:00.000Z')
+  })
+
+  it('catches up on every period missed since the last run', async () => {
+    await subscribe('sub_late', 'weekly', '2026-02-02T09:00:00.000Z')
+
+    const run = await runSubscriptionScheduler(clock)
+
+    expect(run.invoiceIds).toEqual(['sub_late-1', 'sub_late-2', 'sub_late-3', 'sub_late-4', 'sub_late-5'])
+    expect((await getInvoice('sub_late-5'))?.periodStart).toBe('2026-03-02T09:00:00.000Z')
+    expect((await getSubscription('sub_late'))?.nextPeriod).toBe(5)
+  })
+
+  it('bills at most twelve periods per run and continues on the next run', async () => {
+    await subscribe('sub_stale', 'monthly', '2024-09-02T09:00:00.000Z')
+
+    expect((await runSubscriptionScheduler(clock)).invoiceIds).toHaveLength(12)
+    expect((await runSubscriptionScheduler(clock)).invoiceIds).toHaveLength(7)
+    expect((await runSubscriptionScheduler(clock)).invoiceIds).toHaveLength(0)
+    expect((await getInvoice('sub_stale-19'))?.periodStart).toBe('2026-03-02T09:00:00.000Z')
+  })
+
+  it('keeps monthly periods on the start day, clamped to short months', async () => {
+    await subscribe('sub_month_end', 'monthly', '2026-01-31T00:00:00.000Z')
+    now = new Date('2026-03-31T00:00:00.000Z')
+
+    await runSubscriptionScheduler(clock)
+
+    const starts = await Promise.all(['sub_month_end-1', 'sub_month_end-2', 'sub_month_end-3'].map(getInvoice))
+    expect(starts.map((invoice) => invoice?.periodStart)).toEqual([
+      '2026-01-31T00:00:00.000Z',
+      '2026-02-28T00:00:00.000Z',
+      '2026-03-31T00:00:00.000Z',
+    ])
+  })
+
+  it('completes a subscription at its end date', async () => {
+    await subscribe('sub_ending', 'weekly', '2026-02-16T09:00:00.000Z', { endAt: '2026-03-01T00:00:00.000Z' })
+
+    const run = await runSubscriptionScheduler(clock)
+
+    expect(run.invoiceIds).toEqual(['sub_ending-1', 'sub_ending-2'])
+    expect((await getSubscription('sub_ending'))?.status).toBe('completed')
+  })
+
+  it('skips paused subscriptions', async () => {
+    await subscribe('sub_paused', 'weekly', '2026-02-23T09:00:00.000Z', { status: 'paused' })
+
+    expect(await runSubscriptionScheduler(clock)).toMatchObject({ processed: 0, invoiceIds: [] })
+    expect(await listInvoices()).toEqual([])
+  })
+
+  it('retries a failed run on the next one without skipping or duplicating periods', async () => {
+    await subscribe('sub_retry', 'weekly', '2026-02-23T09:00:00.000Z')
+    await subscribe('sub_ok', 'weekly', '2026-03-02T09:00:00.000Z')
+    outage.failures = 1
+
+    const failed = await runSubscriptionScheduler(clock)
+
+    // One subscription failing doesn't stop the others
+    expect(failed.errors).toEqual([{ subscriptionId: expect.any(String), error: 'Storage unavailable' }])
+    expect(failed.processed).toBe(1)
+    const failedId = failed.errors[0].subscriptionId
+    expect((await getSubscription(failedId))?.nextPeriod).toBe(0)
+
+    advance(60 * 1000)
+    const retried = await runSubscriptionScheduler(clock)
+    expect(retried.errors).toEqual([])
+    expect(retried.invoiceIds.every((id) => id.startsWith(`${failedId}-`))).toBe(true)
+
+    const invoiceIds = (await listInvoices()).map((invoice) => invoice.id).sort()
+    expect(invoiceIds).toEqual(['sub_ok-1', 'sub_retry-1', 'sub_retry-2'])
+  })
+
+  it('creates each period invoice once when runs overlap', async () => {
+    await subscribe('sub_overlap', 'weekly', '2026-02-16T09:00:00.000Z')
+
+    await Promise.all([runSubscriptionScheduler(clock), runSubscriptionScheduler(clock), billSubscription('sub_overlap', clock)])
+
+    const invoices = await listInvoices()
+    expect(invoices.map((invoice) => invoice.id).sort()).toEqual(['sub_overlap-1', 'sub_overlap-2', 'sub_overlap-3'])
+    expect((await getSubscription('sub_overlap'))?.invoiceIds).toEqual(['sub_overlap-1', 'sub_overlap-2', 'sub_overlap-3'])
+  })
+})
+
+describe('invoice.created webhooks from scheduled invoices', () => {
+  let server: Server
+  let responses: number[]
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(now)
+    responses = [500, 200]
+    server = createServer((req, res) => {
+      req.resume()
+      res.writeHead(responses.shift() ?? 200).end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('retries a failed delivery once its backoff has elapsed', async () => {
+    const { port } = server.address() as { port: number }
+    await saveEndpoint({
+      id: 'whe_test',
+      receiverAddress: RECEIVER,
+      url: `http://127.0.0.1:${port}/hook`,
+      secret: 'whsec_test',
+      events: ['invoice.created'],
+      active: true,
+      createdAt: now.toISOString(),
+    })
+    await subscribe('sub_hooked', 'weekly', '2026-03-02T09:00:00.000Z')
+
+    await runSubscriptionScheduler(clock)
+
+    // The first attempt runs in the background. Polled by hand: vi.waitFor
+    // would advance the fake clock
+    for (let i = 0; i < 100; i++) {
+      const [delivery] = await listDeliveries({ endpointId: 'whe_test' })
+      if (delivery?.attempts.length) break
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+    const [failed] = await listDeliveries({ endpointId: 'whe_test' })
+    expect(failed).toMatchObject({ status: 'pending', attempts: [{ statusCode: 500, error: 'HTTP 500' }] })
+    expect(failed.event.data).toMatchObject({ invoice: { id: 'sub_hooked-1' } })
+    expect(failed.nextAttemptAt).toBe(new Date(now.getTime() + backoffDelay(1)).toISOString())
+
+    advance(backoffDelay(1) - 1000)
+    vi.setSystemTime(now)
+    expect(await processDueDeliveries(now)).toEqual({ attempted: 0, succeeded: 0, failed: 0 })
+
+    advance(1000)
+    vi.setSystemTime(now)
+    expect(await processDueDeliveries(now)).toEqual({ attempted: 1, succeeded: 1, failed: 0 })
+    const [delivered] = await listDeliveries({ endpointId: 'whe_test' })
+    expect(delivered.status).toBe('succeeded')
+    expect(delivered.attempts.map((a) => a.statusCode)).toEqual([500, 200])
+  })
+})